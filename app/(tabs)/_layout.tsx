@@ -9,8 +9,11 @@ import {
   Target,
   ShoppingBag,
 } from 'lucide-react-native';
+import { useOutboxSync } from '@/hooks/useOutboxSync';
 
 export default function TabLayout() {
+  useOutboxSync();
+
   return (
     <Tabs
       screenOptions={{
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import {
   View,
   Text,
@@ -12,21 +12,40 @@ import {
   Switch,
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
-import { router } from 'expo-router';
+import { router, useLocalSearchParams } from 'expo-router';
+import { useQueryClient } from '@tanstack/react-query';
 import { ArrowLeft, Save, Plus, Clock, Target } from 'lucide-react-native';
 import { Controller, useForm } from 'react-hook-form';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useAuth } from '@/contexts/AuthContext';
-import { supabase, Exercise } from '@/lib/supabase';
+import {
+  supabase,
+  createWorkoutExerciseGroup,
+  getWorkoutExerciseGroups,
+  getWorkoutExercises,
+  saveWorkoutPlan,
+  Exercise,
+} from '@/lib/supabase';
+import { queryKeys } from '@/lib/queryKeys';
+import {
+  EXERCISE_GROUP_LABELS,
+  orderExercisesByGroup,
+  type ExerciseGroupDraft,
+} from '@/lib/exerciseGroups';
+import { getPlannedSetTypes, toStoredSetTypes, type SetType } from '@/lib/setTypes';
 import ExerciseSelector from '@/components/ExerciseSelector';
 import WorkoutExerciseCard from '@/components/WorkoutExerciseCard';
+import ReorderableList from '@/components/ReorderableList';
+import ExerciseGroupsEditor from '@/components/ExerciseGroupsEditor';
 import SegmentedControl from '@/components/SegmentedControl';
 import { useToast } from '@/components/ToastProvider';
 import { FormErrorText } from '@/components/FormErrorText';
 import { ErrorBanner } from '@/components/ErrorBanner';
 
 interface WorkoutExercise {
+  // Saved workout_exercises row, when editing an existing workout
+  id?: number;
   exercise: Exercise;
   order_index: number;
   target_sets: number;
@@ -35,12 +54,23 @@ interface WorkoutExercise {
   target_duration_seconds?: number;
   rest_seconds: number;
   notes?: string;
+  // Key of the superset/circuit draft this exercise belongs to
+  group_key?: string | null;
+  set_types?: SetType[];
 }
 
 export default function CreateWorkoutScreen() {
+  const { workoutId } = useLocalSearchParams<{ workoutId?: string }>();
+  // Set when the screen edits a saved workout instead of creating one
+  const editingId = workoutId ? Number(workoutId) : null;
   const { user } = useAuth();
+  const queryClient = useQueryClient();
   const [loading, setLoading] = useState(false);
+  const [loadingWorkout, setLoadingWorkout] = useState(!!editingId);
+  const [isDragging, setIsDragging] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Forks of premium templates can be edited but never shared
+  const [isPremiumCopy, setIsPremiumCopy] = useState(false);
   const [showExerciseSelector, setShowExerciseSelector] = useState(false);
   const { showToast } = useToast();
 
@@ -72,7 +102,7 @@ export default function CreateWorkoutScreen() {
   const {
     control,
     handleSubmit,
-    formState: { errors },
+    formState: { errors, isDirty },
     watch,
     reset,
   } = useForm<FormValues>({
@@ -88,15 +118,113 @@ export default function CreateWorkoutScreen() {
     },
   });
   const [exercises, setExercises] = useState<WorkoutExercise[]>([]);
+  const [groups, setGroups] = useState<ExerciseGroupDraft[]>([]);
+  // Exercises and groups as loaded, to tell whether an edited workout has changes
+  const savedPlan = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (editingId) loadWorkout(editingId);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [editingId]);
+
+  const loadWorkout = async (id: number) => {
+    setLoadingWorkout(true);
+    try {
+      const { data: workout, error: workoutError } = await supabase
+        .from('workouts')
+        .select('*')
+        .eq('id', id)
+        .single();
+      if (workoutError) throw workoutError;
+
+      const [savedExercises, savedGroups] = await Promise.all([
+        getWorkoutExercises(id),
+        getWorkoutExerciseGroups(id),
+      ]);
+
+      reset({
+        name: workout.name,
+        description: workout.description ?? '',
+        estimatedDuration: workout.estimated_duration_minutes?.toString() ?? '',
+        difficultyLevel: (workout.difficulty_level ?? 'beginner') as FormValues['difficultyLevel'],
+        workoutType: (workout.workout_type ?? 'strength') as FormValues['workoutType'],
+        isTemplate: !!workout.is_template,
+        isPublic: !!workout.is_public,
+      });
+      setIsPremiumCopy(workout.is_premium_copy);
+      // Saved groups use their id as the draft key
+      const loadedGroups = savedGroups.map(
+        ({ id: groupId, workout_id, created_at, ...settings }) => ({ ...settings, key: groupId })
+      );
+      const loadedExercises: WorkoutExercise[] = savedExercises
+        .filter((ex) => ex.exercise)
+        .map((ex, index) => ({
+          id: ex.id,
+          exercise: ex.exercise as Exercise,
+          order_index: index,
+          target_sets: ex.target_sets ?? 1,
+          target_reps: ex.target_reps ?? [],
+          target_weight_kg: ex.target_weight_kg ?? undefined,
+          target_duration_seconds: ex.target_duration_seconds ?? undefined,
+          rest_seconds: ex.rest_seconds ?? 60,
+          notes: ex.notes ?? undefined,
+          group_key: ex.group_id,
+          set_types: getPlannedSetTypes(ex.set_types, ex.target_sets ?? 1),
+        }));
+      savedPlan.current = JSON.stringify({ exercises: loadedExercises, groups: loadedGroups });
+      setGroups(loadedGroups);
+      setExercises(loadedExercises);
+    } catch (err: any) {
+      console.error('Error loading workout:', err);
+      setError(err.message || 'Failed to load workout');
+    } finally {
+      setLoadingWorkout(false);
+    }
+  };
+
+  const groupMemberCounts = exercises.reduce<Record<string, number>>((counts, ex) => {
+    if (ex.group_key) counts[ex.group_key] = (counts[ex.group_key] ?? 0) + 1;
+    return counts;
+  }, {});
 
   const validateExercises = () => {
     if (exercises.length === 0) {
       setError('At least one exercise is required');
       return false;
     }
+    const groupError = groups
+      .map((group, index) => {
+        const count = groupMemberCounts[group.key] ?? 0;
+        const label = `${EXERCISE_GROUP_LABELS[group.group_type]} ${String.fromCharCode(65 + index)}`;
+        if (count === 0) return `${label} has no exercises`;
+        if ((group.group_type === 'superset' || group.group_type === 'circuit') && count < 2) {
+          return `${label} needs at least two exercises`;
+        }
+        return null;
+      })
+      .find(Boolean);
+    if (groupError) {
+      setError(groupError);
+      return false;
+    }
     return true;
   };
 
+  // Keeps every group's exercises next to each other, which is the order they are done in
+  const applyExerciseOrder = (list: WorkoutExercise[]) =>
+    orderExercisesByGroup(list).map((ex, i) => ({ ...ex, order_index: i }));
+
+  const handleAssignGroup = (index: number, groupKey: string | null) => {
+    const updatedExercises = [...exercises];
+    updatedExercises[index] = { ...updatedExercises[index], group_key: groupKey };
+    setExercises(applyExerciseOrder(updatedExercises));
+  };
+
+  const handleRemoveGroup = (key: string) => {
+    setGroups(groups.filter((group) => group.key !== key));
+    setExercises(exercises.map((ex) => (ex.group_key === key ? { ...ex, group_key: null } : ex)));
+  };
+
   const handleAddExercise = (exercise: Exercise) => {
     const newWorkoutExercise: WorkoutExercise = {
       exercise,
@@ -139,11 +267,7 @@ export default function CreateWorkoutScreen() {
     updatedExercises.splice(toIndex, 0, movedExercise);
 
     // Update order indices
-    const reorderedExercises = updatedExercises.map((ex, i) => ({
-      ...ex,
-      order_index: i,
-    }));
-    setExercises(reorderedExercises);
+    setExercises(applyExerciseOrder(updatedExercises));
   };
 
   const calculateEstimatedDuration = () => {
@@ -194,6 +318,11 @@ export default function CreateWorkoutScreen() {
 
     setLoading(true);
 
+    if (editingId) {
+      await saveChanges(editingId, values);
+      return;
+    }
+
     try {
       // Create the workout
       const workoutData = {
@@ -217,18 +346,37 @@ export default function CreateWorkoutScreen() {
 
       if (workoutError) throw workoutError;
 
+      // Create the groups first so their exercises can point at them
+      const groupIds: Record<string, string> = {};
+      for (const { key, ...settings } of groups) {
+        const { data: group, error: groupError } = await createWorkoutExerciseGroup({
+          ...settings,
+          workout_id: workout.id,
+        });
+        if (groupError || !group) throw groupError ?? new Error('Failed to create exercise group');
+        groupIds[key] = group.id;
+      }
+      const roundsByKey = Object.fromEntries(groups.map((group) => [group.key, group.rounds]));
+
       // Create workout exercises
-      const workoutExercises = exercises.map((ex) => ({
-        workout_id: workout.id,
-        exercise_id: ex.exercise.id,
-        order_index: ex.order_index,
-        target_sets: ex.target_sets,
-        target_reps: ex.target_reps.length > 0 ? ex.target_reps : null,
-        target_weight_kg: ex.target_weight_kg || null,
-        target_duration_seconds: ex.target_duration_seconds || null,
-        rest_seconds: ex.rest_seconds,
-        notes: ex.notes || null,
-      }));
+      const workoutExercises = applyExerciseOrder(exercises).map((ex) => {
+        // A grouped exercise gets one set per round
+        const targetSets = ex.group_key ? roundsByKey[ex.group_key] : ex.target_sets;
+        const setTypes = toStoredSetTypes(ex.set_types, targetSets);
+        return {
+          workout_id: workout.id,
+          exercise_id: ex.exercise.id,
+          order_index: ex.order_index,
+          group_id: ex.group_key ? groupIds[ex.group_key] : null,
+          target_sets: targetSets,
+          target_reps: ex.target_reps.length > 0 ? ex.target_reps : null,
+          target_weight_kg: ex.target_weight_kg || null,
+          target_duration_seconds: ex.target_duration_seconds || null,
+          rest_seconds: ex.rest_seconds,
+          notes: ex.notes || null,
+          set_types: setTypes.length > 0 ? setTypes : null,
+        };
+      });
 
       const { error: exercisesError } = await supabase
         .from('workout_exercises')
@@ -237,8 +385,10 @@ export default function CreateWorkoutScreen() {
       if (exercisesError) throw exercisesError;
 
       showToast('Workout created successfully!', 'success');
+      queryClient.invalidateQueries({ queryKey: queryKeys.workouts.user(user.id) });
       reset();
       setExercises([]);
+      setGroups([]);
       router.back();
     } catch (err: any) {
       console.error('Error creating workout:', err);
@@ -249,22 +399,73 @@ export default function CreateWorkoutScreen() {
     }
   };
 
-  const handleCancel = () => {
-    const nameValue = watch('name');
-    const descriptionValue = watch('description') || '';
-    if (nameValue.trim() || descriptionValue.trim() || exercises.length > 0) {
-      Alert.alert('Discard Workout', 'Are you sure you want to discard this workout?', [
-        { text: 'Keep Editing', style: 'cancel' },
-        { text: 'Discard', style: 'destructive', onPress: () => router.back() },
-      ]);
-    } else {
-      router.back();
+  const saveChanges = async (id: number, values: FormValues) => {
+    const roundsByKey = Object.fromEntries(groups.map((group) => [group.key, group.rounds]));
+    const { error: saveError } = await saveWorkoutPlan(
+      id,
+      {
+        name: values.name.trim(),
+        description: (values.description || '').trim() || null,
+        estimated_duration_minutes: values.estimatedDuration
+          ? Number(values.estimatedDuration)
+          : calculateEstimatedDuration(),
+        difficulty_level: values.difficultyLevel,
+        workout_type: values.workoutType,
+        is_template: values.isTemplate,
+        is_public: values.isPublic,
+      },
+      groups,
+      applyExerciseOrder(exercises).map((ex) => {
+        const targetSets = ex.group_key ? roundsByKey[ex.group_key] : ex.target_sets;
+        return {
+          id: ex.id,
+          exercise_id: ex.exercise.id,
+          target_sets: targetSets,
+          target_reps: ex.target_reps,
+          target_weight_kg: ex.target_weight_kg ?? null,
+          target_duration_seconds: ex.target_duration_seconds ?? null,
+          rest_seconds: ex.rest_seconds,
+          notes: ex.notes ?? null,
+          group_key: ex.group_key ?? null,
+          set_types: toStoredSetTypes(ex.set_types, targetSets),
+        };
+      })
+    );
+    setLoading(false);
+
+    if (saveError) {
+      setError(saveError.message || 'Failed to save workout. Please try again.');
+      showToast('Failed to save workout. Please try again.', 'error');
+      return;
     }
+
+    showToast('Workout saved', 'success');
+    queryClient.invalidateQueries({ queryKey: queryKeys.workouts.root });
+    router.back();
   };
 
   const watchedName = watch('name');
   const watchedDescription = watch('description') || '';
-  const hasUnsavedChanges = watchedName.trim() || watchedDescription.trim() || exercises.length > 0;
+  const hasUnsavedChanges = editingId
+    ? isDirty || JSON.stringify({ exercises, groups }) !== savedPlan.current
+    : watchedName.trim() || watchedDescription.trim() || exercises.length > 0;
+
+  const handleCancel = () => {
+    if (hasUnsavedChanges) {
+      Alert.alert(
+        editingId ? 'Discard Changes' : 'Discard Workout',
+        editingId
+          ? 'Are you sure you want to discard your changes?'
+          : 'Are you sure you want to discard this workout?',
+        [
+          { text: 'Keep Editing', style: 'cancel' },
+          { text: 'Discard', style: 'destructive', onPress: () => router.back() },
+        ]
+      );
+    } else {
+      router.back();
+    }
+  };
 
   return (
     <KeyboardAvoidingView
@@ -276,7 +477,7 @@ export default function CreateWorkoutScreen() {
           <TouchableOpacity style={styles.headerButton} onPress={handleCancel}>
             <ArrowLeft size={24} color="#fff" />
           </TouchableOpacity>
-          <Text style={styles.headerTitle}>Create Workout</Text>
+          <Text style={styles.headerTitle}>{editingId ? 'Edit Workout' : 'Create Workout'}</Text>
           <TouchableOpacity
             style={[styles.headerButton, loading && styles.disabledButton]}
             onPress={handleSubmit(handleSave)}
@@ -288,8 +489,13 @@ export default function CreateWorkoutScreen() {
         {hasUnsavedChanges && <Text style={styles.unsavedIndicator}>You have unsaved changes</Text>}
       </LinearGradient>
 
-      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+      <ScrollView
+        style={styles.content}
+        showsVerticalScrollIndicator={false}
+        scrollEnabled={!isDragging}
+      >
         <ErrorBanner message={error} onDismiss={() => setError(null)} />
+        {loadingWorkout && <Text style={styles.loadingText}>Loading workout...</Text>}
 
         {/* Basic Information */}
         <View style={styles.section}>
@@ -456,76 +662,136 @@ export default function CreateWorkoutScreen() {
                 </View>
               </View>
 
-              {exercises.map((exercise, index) => (
-                <WorkoutExerciseCard
-                  key={`${exercise.exercise.id}-${index}`}
-                  exercise={exercise}
-                  index={index}
-                  onUpdate={(updates) => handleUpdateExercise(index, updates)}
-                  onRemove={() => handleRemoveExercise(index)}
-                  onMoveUp={index > 0 ? () => handleMoveExercise(index, index - 1) : undefined}
-                  onMoveDown={
-                    index < exercises.length - 1
-                      ? () => handleMoveExercise(index, index + 1)
-                      : undefined
-                  }
-                />
-              ))}
+              <ReorderableList
+                items={exercises}
+                keyExtractor={(exercise, index) =>
+                  `${exercise.id ?? 'new'}-${exercise.exercise.id}-${index}`
+                }
+                onReorder={handleMoveExercise}
+                onDragStateChange={setIsDragging}
+                renderItem={(exercise, index) => (
+                  <View>
+                    <WorkoutExerciseCard
+                      exercise={exercise}
+                      index={index}
+                      onUpdate={(updates) => handleUpdateExercise(index, updates)}
+                      onRemove={() => handleRemoveExercise(index)}
+                      onMoveUp={index > 0 ? () => handleMoveExercise(index, index - 1) : undefined}
+                      onMoveDown={
+                        index < exercises.length - 1
+                          ? () => handleMoveExercise(index, index + 1)
+                          : undefined
+                      }
+                    />
+                    {groups.length > 0 && (
+                      <View style={styles.groupAssignRow}>
+                        <Text style={styles.groupAssignLabel}>Group</Text>
+                        {[null, ...groups.map((group) => group.key)].map((key, groupIndex) => {
+                          const isSelected = (exercise.group_key ?? null) === key;
+                          return (
+                            <TouchableOpacity
+                              key={key ?? 'none'}
+                              style={[styles.groupChip, isSelected && styles.groupChipActive]}
+                              onPress={() => handleAssignGroup(index, key)}
+                            >
+                              <Text
+                                style={[
+                                  styles.groupChipText,
+                                  isSelected && styles.groupChipTextActive,
+                                ]}
+                              >
+                                {key ? String.fromCharCode(64 + groupIndex) : 'None'}
+                              </Text>
+                            </TouchableOpacity>
+                          );
+                        })}
+                      </View>
+                    )}
+                  </View>
+                )}
+              />
             </View>
           )}
         </View>
 
+        {/* Supersets, circuits, EMOM and AMRAP blocks */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Exercise Groups</Text>
+          <Text style={styles.sectionHint}>
+            Exercises in a group are done back to back, one set each per round.
+          </Text>
+          <ExerciseGroupsEditor
+            groups={groups}
+            memberCounts={groupMemberCounts}
+            onChange={setGroups}
+            onRemove={handleRemoveGroup}
+          />
+        </View>
+
         {/* Settings */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Settings</Text>
 
-          <Controller
-            control={control}
-            name="isTemplate"
-            render={({ field: { value, onChange } }) => (
-              <View style={styles.switchContainer}>
-                <View style={styles.switchInfo}>
-                  <Text style={styles.switchLabel}>Save as Template</Text>
-                  <Text style={styles.switchDescription}>
-                    Make this workout reusable for future sessions
-                  </Text>
-                </View>
-                <Switch
-                  value={value}
-                  onValueChange={(val) => {
-                    setError(null);
-                    onChange(val);
-                  }}
-                  trackColor={{ false: '#333', true: '#FF6B35' }}
-                  thumbColor={value ? '#fff' : '#999'}
-                />
+          {isPremiumCopy ? (
+            <View style={styles.switchContainer}>
+              <View style={styles.switchInfo}>
+                <Text style={styles.switchLabel}>Private Copy</Text>
+                <Text style={styles.switchDescription}>
+                  Copied from a premium workout, so it cannot be made public or saved as a template
+                </Text>
               </View>
-            )}
-          />
+            </View>
+          ) : (
+            <>
+              <Controller
+                control={control}
+                name="isTemplate"
+                render={({ field: { value, onChange } }) => (
+                  <View style={styles.switchContainer}>
+                    <View style={styles.switchInfo}>
+                      <Text style={styles.switchLabel}>Save as Template</Text>
+                      <Text style={styles.switchDescription}>
+                        Make this workout reusable for future sessions
+                      </Text>
+                    </View>
+                    <Switch
+                      value={value}
+                      onValueChange={(val) => {
+                        setError(null);
+                        onChange(val);
+                      }}
+                      trackColor={{ false: '#333', true: '#FF6B35' }}
+                      thumbColor={value ? '#fff' : '#999'}
+                    />
+                  </View>
+                )}
+              />
 
-          <Controller
-            control={control}
-            name="isPublic"
-            render={({ field: { value, onChange } }) => (
-              <View style={styles.switchContainer}>
-                <View style={styles.switchInfo}>
-                  <Text style={styles.switchLabel}>Public Workout</Text>
-                  <Text style={styles.switchDescription}>
-                    Allow others to view and use this workout
-                  </Text>
-                </View>
-                <Switch
-                  value={value}
-                  onValueChange={(val) => {
-                    setError(null);
-                    onChange(val);
-                  }}
-                  trackColor={{ false: '#333', true: '#FF6B35' }}
-                  thumbColor={value ? '#fff' : '#999'}
-                />
-              </View>
-            )}
-          />
+              <Controller
+                control={control}
+                name="isPublic"
+                render={({ field: { value, onChange } }) => (
+                  <View style={styles.switchContainer}>
+                    <View style={styles.switchInfo}>
+                      <Text style={styles.switchLabel}>Public Workout</Text>
+                      <Text style={styles.switchDescription}>
+                        Allow others to view and use this workout
+                      </Text>
+                    </View>
+                    <Switch
+                      value={value}
+                      onValueChange={(val) => {
+                        setError(null);
+                        onChange(val);
+                      }}
+                      trackColor={{ false: '#333', true: '#FF6B35' }}
+                      thumbColor={value ? '#fff' : '#999'}
+                    />
+                  </View>
+                )}
+              />
+            </>
+          )}
         </View>
 
         <TouchableOpacity
@@ -538,7 +804,15 @@ export default function CreateWorkoutScreen() {
             style={styles.saveButtonGradient}
           >
             <Save size={20} color="#fff" />
-            <Text style={styles.saveButtonText}>{loading ? 'Creating...' : 'Create Workout'}</Text>
+            <Text style={styles.saveButtonText}>
+              {loading
+                ? editingId
+                  ? 'Saving...'
+                  : 'Creating...'
+                : editingId
+                  ? 'Save Changes'
+                  : 'Create Workout'}
+            </Text>
           </LinearGradient>
         </TouchableOpacity>
 
@@ -609,6 +883,45 @@ const styles = StyleSheet.create({
     fontFamily: 'Inter-SemiBold',
     marginBottom: 16,
   },
+  sectionHint: {
+    fontSize: 14,
+    color: '#999',
+    fontFamily: 'Inter-Regular',
+    marginTop: -8,
+    marginBottom: 12,
+  },
+  groupAssignRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: -4,
+    marginBottom: 16,
+  },
+  groupAssignLabel: {
+    fontSize: 12,
+    color: '#999',
+    fontFamily: 'Inter-Medium',
+  },
+  groupChip: {
+    backgroundColor: '#2a2a2a',
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderWidth: 1,
+    borderColor: '#444',
+  },
+  groupChipActive: {
+    borderColor: '#FF6B35',
+  },
+  groupChipText: {
+    fontSize: 12,
+    color: '#999',
+    fontFamily: 'Inter-Medium',
+  },
+  groupChipTextActive: {
+    color: '#FF6B35',
+  },
   sectionHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -770,6 +1083,13 @@ const styles = StyleSheet.create({
     fontFamily: 'Inter-SemiBold',
     marginLeft: 8,
   },
+  loadingText: {
+    fontSize: 14,
+    color: '#999',
+    fontFamily: 'Inter-Regular',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
   bottomSpacer: {
     height: 100,
   },
@@ -28,6 +28,14 @@ import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useAuth } from '@/contexts/AuthContext';
 import { updateProfile } from '@/lib/supabase';
+import { formatHeight, inchesToCm, kgToLb, lbToKg } from '@/lib/units';
+import { ONE_REP_MAX_FORMULAS, normalizeOneRepMaxFormula } from '@/lib/personalRecords';
+import {
+  PROGRESSION_RULES,
+  PROGRESSION_RULE_DESCRIPTIONS,
+  PROGRESSION_RULE_LABELS,
+  normalizeProgressionRule,
+} from '@/lib/progression';
 import { useToast } from '@/components/ToastProvider';
 import { FormErrorText } from '@/components/FormErrorText';
 import { ErrorBanner } from '@/components/ErrorBanner';
@@ -66,6 +74,8 @@ const profileSchema = z.object({
     }, 'Weight must be between 20-500 kg'),
   fitnessLevel: z.enum(['beginner', 'intermediate', 'advanced']),
   preferredUnits: z.enum(['metric', 'imperial']),
+  oneRepMaxFormula: z.enum(['epley', 'brzycki']),
+  progressionRule: z.enum(['double_progression', 'rpe', 'linear']),
   isPublic: z.boolean(),
 });
 
@@ -94,6 +104,8 @@ export default function EditProfileScreen() {
       weightKg: '',
       fitnessLevel: 'beginner',
       preferredUnits: 'metric',
+      oneRepMaxFormula: 'epley',
+      progressionRule: 'double_progression',
       isPublic: true,
     },
   });
@@ -110,6 +122,8 @@ export default function EditProfileScreen() {
         fitnessLevel:
           (profile.fitness_level as 'beginner' | 'intermediate' | 'advanced') || 'beginner',
         preferredUnits: (profile.preferred_units as 'metric' | 'imperial') || 'metric',
+        oneRepMaxFormula: normalizeOneRepMaxFormula(profile.one_rep_max_formula),
+        progressionRule: normalizeProgressionRule(profile.progression_rule),
         isPublic: profile.is_public ?? true,
       };
       reset(initialData);
@@ -137,6 +151,8 @@ export default function EditProfileScreen() {
         weight_kg: values.weightKg ? parseFloat(values.weightKg) : null,
         fitness_level: values.fitnessLevel,
         preferred_units: values.preferredUnits,
+        one_rep_max_formula: values.oneRepMaxFormula,
+        progression_rule: values.progressionRule,
         is_public: values.isPublic,
         updated_at: new Date().toISOString(),
       };
@@ -180,16 +196,12 @@ export default function EditProfileScreen() {
 
   const convertHeight = (cm: string) => {
     if (!cm || watch('preferredUnits') === 'metric') return cm;
-    const inches = parseFloat(cm) / 2.54;
-    const feet = Math.floor(inches / 12);
-    const remainingInches = Math.round(inches % 12);
-    return `${feet}'${remainingInches}"`;
+    return formatHeight(parseFloat(cm), 'imperial');
   };
 
   const convertWeight = (kg: string) => {
     if (!kg || watch('preferredUnits') === 'metric') return kg;
-    const lbs = Math.round(parseFloat(kg) * 2.20462);
-    return lbs.toString();
+    return Math.round(kgToLb(parseFloat(kg))).toString();
   };
 
   return (
@@ -329,7 +341,7 @@ export default function EditProfileScreen() {
                             const feet = parseInt(match[1]);
                             const inches = parseInt(match[2]);
                             const totalInches = feet * 12 + inches;
-                            const cm = (totalInches * 2.54).toFixed(0);
+                            const cm = inchesToCm(totalInches).toFixed(0);
                             onChange(cm);
                           } else {
                             onChange('');
@@ -370,7 +382,7 @@ export default function EditProfileScreen() {
                         } else {
                           const lbs = parseFloat(text);
                           if (!isNaN(lbs)) {
-                            const kg = (lbs / 2.20462).toFixed(1);
+                            const kg = lbToKg(lbs).toFixed(1);
                             onChange(kg);
                           } else {
                             onChange('');
@@ -452,6 +464,68 @@ export default function EditProfileScreen() {
               )}
             />
           </View>
+
+          <View style={styles.inputContainer}>
+            <Text style={styles.inputLabel}>1RM Estimate</Text>
+            <Controller
+              control={control}
+              name="oneRepMaxFormula"
+              render={({ field: { value, onChange } }) => (
+                <View style={styles.segmentedControl}>
+                  {ONE_REP_MAX_FORMULAS.map((formula) => (
+                    <TouchableOpacity
+                      key={formula}
+                      style={[
+                        styles.segmentButton,
+                        value === formula && styles.segmentButtonActive,
+                      ]}
+                      onPress={() => onChange(formula)}
+                    >
+                      <Text
+                        style={[
+                          styles.segmentButtonText,
+                          value === formula && styles.segmentButtonTextActive,
+                        ]}
+                      >
+                        {formula === 'epley' ? 'Epley' : 'Brzycki'}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
+            />
+          </View>
+
+          <View style={styles.inputContainer}>
+            <Text style={styles.inputLabel}>Progression</Text>
+            <Controller
+              control={control}
+              name="progressionRule"
+              render={({ field: { value, onChange } }) => (
+                <View style={styles.segmentedControl}>
+                  {PROGRESSION_RULES.map((rule) => (
+                    <TouchableOpacity
+                      key={rule}
+                      style={[styles.segmentButton, value === rule && styles.segmentButtonActive]}
+                      onPress={() => onChange(rule)}
+                    >
+                      <Text
+                        style={[
+                          styles.segmentButtonText,
+                          value === rule && styles.segmentButtonTextActive,
+                        ]}
+                      >
+                        {PROGRESSION_RULE_LABELS[rule]}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
+            />
+            <Text style={styles.helperText}>
+              {PROGRESSION_RULE_DESCRIPTIONS[normalizeProgressionRule(watch('progressionRule'))]}
+            </Text>
+          </View>
         </View>
 
         {/* Privacy Settings */}
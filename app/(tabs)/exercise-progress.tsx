@@ -8,12 +8,21 @@ import { useAuth } from '@/contexts/AuthContext';
 import { useExerciseProgress } from '@/hooks/useExerciseProgress';
 import ExerciseProgressChart from '@/components/ExerciseProgressChart';
 import PersonalRecordCard from '@/components/PersonalRecordCard';
+import { useUnits } from '@/hooks/useUnits';
+import { normalizeOneRepMaxFormula } from '@/lib/personalRecords';
 
 export default function ExerciseProgressScreen() {
   const { exerciseId } = useLocalSearchParams<{ exerciseId: string }>();
-  const { user } = useAuth();
+  const { user, profile } = useAuth();
+  const { weightUnit, toDisplayWeight } = useUnits();
+  const formula = normalizeOneRepMaxFormula(profile?.one_rep_max_formula);
   const { exercise, progressData, personalRecords, stats, loading, error, refreshProgress } =
-    useExerciseProgress(user?.id || null, exerciseId ? parseInt(exerciseId) : null);
+    useExerciseProgress(user?.id || null, exerciseId ? parseInt(exerciseId) : null, formula);
+
+  const recordValue = (recordType: string) => {
+    const record = personalRecords.find((r) => r.record_type === recordType);
+    return record ? toDisplayWeight(record.value) : undefined;
+  };
 
   const [refreshing, setRefreshing] = useState(false);
 
@@ -153,12 +162,33 @@ export default function ExerciseProgressScreen() {
       {progressData.weightProgress.length > 0 && (
         <View style={styles.chartContainer}>
           <ExerciseProgressChart
-            data={progressData.weightProgress}
+            data={progressData.weightProgress.map((point) => ({
+              ...point,
+              value: toDisplayWeight(point.value),
+            }))}
             title="Weight Progress"
             subtitle="Maximum weight lifted per session"
             color="#FF6B35"
-            unit="kg"
+            unit={weightUnit}
+            chartType="line"
+            recordValue={recordValue('max_weight')}
+          />
+        </View>
+      )}
+
+      {progressData.oneRepMaxProgress.length > 0 && (
+        <View style={styles.chartContainer}>
+          <ExerciseProgressChart
+            data={progressData.oneRepMaxProgress.map((point) => ({
+              ...point,
+              value: toDisplayWeight(point.value),
+            }))}
+            title="Estimated 1RM"
+            subtitle={`Best set per session (${formula === 'brzycki' ? 'Brzycki' : 'Epley'})`}
+            color="#E74C3C"
+            unit={weightUnit}
             chartType="line"
+            recordValue={recordValue('estimated_1rm')}
           />
         </View>
       )}
@@ -179,12 +209,16 @@ export default function ExerciseProgressScreen() {
       {progressData.volumeProgress.length > 0 && (
         <View style={styles.chartContainer}>
           <ExerciseProgressChart
-            data={progressData.volumeProgress}
+            data={progressData.volumeProgress.map((point) => ({
+              ...point,
+              value: Math.round(toDisplayWeight(point.value)),
+            }))}
             title="Volume Progress"
             subtitle="Total volume (weight × reps) per session"
             color="#27AE60"
-            unit="kg"
+            unit={weightUnit}
             chartType="bar"
+            recordValue={recordValue('max_volume')}
           />
         </View>
       )}
@@ -9,6 +9,7 @@ import HomeStatsSection from '@/components/HomeStatsSection';
 import HomeQuickActionsSection from '@/components/HomeQuickActionsSection';
 import HomeTodaysWorkoutSection from '@/components/HomeTodaysWorkoutSection';
 import HomeRecentActivitySection from '@/components/HomeRecentActivitySection';
+import { ResumeWorkoutBanner } from '@/components/ResumeWorkoutBanner';
 import { useTheme } from '@/theme/ThemeProvider';
 
 export default function HomeScreen() {
@@ -80,6 +81,7 @@ export default function HomeScreen() {
       refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
     >
       <HomeHeader />
+      <ResumeWorkoutBanner />
       <HomeStatsSection stats={stats} loading={loading} />
       <HomeQuickActionsSection quickActions={quickActions} />
       <HomeTodaysWorkoutSection />
@@ -1,8 +1,9 @@
-import { useEffect, useMemo, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert } from 'react-native';
 import { Image } from 'expo-image';
 import { LinearGradient } from 'expo-linear-gradient';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { useLocalSearchParams } from 'expo-router';
 import { useTheme } from '@/theme/ThemeProvider';
 import { useAuth } from '@/contexts/AuthContext';
 import {
@@ -16,13 +17,29 @@ import {
 } from '@/lib/supabase';
 import { useToast } from '@/components/ToastProvider';
 import PaymentModal from '@/components/PaymentModal';
+import {
+  formatBillingPeriod,
+  formatEntitlementExpiry,
+  isEntitlementActive,
+  needsRenewal,
+} from '@/lib/entitlements';
 
 type ProductFilter = 'all' | 'template' | 'path_pack' | 'addon';
 
+const PAYMENT_STATUS_LABELS: Record<Payment['status'], string> = {
+  pending: 'Awaiting approval',
+  approved: 'Owned',
+  rejected: 'Rejected',
+  refunded: 'Refunded',
+  revoked: 'Access revoked',
+};
+
 export default function MarketplaceScreen() {
   const { colors } = useTheme();
   const { user, refreshEntitlements } = useAuth();
   const { showToast } = useToast();
+  const { productId: linkedProductId } = useLocalSearchParams<{ productId?: string }>();
+  const openedLinkRef = useRef<string | null>(null);
   const [products, setProducts] = useState<Product[]>([]);
   const [loading, setLoading] = useState(false);
   const [selectedFilter, setSelectedFilter] = useState<ProductFilter>('all');
@@ -74,21 +91,39 @@ export default function MarketplaceScreen() {
     return map;
   }, [userPayments]);
 
-  const ownedProducts = useMemo(() => {
-    const set = new Set<string>();
+  const entitlementByProduct = useMemo(() => {
+    const map: Record<string, Entitlement> = {};
     entitlements.forEach((e) => {
-      if (e.product_id) set.add(e.product_id);
+      if (e.product_id) map[e.product_id] = e;
     });
-    return set;
+    return map;
   }, [entitlements]);
 
+  // Time-bound grants that have lapsed or will soon, with their product for the reminder banner
+  const renewals = useMemo(
+    () => entitlements.filter((e) => e.products && needsRenewal(e)),
+    [entitlements]
+  );
+
+  // Owned and not yet due for renewal; expired or expiring grants can be bought again
+  const isOwned = (productId: string) => {
+    const entitlement = entitlementByProduct[productId];
+    return !!entitlement && isEntitlementActive(entitlement) && !needsRenewal(entitlement);
+  };
+
   const handleProductPress = (product: Product) => {
     if (!user) {
       Alert.alert('Sign in required', 'Please sign in to purchase.');
       return;
     }
-    if (ownedProducts.has(product.id)) {
-      Alert.alert('Already unlocked', 'You already own this item.');
+    if (isOwned(product.id)) {
+      const entitlement = entitlementByProduct[product.id];
+      Alert.alert(
+        'Already unlocked',
+        entitlement.expires_at
+          ? `Your access runs until ${new Date(entitlement.expires_at).toLocaleDateString()}.`
+          : 'You already own this item.'
+      );
       return;
     }
     const existing = paymentStatusByProduct[product.id];
@@ -99,22 +134,30 @@ export default function MarketplaceScreen() {
     setSelectedProduct(product);
   };
 
+  // Opens checkout once for a product linked from elsewhere, e.g. a locked premium workout
+  useEffect(() => {
+    if (!user || !linkedProductId || openedLinkRef.current === linkedProductId) return;
+    const product = products.find((p) => p.id === linkedProductId);
+    if (!product) return;
+    openedLinkRef.current = linkedProductId;
+    handleProductPress(product);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user, linkedProductId, products]);
+
   const handleSubmitPayment = async (
     receiptUrl: string | null,
     amountCents: number,
-    notes?: string
+    notes?: string,
+    promoCode?: string | null
   ) => {
     if (!user || !selectedProduct) return;
     try {
-      const platformFee = Math.ceil(amountCents * 0.1);
-      const coachNet = amountCents - platformFee;
       const { data, error } = await createPendingPayment({
         user_id: user.id,
-        coach_id: selectedProduct.coach_id,
         product_id: selectedProduct.id,
         amount_client_paid_cents: amountCents,
-        platform_fee_cents: platformFee,
-        coach_net_cents: coachNet,
+        entitlement_id: entitlementByProduct[selectedProduct.id]?.id ?? null,
+        promo_code: promoCode ?? null,
         receipt_url: receiptUrl,
         notes,
       });
@@ -142,6 +185,24 @@ export default function MarketplaceScreen() {
           </Text>
         </LinearGradient>
 
+        {renewals.length > 0 ? (
+          <View style={[styles.renewals, { borderColor: colors.border }]}>
+            <Text style={[styles.renewalsTitle, { color: colors.text }]}>Renewals</Text>
+            {renewals.map((e) => (
+              <TouchableOpacity key={e.id} onPress={() => handleProductPress(e.products!)}>
+                <Text style={{ color: colors.textMuted }}>
+                  {e.products!.title}: {formatEntitlementExpiry(e)}.{' '}
+                  <Text style={{ color: colors.primary }}>
+                    {paymentStatusByProduct[e.product_id]?.status === 'pending'
+                      ? 'Renewal pending'
+                      : 'Renew'}
+                  </Text>
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        ) : null}
+
         <View style={styles.filters}>
           {(['all', 'template', 'path_pack', 'addon'] as ProductFilter[]).map((filter) => (
             <TouchableOpacity
@@ -180,11 +241,20 @@ export default function MarketplaceScreen() {
                     </Text>
                   </View>
                   <Text style={[styles.price, { color: colors.primary }]}>
-                    ${(product.price_cents / 100).toFixed(2)}
+                    ${(product.price_cents / 100).toFixed(2)} {formatBillingPeriod(product)}
                   </Text>
                 </View>
-                {ownedProducts.has(product.id) ? (
-                  <Text style={[styles.statusPill, styles.statusApproved]}>Owned</Text>
+                {isOwned(product.id) ? (
+                  <Text style={[styles.statusPill, styles.statusApproved]}>
+                    {entitlementByProduct[product.id].expires_at
+                      ? formatEntitlementExpiry(entitlementByProduct[product.id])
+                      : 'Owned'}
+                  </Text>
+                ) : entitlementByProduct[product.id] &&
+                  paymentStatusByProduct[product.id]?.status !== 'pending' ? (
+                  <Text style={[styles.statusPill, styles.statusPending]}>
+                    {formatEntitlementExpiry(entitlementByProduct[product.id])}
+                  </Text>
                 ) : paymentStatusByProduct[product.id] ? (
                   <Text
                     style={[
@@ -196,11 +266,14 @@ export default function MarketplaceScreen() {
                           : styles.statusRejected,
                     ]}
                   >
-                    {paymentStatusByProduct[product.id].status === 'pending'
-                      ? 'Awaiting approval'
-                      : paymentStatusByProduct[product.id].status === 'approved'
-                        ? 'Owned'
-                        : 'Rejected'}
+                    {PAYMENT_STATUS_LABELS[paymentStatusByProduct[product.id].status]}
+                  </Text>
+                ) : null}
+                {paymentStatusByProduct[product.id]?.refunded_cents > 0 ? (
+                  <Text style={[styles.description, { color: colors.textMuted }]}>
+                    {paymentStatusByProduct[product.id].status === 'refunded'
+                      ? 'Your payment was refunded in full.'
+                      : `$${(paymentStatusByProduct[product.id].refunded_cents / 100).toFixed(2)} of your payment was refunded.`}
                   </Text>
                 ) : null}
                 {product.description ? (
@@ -252,7 +325,7 @@ export default function MarketplaceScreen() {
           disabled={
             selectedProduct
               ? paymentStatusByProduct[selectedProduct.id]?.status === 'pending' ||
-                ownedProducts.has(selectedProduct.id)
+                isOwned(selectedProduct.id)
               : false
           }
         />
@@ -266,6 +339,18 @@ const styles = StyleSheet.create({
   header: { paddingHorizontal: 20, paddingVertical: 24 },
   title: { fontSize: 26, fontFamily: 'Inter-Bold', color: '#fff' },
   subtitle: { fontSize: 14, fontFamily: 'Inter-Medium', marginTop: 6 },
+  renewals: {
+    margin: 16,
+    marginBottom: 0,
+    padding: 12,
+    borderWidth: 1,
+    borderRadius: 12,
+    gap: 6,
+  },
+  renewalsTitle: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 16,
+  },
   filters: {
     flexDirection: 'row',
     paddingHorizontal: 16,
@@ -11,6 +11,8 @@ import {
   MoonStar,
   ShieldCheck,
   ShoppingBag,
+  Wallet,
+  Tag,
 } from 'lucide-react-native';
 import { router } from 'expo-router';
 import { useState } from 'react';
@@ -109,6 +111,13 @@ export default function ProfileScreen() {
   ];
 
   if (user?.app_metadata?.role === 'admin') {
+    preferences.unshift({
+      label: 'Coach payouts',
+      value: 'Batches and statements',
+      action: () => router.push(routes.adminPayouts as any),
+      icon: Wallet,
+      color: '#27AE60',
+    });
     preferences.unshift({
       label: 'Admin payments',
       value: 'Approve receipts',
@@ -119,6 +128,13 @@ export default function ProfileScreen() {
   }
 
   if (user?.user_metadata?.is_coach || user?.app_metadata?.is_coach) {
+    preferences.unshift({
+      label: 'Promo codes',
+      value: 'Launch and referral discounts',
+      action: () => router.push(routes.coachPromoCodes as any),
+      icon: Tag,
+      color: '#9B59B6',
+    });
     preferences.unshift({
       label: 'Your sales',
       value: 'View receipts',
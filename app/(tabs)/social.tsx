@@ -20,7 +20,9 @@ import {
   MessageCircle,
   Filter,
   Target,
+  Users,
 } from 'lucide-react-native';
+import { router } from 'expo-router';
 import { useAuth } from '@/contexts/AuthContext';
 import { useSocialFeed } from '@/hooks/useSocialFeed';
 import SocialFeedPost from '@/components/SocialFeedPost';
@@ -32,6 +34,8 @@ import { ScreenState } from '@/components/ScreenState';
 import { useTheme } from '@/theme/ThemeProvider';
 import { supabase } from '@/lib/supabase';
 import { useCoachingPaths } from '@/hooks/useCoachingPaths';
+import { useFriends } from '@/hooks/useFriends';
+import { routes } from '@/utils/routes';
 import { getUserAchievements } from '@/lib/achievements';
 
 export default function SocialScreen() {
@@ -48,25 +52,13 @@ export default function SocialScreen() {
     deletePost,
   } = useSocialFeed(user?.id);
   const { activePath } = useCoachingPaths(user?.id);
+  const { friendIds } = useFriends(user?.id);
   const { colors } = useTheme();
 
   const [showCreatePost, setShowCreatePost] = useState(false);
   const [showComments, setShowComments] = useState(false);
   const [selectedPostId, setSelectedPostId] = useState<number | null>(null);
   const [selectedFilter, setSelectedFilter] = useState<string>('all');
-  const [leaderboard, setLeaderboard] = useState<
-    {
-      id: string;
-      name: string;
-      username?: string | null;
-      avatar?: string | null;
-      points: number;
-      workouts: number;
-      streak?: number | null;
-      rank: number;
-    }[]
-  >([]);
-  const [leaderboardLoading, setLeaderboardLoading] = useState(false);
   const [quickFilter, setQuickFilter] = useState<'none' | 'trending' | 'liked' | 'discussed'>(
     'none'
   );
@@ -94,79 +86,13 @@ export default function SocialScreen() {
 
   const filterOptions = [
     { id: 'all', name: 'All Posts', icon: TrendingUp },
+    { id: 'friends', name: 'Friends', icon: Users },
     { id: 'workout', name: 'Workouts', icon: Trophy },
     { id: 'achievement', name: 'Achievements', icon: Trophy },
     { id: 'progress', name: 'Progress', icon: TrendingUp },
     { id: 'coaching', name: 'Coaching', icon: Target },
   ];
 
-  const fetchLeaderboard = useCallback(async () => {
-    setLeaderboardLoading(true);
-    try {
-      const [{ data: sessions }, { data: streaks }] = await Promise.all([
-        supabase
-          .from('workout_sessions')
-          .select(
-            'user_id, duration_minutes, calories_burned, profiles(username, full_name, avatar_url)'
-          )
-          .not('user_id', 'is', null),
-        supabase.from('workout_streaks').select('user_id, current_streak'),
-      ]);
-
-      const streakMap = new Map<string, number>();
-      (streaks || []).forEach((row) => {
-        if (row.user_id) streakMap.set(row.user_id, row.current_streak || 0);
-      });
-
-      const byUser = new Map<
-        string,
-        {
-          id: string;
-          name: string;
-          username?: string | null;
-          avatar?: string | null;
-          workouts: number;
-          minutes: number;
-          points: number;
-          streak?: number | null;
-        }
-      >();
-
-      (sessions || []).forEach((session) => {
-        const userId = session.user_id;
-        if (!userId) return;
-        const profile = (session as any).profiles;
-        const existing = byUser.get(userId) ?? {
-          id: userId,
-          name: profile?.full_name || profile?.username || 'Athlete',
-          username: profile?.username,
-          avatar: profile?.avatar_url,
-          workouts: 0,
-          minutes: 0,
-          points: 0,
-          streak: streakMap.get(userId) ?? null,
-        };
-        existing.workouts += 1;
-        existing.minutes += session.duration_minutes || 0;
-        existing.points = existing.workouts * 10 + Math.round(existing.minutes / 5);
-        byUser.set(userId, existing);
-      });
-
-      const leaderboardData = Array.from(byUser.values())
-        .sort((a, b) => b.points - a.points)
-        .map((entry, index) => ({ ...entry, rank: index + 1 }));
-      setLeaderboard(leaderboardData.slice(0, 10));
-    } catch (err) {
-      console.error('Error loading leaderboard', err);
-    } finally {
-      setLeaderboardLoading(false);
-    }
-  }, []);
-
-  useEffect(() => {
-    fetchLeaderboard();
-  }, [fetchLeaderboard]);
-
   // Load recent sessions & unlocked achievements for selectors
   useEffect(() => {
     if (!user?.id) {
@@ -311,7 +237,8 @@ export default function SocialScreen() {
     type: 'general' | 'workout' | 'achievement' | 'progress',
     workoutSessionId?: number,
     coachingPathId?: string,
-    achievementId?: number
+    achievementId?: number,
+    mediaUrls?: string[]
   ) => {
     try {
       if (type === 'achievement' && !achievementId && achievements.length === 0) {
@@ -327,22 +254,24 @@ export default function SocialScreen() {
           await createWorkoutPost(
             content,
             workoutSessionId || workoutSessions[0]?.id,
-            coachingPathId ?? null
+            coachingPathId ?? null,
+            mediaUrls
           );
           break;
         case 'achievement':
           await createAchievementPost(
             content,
             achievementId || achievements[0]?.id,
-            coachingPathId ?? null
+            coachingPathId ?? null,
+            mediaUrls
           );
           break;
         case 'progress':
         case 'general':
-          await createProgressPost(content, undefined, coachingPathId ?? null);
+          await createProgressPost(content, mediaUrls, coachingPathId ?? null);
           break;
         default:
-          await createProgressPost(content, undefined, coachingPathId ?? null);
+          await createProgressPost(content, mediaUrls, coachingPathId ?? null);
           break;
       }
       await refreshFeed();
@@ -358,8 +287,11 @@ export default function SocialScreen() {
     if (selectedFilter === 'coaching') {
       return source.filter((post) => post.coaching_path_id);
     }
+    if (selectedFilter === 'friends') {
+      return source.filter((post) => post.user_id && friendIds.has(post.user_id));
+    }
     return source.filter((post) => post.post_type === selectedFilter);
-  }, [posts, selectedFilter, metricPosts]);
+  }, [posts, selectedFilter, metricPosts, friendIds]);
 
   const renderPost = ({ item }: ListRenderItemInfo<(typeof posts)[number]>) => (
     <SocialFeedPost
@@ -403,7 +335,10 @@ export default function SocialScreen() {
               <View style={styles.headerTop}>
                 <Text style={styles.headerTitle}>Social</Text>
                 <View style={styles.headerActions}>
-                  <TouchableOpacity style={styles.headerButton}>
+                  <TouchableOpacity
+                    style={styles.headerButton}
+                    onPress={() => router.push(routes.friends as any)}
+                  >
                     <Search size={24} color="#fff" />
                   </TouchableOpacity>
                   <TouchableOpacity
@@ -432,8 +367,8 @@ export default function SocialScreen() {
               </View>
             </View>
 
-            {/* Weekly Leaderboard */}
-            <SocialLeaderboard leaderboard={leaderboard} currentUserId={user?.id} />
+            {/* Leaderboard */}
+            <SocialLeaderboard currentUserId={user?.id} />
 
             {/* Filter Options */}
             <View style={styles.filtersContainer}>
@@ -510,10 +445,10 @@ export default function SocialScreen() {
             </ScrollView>
 
             {/* Social Feed States */}
-            {(loading || metricLoading || leaderboardLoading) && (
+            {(loading || metricLoading) && (
               <ScreenState variant="loading" title="Loading feed..." />
             )}
-            {!loading && !metricLoading && !leaderboardLoading && filteredPosts.length === 0 && (
+            {!loading && !metricLoading && filteredPosts.length === 0 && (
               <ScreenState
                 variant="empty"
                 title="No posts yet"
@@ -537,8 +472,15 @@ export default function SocialScreen() {
       <CreatePostModal
         visible={showCreatePost}
         onClose={() => setShowCreatePost(false)}
-        onCreatePost={(content, type, sessionId, achievementId) =>
-          handleCreatePost(content, type, sessionId, activePath?.id ?? undefined, achievementId)
+        onCreatePost={(content, type, sessionId, achievementId, mediaUrls) =>
+          handleCreatePost(
+            content,
+            type,
+            sessionId,
+            activePath?.id ?? undefined,
+            achievementId,
+            mediaUrls
+          )
         }
         coachingGoal={activePath?.goal_type}
         workoutSessions={workoutSessions}
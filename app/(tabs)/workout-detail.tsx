@@ -1,12 +1,39 @@
 import React, { useState, useEffect } from 'react';
-import { View, Text, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert } from 'react-native';
 import { Image } from 'expo-image';
 import { LinearGradient } from 'expo-linear-gradient';
 import { router, useLocalSearchParams } from 'expo-router';
-import { Play, Clock, Target, TrendingUp, ArrowLeft, Dumbbell } from 'lucide-react-native';
-import { supabase, Workout, Exercise } from '@/lib/supabase';
+import {
+  Play,
+  Clock,
+  Target,
+  TrendingUp,
+  ArrowLeft,
+  Dumbbell,
+  Lock,
+  Pencil,
+  Copy,
+  Trash2,
+  GitFork,
+} from 'lucide-react-native';
+import { useQueryClient } from '@tanstack/react-query';
+import {
+  supabase,
+  getWorkoutPreview,
+  getWorkoutExerciseGroups,
+  duplicateWorkout,
+  forkWorkout,
+  deleteWorkout,
+  Workout,
+  Exercise,
+  WorkoutExerciseGroup,
+  WorkoutPreview,
+} from '@/lib/supabase';
+import { describeExerciseGroup, getGroupPositionLabel } from '@/lib/exerciseGroups';
 import { routes } from '@/utils/routes';
 import { useTheme } from '@/theme/ThemeProvider';
+import { useAuth } from '@/contexts/AuthContext';
+import { queryKeys } from '@/lib/queryKeys';
 
 interface WorkoutExercise {
   id: number;
@@ -16,6 +43,7 @@ interface WorkoutExercise {
   target_reps: number[] | null;
   target_duration_seconds: number | null;
   rest_seconds: number;
+  group_id: string | null;
   exercise: Exercise;
 }
 
@@ -24,10 +52,17 @@ export default function WorkoutDetailScreen() {
   const workoutId = params?.workoutId as string;
   const workoutIdNum = Number(workoutId);
   const { colors } = useTheme();
+  const { user, entitlements } = useAuth();
+  const queryClient = useQueryClient();
   const borderColor = colors.border || '#333';
   const cardBg = colors.surface || '#1a1a1a';
   const [workout, setWorkout] = useState<Workout | null>(null);
   const [exercises, setExercises] = useState<WorkoutExercise[]>([]);
+  const [groups, setGroups] = useState<WorkoutExerciseGroup[]>([]);
+  const [preview, setPreview] = useState<WorkoutPreview | null>(null);
+  const [isLocked, setIsLocked] = useState(false);
+  // Template this workout was customized from, when it is still readable
+  const [forkSource, setForkSource] = useState<Pick<Workout, 'id' | 'name'> | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -41,6 +76,26 @@ export default function WorkoutDetailScreen() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [workoutId]);
 
+  // Re-runs when an entitlement arrives so a purchase unlocks the screen in place
+  useEffect(() => {
+    if (workout) loadExercises(workout);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [workout, entitlements]);
+
+  useEffect(() => {
+    const sourceId = workout?.forked_from_workout_id;
+    if (!sourceId) {
+      setForkSource(null);
+      return;
+    }
+    supabase
+      .from('workouts')
+      .select('id, name')
+      .eq('id', sourceId)
+      .maybeSingle()
+      .then(({ data }) => setForkSource(data ?? null));
+  }, [workout?.forked_from_workout_id]);
+
   const loadWorkoutDetails = async () => {
     if (!workoutId) {
       setError('Invalid workout ID');
@@ -72,34 +127,6 @@ export default function WorkoutDetailScreen() {
       }
 
       setWorkout(workoutData);
-
-      // Load workout exercises with exercise details
-      const { data: exercisesData, error: exercisesError } = await supabase
-        .from('workout_exercises')
-        .select(
-          `
-          *,
-          exercise:exercises(*)
-        `
-        )
-        .eq('workout_id', workoutIdNum)
-        .order('order_index');
-
-      if (exercisesError) {
-        throw new Error(exercisesError.message);
-      }
-
-      const cleaned =
-        (exercisesData || [])
-          .filter((ex) => ex.exercise_id !== null)
-          .map(
-            (ex) =>
-              ({
-                ...ex,
-                exercise_id: ex.exercise_id as number,
-              }) as WorkoutExercise
-          ) ?? [];
-      setExercises(cleaned);
     } catch (err: any) {
       console.error('Error loading workout details:', err);
       setError(err.message || 'Failed to load workout details');
@@ -108,8 +135,104 @@ export default function WorkoutDetailScreen() {
     }
   };
 
-  const startWorkout = () => {
+  const loadExercises = async ({ id, premium_product_id, creator_id }: Workout) => {
+    // Load workout exercises with exercise details
+    const { data: exercisesData, error: exercisesError } = await supabase
+      .from('workout_exercises')
+      .select(
+        `
+        *,
+        exercise:exercises(*)
+      `
+      )
+      .eq('workout_id', id)
+      .order('order_index');
+
+    if (exercisesError) {
+      console.error('Error loading workout exercises:', exercisesError);
+      setError(exercisesError.message || 'Failed to load workout details');
+      return;
+    }
+
+    const cleaned =
+      (exercisesData || [])
+        .filter((ex) => ex.exercise_id !== null)
+        .map(
+          (ex) =>
+            ({
+              ...ex,
+              exercise_id: ex.exercise_id as number,
+            }) as WorkoutExercise
+        ) ?? [];
+
+    // Premium templates stay locked until bought, on their own or through a bundle or path pack.
+    // RLS hides the exercises until then, so a premium workout without any is a locked one.
+    const locked = !!premium_product_id && creator_id !== user?.id && cleaned.length === 0;
+    setIsLocked(locked);
+    if (locked) {
+      setExercises([]);
+      setGroups([]);
+      setPreview(await getWorkoutPreview(id));
+      return;
+    }
+
+    setPreview(null);
+    setExercises(cleaned);
+    setGroups(await getWorkoutExerciseGroups(id));
+  };
+
+  const groupIds = exercises.map((ex) => ex.group_id);
+
+  const isOwner = !!workout && !!user && workout.creator_id === user.id;
+
+  const handleDuplicate = async () => {
     if (!workout) return;
+    const { data: copyId, error: duplicateError } = await duplicateWorkout(workout.id);
+    if (duplicateError || !copyId) {
+      Alert.alert('Error', 'Could not duplicate this workout.');
+      return;
+    }
+    queryClient.invalidateQueries({ queryKey: queryKeys.workouts.root });
+    router.replace(routes.editWorkout(copyId));
+  };
+
+  const handleCustomize = async () => {
+    if (!workout) return;
+    const { data: forkId, error: forkError } = await forkWorkout(workout.id);
+    if (forkError || !forkId) {
+      Alert.alert('Error', forkError?.message || 'Could not copy this template.');
+      return;
+    }
+    queryClient.invalidateQueries({ queryKey: queryKeys.workouts.root });
+    router.replace(routes.editWorkout(forkId));
+  };
+
+  const handleDelete = () => {
+    if (!workout) return;
+    Alert.alert(
+      'Delete Workout',
+      'This removes the workout from your list. Past sessions stay in your history.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            const { error: deleteError } = await deleteWorkout(workout.id);
+            if (deleteError) {
+              Alert.alert('Error', 'Could not delete this workout.');
+              return;
+            }
+            queryClient.invalidateQueries({ queryKey: queryKeys.workouts.root });
+            router.back();
+          },
+        },
+      ]
+    );
+  };
+
+  const startWorkout = () => {
+    if (!workout || isLocked) return;
 
     router.push(routes.workoutSession(workoutIdNum, workout.name || 'Workout'));
   };
@@ -195,6 +318,27 @@ export default function WorkoutDetailScreen() {
         {workout?.description && (
           <Text style={styles.workoutDescription}>{workout.description}</Text>
         )}
+        {workout.forked_from_workout_id ? (
+          <TouchableOpacity
+            style={styles.forkNote}
+            disabled={!forkSource}
+            onPress={() => forkSource && router.push(routes.workoutDetail(forkSource.id))}
+          >
+            <GitFork size={14} color={colors.textMuted} />
+            <Text style={[styles.forkNoteText, { color: colors.textMuted }]}>
+              Customized from {forkSource ? forkSource.name : 'a template'}
+            </Text>
+          </TouchableOpacity>
+        ) : null}
+        {isOwner && workout.fork_count > 0 ? (
+          <View style={styles.forkNote}>
+            <GitFork size={14} color={colors.primary} />
+            <Text style={[styles.forkNoteText, { color: colors.textMuted }]}>
+              Customized {workout.fork_count} {workout.fork_count === 1 ? 'time' : 'times'} by other
+              athletes
+            </Text>
+          </View>
+        ) : null}
 
         <View style={styles.workoutMeta}>
           <View style={styles.metaItem}>
@@ -231,37 +375,34 @@ export default function WorkoutDetailScreen() {
         </View>
       </LinearGradient>
 
-      <View style={styles.content}>
-        <View style={styles.statsContainer}>
-          <View style={[styles.statCard, { backgroundColor: cardBg, borderColor }]}>
-            <Text style={[styles.statValue, { color: colors.text }]}>{exercises.length}</Text>
-            <Text style={[styles.statLabel, { color: colors.textMuted }]}>Exercises</Text>
-          </View>
-          <View style={[styles.statCard, { backgroundColor: cardBg, borderColor }]}>
-            <Text style={[styles.statValue, { color: colors.text }]}>
-              {exercises.reduce((total, ex) => total + ex.target_sets, 0)}
-            </Text>
-            <Text style={[styles.statLabel, { color: colors.textMuted }]}>Total Sets</Text>
-          </View>
-          <View style={[styles.statCard, { backgroundColor: cardBg, borderColor }]}>
-            <Text style={[styles.statValue, { color: colors.text }]}>
-              {exercises.length > 0
-                ? Math.round(
-                    exercises.reduce((total, ex) => total + ex.rest_seconds, 0) / exercises.length
-                  )
-                : 0}
-              s
-            </Text>
-            <Text style={[styles.statLabel, { color: colors.textMuted }]}>Avg Rest</Text>
+      {isLocked ? (
+        <View style={styles.content}>
+          <View style={[styles.lockedBanner, { backgroundColor: cardBg, borderColor }]}>
+            <Lock size={20} color={colors.primary} />
+            <View style={styles.exerciseInfo}>
+              <Text style={[styles.exerciseName, { color: colors.text }]}>Premium workout</Text>
+              <Text style={[styles.exerciseDescription, { color: colors.textMuted }]}>
+                Preview {Math.min(2, preview?.exercise_count ?? 0)} of{' '}
+                {preview?.exercise_count ?? 0} exercises. Unlock it for the full plan.
+              </Text>
+            </View>
           </View>
-        </View>
 
-        {exercises.length > 0 ? (
+          {preview && preview.muscle_groups.length > 0 ? (
+            <View style={[styles.muscleGroups, { marginBottom: 24 }]}>
+              {preview.muscle_groups.map((muscle) => (
+                <View key={muscle} style={styles.muscleTag}>
+                  <Text style={styles.muscleTagText}>{muscle}</Text>
+                </View>
+              ))}
+            </View>
+          ) : null}
+
           <View style={styles.exercisesSection}>
             <Text style={styles.sectionTitle}>Exercises</Text>
-            {exercises.map((workoutExercise, index) => (
+            {(preview?.exercises ?? []).map((previewExercise, index) => (
               <View
-                key={workoutExercise.id}
+                key={previewExercise.id}
                 style={[styles.exerciseCard, { backgroundColor: cardBg, borderColor }]}
               >
                 <View style={styles.exerciseHeader}>
@@ -270,84 +411,213 @@ export default function WorkoutDetailScreen() {
                   </View>
                   <View style={styles.exerciseInfo}>
                     <Text style={[styles.exerciseName, { color: colors.text }]}>
-                      {workoutExercise.exercise?.name || 'Unknown Exercise'}
+                      {previewExercise.name}
+                    </Text>
+                    <Text style={[styles.exerciseDescription, { color: colors.textMuted }]}>
+                      {previewExercise.target_sets} sets
+                      {previewExercise.target_reps && previewExercise.target_reps.length > 0
+                        ? ` • ${previewExercise.target_reps.join('-')} reps`
+                        : previewExercise.target_duration_seconds
+                          ? ` • ${previewExercise.target_duration_seconds}s`
+                          : ''}
                     </Text>
-                    {workoutExercise.exercise?.description && (
-                      <Text style={[styles.exerciseDescription, { color: colors.textMuted }]}>
-                        {workoutExercise.exercise.description}
-                      </Text>
-                    )}
-                  </View>
-                </View>
-
-                {workoutExercise.exercise?.demo_image_url && (
-                  <Image
-                    source={{ uri: workoutExercise.exercise.demo_image_url }}
-                    style={styles.exerciseImage}
-                    contentFit="cover"
-                    cachePolicy="memory-disk"
-                  />
-                )}
-
-                <View style={styles.exerciseDetails}>
-                  <View style={styles.detailItem}>
-                    <Text style={styles.detailLabel}>Sets</Text>
-                    <Text style={styles.detailValue}>{workoutExercise.target_sets}</Text>
-                  </View>
-                  {workoutExercise.target_reps && workoutExercise.target_reps.length > 0 && (
-                    <View style={styles.detailItem}>
-                      <Text style={styles.detailLabel}>Reps</Text>
-                      <Text style={styles.detailValue}>
-                        {workoutExercise.target_reps.join('-')}
-                      </Text>
-                    </View>
-                  )}
-                  {workoutExercise.target_duration_seconds && (
-                    <View style={styles.detailItem}>
-                      <Text style={styles.detailLabel}>Duration</Text>
-                      <Text style={styles.detailValue}>
-                        {workoutExercise.target_duration_seconds}s
-                      </Text>
-                    </View>
-                  )}
-                  <View style={styles.detailItem}>
-                    <Text style={styles.detailLabel}>Rest</Text>
-                    <Text style={styles.detailValue}>{workoutExercise.rest_seconds}s</Text>
                   </View>
                 </View>
-
-                <View style={styles.muscleGroups}>
-                  {(workoutExercise.exercise?.muscle_groups || []).map((muscle, muscleIndex) => (
-                    <View key={muscleIndex} style={styles.muscleTag}>
-                      <Text style={styles.muscleTagText}>{muscle}</Text>
-                    </View>
-                  ))}
-                </View>
               </View>
             ))}
+            {preview && preview.exercise_count > preview.exercises.length ? (
+              <View style={[styles.lockedMore, { borderColor }]}>
+                <Lock size={16} color={colors.textMuted} />
+                <Text style={[styles.exerciseDescription, { color: colors.textMuted }]}>
+                  {preview.exercise_count - preview.exercises.length} more exercises
+                </Text>
+              </View>
+            ) : null}
           </View>
-        ) : (
-          <View style={styles.noExercisesContainer}>
-            <Dumbbell size={48} color="#666" />
-            <Text style={styles.noExercisesTitle}>No Exercises</Text>
-            <Text style={styles.noExercisesText}>This workout doesn't have any exercises yet.</Text>
+
+          <TouchableOpacity
+            style={styles.startWorkoutButton}
+            onPress={() =>
+              router.push(routes.marketplaceProduct(workout.premium_product_id as string))
+            }
+          >
+            <LinearGradient colors={['#FF6B35', '#FF8C42']} style={styles.startWorkoutGradient}>
+              <Lock size={24} color="#fff" />
+              <Text style={styles.startWorkoutText}>Unlock Workout</Text>
+            </LinearGradient>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <View style={styles.content}>
+          <View style={styles.statsContainer}>
+            <View style={[styles.statCard, { backgroundColor: cardBg, borderColor }]}>
+              <Text style={[styles.statValue, { color: colors.text }]}>{exercises.length}</Text>
+              <Text style={[styles.statLabel, { color: colors.textMuted }]}>Exercises</Text>
+            </View>
+            <View style={[styles.statCard, { backgroundColor: cardBg, borderColor }]}>
+              <Text style={[styles.statValue, { color: colors.text }]}>
+                {exercises.reduce((total, ex) => total + ex.target_sets, 0)}
+              </Text>
+              <Text style={[styles.statLabel, { color: colors.textMuted }]}>Total Sets</Text>
+            </View>
+            <View style={[styles.statCard, { backgroundColor: cardBg, borderColor }]}>
+              <Text style={[styles.statValue, { color: colors.text }]}>
+                {exercises.length > 0
+                  ? Math.round(
+                      exercises.reduce((total, ex) => total + ex.rest_seconds, 0) / exercises.length
+                    )
+                  : 0}
+                s
+              </Text>
+              <Text style={[styles.statLabel, { color: colors.textMuted }]}>Avg Rest</Text>
+            </View>
           </View>
-        )}
 
-        <TouchableOpacity
-          style={[styles.startWorkoutButton, exercises.length === 0 && styles.disabledButton]}
-          onPress={startWorkout}
-          disabled={exercises.length === 0}
-        >
-          <LinearGradient
-            colors={exercises.length > 0 ? ['#FF6B35', '#FF8C42'] : ['#666', '#666']}
-            style={styles.startWorkoutGradient}
+          {exercises.length > 0 ? (
+            <View style={styles.exercisesSection}>
+              <Text style={styles.sectionTitle}>Exercises</Text>
+              {exercises.map((workoutExercise, index) => {
+                const group = groups.find((g) => g.id === workoutExercise.group_id);
+                const groupStartsHere = group && groupIds[index - 1] !== group.id;
+                return (
+                  <React.Fragment key={workoutExercise.id}>
+                    {groupStartsHere ? (
+                      <Text style={[styles.groupTitle, { color: colors.primary }]}>
+                        {describeExerciseGroup(group)}
+                      </Text>
+                    ) : null}
+                    <View style={[styles.exerciseCard, { backgroundColor: cardBg, borderColor }]}>
+                      <View style={styles.exerciseHeader}>
+                        <View style={[styles.exerciseNumber, { backgroundColor: colors.primary }]}>
+                          <Text style={styles.exerciseNumberText}>
+                            {getGroupPositionLabel(groupIds, index) ?? index + 1}
+                          </Text>
+                        </View>
+                        <View style={styles.exerciseInfo}>
+                          <Text style={[styles.exerciseName, { color: colors.text }]}>
+                            {workoutExercise.exercise?.name || 'Unknown Exercise'}
+                          </Text>
+                          {workoutExercise.exercise?.description && (
+                            <Text style={[styles.exerciseDescription, { color: colors.textMuted }]}>
+                              {workoutExercise.exercise.description}
+                            </Text>
+                          )}
+                        </View>
+                      </View>
+
+                      {workoutExercise.exercise?.demo_image_url && (
+                        <Image
+                          source={{ uri: workoutExercise.exercise.demo_image_url }}
+                          style={styles.exerciseImage}
+                          contentFit="cover"
+                          cachePolicy="memory-disk"
+                        />
+                      )}
+
+                      <View style={styles.exerciseDetails}>
+                        <View style={styles.detailItem}>
+                          <Text style={styles.detailLabel}>Sets</Text>
+                          <Text style={styles.detailValue}>{workoutExercise.target_sets}</Text>
+                        </View>
+                        {workoutExercise.target_reps && workoutExercise.target_reps.length > 0 && (
+                          <View style={styles.detailItem}>
+                            <Text style={styles.detailLabel}>Reps</Text>
+                            <Text style={styles.detailValue}>
+                              {workoutExercise.target_reps.join('-')}
+                            </Text>
+                          </View>
+                        )}
+                        {workoutExercise.target_duration_seconds && (
+                          <View style={styles.detailItem}>
+                            <Text style={styles.detailLabel}>Duration</Text>
+                            <Text style={styles.detailValue}>
+                              {workoutExercise.target_duration_seconds}s
+                            </Text>
+                          </View>
+                        )}
+                        {!group && (
+                          <View style={styles.detailItem}>
+                            <Text style={styles.detailLabel}>Rest</Text>
+                            <Text style={styles.detailValue}>{workoutExercise.rest_seconds}s</Text>
+                          </View>
+                        )}
+                      </View>
+
+                      <View style={styles.muscleGroups}>
+                        {(workoutExercise.exercise?.muscle_groups || []).map(
+                          (muscle, muscleIndex) => (
+                            <View key={muscleIndex} style={styles.muscleTag}>
+                              <Text style={styles.muscleTagText}>{muscle}</Text>
+                            </View>
+                          )
+                        )}
+                      </View>
+                    </View>
+                  </React.Fragment>
+                );
+              })}
+            </View>
+          ) : (
+            <View style={styles.noExercisesContainer}>
+              <Dumbbell size={48} color="#666" />
+              <Text style={styles.noExercisesTitle}>No Exercises</Text>
+              <Text style={styles.noExercisesText}>
+                This workout doesn't have any exercises yet.
+              </Text>
+            </View>
+          )}
+
+          {isOwner && (
+            <View style={styles.ownerActions}>
+              <TouchableOpacity
+                style={[styles.ownerAction, { backgroundColor: cardBg, borderColor }]}
+                onPress={() => router.push(routes.editWorkout(workout.id))}
+              >
+                <Pencil size={18} color={colors.primary} />
+                <Text style={[styles.ownerActionText, { color: colors.text }]}>Edit</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.ownerAction, { backgroundColor: cardBg, borderColor }]}
+                onPress={handleDuplicate}
+              >
+                <Copy size={18} color={colors.info} />
+                <Text style={[styles.ownerActionText, { color: colors.text }]}>Duplicate</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.ownerAction, { backgroundColor: cardBg, borderColor }]}
+                onPress={handleDelete}
+              >
+                <Trash2 size={18} color={colors.danger} />
+                <Text style={[styles.ownerActionText, { color: colors.text }]}>Delete</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
+          {!isOwner && workout.is_template && user ? (
+            <TouchableOpacity
+              style={[styles.customizeButton, { backgroundColor: cardBg, borderColor }]}
+              onPress={handleCustomize}
+            >
+              <GitFork size={18} color={colors.primary} />
+              <Text style={[styles.ownerActionText, { color: colors.text }]}>Customize a copy</Text>
+            </TouchableOpacity>
+          ) : null}
+
+          <TouchableOpacity
+            style={[styles.startWorkoutButton, exercises.length === 0 && styles.disabledButton]}
+            onPress={startWorkout}
+            disabled={exercises.length === 0}
           >
-            <Play size={24} color="#fff" />
-            <Text style={styles.startWorkoutText}>Start Workout</Text>
-          </LinearGradient>
-        </TouchableOpacity>
-      </View>
+            <LinearGradient
+              colors={exercises.length > 0 ? ['#FF6B35', '#FF8C42'] : ['#666', '#666']}
+              style={styles.startWorkoutGradient}
+            >
+              <Play size={24} color="#fff" />
+              <Text style={styles.startWorkoutText}>Start Workout</Text>
+            </LinearGradient>
+          </TouchableOpacity>
+        </View>
+      )}
     </ScrollView>
   );
 }
@@ -420,6 +690,16 @@ const styles = StyleSheet.create({
     lineHeight: 24,
     marginBottom: 20,
   },
+  forkNote: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  forkNoteText: {
+    fontSize: 13,
+    fontFamily: 'Inter-Medium',
+    marginLeft: 6,
+  },
   workoutMeta: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -482,6 +762,11 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: '#333',
   },
+  groupTitle: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    marginBottom: 8,
+  },
   exerciseHeader: {
     flexDirection: 'row',
     alignItems: 'flex-start',
@@ -559,6 +844,26 @@ const styles = StyleSheet.create({
     fontFamily: 'Inter-Medium',
     textTransform: 'capitalize',
   },
+  lockedBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    padding: 16,
+    marginTop: 20,
+    marginBottom: 16,
+  },
+  lockedMore: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    paddingVertical: 20,
+  },
   noExercisesContainer: {
     alignItems: 'center',
     paddingVertical: 60,
@@ -576,6 +881,34 @@ const styles = StyleSheet.create({
     fontFamily: 'Inter-Regular',
     textAlign: 'center',
   },
+  ownerActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 16,
+  },
+  ownerAction: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingVertical: 12,
+  },
+  customizeButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingVertical: 12,
+    marginBottom: 16,
+  },
+  ownerActionText: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    marginLeft: 6,
+  },
   startWorkoutButton: {
     marginBottom: 100,
     borderRadius: 16,
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   View,
   Text,
@@ -9,7 +9,6 @@ import {
   Alert,
   Modal,
   Animated,
-  Platform,
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { router, useLocalSearchParams } from 'expo-router';
@@ -27,25 +26,70 @@ import {
   CirclePause as PauseCircle,
   CircleStop as StopCircle,
   TriangleAlert as AlertTriangle,
+  TrendingUp,
 } from 'lucide-react-native';
+import { useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '@/contexts/AuthContext';
 import { useAchievements } from '@/hooks/useAchievements';
 import { usePersonalRecords } from '@/hooks/usePersonalRecords';
 import { useCoachNotes } from '@/hooks/useCoachNotes';
 import { usePathRecalc } from '@/hooks/usePathRecalc';
+import { useUnits } from '@/hooks/useUnits';
+import { useRestTimer } from '@/hooks/useRestTimer';
 import AchievementModal from '@/components/AchievementModal';
 import PersonalRecordModal from '@/components/PersonalRecordModal';
 import {
   supabase,
-  createWorkoutSession,
-  completeWorkoutSession,
+  getWorkoutExerciseGroups,
   Exercise,
   Workout,
   type Achievement,
+  type WorkoutExerciseGroup,
   type WorkoutSessionInsert,
 } from '@/lib/supabase';
 import { useTheme } from '@/theme/ThemeProvider';
 import { type PersonalRecordData } from '@/lib/personalRecords';
+import {
+  type ActiveGroupProgress,
+  type ActiveWorkoutSession,
+  clearActiveSession,
+  discardActiveSession,
+  loadActiveSession,
+  saveActiveSession,
+} from '@/lib/activeSession';
+import { queryKeys } from '@/lib/queryKeys';
+import {
+  EXERCISE_GROUP_LABELS,
+  describeExerciseGroup,
+  getGroupMemberIndexes,
+  getGroupPositionLabel,
+  getNextGroupStep,
+} from '@/lib/exerciseGroups';
+import {
+  SELECTABLE_SET_TYPES,
+  SET_TYPE_LABELS,
+  countsTowardVolume,
+  getPlannedSetTypes,
+  normalizeSetType,
+  type SetType,
+} from '@/lib/setTypes';
+import {
+  formatSuggestion,
+  getLastPerformance,
+  normalizeProgressionRule,
+  suggestNextSets,
+  type SetSuggestion,
+} from '@/lib/progression';
+import {
+  flushOutbox,
+  hasPendingSessionOperations,
+  queueCompleteSession,
+  queueExerciseSet,
+  queueSessionExercise,
+  queueWorkoutSession,
+  resolveOutboxId,
+} from '@/lib/workoutOutbox';
+import { routes } from '@/utils/routes';
 
 interface WorkoutExercise {
   id: number;
@@ -55,6 +99,8 @@ interface WorkoutExercise {
   target_reps: number[] | null;
   target_duration_seconds: number | null;
   rest_seconds: number;
+  group_id: string | null;
+  set_types: string[] | null;
   exercise: Exercise;
 }
 
@@ -65,6 +111,9 @@ interface ExerciseSet {
   duration_seconds: number | null;
   completed: boolean;
   rpe?: number;
+  set_type?: SetType;
+  id?: number;
+  parent_set_id?: number | null;
 }
 
 interface SessionStats {
@@ -87,8 +136,10 @@ export default function WorkoutSessionScreen() {
     coachingSessionId?: string;
   }>();
   const workoutIdNum = Number(workoutId);
-  const { user } = useAuth();
+  const { user, profile } = useAuth();
+  const queryClient = useQueryClient();
   const { colors } = useTheme();
+  const { system, weightUnit, weightStep, toDisplayWeight, fromDisplayWeight } = useUnits();
   const borderColor = colors.border || '#333';
   const cardBg = colors.surface || '#1a1a1a';
   const { checkForNewAchievements, newAchievements, clearNewAchievements } = useAchievements(
@@ -106,6 +157,7 @@ export default function WorkoutSessionScreen() {
   // Workout data
   const [workout, setWorkout] = useState<Workout | null>(null);
   const [exercises, setExercises] = useState<WorkoutExercise[]>([]);
+  const [groups, setGroups] = useState<WorkoutExerciseGroup[]>([]);
   const [currentExerciseIndex, setCurrentExerciseIndex] = useState(0);
 
   // Session state
@@ -115,10 +167,15 @@ export default function WorkoutSessionScreen() {
   const [isSessionActive, setIsSessionActive] = useState(false);
   const [sessionStartTime, setSessionStartTime] = useState<Date | null>(null);
   const [elapsedTime, setElapsedTime] = useState(0);
+  // Sets of the other exercises in the current superset/circuit while switching between them
+  const [groupProgress, setGroupProgress] = useState<ActiveGroupProgress | null>(null);
+  // Suggestions from last time, by exercise index
+  const [suggestions, setSuggestions] = useState<Record<number, SetSuggestion[]>>({});
+  // Exercises whose sets came back with a resumed session; they keep what was entered
+  const restoredExercises = useRef(new Set<number>());
 
   // Rest timer
-  const [restTimer, setRestTimer] = useState(0);
-  const [isResting, setIsResting] = useState(false);
+  const restTimer = useRestTimer();
   const [showRestModal, setShowRestModal] = useState(false);
 
   // UI state
@@ -135,6 +192,13 @@ export default function WorkoutSessionScreen() {
     estimatedCalories: 0,
   });
 
+  const getExerciseGroup = (index: number) => {
+    const groupId = exercises[index]?.group_id;
+    return groupId ? (groups.find((group) => group.id === groupId) ?? null) : null;
+  };
+  const currentGroup = getExerciseGroup(currentExerciseIndex);
+  const groupIds = exercises.map((exercise) => exercise.group_id);
+
   // Animation values
   const fadeAnim = new Animated.Value(0);
   const scaleAnim = new Animated.Value(1);
@@ -152,33 +216,27 @@ export default function WorkoutSessionScreen() {
     };
   }, [isSessionActive, sessionStartTime]);
 
-  // Rest timer effect
+  // Start tracking rounds when the session reaches a grouped exercise
   useEffect(() => {
-    let interval: ReturnType<typeof setInterval> | undefined;
-    if (isResting && restTimer > 0) {
-      interval = setInterval(() => {
-        setRestTimer((prev) => {
-          if (prev <= 1) {
-            setIsResting(false);
-            setShowRestModal(false);
-            // Haptic feedback when rest is complete (web-compatible)
-            if (Platform.OS !== 'web') {
-              try {
-                // Vibration would go here for native platforms
-              } catch {
-                console.log('Vibration not supported');
-              }
-            }
-            return 0;
-          }
-          return prev - 1;
-        });
-      }, 1000);
-    }
-    return () => {
-      if (interval) clearInterval(interval);
-    };
-  }, [isResting, restTimer]);
+    if (!isSessionActive || !currentGroup) return;
+    setGroupProgress((prev) => {
+      if (prev?.groupId === currentGroup.id) return prev;
+      const now = new Date().toISOString();
+      return {
+        groupId: currentGroup.id,
+        round: 1,
+        startedAt: now,
+        stepStartedAt: now,
+        completed: false,
+        exercises: {},
+      };
+    });
+  }, [isSessionActive, currentGroup]);
+
+  // Close the rest modal once the timer runs out
+  useEffect(() => {
+    if (!restTimer.isResting) setShowRestModal(false);
+  }, [restTimer.isResting]);
 
   // Achievement modal effect
   useEffect(() => {
@@ -201,12 +259,73 @@ export default function WorkoutSessionScreen() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [workoutId]);
 
+  // Prefill the current exercise from last time, once per exercise, after its sets are set up
+  useEffect(() => {
+    const exercise = exercises[currentExerciseIndex];
+    if (loading || !user || !exercise || suggestions[currentExerciseIndex]) return;
+
+    let cancelled = false;
+    const index = currentExerciseIndex;
+    getLastPerformance(user.id, exercise.exercise_id).then((previous) => {
+      if (cancelled) return;
+      const next = suggestNextSets(
+        previous,
+        buildSetsForExercise(exercise),
+        normalizeProgressionRule(profile?.progression_rule),
+        fromDisplayWeight(weightStep)
+      );
+      setSuggestions((prev) => ({ ...prev, [index]: next }));
+      if (!restoredExercises.current.has(index)) {
+        setSets((prev) => applySuggestions(prev, next));
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentExerciseIndex, exercises, user, loading]);
+
   // Update session stats when sets change
   useEffect(() => {
     updateSessionStats();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [sets, exercises]);
 
+  // Persist the in-progress session so it can be resumed after the app is killed
+  useEffect(() => {
+    if (!isSessionActive || !sessionId || !sessionStartTime || !user) return;
+
+    saveActiveSession({
+      userId: user.id,
+      sessionId,
+      workoutId: workoutIdNum,
+      workoutName: workoutName || workout?.name || 'Workout',
+      coachingSessionId: coachingSessionId ?? null,
+      sessionStartTime: sessionStartTime.toISOString(),
+      currentExerciseIndex,
+      exerciseCount: exercises.length,
+      sessionExerciseId,
+      sets,
+      restEndsAt: restTimer.endsAt ? new Date(restTimer.endsAt).toISOString() : null,
+      groupProgress,
+    });
+  }, [
+    isSessionActive,
+    sessionId,
+    sessionStartTime,
+    user,
+    workoutIdNum,
+    workoutName,
+    workout?.name,
+    coachingSessionId,
+    currentExerciseIndex,
+    exercises.length,
+    sessionExerciseId,
+    sets,
+    restTimer.endsAt,
+    groupProgress,
+  ]);
+
   // NEW: Effect to create session exercise when session and exercise data are ready
   useEffect(() => {
     if (
@@ -262,9 +381,13 @@ export default function WorkoutSessionScreen() {
               }) as WorkoutExercise
           ) ?? [];
       setExercises(cleaned);
+      setGroups(await getWorkoutExerciseGroups(workoutIdNum));
 
-      // Initialize sets for first exercise
-      if (cleaned.length > 0) {
+      const storedSession = user ? await loadActiveSession(user.id) : null;
+      if (storedSession && storedSession.workoutId === workoutIdNum && cleaned.length > 0) {
+        restoreActiveSession(storedSession, cleaned);
+      } else if (cleaned.length > 0) {
+        // Initialize sets for first exercise
         initializeSetsForExercise(cleaned[0]);
       }
     } catch (error) {
@@ -275,8 +398,9 @@ export default function WorkoutSessionScreen() {
     }
   };
 
-  const initializeSetsForExercise = (exercise: WorkoutExercise) => {
+  const buildSetsForExercise = (exercise: WorkoutExercise) => {
     const initialSets: ExerciseSet[] = [];
+    const setTypes = getPlannedSetTypes(exercise.set_types, exercise.target_sets);
     for (let i = 0; i < exercise.target_sets; i++) {
       initialSets.push({
         set_number: i + 1,
@@ -284,16 +408,70 @@ export default function WorkoutSessionScreen() {
         weight_kg: null,
         duration_seconds: exercise.target_duration_seconds || null,
         completed: false,
+        set_type: setTypes[i],
       });
     }
-    setSets(initialSets);
+    return initialSets;
+  };
+
+  const buildEmptySet = (setNumber: number): ExerciseSet => ({
+    set_number: setNumber,
+    reps: null,
+    weight_kg: null,
+    duration_seconds: null,
+    completed: false,
+    set_type: 'working',
+  });
+
+  const initializeSetsForExercise = (exercise: WorkoutExercise) => {
+    setSets(buildSetsForExercise(exercise));
+  };
+
+  // Sets still to do take last time's values, moved on by the suggestion; a missing value in the
+  // suggestion leaves the set's own
+  const applySuggestions = (currentSets: ExerciseSet[], next: SetSuggestion[]) =>
+    currentSets.map((set) => {
+      const suggestion = next.find((item) => item.set_number === set.set_number);
+      if (!suggestion || set.completed || set.parent_set_id) return set;
+      return {
+        ...set,
+        reps: suggestion.reps ?? set.reps,
+        weight_kg: suggestion.weight_kg ?? set.weight_kg,
+        duration_seconds: suggestion.duration_seconds ?? set.duration_seconds,
+      };
+    });
+
+  const restoreActiveSession = (stored: ActiveWorkoutSession, loaded: WorkoutExercise[]) => {
+    const index = Math.min(stored.currentExerciseIndex, loaded.length - 1);
+    if (stored.sets.length > 0) restoredExercises.current.add(index);
+    Object.keys(stored.groupProgress?.exercises ?? {}).forEach((key) =>
+      restoredExercises.current.add(Number(key))
+    );
+
+    setSessionId(stored.sessionId);
+    setSessionStartTime(new Date(stored.sessionStartTime));
+    setCurrentExerciseIndex(index);
+    setSessionExerciseId(stored.sessionExerciseId);
+    setSets(stored.sets.length > 0 ? stored.sets : buildSetsForExercise(loaded[index]));
+    setGroupProgress(stored.groupProgress ?? null);
+    setIsSessionActive(true);
+
+    const restEndsAt = stored.restEndsAt ? new Date(stored.restEndsAt).getTime() : null;
+    if (restEndsAt && restEndsAt > Date.now()) {
+      restTimer.restore(restEndsAt, loaded[index].exercise?.name);
+      setShowRestModal(true);
+    }
+  };
+
+  const refreshActiveSessionQuery = () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.workouts.activeSession(user?.id) });
   };
 
   const updateSessionStats = () => {
     const totalSets = exercises.reduce((sum, ex) => sum + ex.target_sets, 0);
     const completedSets = sets.filter((set) => set.completed).length;
     const totalVolume = sets.reduce((sum, set) => {
-      if (set.completed && set.weight_kg && set.reps) {
+      if (set.completed && countsTowardVolume(set) && set.weight_kg && set.reps) {
         return sum + set.weight_kg * set.reps;
       }
       return sum;
@@ -317,6 +495,47 @@ export default function WorkoutSessionScreen() {
       return;
     }
 
+    const existing = await loadActiveSession(user.id);
+    if (existing && existing.workoutId !== workoutIdNum) {
+      Alert.alert(
+        'Workout in Progress',
+        `You still have "${existing.workoutName}" in progress. Resume it or discard it to start this workout.`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Resume',
+            onPress: () =>
+              router.replace(
+                routes.workoutSession(
+                  existing.workoutId,
+                  existing.workoutName,
+                  existing.coachingSessionId ?? undefined
+                )
+              ),
+          },
+          {
+            text: 'Discard & Start',
+            style: 'destructive',
+            onPress: async () => {
+              const { error } = await discardActiveSession(existing);
+              if (error) {
+                Alert.alert('Error', 'Could not discard the previous workout.');
+                return;
+              }
+              await beginWorkoutSession();
+            },
+          },
+        ]
+      );
+      return;
+    }
+
+    await beginWorkoutSession();
+  };
+
+  const beginWorkoutSession = async () => {
+    if (!user || !workout) return;
+
     try {
       const startTime = new Date();
       const payload: WorkoutSessionInsert & { coaching_session_id?: string | null } = {
@@ -327,13 +546,14 @@ export default function WorkoutSessionScreen() {
         coaching_session_id: coachingSessionId ?? null,
       };
 
-      const { data, error } = await createWorkoutSession(payload as WorkoutSessionInsert);
-
-      if (error) throw error;
+      // Writes go through the outbox so the session keeps working without a connection.
+      const localSessionId = await queueWorkoutSession(user.id, payload as WorkoutSessionInsert);
+      flushOutbox(user.id);
 
-      setSessionId(data?.id ?? null);
+      setSessionId(localSessionId);
       setSessionStartTime(startTime);
       setIsSessionActive(true);
+      refreshActiveSessionQuery();
 
       // NOTE: Removed direct call to createSessionExercise() here
       // It will be handled by the useEffect hook above
@@ -358,21 +578,17 @@ export default function WorkoutSessionScreen() {
   };
 
   const createSessionExercise = async () => {
-    if (!sessionId || exercises.length === 0 || currentExerciseIndex >= exercises.length) return;
+    if (!user || !sessionId || exercises.length === 0 || currentExerciseIndex >= exercises.length) {
+      return;
+    }
 
     try {
-      const { data, error } = await supabase
-        .from('session_exercises')
-        .insert({
-          session_id: sessionId,
-          exercise_id: exercises[currentExerciseIndex]?.exercise_id ?? 0,
-          order_index: currentExerciseIndex,
-        })
-        .select()
-        .single();
-
-      if (error) throw error;
-      setSessionExerciseId(data.id);
+      const localSessionExerciseId = await queueSessionExercise(user.id, sessionId, {
+        exercise_id: exercises[currentExerciseIndex]?.exercise_id ?? 0,
+        order_index: currentExerciseIndex,
+      });
+      flushOutbox(user.id);
+      setSessionExerciseId(localSessionExerciseId);
     } catch (error) {
       console.error('Error creating session exercise:', error);
     }
@@ -385,30 +601,36 @@ export default function WorkoutSessionScreen() {
     duration?: number,
     rpe?: number
   ) => {
-    if (!sessionExerciseId) {
+    if (!user || !sessionExerciseId) {
       Alert.alert('Error', 'Session not properly initialized. Please restart the workout.');
       return;
     }
 
     try {
+      const set = sets[setIndex];
       const setData = {
-        session_exercise_id: sessionExerciseId,
-        set_number: setIndex + 1,
+        set_number: set.set_number,
         reps: reps || null,
         weight_kg: weight || null,
         duration_seconds: duration || null,
         rpe: rpe || null,
         completed: true,
+        set_type: normalizeSetType(set.set_type),
       };
 
-      const { error } = await supabase.from('exercise_sets').insert(setData);
-
-      if (error) throw error;
+      const localSetId = await queueExerciseSet(
+        user.id,
+        sessionExerciseId,
+        setData,
+        set.parent_set_id ?? null
+      );
+      flushOutbox(user.id);
 
       // Update local state
       const updatedSets = [...sets];
       updatedSets[setIndex] = {
         ...updatedSets[setIndex],
+        id: localSetId,
         reps,
         weight_kg: weight,
         duration_seconds: duration ?? null,
@@ -431,8 +653,12 @@ export default function WorkoutSessionScreen() {
         }),
       ]).start();
 
-      // Start rest timer if not the last set
-      if (setIndex < sets.length - 1) {
+      // Grouped exercises move on to the next exercise of the round instead of the next set
+      const group = getExerciseGroup(currentExerciseIndex);
+      if (group && groupProgress) {
+        advanceGroup(group, groupProgress, setIndex + 1, updatedSets);
+      } else if (setIndex < sets.length - 1) {
+        // Start rest timer if not the last set
         startRestTimer();
       }
     } catch (error) {
@@ -443,31 +669,142 @@ export default function WorkoutSessionScreen() {
 
   const startRestTimer = () => {
     const currentExercise = exercises[currentExerciseIndex];
-    setRestTimer(currentExercise.rest_seconds);
-    setIsResting(true);
+    restTimer.start({
+      exerciseId: currentExercise.exercise_id,
+      prescribedSeconds: currentExercise.rest_seconds,
+      exerciseName: currentExercise.exercise?.name,
+    });
     setShowRestModal(true);
   };
 
+  // Parks the current exercise's sets and picks up where the other exercise of the group left off
+  const switchToGroupMember = (
+    progress: ActiveGroupProgress,
+    index: number,
+    round: number,
+    currentSets: ExerciseSet[],
+    stepStartedAt: number
+  ) => {
+    const parked = {
+      ...progress.exercises,
+      [currentExerciseIndex]: { sessionExerciseId, sets: currentSets },
+    };
+    const nextSets = [...(parked[index]?.sets ?? buildSetsForExercise(exercises[index]))];
+    // AMRAP rounds can run past the planned sets
+    while (nextSets.length < round) nextSets.push(buildEmptySet(nextSets.length + 1));
+
+    setGroupProgress({
+      ...progress,
+      round,
+      stepStartedAt: new Date(stepStartedAt).toISOString(),
+      exercises: parked,
+    });
+    setCurrentExerciseIndex(index);
+    setSessionExerciseId(parked[index]?.sessionExerciseId ?? null);
+    setSets(nextSets);
+  };
+
+  const advanceGroup = (
+    group: WorkoutExerciseGroup,
+    progress: ActiveGroupProgress,
+    round: number,
+    currentSets: ExerciseSet[]
+  ) => {
+    const now = Date.now();
+    const step = getNextGroupStep({
+      group,
+      memberIndexes: getGroupMemberIndexes(exercises, currentExerciseIndex),
+      exerciseIndex: currentExerciseIndex,
+      round,
+      stepSeconds: (now - new Date(progress.stepStartedAt).getTime()) / 1000,
+      groupSeconds: (now - new Date(progress.startedAt).getTime()) / 1000,
+    });
+
+    if (step.kind === 'done') {
+      setGroupProgress({
+        ...progress,
+        completed: true,
+        exercises: {
+          ...progress.exercises,
+          [currentExerciseIndex]: { sessionExerciseId, sets: currentSets },
+        },
+      });
+      return;
+    }
+
+    switchToGroupMember(
+      progress,
+      step.exerciseIndex,
+      step.round,
+      currentSets,
+      now + step.restSeconds * 1000
+    );
+    const nextExercise = exercises[step.exerciseIndex];
+    restTimer.start({
+      exerciseId: nextExercise.exercise_id,
+      exerciseName: nextExercise.exercise?.name,
+      seconds: step.restSeconds,
+    });
+    if (step.restSeconds > 0) setShowRestModal(true);
+  };
+
   const skipRest = () => {
-    setIsResting(false);
+    restTimer.skip();
     setShowRestModal(false);
-    setRestTimer(0);
+  };
+
+  const extendRest = (seconds: number) => {
+    restTimer.extend(seconds);
+  };
+
+  const saveRestDefault = async () => {
+    const currentExercise = exercises[currentExerciseIndex];
+    if (!currentExercise) return;
+    await restTimer.rememberForExercise(currentExercise.exercise_id, restTimer.duration);
   };
 
   const addExtraSet = () => {
-    const newSet: ExerciseSet = {
-      set_number: sets.length + 1,
+    // Drop sets share their parent's number, so the count of rows is not the next number
+    const lastSetNumber = Math.max(0, ...sets.map((set) => set.set_number));
+    setSets([...sets, buildEmptySet(lastSetNumber + 1)]);
+  };
+
+  const changeSetType = (setIndex: number, setType: SetType) => {
+    setSets(sets.map((set, index) => (index === setIndex ? { ...set, set_type: setType } : set)));
+  };
+
+  // Adds a drop set after a logged set and any drop sets already hanging off it
+  const addDropSet = (parentIndex: number) => {
+    const parent = sets[parentIndex];
+    if (!parent?.id) return;
+
+    let insertAt = parentIndex + 1;
+    while (insertAt < sets.length && sets[insertAt].parent_set_id === parent.id) insertAt += 1;
+    const previous = sets[insertAt - 1];
+
+    const dropSet: ExerciseSet = {
+      set_number: parent.set_number,
       reps: null,
-      weight_kg: null,
+      weight_kg: previous.weight_kg,
       duration_seconds: null,
       completed: false,
+      set_type: 'drop',
+      parent_set_id: parent.id,
     };
-    setSets([...sets, newSet]);
+    setSets([...sets.slice(0, insertAt), dropSet, ...sets.slice(insertAt)]);
+    // Drop sets follow straight on from the set before them
+    if (showRestModal) skipRest();
   };
 
+  // A group is left as a whole, so the next exercise comes after its last member
+  const getLastIndexOfBlock = () =>
+    Math.max(...getGroupMemberIndexes(exercises, currentExerciseIndex));
+
   const nextExercise = async () => {
-    if (currentExerciseIndex < exercises.length - 1) {
-      const nextIndex = currentExerciseIndex + 1;
+    const lastIndex = getLastIndexOfBlock();
+    if (lastIndex < exercises.length - 1) {
+      const nextIndex = lastIndex + 1;
+      setGroupProgress(null);
       setCurrentExerciseIndex(nextIndex);
       setSessionExerciseId(null); // Reset session exercise ID
       initializeSetsForExercise(exercises[nextIndex]);
@@ -484,11 +821,28 @@ export default function WorkoutSessionScreen() {
     try {
       const duration = Math.floor((Date.now() - sessionStartTime.getTime()) / 60000);
       const estimatedCalories = sessionStats.estimatedCalories;
-
-      await completeWorkoutSession(sessionId, duration, estimatedCalories, 5);
+      restTimer.skip();
+
+      await queueCompleteSession(user.id, sessionId, duration, estimatedCalories, 5);
+      await clearActiveSession();
+      refreshActiveSessionQuery();
+
+      await flushOutbox(user.id);
+      const serverSessionId = await resolveOutboxId(user.id, sessionId);
+      const isSynced =
+        serverSessionId !== null && !(await hasPendingSessionOperations(user.id, sessionId));
+
+      if (!isSynced) {
+        Alert.alert(
+          'Workout Saved 💾',
+          `You completed your workout in ${duration} minutes. It will sync when you're back online, and we'll check for new records then.`,
+          [{ text: 'OK', onPress: () => router.replace('/(tabs)') }]
+        );
+        return;
+      }
 
       // Check for new personal records first
-      const newlyAchievedRecords = await checkForNewRecords(sessionId);
+      const newlyAchievedRecords = await checkForNewRecords(serverSessionId);
 
       // Then check for new achievements
       const newlyUnlocked = await checkForNewAchievements();
@@ -543,7 +897,18 @@ export default function WorkoutSessionScreen() {
         {
           text: 'Discard',
           style: 'destructive',
-          onPress: () => router.replace('/(tabs)'),
+          onPress: async () => {
+            restTimer.skip();
+            if (sessionId && user) {
+              const { error } = await discardActiveSession({ sessionId, userId: user.id });
+              if (error) {
+                Alert.alert('Error', 'Failed to discard workout. Please try again.');
+                return;
+              }
+              refreshActiveSessionQuery();
+            }
+            router.replace('/(tabs)');
+          },
         },
       ]
     );
@@ -692,27 +1057,41 @@ export default function WorkoutSessionScreen() {
 
           <View style={styles.exercisesList}>
             <Text style={[styles.exercisesTitle, { color: colors.text }]}>Workout Overview</Text>
-            {exercises.map((exercise, index) => (
-              <View
-                key={exercise.id}
-                style={[styles.exercisePreviewCard, { backgroundColor: cardBg, borderColor }]}
-              >
-                <View style={[styles.exerciseNumber, { backgroundColor: colors.primary }]}>
-                  <Text style={styles.exerciseNumberText}>{index + 1}</Text>
-                </View>
-                <View style={styles.exercisePreviewInfo}>
-                  <Text style={[styles.exercisePreviewName, { color: colors.text }]}>
-                    {exercise.exercise?.name || 'Unknown Exercise'}
-                  </Text>
-                  <Text style={[styles.exercisePreviewDetails, { color: colors.textMuted }]}>
-                    {exercise.target_sets} sets
-                    {exercise.target_reps && ` • ${exercise.target_reps.join('-')} reps`}
-                    {exercise.target_duration_seconds && ` • ${exercise.target_duration_seconds}s`}
-                    {exercise.rest_seconds && ` • ${exercise.rest_seconds}s rest`}
-                  </Text>
-                </View>
-              </View>
-            ))}
+            {exercises.map((exercise, index) => {
+              const group = getExerciseGroup(index);
+              const groupStartsHere = group && exercises[index - 1]?.group_id !== group.id;
+              return (
+                <React.Fragment key={exercise.id}>
+                  {groupStartsHere ? (
+                    <Text style={[styles.groupPreviewTitle, { color: colors.primary }]}>
+                      {describeExerciseGroup(group)}
+                    </Text>
+                  ) : null}
+                  <View
+                    style={[styles.exercisePreviewCard, { backgroundColor: cardBg, borderColor }]}
+                  >
+                    <View style={[styles.exerciseNumber, { backgroundColor: colors.primary }]}>
+                      <Text style={styles.exerciseNumberText}>
+                        {getGroupPositionLabel(groupIds, index) ?? index + 1}
+                      </Text>
+                    </View>
+                    <View style={styles.exercisePreviewInfo}>
+                      <Text style={[styles.exercisePreviewName, { color: colors.text }]}>
+                        {exercise.exercise?.name || 'Unknown Exercise'}
+                      </Text>
+                      <Text style={[styles.exercisePreviewDetails, { color: colors.textMuted }]}>
+                        {exercise.target_sets} sets
+                        {exercise.target_reps && ` • ${exercise.target_reps.join('-')} reps`}
+                        {exercise.target_duration_seconds &&
+                          ` • ${exercise.target_duration_seconds}s`}
+                        {!group &&
+                          ` • ${restTimer.getRestSeconds(exercise.exercise_id, exercise.rest_seconds)}s rest`}
+                      </Text>
+                    </View>
+                  </View>
+                </React.Fragment>
+              );
+            })}
           </View>
 
           {coachingSessionId ? (
@@ -740,6 +1119,24 @@ export default function WorkoutSessionScreen() {
   }
 
   const currentExercise = exercises[currentExerciseIndex];
+  // Rests inside a group come from the group, so there is no per-exercise default to save
+  const currentRestDefault =
+    currentExercise && !currentGroup
+      ? restTimer.getRestSeconds(currentExercise.exercise_id, currentExercise.rest_seconds)
+      : null;
+  const groupMemberIndexes = getGroupMemberIndexes(exercises, currentExerciseIndex);
+  const isLastBlock = getLastIndexOfBlock() === exercises.length - 1;
+  const groupTimeLeft =
+    currentGroup?.group_type === 'amrap' && groupProgress && currentGroup.time_cap_seconds
+      ? Math.max(
+          0,
+          currentGroup.time_cap_seconds -
+            Math.floor((Date.now() - new Date(groupProgress.startedAt).getTime()) / 1000)
+        )
+      : null;
+  const canAdvance = currentGroup
+    ? !!groupProgress?.completed || groupTimeLeft === 0
+    : sets.every((s) => s.completed);
 
   return (
     <View style={[styles.container, { backgroundColor: colors.background }]}>
@@ -763,6 +1160,52 @@ export default function WorkoutSessionScreen() {
           Exercise {currentExerciseIndex + 1} of {exercises.length}
         </Text>
 
+        {currentGroup && groupProgress ? (
+          <View style={styles.groupBanner}>
+            <Text style={[styles.groupBannerText, { color: colors.primary }]}>
+              {EXERCISE_GROUP_LABELS[currentGroup.group_type]} • Round {groupProgress.round}
+              {currentGroup.group_type === 'amrap'
+                ? ` • ${formatTime(groupTimeLeft ?? 0)} left`
+                : ` of ${currentGroup.rounds}`}
+            </Text>
+            <View style={styles.groupMembers}>
+              {groupMemberIndexes.map((memberIndex) => {
+                const isCurrent = memberIndex === currentExerciseIndex;
+                return (
+                  <TouchableOpacity
+                    key={memberIndex}
+                    style={[
+                      styles.groupMemberChip,
+                      { borderColor: isCurrent ? colors.primary : colors.border },
+                    ]}
+                    disabled={isCurrent}
+                    onPress={() =>
+                      switchToGroupMember(
+                        groupProgress,
+                        memberIndex,
+                        groupProgress.round,
+                        sets,
+                        Date.now()
+                      )
+                    }
+                  >
+                    <Text
+                      style={[
+                        styles.groupMemberText,
+                        { color: isCurrent ? colors.primary : colors.textMuted },
+                      ]}
+                      numberOfLines={1}
+                    >
+                      {getGroupPositionLabel(groupIds, memberIndex)}{' '}
+                      {exercises[memberIndex].exercise?.name}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+        ) : null}
+
         {/* Progress Bar */}
         <View style={styles.progressBarContainer}>
           <View style={[styles.progressBar, { backgroundColor: colors.border }]}>
@@ -823,8 +1266,10 @@ export default function WorkoutSessionScreen() {
             <Text style={styles.sessionStatLabel}>Sets Done</Text>
           </View>
           <View style={styles.sessionStatCard}>
-            <Text style={styles.sessionStatValue}>{Math.round(sessionStats.totalVolume)}</Text>
-            <Text style={styles.sessionStatLabel}>Volume (kg)</Text>
+            <Text style={styles.sessionStatValue}>
+              {Math.round(toDisplayWeight(sessionStats.totalVolume))}
+            </Text>
+            <Text style={styles.sessionStatLabel}>Volume ({weightUnit})</Text>
           </View>
           <View style={styles.sessionStatCard}>
             <Text style={styles.sessionStatValue}>{sessionStats.estimatedCalories}</Text>
@@ -848,29 +1293,48 @@ export default function WorkoutSessionScreen() {
             </TouchableOpacity>
           </View>
 
-          {sets.map((set, index) => (
-            <SetLogger
-              key={index}
-              set={set}
-              setIndex={index}
-              exercise={currentExercise}
-              onLogSet={logSet}
-            />
-          ))}
+          {sets.map((set, index) => {
+            const dropNumber = getDropNumber(sets, index);
+            // The row remounts once its suggestion arrives so the inputs pick up the prefill
+            const suggestion = set.parent_set_id
+              ? undefined
+              : suggestions[currentExerciseIndex]?.find(
+                  (item) => item.set_number === set.set_number
+                );
+            const canAddDropSet =
+              !currentGroup &&
+              !currentExercise.target_duration_seconds &&
+              set.completed &&
+              !!set.id &&
+              !set.parent_set_id;
+            return (
+              <SetLogger
+                key={`${currentExerciseIndex}-${set.set_number}-${dropNumber}-${!!suggestion}`}
+                set={set}
+                setIndex={index}
+                dropNumber={dropNumber}
+                suggestion={
+                  suggestion && !set.completed ? formatSuggestion(suggestion, system) : undefined
+                }
+                exercise={currentExercise}
+                onLogSet={logSet}
+                onChangeSetType={changeSetType}
+                onAddDropSet={canAddDropSet ? addDropSet : undefined}
+              />
+            );
+          })}
         </View>
 
         <View style={styles.actionButtons}>
           <TouchableOpacity
-            style={[styles.nextButton, { opacity: sets.every((s) => s.completed) ? 1 : 0.5 }]}
+            style={[styles.nextButton, { opacity: canAdvance ? 1 : 0.5 }]}
             onPress={nextExercise}
-            disabled={!sets.every((s) => s.completed)}
+            disabled={!canAdvance}
           >
             <Text style={styles.nextButtonText}>
-              {currentExerciseIndex === exercises.length - 1 ? 'Finish Workout' : 'Next Exercise'}
+              {isLastBlock ? 'Finish Workout' : 'Next Exercise'}
             </Text>
-            {currentExerciseIndex < exercises.length - 1 && (
-              <SkipForward size={20} color="#fff" style={{ marginLeft: 8 }} />
-            )}
+            {!isLastBlock && <SkipForward size={20} color="#fff" style={{ marginLeft: 8 }} />}
           </TouchableOpacity>
         </View>
       </ScrollView>
@@ -919,23 +1383,33 @@ export default function WorkoutSessionScreen() {
           <View style={styles.restModal}>
             <Timer size={48} color="#FF6B35" />
             <Text style={styles.restTitle}>Rest Time</Text>
-            <Text style={styles.restTimer}>{formatTime(restTimer)}</Text>
+            <Text style={styles.restTimer}>{formatTime(restTimer.remaining)}</Text>
             <Text style={styles.restSubtitle}>Take a breather, you've earned it!</Text>
 
             <View style={styles.restActions}>
+              <TouchableOpacity style={styles.addTimeButton} onPress={() => extendRest(-15)}>
+                <Minus size={20} color="#fff" />
+                <Text style={styles.addTimeText}>15s</Text>
+              </TouchableOpacity>
+
               <TouchableOpacity style={styles.skipRestButton} onPress={skipRest}>
                 <SkipForward size={20} color="#fff" />
                 <Text style={styles.skipRestText}>Skip Rest</Text>
               </TouchableOpacity>
 
-              <TouchableOpacity
-                style={styles.addTimeButton}
-                onPress={() => setRestTimer((prev) => prev + 30)}
-              >
+              <TouchableOpacity style={styles.addTimeButton} onPress={() => extendRest(30)}>
                 <Plus size={20} color="#4A90E2" />
-                <Text style={styles.addTimeText}>+30s</Text>
+                <Text style={styles.addTimeText}>30s</Text>
               </TouchableOpacity>
             </View>
+
+            {currentRestDefault !== null && restTimer.duration !== currentRestDefault && (
+              <TouchableOpacity style={styles.restDefaultButton} onPress={saveRestDefault}>
+                <Text style={styles.restDefaultText}>
+                  Always rest {restTimer.duration}s for this exercise
+                </Text>
+              </TouchableOpacity>
+            )}
           </View>
         </View>
       </Modal>
@@ -963,20 +1437,49 @@ export default function WorkoutSessionScreen() {
   );
 }
 
+// 1-based position of a drop set among its parent's drop sets; 0 for other sets
+const getDropNumber = (sets: ExerciseSet[], index: number) => {
+  const parentId = sets[index].parent_set_id;
+  if (!parentId) return 0;
+  return sets.slice(0, index + 1).filter((set) => set.parent_set_id === parentId).length;
+};
+
 interface SetLoggerProps {
   set: ExerciseSet;
   setIndex: number;
+  dropNumber: number;
+  // Inline note on how the prefilled values moved on from last time
+  suggestion?: string;
   exercise: WorkoutExercise;
   onLogSet: (index: number, reps: number, weight: number, duration?: number, rpe?: number) => void;
+  onChangeSetType: (index: number, setType: SetType) => void;
+  onAddDropSet?: (index: number) => void;
 }
 
-function SetLogger({ set, setIndex, exercise, onLogSet }: SetLoggerProps) {
+// Upper bound for a single set, stored in kg and shown in the user's units.
+const MAX_SET_WEIGHT_KG = 1000;
+
+function SetLogger({
+  set,
+  setIndex,
+  dropNumber,
+  suggestion,
+  exercise,
+  onLogSet,
+  onChangeSetType,
+  onAddDropSet,
+}: SetLoggerProps) {
+  const { weightUnit, weightStep, toDisplayWeight, fromDisplayWeight, roundToPlate } = useUnits();
+  const maxWeight = Math.round(toDisplayWeight(MAX_SET_WEIGHT_KG));
   const [reps, setReps] = useState(set.reps?.toString() || '');
-  const [weight, setWeight] = useState(set.weight_kg?.toString() || '');
+  const [weight, setWeight] = useState(
+    set.weight_kg != null ? toDisplayWeight(set.weight_kg).toString() : ''
+  );
   const [duration, setDuration] = useState(set.duration_seconds?.toString() || '');
   const [rpe, setRpe] = useState(set.rpe?.toString() || '');
   const [showRPE, setShowRPE] = useState(false);
   const [errors, setErrors] = useState<SetValidationErrors>({});
+  const setType = normalizeSetType(set.set_type);
 
   const validateInputs = (): boolean => {
     const newErrors: SetValidationErrors = {};
@@ -1005,8 +1508,8 @@ function SetLogger({ set, setIndex, exercise, onLogSet }: SetLoggerProps) {
         if (isNaN(weightNum) || weightNum < 0) {
           newErrors.weight = 'Must be a positive number';
           isValid = false;
-        } else if (weightNum > 1000) {
-          newErrors.weight = 'Must be less than 1000kg';
+        } else if (weightNum > maxWeight) {
+          newErrors.weight = `Must be less than ${maxWeight}${weightUnit}`;
           isValid = false;
         }
       }
@@ -1038,7 +1541,8 @@ function SetLogger({ set, setIndex, exercise, onLogSet }: SetLoggerProps) {
     }
 
     const repsNum = parseInt(reps) || 0;
-    const weightNum = parseFloat(weight) || 0;
+    // Sets are always logged in kg regardless of the display unit
+    const weightNum = fromDisplayWeight(parseFloat(weight) || 0);
     const durationNum = parseInt(duration) || 0;
     const rpeNum = parseInt(rpe) || undefined;
 
@@ -1059,6 +1563,13 @@ function SetLogger({ set, setIndex, exercise, onLogSet }: SetLoggerProps) {
     setErrors((prev) => ({ ...prev }));
   };
 
+  // Weight buttons snap to the nearest plate increment for the active unit system
+  const adjustWeight = (step: number) => {
+    const current = parseFloat(weight) || 0;
+    setWeight(Math.max(0, roundToPlate(current + step)).toString());
+    setErrors((prev) => ({ ...prev }));
+  };
+
   const handleInputChange = (
     value: string,
     setter: (value: string) => void,
@@ -1074,10 +1585,45 @@ function SetLogger({ set, setIndex, exercise, onLogSet }: SetLoggerProps) {
   return (
     <View style={[styles.setCard, set.completed && styles.setCardCompleted]}>
       <View style={styles.setHeader}>
-        <Text style={styles.setNumber}>Set {set.set_number}</Text>
+        <View style={styles.setTitleRow}>
+          <Text style={styles.setNumber}>
+            Set {set.set_number}
+            {setType === 'drop' ? ` • Drop ${dropNumber}` : ''}
+          </Text>
+          {setType !== 'working' && setType !== 'drop' && (
+            <View style={[styles.setTypeBadge, setType === 'warmup' && styles.setTypeBadgeWarmup]}>
+              <Text style={styles.setTypeBadgeText}>{SET_TYPE_LABELS[setType]}</Text>
+            </View>
+          )}
+        </View>
         {set.completed && <CheckCircle size={20} color="#27AE60" />}
       </View>
 
+      {suggestion && (
+        <View style={styles.suggestionRow}>
+          <TrendingUp size={14} color="#4A90E2" />
+          <Text style={styles.suggestionText}>{suggestion}</Text>
+        </View>
+      )}
+
+      {!set.completed && setType !== 'drop' && (
+        <View style={styles.setTypeRow}>
+          {SELECTABLE_SET_TYPES.map((type) => (
+            <TouchableOpacity
+              key={type}
+              style={[styles.setTypeChip, setType === type && styles.setTypeChipActive]}
+              onPress={() => onChangeSetType(setIndex, type)}
+            >
+              <Text
+                style={[styles.setTypeChipText, setType === type && styles.setTypeChipTextActive]}
+              >
+                {SET_TYPE_LABELS[type]}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
       <View style={styles.setInputs}>
         {!exercise.target_duration_seconds && (
           <View style={styles.inputGroup}>
@@ -1111,11 +1657,11 @@ function SetLogger({ set, setIndex, exercise, onLogSet }: SetLoggerProps) {
 
         {!exercise.target_duration_seconds && (
           <View style={styles.inputGroup}>
-            <Text style={styles.inputLabel}>Weight (kg)</Text>
+            <Text style={styles.inputLabel}>Weight ({weightUnit})</Text>
             <View style={styles.inputWithButtons}>
               <TouchableOpacity
                 style={styles.inputButton}
-                onPress={() => decrementValue(weight, setWeight, 2.5)}
+                onPress={() => adjustWeight(-weightStep)}
               >
                 <Minus size={16} color="#999" />
               </TouchableOpacity>
@@ -1128,10 +1674,7 @@ function SetLogger({ set, setIndex, exercise, onLogSet }: SetLoggerProps) {
                 placeholderTextColor="#666"
                 editable={!set.completed}
               />
-              <TouchableOpacity
-                style={styles.inputButton}
-                onPress={() => incrementValue(weight, setWeight, 2.5)}
-              >
+              <TouchableOpacity style={styles.inputButton} onPress={() => adjustWeight(weightStep)}>
                 <Plus size={16} color="#999" />
               </TouchableOpacity>
             </View>
@@ -1207,6 +1750,13 @@ function SetLogger({ set, setIndex, exercise, onLogSet }: SetLoggerProps) {
           <Text style={styles.logSetButtonText}>Complete Set</Text>
         </TouchableOpacity>
       )}
+
+      {onAddDropSet && (
+        <TouchableOpacity style={styles.addDropSetButton} onPress={() => onAddDropSet(setIndex)}>
+          <Plus size={16} color="#FF6B35" />
+          <Text style={styles.addDropSetText}>Add Drop Set</Text>
+        </TouchableOpacity>
+      )}
     </View>
   );
 }
@@ -1349,6 +1899,30 @@ const styles = StyleSheet.create({
     fontFamily: 'Inter-Medium',
     marginBottom: 16,
   },
+  groupBanner: {
+    marginBottom: 12,
+  },
+  groupBannerText: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    marginBottom: 8,
+  },
+  groupMembers: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  groupMemberChip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    maxWidth: '100%',
+  },
+  groupMemberText: {
+    fontSize: 12,
+    fontFamily: 'Inter-Medium',
+  },
   progressBarContainer: {
     marginTop: 8,
   },
@@ -1438,6 +2012,11 @@ const styles = StyleSheet.create({
     fontFamily: 'Inter-SemiBold',
     marginBottom: 16,
   },
+  groupPreviewTitle: {
+    fontSize: 13,
+    fontFamily: 'Inter-SemiBold',
+    marginBottom: 8,
+  },
   exercisePreviewCard: {
     backgroundColor: '#1a1a1a',
     borderRadius: 12,
@@ -1562,11 +2141,67 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 12,
   },
+  setTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
   setNumber: {
     fontSize: 16,
     color: '#fff',
     fontFamily: 'Inter-SemiBold',
   },
+  setTypeBadge: {
+    backgroundColor: '#FF6B3520',
+    borderRadius: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  setTypeBadgeWarmup: {
+    backgroundColor: '#4A90E220',
+  },
+  setTypeBadgeText: {
+    fontSize: 11,
+    color: '#ccc',
+    fontFamily: 'Inter-Medium',
+  },
+  suggestionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  suggestionText: {
+    flex: 1,
+    fontSize: 12,
+    color: '#4A90E2',
+    fontFamily: 'Inter-Medium',
+    marginLeft: 6,
+  },
+  setTypeRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginBottom: 12,
+  },
+  setTypeChip: {
+    backgroundColor: '#333',
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderWidth: 1,
+    borderColor: '#444',
+  },
+  setTypeChipActive: {
+    borderColor: '#FF6B35',
+  },
+  setTypeChipText: {
+    fontSize: 12,
+    color: '#999',
+    fontFamily: 'Inter-Medium',
+  },
+  setTypeChipTextActive: {
+    color: '#FF6B35',
+  },
   setInputs: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -1671,6 +2306,18 @@ const styles = StyleSheet.create({
     fontFamily: 'Inter-SemiBold',
     marginLeft: 8,
   },
+  addDropSetButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingTop: 8,
+  },
+  addDropSetText: {
+    fontSize: 13,
+    color: '#FF6B35',
+    fontFamily: 'Inter-Medium',
+    marginLeft: 6,
+  },
   actionButtons: {
     marginTop: 30,
     marginBottom: 100,
@@ -1847,6 +2494,15 @@ const styles = StyleSheet.create({
     fontFamily: 'Inter-SemiBold',
     marginLeft: 8,
   },
+  restDefaultButton: {
+    marginTop: 16,
+    paddingVertical: 8,
+  },
+  restDefaultText: {
+    fontSize: 14,
+    color: '#4A90E2',
+    fontFamily: 'Inter-Medium',
+  },
   completionOverlay: {
     position: 'absolute',
     top: 0,
@@ -12,13 +12,14 @@ import { LinearGradient } from 'expo-linear-gradient';
 import { useState, useEffect, useMemo, useCallback } from 'react';
 import { FlashList, ListRenderItemInfo } from '@shopify/flash-list';
 import { router } from 'expo-router';
-import { Plus, Dumbbell, Clock, Target, Users } from 'lucide-react-native';
+import { Plus, Dumbbell, Clock, Target, Users, GitFork } from 'lucide-react-native';
 import { Workout } from '@/lib/supabase';
 import { useAuth } from '@/contexts/AuthContext';
 import WorkoutSearchBar from '@/components/WorkoutSearchBar';
 import WorkoutQuickStartSection from '@/components/WorkoutQuickStartSection';
 import WorkoutTemplatesSection from '@/components/WorkoutTemplatesSection';
 import { ScreenState } from '@/components/ScreenState';
+import { ResumeWorkoutBanner } from '@/components/ResumeWorkoutBanner';
 import { useTheme } from '@/theme/ThemeProvider';
 import { useWorkoutsData } from '@/hooks/useWorkoutsData';
 import { useCoachingPaths } from '@/hooks/useCoachingPaths';
@@ -35,10 +36,16 @@ interface WorkoutCategory {
 }
 
 export default function WorkoutsScreen() {
-  const { user } = useAuth();
+  const { user, hasEntitlement } = useAuth();
   const { colors } = useTheme();
   const [searchQuery, setSearchQuery] = useState('');
-  const { templates: workoutTemplates, userWorkouts, loading, refetch } = useWorkoutsData(user?.id);
+  const {
+    templates: workoutTemplates,
+    userWorkouts,
+    purchasedWorkouts,
+    loading,
+    refetch,
+  } = useWorkoutsData(user?.id);
   const {
     activePath,
     loading: coachingLoading,
@@ -239,6 +246,11 @@ export default function WorkoutsScreen() {
     }
   };
 
+  const isTemplateLocked = (workout: Workout) =>
+    !!workout.premium_product_id &&
+    workout.creator_id !== user?.id &&
+    !hasEntitlement(workout.premium_product_id);
+
   const renderTemplateSection = ({ item }: ListRenderItemInfo<Workout>) => (
     <WorkoutTemplatesSection
       loading={false}
@@ -248,6 +260,7 @@ export default function WorkoutsScreen() {
       getWorkoutTypeColor={getWorkoutTypeColor}
       searchQuery={searchQuery}
       selectedFilter={selectedFilter}
+      isLocked={isTemplateLocked}
     />
   );
 
@@ -315,6 +328,8 @@ export default function WorkoutsScreen() {
               <Text style={styles.headerSubtitle}>Build your perfect routine</Text>
             </LinearGradient>
 
+            <ResumeWorkoutBanner />
+
             <WorkoutSearchBar
               searchQuery={searchQuery}
               onSearchChange={setSearchQuery}
@@ -503,6 +518,50 @@ export default function WorkoutsScreen() {
         }
         ListFooterComponent={
           <>
+            {user && purchasedWorkouts.length > 0 && (
+              <View style={styles.userWorkoutsSection}>
+                <Text style={styles.sectionTitle}>Purchased</Text>
+                {purchasedWorkouts.map(({ workout, product }) => (
+                  <TouchableOpacity
+                    key={`${product.id}-${workout.id}`}
+                    style={styles.workoutCard}
+                    onPress={() => handleWorkoutPress(workout)}
+                  >
+                    <View style={styles.workoutInfo}>
+                      <Text style={styles.workoutName}>{workout.name}</Text>
+                      <Text style={styles.purchasedFrom}>From {product.title}</Text>
+                      {workout.description ? (
+                        <Text style={styles.workoutDescription}>{workout.description}</Text>
+                      ) : null}
+                      <View style={styles.workoutStats}>
+                        <View style={styles.statItem}>
+                          <Clock size={16} color="#999" />
+                          <Text style={styles.statText}>
+                            {workout.estimated_duration_minutes} min
+                          </Text>
+                        </View>
+                        <View style={styles.statItem}>
+                          <Text
+                            style={[
+                              styles.workoutTypeText,
+                              { color: getWorkoutTypeColor(workout.workout_type || 'strength') },
+                            ]}
+                          >
+                            {workout.workout_type || 'strength'}
+                          </Text>
+                        </View>
+                      </View>
+                    </View>
+                    <TouchableOpacity
+                      style={styles.startButton}
+                      onPress={() => handleWorkoutPress(workout)}
+                    >
+                      <Text style={styles.startButtonText}>Start</Text>
+                    </TouchableOpacity>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
             {user && userWorkouts.length > 0 && (
               <View style={styles.userWorkoutsSection}>
                 <Text style={styles.sectionTitle}>My Workouts</Text>
@@ -546,6 +605,12 @@ export default function WorkoutsScreen() {
                             {workout.workout_type || 'strength'}
                           </Text>
                         </View>
+                        {workout.fork_count > 0 && (
+                          <View style={styles.statItem}>
+                            <GitFork size={16} color="#999" />
+                            <Text style={styles.statText}>{workout.fork_count}</Text>
+                          </View>
+                        )}
                       </View>
                     </View>
                     <TouchableOpacity
@@ -927,6 +992,12 @@ const styles = StyleSheet.create({
     color: '#fff',
     fontFamily: 'Inter-SemiBold',
   },
+  purchasedFrom: {
+    fontSize: 12,
+    color: '#FF6B35',
+    fontFamily: 'Inter-Medium',
+    marginTop: 2,
+  },
   workoutDescription: {
     fontSize: 14,
     color: '#999',
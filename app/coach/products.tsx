@@ -12,7 +12,18 @@ import {
 } from 'react-native';
 import { useAuth } from '@/contexts/AuthContext';
 import { useTheme } from '@/theme/ThemeProvider';
-import { Product } from '@/lib/supabase';
+import {
+  BillingPeriod,
+  Product,
+  Workout,
+  getCoachingBlueprint,
+  getProductWorkoutIds,
+  getUserWorkouts,
+  saveCoachingBlueprint,
+  setPremiumTemplates,
+  setProductWorkouts,
+} from '@/lib/supabase';
+import { formatBillingPeriod } from '@/lib/entitlements';
 import { supabase } from '@/lib/supabase';
 
 type ProductForm = {
@@ -21,26 +32,54 @@ type ProductForm = {
   description: string;
   type: Product['type'];
   price: string;
+  billing_period: BillingPeriod;
+  billing_period_days: string;
   is_active: boolean;
   feature_key?: string;
+  workout_ids: number[];
+  premium_listing: boolean;
+  blueprint_id?: string | null;
+  goal_type: string;
+  weeks: string;
+  sessions_per_week: string;
 };
 
 const PRODUCT_TYPES: Product['type'][] = ['template', 'path_pack', 'addon'];
 
+const GOAL_OPTIONS = ['first_pullup', '5k', 'recomp', 'hypertrophy', 'fat_loss'];
+
+const BILLING_PERIODS: { value: BillingPeriod; label: string }[] = [
+  { value: 'one_off', label: 'One-off' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'yearly', label: 'Yearly' },
+  { value: 'days', label: 'Fixed days' },
+];
+
+const EMPTY_FORM: ProductForm = {
+  title: '',
+  description: '',
+  type: 'template',
+  price: '0',
+  billing_period: 'one_off',
+  billing_period_days: '30',
+  is_active: true,
+  feature_key: '',
+  workout_ids: [],
+  premium_listing: false,
+  blueprint_id: null,
+  goal_type: GOAL_OPTIONS[0],
+  weeks: '8',
+  sessions_per_week: '3',
+};
+
 export default function CoachProductsScreen() {
   const { user } = useAuth();
   const { colors } = useTheme();
   const [products, setProducts] = useState<Product[]>([]);
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
-  const [form, setForm] = useState<ProductForm>({
-    title: '',
-    description: '',
-    type: 'template',
-    price: '0',
-    is_active: true,
-    feature_key: '',
-  });
+  const [workouts, setWorkouts] = useState<Workout[]>([]);
+  const [form, setForm] = useState<ProductForm>(EMPTY_FORM);
 
   useEffect(() => {
     if (!user) return;
@@ -60,30 +99,94 @@ export default function CoachProductsScreen() {
       setLoading(false);
     };
     load();
+    getUserWorkouts(user.id).then(setWorkouts);
   }, [user]);
 
   const resetForm = () => {
-    setForm({
-      title: '',
-      description: '',
-      type: 'template',
-      price: '0',
-      is_active: true,
-      id: undefined,
-      feature_key: '',
-    });
+    setForm(EMPTY_FORM);
   };
 
-  const handleEdit = (p: Product) => {
+  const handleEdit = async (p: Product) => {
     setForm({
+      ...EMPTY_FORM,
       id: p.id,
       title: p.title,
       description: p.description || '',
       type: p.type,
       price: (p.price_cents / 100).toString(),
+      billing_period: p.billing_period,
+      billing_period_days: p.billing_period_days?.toString() || '30',
       is_active: p.is_active,
       feature_key: p.feature_key || '',
+      blueprint_id: p.blueprint_id ?? null,
+      premium_listing: workouts.some((w) => w.premium_product_id === p.id),
     });
+    // Load what the product delivers after the form is shown
+    if (p.type === 'template') {
+      const workoutIds = await getProductWorkoutIds(p.id);
+      setForm((f) => (f.id === p.id ? { ...f, workout_ids: workoutIds } : f));
+    } else if (p.type === 'path_pack' && p.blueprint_id) {
+      const blueprint = await getCoachingBlueprint(p.blueprint_id);
+      if (!blueprint) return;
+      setForm((f) =>
+        f.id === p.id
+          ? {
+              ...f,
+              goal_type: blueprint.goal_type,
+              weeks: blueprint.weeks.toString(),
+              sessions_per_week: blueprint.sessions_per_week.toString(),
+              workout_ids: [...(blueprint.workouts ?? [])]
+                .sort((a, b) => a.position - b.position)
+                .map((w) => w.workout_id),
+            }
+          : f
+      );
+    }
+  };
+
+  const toggleWorkout = (workoutId: number) => {
+    setForm((f) => ({
+      ...f,
+      workout_ids: f.workout_ids.includes(workoutId)
+        ? f.workout_ids.filter((id) => id !== workoutId)
+        : [...f.workout_ids, workoutId],
+    }));
+  };
+
+  // Points the saved product at its workouts or blueprint; returns the product as stored
+  const saveContent = async (product: Product): Promise<Product | null> => {
+    if (!user) return product;
+    if (product.type === 'template') {
+      const { error } = await setProductWorkouts(product.id, form.workout_ids);
+      if (error) return null;
+      const { error: listingError } = await setPremiumTemplates(
+        product.id,
+        form.premium_listing ? form.workout_ids : []
+      );
+      getUserWorkouts(user.id).then(setWorkouts);
+      return listingError ? null : product;
+    }
+    if (product.type !== 'path_pack') return product;
+
+    const { data: blueprint, error } = await saveCoachingBlueprint({
+      id: form.blueprint_id,
+      coachId: user.id,
+      title: product.title,
+      goalType: form.goal_type,
+      weeks: parseInt(form.weeks, 10),
+      sessionsPerWeek: parseInt(form.sessions_per_week, 10),
+      workoutIds: form.workout_ids,
+    });
+    if (error || !blueprint) return null;
+    if (product.blueprint_id === blueprint.id) return product;
+
+    const { data, error: linkError } = await supabase
+      .from('products' as any)
+      .update({ blueprint_id: blueprint.id } as any)
+      .eq('id', product.id)
+      .select()
+      .single();
+    return linkError || !data ? null : (data as unknown as Product);
   };
 
   const platformFee = useMemo(() => {
@@ -105,6 +208,27 @@ export default function CoachProductsScreen() {
       Alert.alert('Feature key required', 'Add-ons and path packs need a unique feature key.');
       return;
     }
+    const periodDays = parseInt(form.billing_period_days, 10);
+    if (form.billing_period === 'days' && (Number.isNaN(periodDays) || periodDays <= 0)) {
+      Alert.alert('Invalid', 'Please enter how many days each purchase lasts.');
+      return;
+    }
+    if (form.type === 'template' && form.workout_ids.length === 0) {
+      Alert.alert('Workouts required', 'Pick at least one workout for buyers to receive.');
+      return;
+    }
+    if (form.type === 'path_pack') {
+      const weeksNum = parseInt(form.weeks, 10);
+      const sessionsNum = parseInt(form.sessions_per_week, 10);
+      if (Number.isNaN(weeksNum) || weeksNum < 4 || weeksNum > 16) {
+        Alert.alert('Invalid weeks', 'Path packs run between 4 and 16 weeks.');
+        return;
+      }
+      if (Number.isNaN(sessionsNum) || sessionsNum < 2 || sessionsNum > 6) {
+        Alert.alert('Invalid schedule', 'Choose between 2 and 6 sessions per week.');
+        return;
+      }
+    }
 
     setSaving(true);
     const payload = {
@@ -112,6 +236,8 @@ export default function CoachProductsScreen() {
       description: form.description.trim() || null,
       type: form.type,
       price_cents: Math.round(priceNumber * 100),
+      billing_period: form.billing_period,
+      billing_period_days: form.billing_period === 'days' ? periodDays : null,
       is_active: form.is_active,
       coach_id: user.id,
       feature_key: form.feature_key?.trim() || null,
@@ -127,10 +253,15 @@ export default function CoachProductsScreen() {
       if (error) {
         Alert.alert('Error', 'Failed to update product');
       } else if (data) {
+        const saved = await saveContent(data as unknown as Product);
         setProducts((prev) =>
-          prev.map((p) => (p.id === form.id ? (data as unknown as Product) : p))
+          prev.map((p) => (p.id === form.id ? (saved ?? (data as unknown as Product)) : p))
         );
-        resetForm();
+        if (saved) {
+          resetForm();
+        } else {
+          Alert.alert('Error', 'Product saved, but its content could not be linked');
+        }
       }
     } else {
       const { data, error } = await supabase
@@ -141,8 +272,16 @@ export default function CoachProductsScreen() {
       if (error) {
         Alert.alert('Error', 'Failed to create product');
       } else if (data) {
-        setProducts((prev) => [data as unknown as Product, ...prev]);
-        resetForm();
+        const saved = await saveContent(data as unknown as Product);
+        const product = saved ?? (data as unknown as Product);
+        setProducts((prev) => [product, ...prev]);
+        if (saved) {
+          resetForm();
+        } else {
+          // Keep the form open on the new product so the coach can retry the link
+          setForm((f) => ({ ...f, id: product.id }));
+          Alert.alert('Error', 'Product saved, but its content could not be linked');
+        }
       }
     }
     setSaving(false);
@@ -215,6 +354,108 @@ export default function CoachProductsScreen() {
             </TouchableOpacity>
           ))}
         </View>
+        {form.type === 'path_pack' ? (
+          <>
+            <Text style={[styles.fieldLabel, { color: colors.textMuted }]}>Path goal</Text>
+            <View style={styles.row}>
+              {GOAL_OPTIONS.map((goal) => (
+                <TouchableOpacity
+                  key={goal}
+                  style={[
+                    styles.typeChip,
+                    form.goal_type === goal && {
+                      backgroundColor: colors.primary,
+                      borderColor: colors.primary,
+                    },
+                  ]}
+                  onPress={() => setForm((f) => ({ ...f, goal_type: goal }))}
+                >
+                  <Text style={{ color: form.goal_type === goal ? '#000' : colors.text }}>
+                    {goal.replace('_', ' ')}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <View style={[styles.row, { marginTop: 10 }]}>
+              <TextInput
+                style={[
+                  styles.input,
+                  styles.halfInput,
+                  { borderColor: colors.border, color: colors.text },
+                ]}
+                placeholder="Weeks (4-16)"
+                placeholderTextColor={colors.textMuted}
+                keyboardType="number-pad"
+                value={form.weeks}
+                onChangeText={(text) => setForm((f) => ({ ...f, weeks: text }))}
+              />
+              <TextInput
+                style={[
+                  styles.input,
+                  styles.halfInput,
+                  { borderColor: colors.border, color: colors.text },
+                ]}
+                placeholder="Sessions / week (2-6)"
+                placeholderTextColor={colors.textMuted}
+                keyboardType="number-pad"
+                value={form.sessions_per_week}
+                onChangeText={(text) => setForm((f) => ({ ...f, sessions_per_week: text }))}
+              />
+            </View>
+          </>
+        ) : null}
+        {form.type === 'template' || form.type === 'path_pack' ? (
+          <>
+            <Text style={[styles.fieldLabel, { color: colors.textMuted }]}>
+              {form.type === 'template'
+                ? 'Workouts buyers receive'
+                : 'Workouts the path rotates through, in tap order'}
+            </Text>
+            {workouts.length === 0 ? (
+              <Text style={{ color: colors.textMuted, marginBottom: 10 }}>
+                Create a workout first to sell it here.
+              </Text>
+            ) : (
+              <View style={[styles.row, { marginBottom: 10 }]}>
+                {workouts.map((w) => {
+                  const index = form.workout_ids.indexOf(w.id);
+                  return (
+                    <TouchableOpacity
+                      key={w.id}
+                      style={[
+                        styles.typeChip,
+                        index >= 0 && {
+                          backgroundColor: colors.primary,
+                          borderColor: colors.primary,
+                        },
+                      ]}
+                      onPress={() => toggleWorkout(w.id)}
+                    >
+                      <Text style={{ color: index >= 0 ? '#000' : colors.text }}>
+                        {index >= 0 && form.type === 'path_pack' ? `${index + 1}. ` : ''}
+                        {w.name}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            )}
+            {form.type === 'template' ? (
+              <View style={styles.switchRow}>
+                <View style={{ flex: 1 }}>
+                  <Text style={{ color: colors.text }}>List as premium templates</Text>
+                  <Text style={{ color: colors.textMuted, fontSize: 12 }}>
+                    Everyone can preview them; buyers unlock the full workout.
+                  </Text>
+                </View>
+                <Switch
+                  value={form.premium_listing}
+                  onValueChange={(val) => setForm((f) => ({ ...f, premium_listing: val }))}
+                />
+              </View>
+            ) : null}
+          </>
+        ) : null}
         <TextInput
           style={[styles.input, { borderColor: colors.border, color: colors.text }]}
           placeholder="Price (USD)"
@@ -223,6 +464,38 @@ export default function CoachProductsScreen() {
           value={form.price}
           onChangeText={(text) => setForm((f) => ({ ...f, price: text }))}
         />
+        <View style={styles.row}>
+          {BILLING_PERIODS.map(({ value, label }) => (
+            <TouchableOpacity
+              key={value}
+              style={[
+                styles.typeChip,
+                form.billing_period === value && {
+                  backgroundColor: colors.primary,
+                  borderColor: colors.primary,
+                },
+              ]}
+              onPress={() => setForm((f) => ({ ...f, billing_period: value }))}
+            >
+              <Text style={{ color: form.billing_period === value ? '#000' : colors.text }}>
+                {label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        {form.billing_period === 'days' ? (
+          <TextInput
+            style={[
+              styles.input,
+              { borderColor: colors.border, color: colors.text, marginTop: 10 },
+            ]}
+            placeholder="Days of access per purchase"
+            placeholderTextColor={colors.textMuted}
+            keyboardType="number-pad"
+            value={form.billing_period_days}
+            onChangeText={(text) => setForm((f) => ({ ...f, billing_period_days: text }))}
+          />
+        ) : null}
         <View style={styles.switchRow}>
           <Text style={{ color: colors.text }}>Active</Text>
           <Switch
@@ -267,7 +540,9 @@ export default function CoachProductsScreen() {
             <Text style={{ color: colors.textMuted, marginBottom: 4 }}>
               {p.type.replace('_', ' ')}
             </Text>
-            <Text style={{ color: colors.primary }}>${(p.price_cents / 100).toFixed(2)}</Text>
+            <Text style={{ color: colors.primary }}>
+              ${(p.price_cents / 100).toFixed(2)} {formatBillingPeriod(p)}
+            </Text>
             {p.feature_key ? (
               <Text style={{ color: colors.textMuted }}>Feature key: {p.feature_key}</Text>
             ) : null}
@@ -307,6 +582,8 @@ const styles = StyleSheet.create({
     paddingHorizontal: 10,
     paddingVertical: 8,
   },
+  fieldLabel: { fontFamily: 'Inter-SemiBold', fontSize: 13, marginTop: 10, marginBottom: 6 },
+  halfInput: { flex: 1, marginBottom: 0 },
   switchRow: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -0,0 +1,389 @@
+import { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Switch,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTheme } from '@/theme/ThemeProvider';
+import {
+  Product,
+  PromoCode,
+  formatPromoDiscount,
+  getCoachPromoCodes,
+  savePromoCode,
+  setPromoCodeActive,
+  supabase,
+} from '@/lib/supabase';
+
+type PromoForm = {
+  id?: string;
+  code: string;
+  product_id: string | null;
+  discount_type: PromoCode['discount_type'];
+  discount_value: string;
+  expires_on: string;
+  max_redemptions: string;
+  per_user_limit: string;
+  is_active: boolean;
+};
+
+const EMPTY_FORM: PromoForm = {
+  code: '',
+  product_id: null,
+  discount_type: 'percent',
+  discount_value: '10',
+  expires_on: '',
+  max_redemptions: '',
+  per_user_limit: '1',
+  is_active: true,
+};
+
+const CODE_PATTERN = /^[A-Z0-9_-]{3,32}$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export default function CoachPromoCodesScreen() {
+  const { user } = useAuth();
+  const { colors } = useTheme();
+  const [promoCodes, setPromoCodes] = useState<PromoCode[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState<PromoForm>(EMPTY_FORM);
+
+  useEffect(() => {
+    if (!user) return;
+    const load = async () => {
+      setLoading(true);
+      const [codes, { data }] = await Promise.all([
+        getCoachPromoCodes(user.id),
+        supabase
+          .from('products' as any)
+          .select('*')
+          .eq('coach_id', user.id)
+          .order('created_at', { ascending: false }),
+      ]);
+      setPromoCodes(codes);
+      setProducts((data as unknown as Product[]) || []);
+      setLoading(false);
+    };
+    load();
+  }, [user]);
+
+  const handleEdit = (promo: PromoCode) => {
+    setForm({
+      id: promo.id,
+      code: promo.code,
+      product_id: promo.product_id,
+      discount_type: promo.discount_type,
+      discount_value:
+        promo.discount_type === 'percent'
+          ? promo.discount_value.toString()
+          : (promo.discount_value / 100).toString(),
+      expires_on: promo.expires_at ? promo.expires_at.slice(0, 10) : '',
+      max_redemptions: promo.max_redemptions?.toString() || '',
+      per_user_limit: promo.per_user_limit.toString(),
+      is_active: promo.is_active,
+    });
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+    const code = form.code.trim().toUpperCase();
+    if (!CODE_PATTERN.test(code)) {
+      Alert.alert('Invalid code', 'Use 3-32 letters, numbers, dashes or underscores.');
+      return;
+    }
+    const value = parseFloat(form.discount_value);
+    const discountValue =
+      form.discount_type === 'percent' ? Math.round(value) : Math.round(value * 100);
+    if (
+      Number.isNaN(value) ||
+      discountValue <= 0 ||
+      (form.discount_type === 'percent' && discountValue >= 100)
+    ) {
+      Alert.alert('Invalid discount', 'Enter a percentage from 1 to 99, or a positive amount.');
+      return;
+    }
+    if (form.expires_on && !DATE_PATTERN.test(form.expires_on)) {
+      Alert.alert('Invalid date', 'Use the YYYY-MM-DD format for the expiry date.');
+      return;
+    }
+    const maxRedemptions = form.max_redemptions ? parseInt(form.max_redemptions, 10) : null;
+    const perUserLimit = parseInt(form.per_user_limit, 10);
+    if (
+      (maxRedemptions !== null && (Number.isNaN(maxRedemptions) || maxRedemptions <= 0)) ||
+      Number.isNaN(perUserLimit) ||
+      perUserLimit <= 0
+    ) {
+      Alert.alert('Invalid limits', 'Redemption limits must be positive whole numbers.');
+      return;
+    }
+
+    setSaving(true);
+    const { data, error } = await savePromoCode({
+      id: form.id,
+      code,
+      coachId: user.id,
+      productId: form.product_id,
+      discountType: form.discount_type,
+      discountValue,
+      // Valid through the end of the chosen day
+      expiresAt: form.expires_on ? new Date(`${form.expires_on}T23:59:59Z`).toISOString() : null,
+      maxRedemptions,
+      perUserLimit,
+      isActive: form.is_active,
+    });
+    setSaving(false);
+    if (error || !data) {
+      Alert.alert(
+        'Error',
+        error?.code === '23505' ? 'That code is already taken.' : 'Failed to save promo code'
+      );
+      return;
+    }
+    setPromoCodes((prev) =>
+      form.id ? prev.map((p) => (p.id === data.id ? data : p)) : [data, ...prev]
+    );
+    setForm(EMPTY_FORM);
+  };
+
+  const handleToggleActive = async (promo: PromoCode) => {
+    const { error } = await setPromoCodeActive(promo.id, !promo.is_active);
+    if (error) {
+      Alert.alert('Error', 'Failed to update promo code');
+      return;
+    }
+    setPromoCodes((prev) =>
+      prev.map((p) => (p.id === promo.id ? { ...p, is_active: !promo.is_active } : p))
+    );
+  };
+
+  if (!user) {
+    return (
+      <View style={[styles.center, { backgroundColor: colors.background }]}>
+        <Text style={{ color: colors.text }}>Sign in to manage promo codes.</Text>
+      </View>
+    );
+  }
+
+  const productTitle = (productId: string | null) =>
+    productId ? products.find((p) => p.id === productId)?.title || 'One product' : 'All products';
+
+  return (
+    <ScrollView style={{ flex: 1, backgroundColor: colors.background, padding: 16 }}>
+      <Text style={[styles.title, { color: colors.text }]}>Promo codes</Text>
+      <Text style={{ color: colors.textMuted, marginBottom: 12 }}>
+        Discounts come out of the price before the platform fee, so your net is based on what the
+        buyer actually pays.
+      </Text>
+
+      <View style={[styles.card, { borderColor: colors.border }]}>
+        <Text style={[styles.sectionTitle, { color: colors.text }]}>
+          {form.id ? 'Edit promo code' : 'Create promo code'}
+        </Text>
+        <TextInput
+          style={[styles.input, { borderColor: colors.border, color: colors.text }]}
+          placeholder="Code (e.g., LAUNCH20)"
+          placeholderTextColor={colors.textMuted}
+          autoCapitalize="characters"
+          autoCorrect={false}
+          value={form.code}
+          onChangeText={(text) => setForm((f) => ({ ...f, code: text }))}
+        />
+        <View style={styles.row}>
+          {(['percent', 'fixed'] as PromoCode['discount_type'][]).map((type) => (
+            <TouchableOpacity
+              key={type}
+              style={[
+                styles.chip,
+                form.discount_type === type && {
+                  backgroundColor: colors.primary,
+                  borderColor: colors.primary,
+                },
+              ]}
+              onPress={() => setForm((f) => ({ ...f, discount_type: type }))}
+            >
+              <Text style={{ color: form.discount_type === type ? '#000' : colors.text }}>
+                {type === 'percent' ? 'Percent off' : 'Amount off'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <TextInput
+          style={[styles.input, { borderColor: colors.border, color: colors.text, marginTop: 10 }]}
+          placeholder={form.discount_type === 'percent' ? 'Percent (1-99)' : 'Amount (USD)'}
+          placeholderTextColor={colors.textMuted}
+          keyboardType="decimal-pad"
+          value={form.discount_value}
+          onChangeText={(text) => setForm((f) => ({ ...f, discount_value: text }))}
+        />
+        <Text style={[styles.fieldLabel, { color: colors.textMuted }]}>Applies to</Text>
+        <View style={[styles.row, { marginBottom: 10 }]}>
+          {[null, ...products.map((p) => p.id)].map((productId) => (
+            <TouchableOpacity
+              key={productId ?? 'all'}
+              style={[
+                styles.chip,
+                form.product_id === productId && {
+                  backgroundColor: colors.primary,
+                  borderColor: colors.primary,
+                },
+              ]}
+              onPress={() => setForm((f) => ({ ...f, product_id: productId }))}
+            >
+              <Text style={{ color: form.product_id === productId ? '#000' : colors.text }}>
+                {productTitle(productId)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <TextInput
+          style={[styles.input, { borderColor: colors.border, color: colors.text }]}
+          placeholder="Expires on (YYYY-MM-DD, optional)"
+          placeholderTextColor={colors.textMuted}
+          autoCapitalize="none"
+          value={form.expires_on}
+          onChangeText={(text) => setForm((f) => ({ ...f, expires_on: text }))}
+        />
+        <View style={styles.row}>
+          <TextInput
+            style={[
+              styles.input,
+              styles.halfInput,
+              { borderColor: colors.border, color: colors.text },
+            ]}
+            placeholder="Max uses (optional)"
+            placeholderTextColor={colors.textMuted}
+            keyboardType="number-pad"
+            value={form.max_redemptions}
+            onChangeText={(text) => setForm((f) => ({ ...f, max_redemptions: text }))}
+          />
+          <TextInput
+            style={[
+              styles.input,
+              styles.halfInput,
+              { borderColor: colors.border, color: colors.text },
+            ]}
+            placeholder="Uses per buyer"
+            placeholderTextColor={colors.textMuted}
+            keyboardType="number-pad"
+            value={form.per_user_limit}
+            onChangeText={(text) => setForm((f) => ({ ...f, per_user_limit: text }))}
+          />
+        </View>
+        <View style={styles.switchRow}>
+          <Text style={{ color: colors.text }}>Active</Text>
+          <Switch
+            value={form.is_active}
+            onValueChange={(val) => setForm((f) => ({ ...f, is_active: val }))}
+          />
+        </View>
+        <View style={styles.row}>
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: colors.primary }]}
+            onPress={handleSave}
+            disabled={saving}
+          >
+            <Text style={styles.buttonText}>
+              {saving ? 'Saving...' : form.id ? 'Update' : 'Create'}
+            </Text>
+          </TouchableOpacity>
+          {form.id ? (
+            <TouchableOpacity
+              style={[styles.button, { backgroundColor: '#333' }]}
+              onPress={() => setForm(EMPTY_FORM)}
+              disabled={saving}
+            >
+              <Text style={styles.buttonText}>Cancel</Text>
+            </TouchableOpacity>
+          ) : null}
+        </View>
+      </View>
+
+      <Text style={[styles.sectionTitle, { color: colors.text, marginTop: 16 }]}>Your codes</Text>
+      {loading ? <ActivityIndicator color={colors.primary} /> : null}
+      {!loading && promoCodes.length === 0 ? (
+        <Text style={{ color: colors.textMuted }}>No promo codes yet. Create one above.</Text>
+      ) : (
+        promoCodes.map((promo) => (
+          <TouchableOpacity
+            key={promo.id}
+            style={[styles.card, { borderColor: colors.border }]}
+            onPress={() => handleEdit(promo)}
+          >
+            <Text style={[styles.promoCode, { color: colors.text }]}>{promo.code}</Text>
+            <Text style={{ color: colors.primary }}>
+              {formatPromoDiscount(promo)} • {productTitle(promo.product_id)}
+            </Text>
+            <Text style={{ color: colors.textMuted }}>
+              Used {promo.redemption_count}
+              {promo.max_redemptions ? ` of ${promo.max_redemptions}` : ''} times •{' '}
+              {promo.per_user_limit} per buyer
+            </Text>
+            {promo.expires_at ? (
+              <Text style={{ color: colors.textMuted }}>
+                Expires {new Date(promo.expires_at).toLocaleDateString()}
+              </Text>
+            ) : null}
+            <TouchableOpacity onPress={() => handleToggleActive(promo)} style={{ marginTop: 6 }}>
+              <Text style={{ color: promo.is_active ? colors.danger : colors.success }}>
+                {promo.is_active ? 'Deactivate' : 'Activate'}
+              </Text>
+            </TouchableOpacity>
+          </TouchableOpacity>
+        ))
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  title: { fontSize: 22, fontFamily: 'Inter-Bold', marginBottom: 8 },
+  sectionTitle: { fontSize: 18, fontFamily: 'Inter-Bold', marginBottom: 8 },
+  card: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+    backgroundColor: '#0f0f0f',
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    marginBottom: 10,
+    fontFamily: 'Inter-Medium',
+  },
+  halfInput: { flex: 1 },
+  row: { flexDirection: 'row', gap: 8, flexWrap: 'wrap', alignItems: 'center' },
+  chip: {
+    borderWidth: 1,
+    borderColor: '#444',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+  },
+  fieldLabel: { fontFamily: 'Inter-SemiBold', fontSize: 13, marginTop: 4, marginBottom: 6 },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginVertical: 6,
+  },
+  button: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 10,
+  },
+  buttonText: { color: '#000', fontFamily: 'Inter-Bold' },
+  promoCode: { fontSize: 16, fontFamily: 'Inter-Bold', letterSpacing: 1 },
+  center: { flex: 1, alignItems: 'center', justifyContent: 'center' },
+});
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -13,20 +13,39 @@ import { useCoachingPaths } from '@/hooks/useCoachingPaths';
 import { useAuth } from '@/contexts/AuthContext';
 import { useTheme } from '@/theme/ThemeProvider';
 import { routes } from '@/utils/routes';
-import { getPendingPaymentForFeatureKey } from '@/lib/supabase';
+import {
+  getPendingPaymentForFeatureKey,
+  getPurchasedPathPacks,
+  type PurchasedPathPack,
+} from '@/lib/supabase';
 
 const goalOptions = ['first_pullup', '5k', 'recomp', 'hypertrophy', 'fat_loss'];
 
 export default function CreateCoachingPathScreen() {
   const { user, hasEntitlement } = useAuth();
   const { colors } = useTheme();
-  const { createPath, isCreating } = useCoachingPaths(user?.id);
+  const { createPath, startPathFromProduct, isCreating } = useCoachingPaths(user?.id);
+  const [pathPacks, setPathPacks] = useState<PurchasedPathPack[]>([]);
   const [goalType, setGoalType] = useState(goalOptions[0]);
   const [weeks, setWeeks] = useState('8');
   const [equipment, setEquipment] = useState('dumbbells');
   const [schedule, setSchedule] = useState('3x/week');
   const [notes, setNotes] = useState('');
 
+  useEffect(() => {
+    if (!user) return;
+    getPurchasedPathPacks(user.id).then(setPathPacks);
+  }, [user]);
+
+  const handleStartPack = async (pack: PurchasedPathPack) => {
+    const { error } = await startPathFromProduct(pack.product.id);
+    if (error) {
+      Alert.alert('Error', error.message || 'Could not start this path pack.');
+      return;
+    }
+    router.replace(routes.coachingPaths);
+  };
+
   const handleCreate = async () => {
     if (!user) {
       Alert.alert('Sign in required', 'Please sign in to create a coaching path.');
@@ -77,6 +96,30 @@ export default function CreateCoachingPathScreen() {
         </Text>
       </View>
 
+      {pathPacks.length > 0 ? (
+        <View style={[styles.card, styles.packsCard]}>
+          <Text style={styles.label}>Your path packs</Text>
+          {pathPacks.map((pack) => (
+            <View key={pack.product.id} style={styles.packRow}>
+              <View style={{ flex: 1 }}>
+                <Text style={styles.packTitle}>{pack.product.title}</Text>
+                <Text style={styles.packMeta}>
+                  {pack.blueprint.weeks} weeks • {pack.blueprint.sessions_per_week}x/week •{' '}
+                  {pack.blueprint.goal_type.replace('_', ' ')}
+                </Text>
+              </View>
+              <TouchableOpacity
+                style={[styles.packButton, { backgroundColor: colors.primary }]}
+                onPress={() => handleStartPack(pack)}
+                disabled={isCreating}
+              >
+                <Text style={styles.packButtonText}>Start</Text>
+              </TouchableOpacity>
+            </View>
+          ))}
+        </View>
+      ) : null}
+
       <View style={styles.card}>
         <Text style={styles.label}>Goal</Text>
         <View style={styles.chipRow}>
@@ -169,6 +212,34 @@ const styles = StyleSheet.create({
     borderColor: '#333',
     gap: 10,
   },
+  packsCard: {
+    marginBottom: 16,
+  },
+  packRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  packTitle: {
+    color: '#fff',
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 15,
+  },
+  packMeta: {
+    color: '#999',
+    fontFamily: 'Inter-Medium',
+    fontSize: 12,
+    marginTop: 2,
+  },
+  packButton: {
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  packButtonText: {
+    color: '#000',
+    fontFamily: 'Inter-Bold',
+  },
   label: {
     color: '#ccc',
     fontFamily: 'Inter-SemiBold',
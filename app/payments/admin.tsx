@@ -10,59 +10,118 @@ import {
   ActivityIndicator,
   TextInput,
 } from 'react-native';
-import { useAuth } from '@/contexts/AuthContext';
 import { useTheme } from '@/theme/ThemeProvider';
 import {
   approvePayment,
   getAdminPayments,
   rejectPayment,
+  refundPayment,
+  revokePayment,
   getReceiptSignedUrl,
+  refreshEntitlementsForUser,
   type Payment,
+  type PaymentEvent,
 } from '@/lib/supabase';
-import { supabase } from '@/lib/supabase';
 
 export default function AdminPaymentsScreen() {
-  const { user } = useAuth();
   const { colors } = useTheme();
   const [payments, setPayments] = useState<Payment[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
-  const [rejectionNotes, setRejectionNotes] = useState<Record<string, string>>({});
-  const [refreshingEntitlements, setRefreshingEntitlements] = useState(false);
+  const [reviewReasons, setReviewReasons] = useState<Record<string, string>>({});
+  const [refundAmounts, setRefundAmounts] = useState<Record<string, string>>({});
+  const [refreshingUserId, setRefreshingUserId] = useState<string | null>(null);
+  const [expandedHistory, setExpandedHistory] = useState<string | null>(null);
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      const data = await getAdminPayments();
+      setPayments(data);
+    } catch (err) {
+      console.error(err);
+      setError('Failed to load payments');
+    } finally {
+      setLoading(false);
+    }
+  };
 
   useEffect(() => {
-    const load = async () => {
-      setLoading(true);
-      try {
-        const data = await getAdminPayments();
-        setPayments(data);
-      } catch (err) {
-        console.error(err);
-        setError('Failed to load payments');
-      } finally {
-        setLoading(false);
-      }
-    };
     load();
   }, []);
 
+  // Reload after a review so the new audit entry shows up in the history
   const handleApprove = async (id: string) => {
-    if (!user) return;
-    const { error } = await approvePayment(id, user.id);
+    const { error } = await approvePayment(id, reviewReasons[id] || null);
     if (error) {
-      Alert.alert('Error', 'Failed to approve');
+      Alert.alert('Error', error.message || 'Failed to approve');
       return;
     }
-    setPayments((prev) => prev.map((p) => (p.id === id ? { ...p, status: 'approved' } : p)));
+    setReviewReasons((prev) => ({ ...prev, [id]: '' }));
+    await load();
   };
 
   const handleReject = async (id: string) => {
-    const { error } = await rejectPayment(id, rejectionNotes[id] || null);
+    const { error } = await rejectPayment(id, reviewReasons[id] || null);
     if (error) {
-      Alert.alert('Error', 'Failed to reject');
+      Alert.alert('Error', error.message || 'Failed to reject');
       return;
     }
-    setPayments((prev) => prev.map((p) => (p.id === id ? { ...p, status: 'rejected' } : p)));
+    setReviewReasons((prev) => ({ ...prev, [id]: '' }));
+    await load();
+  };
+
+  // A blank amount refunds everything not yet refunded
+  const handleRefund = (payment: Payment) => {
+    const input = refundAmounts[payment.id]?.trim();
+    const amountCents = input ? Math.round(parseFloat(input) * 100) : null;
+    if (amountCents !== null && (Number.isNaN(amountCents) || amountCents <= 0)) {
+      Alert.alert('Invalid amount', 'Enter a positive refund amount or leave it blank.');
+      return;
+    }
+    const remaining = payment.amount_client_paid_cents - payment.refunded_cents;
+    const label = `$${((amountCents ?? remaining) / 100).toFixed(2)}`;
+    Alert.alert('Refund payment', `Refund ${label} to the buyer? Their access will be adjusted.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Refund',
+        style: 'destructive',
+        onPress: async () => {
+          const { error } = await refundPayment(
+            payment.id,
+            amountCents,
+            reviewReasons[payment.id] || null
+          );
+          if (error) {
+            Alert.alert('Error', error.message || 'Failed to refund');
+            return;
+          }
+          setReviewReasons((prev) => ({ ...prev, [payment.id]: '' }));
+          setRefundAmounts((prev) => ({ ...prev, [payment.id]: '' }));
+          await load();
+        },
+      },
+    ]);
+  };
+
+  const handleRevoke = async (id: string) => {
+    const { error } = await revokePayment(id, reviewReasons[id] || null);
+    if (error) {
+      Alert.alert('Error', error.message || 'Failed to revoke');
+      return;
+    }
+    setReviewReasons((prev) => ({ ...prev, [id]: '' }));
+    await load();
+  };
+
+  const describeEvent = (event: PaymentEvent) => {
+    const actor = event.actor?.full_name || event.actor?.username || 'System';
+    const change = event.previous_status
+      ? `${event.previous_status} → ${event.new_status}`
+      : `submitted (${event.new_status})`;
+    const amount =
+      event.amount_cents != null ? ` ($${(event.amount_cents / 100).toFixed(2)} refunded)` : '';
+    return `${new Date(event.created_at).toLocaleString()} • ${change}${amount} by ${actor}`;
   };
 
   const openReceipt = async (path?: string | null) => {
@@ -75,21 +134,21 @@ export default function AdminPaymentsScreen() {
     }
   };
 
-  const refreshEntitlements = async () => {
-    if (!user) return;
-    setRefreshingEntitlements(true);
+  // Repairs missing or duplicate grants for the buyer from their approved payments
+  const refreshEntitlements = async (buyerId: string) => {
+    setRefreshingUserId(buyerId);
     try {
-      const { error } = await supabase.rpc('refresh_entitlements_for_user', {
-        p_user_id: user.id,
-      });
+      const { data, error } = await refreshEntitlementsForUser(buyerId);
       if (error) {
-        console.error('refresh_entitlements_for_user', error);
         Alert.alert('Error', 'Failed to refresh entitlements');
       } else {
-        Alert.alert('Entitlements refreshed', 'Latest access has been pulled for this user.');
+        Alert.alert(
+          'Entitlements refreshed',
+          `Granted ${data?.granted ?? 0}, revoked ${data?.revoked ?? 0} for this user.`
+        );
       }
     } finally {
-      setRefreshingEntitlements(false);
+      setRefreshingUserId(null);
     }
   };
 
@@ -99,15 +158,6 @@ export default function AdminPaymentsScreen() {
       <Text style={{ color: colors.textMuted, marginBottom: 8 }}>
         Admin-only: approvals grant entitlements. Use an admin JWT (app_metadata.role = 'admin').
       </Text>
-      <TouchableOpacity
-        style={[styles.btn, { backgroundColor: colors.surface, borderColor: colors.border }]}
-        onPress={refreshEntitlements}
-        disabled={refreshingEntitlements}
-      >
-        <Text style={{ color: colors.text }}>
-          {refreshingEntitlements ? 'Refreshing…' : 'Refresh entitlements (admin)'}
-        </Text>
-      </TouchableOpacity>
       {loading ? <ActivityIndicator color={colors.primary} /> : null}
       {error ? <Text style={{ color: colors.danger }}>{error}</Text> : null}
       {!loading && payments.length === 0 ? (
@@ -122,11 +172,35 @@ export default function AdminPaymentsScreen() {
               ${(p.amount_client_paid_cents / 100).toFixed(2)} • {p.status}
             </Text>
             <Text style={{ color: colors.textMuted }}>{p.products?.title || 'Product'}</Text>
+            {p.amount_mismatch ? (
+              <Text style={{ color: colors.danger }}>
+                Paid amount differs from the quoted price
+                {p.price_cents != null
+                  ? ` of $${((p.price_cents - p.discount_cents) / 100).toFixed(2)}`
+                  : ''}
+              </Text>
+            ) : null}
+            {p.promo_code ? (
+              <Text style={{ color: colors.textMuted }}>
+                Promo {p.promo_code}: -${(p.discount_cents / 100).toFixed(2)}
+              </Text>
+            ) : null}
+            <Text style={{ color: colors.textMuted }}>
+              {`Fee: $${(p.platform_fee_cents / 100).toFixed(2)} • Coach net: $${(p.coach_net_cents / 100).toFixed(2)}`}
+            </Text>
             {p.user ? (
               <Text style={{ color: colors.textMuted }}>
                 Buyer: {p.user.full_name || p.user.username || p.user_id}
               </Text>
             ) : null}
+            <TouchableOpacity
+              onPress={() => refreshEntitlements(p.user_id)}
+              disabled={refreshingUserId === p.user_id}
+            >
+              <Text style={{ color: colors.info }}>
+                {refreshingUserId === p.user_id ? 'Refreshing access…' : 'Refresh buyer access'}
+              </Text>
+            </TouchableOpacity>
             {p.receipt_url ? (
               <TouchableOpacity onPress={() => openReceipt(p.receipt_url)}>
                 <Text style={{ color: colors.info }}>View receipt</Text>
@@ -134,28 +208,85 @@ export default function AdminPaymentsScreen() {
             ) : (
               <Text style={{ color: colors.textMuted }}>No receipt uploaded</Text>
             )}
-            {p.status === 'pending' && (
+            {p.notes ? (
+              <Text style={{ color: colors.textMuted }}>Buyer note: {p.notes}</Text>
+            ) : null}
+            {p.review_reason ? (
+              <Text style={{ color: colors.textMuted }}>Review reason: {p.review_reason}</Text>
+            ) : null}
+            {p.refunded_cents > 0 ? (
+              <Text style={{ color: colors.danger }}>
+                Refunded ${(p.refunded_cents / 100).toFixed(2)}
+                {p.refunded_at ? ` on ${new Date(p.refunded_at).toLocaleDateString()}` : ''}
+              </Text>
+            ) : null}
+            {p.status === 'approved' ? (
+              <View style={styles.row}>
+                <TextInput
+                  style={[styles.input, { borderColor: colors.border, color: colors.text }]}
+                  placeholder={`Refund amount (max ${((p.amount_client_paid_cents - p.refunded_cents) / 100).toFixed(2)})`}
+                  placeholderTextColor={colors.textMuted}
+                  keyboardType="decimal-pad"
+                  value={refundAmounts[p.id] || ''}
+                  onChangeText={(text) => setRefundAmounts((prev) => ({ ...prev, [p.id]: text }))}
+                />
+                <TouchableOpacity style={styles.btn} onPress={() => handleRefund(p)}>
+                  <Text style={styles.btnText}>Refund</Text>
+                </TouchableOpacity>
+              </View>
+            ) : null}
+            {p.status === 'refunded' || p.status === 'revoked' ? null : (
               <View style={styles.row}>
                 <TextInput
                   style={[styles.input, { borderColor: colors.border, color: colors.text }]}
                   placeholder="Reason (optional)"
                   placeholderTextColor={colors.textMuted}
-                  value={rejectionNotes[p.id] || ''}
+                  value={reviewReasons[p.id] || ''}
                   onChangeText={(text) =>
-                    setRejectionNotes((prev) => ({
+                    setReviewReasons((prev) => ({
                       ...prev,
                       [p.id]: text,
                     }))
                   }
                 />
-                <TouchableOpacity style={styles.btn} onPress={() => handleApprove(p.id)}>
-                  <Text style={styles.btnText}>Approve</Text>
-                </TouchableOpacity>
-                <TouchableOpacity style={styles.btn} onPress={() => handleReject(p.id)}>
-                  <Text style={styles.btnText}>Reject</Text>
-                </TouchableOpacity>
+                {p.status !== 'approved' && (
+                  <TouchableOpacity style={styles.btn} onPress={() => handleApprove(p.id)}>
+                    <Text style={styles.btnText}>Approve</Text>
+                  </TouchableOpacity>
+                )}
+                {p.status === 'pending' && (
+                  <TouchableOpacity style={styles.btn} onPress={() => handleReject(p.id)}>
+                    <Text style={styles.btnText}>Reject</Text>
+                  </TouchableOpacity>
+                )}
+                {p.status === 'approved' && (
+                  <TouchableOpacity style={styles.btn} onPress={() => handleRevoke(p.id)}>
+                    <Text style={styles.btnText}>Revoke</Text>
+                  </TouchableOpacity>
+                )}
               </View>
             )}
+            {p.events && p.events.length > 0 ? (
+              <View style={styles.history}>
+                <TouchableOpacity
+                  onPress={() => setExpandedHistory((prev) => (prev === p.id ? null : p.id))}
+                >
+                  <Text style={{ color: colors.info }}>
+                    {expandedHistory === p.id ? 'Hide history' : `History (${p.events.length})`}
+                  </Text>
+                </TouchableOpacity>
+                {expandedHistory === p.id
+                  ? p.events.map((event) => (
+                      <View key={event.id} style={styles.historyItem}>
+                        <Text style={{ color: colors.text }}>{describeEvent(event)}</Text>
+                        {event.reason ? (
+                          <Text style={{ color: colors.textMuted }}>{event.reason}</Text>
+                        ) : null}
+                      </View>
+                    ))
+                  : null}
+              </View>
+            ) : null}
           </View>
         ))}
     </ScrollView>
@@ -178,4 +309,6 @@ const styles = StyleSheet.create({
   },
   btn: { paddingVertical: 8, paddingHorizontal: 12, backgroundColor: '#1a1a1a', borderRadius: 8 },
   btnText: { color: '#fff', fontFamily: 'Inter-SemiBold' },
+  history: { marginTop: 10, gap: 6 },
+  historyItem: { paddingLeft: 8 },
 });
@@ -1,4 +1,4 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import {
   ScrollView,
   Text,
@@ -10,12 +10,30 @@ import {
 } from 'react-native';
 import { useAuth } from '@/contexts/AuthContext';
 import { useTheme } from '@/theme/ThemeProvider';
-import { getCoachPayments, getReceiptSignedUrl, type Payment } from '@/lib/supabase';
+import {
+  getCoachBalance,
+  getCoachPayments,
+  getPayoutBatches,
+  getReceiptSignedUrl,
+  type CoachBalance,
+  type Payment,
+  type PayoutBatch,
+} from '@/lib/supabase';
+
+// What the coach keeps from a sale: nothing unless it was approved, less their share of refunds
+const getNetEarningsCents = (payment: Payment) =>
+  payment.status === 'approved' || payment.status === 'refunded'
+    ? payment.coach_net_cents - payment.refunded_coach_cents
+    : 0;
+
+const formatCents = (cents: number) => `$${(cents / 100).toFixed(2)}`;
 
 export default function CoachPaymentsScreen() {
   const { user } = useAuth();
   const { colors } = useTheme();
   const [payments, setPayments] = useState<Payment[]>([]);
+  const [balance, setBalance] = useState<CoachBalance | null>(null);
+  const [payoutBatches, setPayoutBatches] = useState<PayoutBatch[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -24,8 +42,14 @@ export default function CoachPaymentsScreen() {
     const load = async () => {
       setLoading(true);
       try {
-        const data = await getCoachPayments(user.id);
+        const [data, balanceResult, batches] = await Promise.all([
+          getCoachPayments(user.id),
+          getCoachBalance(user.id),
+          getPayoutBatches(),
+        ]);
         setPayments(data);
+        setBalance(balanceResult.data);
+        setPayoutBatches(batches);
       } catch (err) {
         console.error(err);
         setError('Failed to load payments');
@@ -36,6 +60,19 @@ export default function CoachPaymentsScreen() {
     load();
   }, [user]);
 
+  const totals = useMemo(
+    () =>
+      payments.reduce(
+        (acc, p) => ({
+          earned: acc.earned + getNetEarningsCents(p),
+          refunded: acc.refunded + p.refunded_coach_cents,
+          awaitingApproval: acc.awaitingApproval + (p.status === 'pending' ? p.coach_net_cents : 0),
+        }),
+        { earned: 0, refunded: 0, awaitingApproval: 0 }
+      ),
+    [payments]
+  );
+
   const openReceipt = async (path?: string | null) => {
     if (!path) return;
     const signed = await getReceiptSignedUrl(path);
@@ -55,6 +92,58 @@ export default function CoachPaymentsScreen() {
   return (
     <ScrollView style={{ flex: 1, backgroundColor: colors.background, padding: 16 }}>
       <Text style={[styles.title, { color: colors.text }]}>Your sales</Text>
+      {balance ? (
+        <View style={[styles.card, { borderColor: colors.border }]}>
+          <View style={styles.balanceRow}>
+            <View>
+              <Text style={{ color: colors.textMuted }}>Available</Text>
+              <Text style={[styles.amount, { color: colors.primary }]}>
+                {formatCents(balance.available_cents)}
+              </Text>
+            </View>
+            <View>
+              <Text style={{ color: colors.textMuted }}>Pending payout</Text>
+              <Text style={[styles.amount, { color: colors.text }]}>
+                {formatCents(balance.pending_cents)}
+              </Text>
+            </View>
+            <View>
+              <Text style={{ color: colors.textMuted }}>Paid out</Text>
+              <Text style={[styles.amount, { color: colors.text }]}>
+                {formatCents(balance.paid_cents)}
+              </Text>
+            </View>
+          </View>
+          <Text style={{ color: colors.textMuted }}>
+            Lifetime net earnings: {formatCents(totals.earned)}
+          </Text>
+          <Text style={{ color: colors.textMuted }}>
+            Awaiting approval: {formatCents(totals.awaitingApproval)}
+          </Text>
+          <Text style={{ color: colors.textMuted }}>
+            Refunded from your share: {formatCents(totals.refunded)}
+          </Text>
+        </View>
+      ) : null}
+      {payoutBatches.length > 0 ? (
+        <>
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>Payouts</Text>
+          {payoutBatches.map((batch) => (
+            <View key={batch.id} style={[styles.card, { borderColor: colors.border }]}>
+              <Text style={[styles.amount, { color: colors.text }]}>
+                {formatCents((batch.payouts ?? []).reduce((sum, p) => sum + p.amount_cents, 0))} •{' '}
+                {batch.status === 'paid' ? 'paid' : 'processing'}
+              </Text>
+              <Text style={{ color: colors.textMuted }}>
+                Period from {new Date(batch.period_start).toLocaleDateString()}
+                {batch.paid_at ? ` • paid ${new Date(batch.paid_at).toLocaleDateString()}` : ''}
+                {batch.reference ? ` • ref ${batch.reference}` : ''}
+              </Text>
+            </View>
+          ))}
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>Sales</Text>
+        </>
+      ) : null}
       {loading ? <ActivityIndicator color={colors.primary} /> : null}
       {error ? <Text style={{ color: colors.danger }}>{error}</Text> : null}
       {!loading && payments.length === 0 ? (
@@ -72,8 +161,18 @@ export default function CoachPaymentsScreen() {
               </Text>
             ) : null}
             <Text style={{ color: colors.textMuted }}>
-              Net to you: ${(p.coach_net_cents / 100).toFixed(2)}
+              Net to you: {formatCents(getNetEarningsCents(p))}
+              {p.status === 'pending' ? ` (${formatCents(p.coach_net_cents)} once approved)` : ''}
             </Text>
+            {p.refunded_cents > 0 ? (
+              <Text style={{ color: colors.danger }}>
+                Refunded {formatCents(p.refunded_cents)} to the buyer (
+                {formatCents(p.refunded_coach_cents)} from your share)
+              </Text>
+            ) : null}
+            {p.status === 'revoked' ? (
+              <Text style={{ color: colors.danger }}>Access revoked; not counted in earnings</Text>
+            ) : null}
             {p.receipt_url ? (
               <TouchableOpacity onPress={() => openReceipt(p.receipt_url)}>
                 <Text style={{ color: colors.info }}>View receipt</Text>
@@ -90,5 +189,7 @@ const styles = StyleSheet.create({
   title: { fontSize: 22, fontFamily: 'Inter-Bold', marginBottom: 12 },
   card: { borderWidth: 1, borderRadius: 12, padding: 12, marginBottom: 10 },
   amount: { fontSize: 16, fontFamily: 'Inter-Bold' },
+  sectionTitle: { fontSize: 18, fontFamily: 'Inter-Bold', marginVertical: 8 },
+  balanceRow: { flexDirection: 'row', justifyContent: 'space-between', marginBottom: 8 },
   center: { flex: 1, alignItems: 'center', justifyContent: 'center' },
 });
@@ -0,0 +1,209 @@
+import { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  Share,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useTheme } from '@/theme/ThemeProvider';
+import {
+  createPayoutBatch,
+  getPayoutBatches,
+  getPayoutStatementEntries,
+  markPayoutBatchPaid,
+  type PayoutBatch,
+} from '@/lib/supabase';
+import { buildPayoutStatementCsv } from '@/lib/payouts';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+const formatCents = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+export default function AdminPayoutsScreen() {
+  const { colors } = useTheme();
+  const [batches, setBatches] = useState<PayoutBatch[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [periodStart, setPeriodStart] = useState(toDateInput(new Date(Date.now() - 30 * DAY_MS)));
+  const [periodEnd, setPeriodEnd] = useState(toDateInput(new Date()));
+  const [references, setReferences] = useState<Record<string, string>>({});
+
+  const load = async () => {
+    setLoading(true);
+    const data = await getPayoutBatches();
+    setBatches(data);
+    // Pick up where the last batch stopped
+    if (data[0]) {
+      setPeriodStart(toDateInput(new Date(data[0].period_end)));
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  // The end date is inclusive on screen and exclusive in the database
+  const handleCreate = async () => {
+    if (!DATE_PATTERN.test(periodStart) || !DATE_PATTERN.test(periodEnd)) {
+      Alert.alert('Invalid dates', 'Use the YYYY-MM-DD format for both dates.');
+      return;
+    }
+    const start = new Date(`${periodStart}T00:00:00Z`);
+    const end = new Date(new Date(`${periodEnd}T00:00:00Z`).getTime() + DAY_MS);
+    setCreating(true);
+    const { data, error } = await createPayoutBatch(start.toISOString(), end.toISOString());
+    setCreating(false);
+    if (error) {
+      Alert.alert('Error', error.message || 'Failed to create payout batch');
+      return;
+    }
+    await load();
+    if (data) {
+      Alert.alert('Batch created', 'Review the coach totals below, then mark it as paid.');
+    }
+  };
+
+  const handleMarkPaid = async (batch: PayoutBatch) => {
+    const reference = references[batch.id]?.trim();
+    if (!reference) {
+      Alert.alert('Reference required', 'Enter the bank or transfer reference for this payout.');
+      return;
+    }
+    const { error } = await markPayoutBatchPaid(batch.id, reference);
+    if (error) {
+      Alert.alert('Error', error.message || 'Failed to mark batch as paid');
+      return;
+    }
+    setReferences((prev) => ({ ...prev, [batch.id]: '' }));
+    await load();
+  };
+
+  const handleExport = async (batch: PayoutBatch) => {
+    const entries = await getPayoutStatementEntries((batch.payouts ?? []).map((p) => p.id));
+    const csv = buildPayoutStatementCsv(batch, entries);
+    try {
+      await Share.share({
+        title: `Payout statement ${batch.period_start.slice(0, 10)}`,
+        message: csv,
+      });
+    } catch (err) {
+      console.error('Error sharing payout statement:', err);
+      Alert.alert('Error', 'Could not export the statement.');
+    }
+  };
+
+  return (
+    <ScrollView style={{ flex: 1, backgroundColor: colors.background, padding: 16 }}>
+      <Text style={[styles.title, { color: colors.text }]}>Coach payouts</Text>
+      <Text style={{ color: colors.textMuted, marginBottom: 8 }}>
+        A batch collects each coach&apos;s unpaid earnings for the period, net of refunds.
+      </Text>
+
+      <View style={[styles.card, { borderColor: colors.border }]}>
+        <View style={styles.row}>
+          <TextInput
+            style={[styles.input, { borderColor: colors.border, color: colors.text }]}
+            placeholder="From (YYYY-MM-DD)"
+            placeholderTextColor={colors.textMuted}
+            autoCapitalize="none"
+            value={periodStart}
+            onChangeText={setPeriodStart}
+          />
+          <TextInput
+            style={[styles.input, { borderColor: colors.border, color: colors.text }]}
+            placeholder="To (YYYY-MM-DD)"
+            placeholderTextColor={colors.textMuted}
+            autoCapitalize="none"
+            value={periodEnd}
+            onChangeText={setPeriodEnd}
+          />
+        </View>
+        <TouchableOpacity
+          style={[styles.btn, { marginTop: 8 }]}
+          onPress={handleCreate}
+          disabled={creating}
+        >
+          <Text style={styles.btnText}>{creating ? 'Creating…' : 'Create payout batch'}</Text>
+        </TouchableOpacity>
+      </View>
+
+      {loading ? <ActivityIndicator color={colors.primary} /> : null}
+      {!loading && batches.length === 0 ? (
+        <Text style={{ color: colors.textMuted }}>No payout batches yet.</Text>
+      ) : null}
+      {batches.map((batch) => {
+        const payouts = batch.payouts ?? [];
+        const total = payouts.reduce((sum, p) => sum + p.amount_cents, 0);
+        return (
+          <View key={batch.id} style={[styles.card, { borderColor: colors.border }]}>
+            <Text style={[styles.amount, { color: colors.primary }]}>
+              {formatCents(total)} • {batch.status}
+            </Text>
+            <Text style={{ color: colors.textMuted }}>
+              {new Date(batch.period_start).toLocaleDateString()} –{' '}
+              {new Date(new Date(batch.period_end).getTime() - DAY_MS).toLocaleDateString()}
+            </Text>
+            {payouts.length === 0 ? (
+              <Text style={{ color: colors.textMuted }}>No coach earnings in this period.</Text>
+            ) : (
+              payouts.map((payout) => (
+                <Text key={payout.id} style={{ color: colors.text }}>
+                  {payout.coach?.full_name || payout.coach?.username || payout.coach_id}:{' '}
+                  {formatCents(payout.amount_cents)}
+                </Text>
+              ))
+            )}
+            {batch.status === 'paid' ? (
+              <Text style={{ color: colors.textMuted }}>
+                Paid {batch.paid_at ? new Date(batch.paid_at).toLocaleDateString() : ''} • Ref:{' '}
+                {batch.reference}
+              </Text>
+            ) : (
+              <View style={styles.row}>
+                <TextInput
+                  style={[styles.input, { borderColor: colors.border, color: colors.text }]}
+                  placeholder="Payment reference"
+                  placeholderTextColor={colors.textMuted}
+                  value={references[batch.id] || ''}
+                  onChangeText={(text) => setReferences((prev) => ({ ...prev, [batch.id]: text }))}
+                />
+                <TouchableOpacity style={styles.btn} onPress={() => handleMarkPaid(batch)}>
+                  <Text style={styles.btnText}>Mark paid</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+            <TouchableOpacity onPress={() => handleExport(batch)} style={{ marginTop: 8 }}>
+              <Text style={{ color: colors.info }}>Export CSV statement</Text>
+            </TouchableOpacity>
+          </View>
+        );
+      })}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  title: { fontSize: 22, fontFamily: 'Inter-Bold', marginBottom: 12 },
+  card: { borderWidth: 1, borderRadius: 12, padding: 12, marginBottom: 10, gap: 4 },
+  amount: { fontSize: 16, fontFamily: 'Inter-Bold' },
+  row: { flexDirection: 'row', gap: 8, marginTop: 8 },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontFamily: 'Inter-Medium',
+  },
+  btn: { paddingVertical: 8, paddingHorizontal: 12, backgroundColor: '#1a1a1a', borderRadius: 8 },
+  btnText: { color: '#fff', fontFamily: 'Inter-SemiBold' },
+});
@@ -0,0 +1,445 @@
+import { useState } from 'react';
+import { Alert, FlatList, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { router } from 'expo-router';
+import { ArrowLeft, Search } from 'lucide-react-native';
+import SegmentedControl from '@/components/SegmentedControl';
+import { ScreenState } from '@/components/ScreenState';
+import { useToast } from '@/components/ToastProvider';
+import { useAuth } from '@/contexts/AuthContext';
+import { useFriends, useUserSearch } from '@/hooks/useFriends';
+import { useTheme } from '@/theme/ThemeProvider';
+import { Achievement, FriendProfile } from '@/lib/supabase';
+
+const TABS = ['friends', 'requests', 'find', 'blocked'] as const;
+type FriendsTab = (typeof TABS)[number];
+
+type RowAction = {
+  label: string;
+  onPress: () => void;
+  tone?: 'primary' | 'danger' | 'muted';
+};
+
+export default function FriendsScreen() {
+  const { user } = useAuth();
+  const { colors } = useTheme();
+  const { showToast } = useToast();
+  const [tab, setTab] = useState<FriendsTab>('friends');
+  const [query, setQuery] = useState('');
+  const {
+    friends,
+    incoming,
+    outgoing,
+    blocked,
+    connectionFor,
+    loading,
+    error,
+    refresh,
+    sendRequest,
+    acceptRequest,
+    declineRequest,
+    cancelRequest,
+    removeFriend,
+    unblockUser,
+    blockUser,
+    isMutating,
+  } = useFriends(user?.id);
+  const { results, loading: searching } = useUserSearch(query);
+
+  const announceUnlocked = (unlocked: Achievement[]) => {
+    unlocked.forEach((achievement) =>
+      showToast(`Achievement unlocked: ${achievement.name}`, 'success')
+    );
+  };
+
+  const run = async (action: () => Promise<unknown>, success?: string) => {
+    try {
+      await action();
+      if (success) showToast(success, 'success');
+    } catch (err) {
+      console.error('Error updating friendship:', err);
+      showToast('Could not update friendship. Please try again.', 'error');
+    }
+  };
+
+  const handleSend = (profile: FriendProfile) =>
+    run(async () => {
+      const { friendship, unlocked } = await sendRequest(profile.id);
+      showToast(
+        friendship?.status === 'accepted'
+          ? `You and ${profile.username} are now friends`
+          : `Request sent to ${profile.username}`,
+        'success'
+      );
+      announceUnlocked(unlocked);
+    });
+
+  const handleAccept = (friendshipId: number) =>
+    run(async () => {
+      const { unlocked } = await acceptRequest(friendshipId);
+      announceUnlocked(unlocked);
+    }, 'Friend request accepted');
+
+  const confirmRemove = (friendshipId: number, username: string) =>
+    Alert.alert('Remove friend', `Remove ${username} from your friends?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: () => run(() => removeFriend(friendshipId)),
+      },
+    ]);
+
+  const confirmBlock = (profileId: string, username: string) =>
+    Alert.alert(
+      'Block user',
+      `${username} won't be able to find you or send you requests. Any existing friendship is removed.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Block',
+          style: 'destructive',
+          onPress: () => run(() => blockUser(profileId), `${username} blocked`),
+        },
+      ]
+    );
+
+  const renderRow = (key: string | number, profile: FriendProfile | null, actions: RowAction[]) => (
+    <View
+      key={key}
+      style={[styles.row, { backgroundColor: colors.surface, borderColor: colors.border }]}
+    >
+      <View style={[styles.avatar, { backgroundColor: colors.surfaceAlt }]}>
+        <Text style={[styles.avatarText, { color: colors.text }]}>
+          {(profile?.username ?? '?').charAt(0).toUpperCase()}
+        </Text>
+      </View>
+      <View style={styles.rowInfo}>
+        <Text style={[styles.username, { color: colors.text }]} numberOfLines={1}>
+          {profile?.username ?? 'Unknown user'}
+        </Text>
+        {profile?.full_name ? (
+          <Text style={[styles.fullName, { color: colors.textMuted }]} numberOfLines={1}>
+            {profile.full_name}
+          </Text>
+        ) : null}
+      </View>
+      <View style={styles.actions}>
+        {actions.map((action) => (
+          <TouchableOpacity
+            key={action.label}
+            style={[
+              styles.actionButton,
+              {
+                backgroundColor:
+                  action.tone === 'primary'
+                    ? colors.primary
+                    : action.tone === 'danger'
+                      ? colors.danger
+                      : colors.surfaceAlt,
+              },
+            ]}
+            onPress={action.onPress}
+            disabled={isMutating}
+          >
+            <Text
+              style={[
+                styles.actionText,
+                { color: action.tone === 'muted' || !action.tone ? colors.text : '#fff' },
+              ]}
+            >
+              {action.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+
+  const renderFriends = () => {
+    if (friends.length === 0) {
+      return (
+        <ScreenState
+          variant="empty"
+          title="No friends yet"
+          message="Search for people by username to send your first request."
+        />
+      );
+    }
+    return (
+      <FlatList
+        data={friends}
+        keyExtractor={(item) => item.friendship.id.toString()}
+        contentContainerStyle={styles.list}
+        renderItem={({ item }) =>
+          renderRow(item.friendship.id, item.profile, [
+            {
+              label: 'Remove',
+              tone: 'muted',
+              onPress: () =>
+                confirmRemove(item.friendship.id, item.profile?.username ?? 'this user'),
+            },
+          ])
+        }
+      />
+    );
+  };
+
+  const renderRequests = () => {
+    if (incoming.length === 0 && outgoing.length === 0) {
+      return <ScreenState variant="empty" title="No pending requests" />;
+    }
+    return (
+      <FlatList
+        data={[...incoming, ...outgoing]}
+        keyExtractor={(item) => item.friendship.id.toString()}
+        contentContainerStyle={styles.list}
+        renderItem={({ item }) =>
+          item.direction === 'incoming'
+            ? renderRow(item.friendship.id, item.profile, [
+                {
+                  label: 'Accept',
+                  tone: 'primary',
+                  onPress: () => handleAccept(item.friendship.id),
+                },
+                {
+                  label: 'Decline',
+                  tone: 'muted',
+                  onPress: () => run(() => declineRequest(item.friendship.id)),
+                },
+              ])
+            : renderRow(item.friendship.id, item.profile, [
+                {
+                  label: 'Cancel',
+                  tone: 'muted',
+                  onPress: () => run(() => cancelRequest(item.friendship.id)),
+                },
+              ])
+        }
+      />
+    );
+  };
+
+  const searchActions = (profile: FriendProfile): RowAction[] => {
+    const connection = connectionFor(profile.id);
+    const status = connection?.friendship.status;
+    const block: RowAction = {
+      label: 'Block',
+      tone: 'danger',
+      onPress: () => confirmBlock(profile.id, profile.username),
+    };
+
+    if (status === 'accepted') {
+      return [{ label: 'Friends', tone: 'muted', onPress: () => setTab('friends') }, block];
+    }
+    if (status === 'pending' && connection?.direction === 'incoming') {
+      return [
+        { label: 'Accept', tone: 'primary', onPress: () => handleAccept(connection.friendship.id) },
+        block,
+      ];
+    }
+    if (status === 'pending') {
+      return [
+        {
+          label: 'Cancel',
+          tone: 'muted',
+          onPress: () => run(() => cancelRequest(connection!.friendship.id)),
+        },
+        block,
+      ];
+    }
+    return [{ label: 'Add', tone: 'primary', onPress: () => handleSend(profile) }, block];
+  };
+
+  const renderFind = () => (
+    <View style={styles.findContainer}>
+      <View
+        style={[styles.searchBar, { backgroundColor: colors.surface, borderColor: colors.border }]}
+      >
+        <Search size={18} color={colors.textMuted} />
+        <TextInput
+          style={[styles.searchInput, { color: colors.text }]}
+          value={query}
+          onChangeText={setQuery}
+          placeholder="Search by username"
+          placeholderTextColor={colors.textMuted}
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+      </View>
+      {query.trim().length < 2 ? (
+        <ScreenState variant="empty" message="Type at least 2 characters to search." />
+      ) : searching ? (
+        <ScreenState variant="loading" />
+      ) : results.length === 0 ? (
+        <ScreenState variant="empty" title="No users found" />
+      ) : (
+        <FlatList
+          data={results}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={styles.list}
+          keyboardShouldPersistTaps="handled"
+          renderItem={({ item }) => renderRow(item.id, item, searchActions(item))}
+        />
+      )}
+    </View>
+  );
+
+  const renderBlocked = () => {
+    if (blocked.length === 0) {
+      return <ScreenState variant="empty" title="No blocked users" />;
+    }
+    return (
+      <FlatList
+        data={blocked}
+        keyExtractor={(item) => item.friendship.id.toString()}
+        contentContainerStyle={styles.list}
+        renderItem={({ item }) =>
+          renderRow(item.friendship.id, item.profile, [
+            {
+              label: 'Unblock',
+              tone: 'muted',
+              onPress: () => run(() => unblockUser(item.friendship.id)),
+            },
+          ])
+        }
+      />
+    );
+  };
+
+  const renderContent = () => {
+    if (tab === 'find') return renderFind();
+    if (loading && friends.length + incoming.length + outgoing.length + blocked.length === 0) {
+      return <ScreenState variant="loading" />;
+    }
+    if (error) {
+      return (
+        <ScreenState
+          variant="error"
+          title="Couldn't load friends"
+          message="Check your connection and try again."
+          onRetry={refresh}
+        />
+      );
+    }
+    if (tab === 'requests') return renderRequests();
+    if (tab === 'blocked') return renderBlocked();
+    return renderFriends();
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <ArrowLeft size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: colors.text }]}>Friends</Text>
+      </View>
+      <View style={styles.tabs}>
+        <SegmentedControl
+          options={TABS}
+          selectedValue={tab}
+          onValueChange={setTab}
+          labels={{
+            friends: `Friends (${friends.length})`,
+            requests: incoming.length > 0 ? `Requests (${incoming.length})` : 'Requests',
+            find: 'Find',
+            blocked: 'Blocked',
+          }}
+        />
+      </View>
+      {renderContent()}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: 60,
+    paddingBottom: 16,
+  },
+  backButton: {
+    marginRight: 12,
+  },
+  title: {
+    fontSize: 24,
+    fontFamily: 'Inter-Bold',
+  },
+  tabs: {
+    paddingHorizontal: 16,
+    marginBottom: 12,
+  },
+  list: {
+    paddingHorizontal: 16,
+    paddingBottom: 40,
+    gap: 10,
+  },
+  findContainer: {
+    flex: 1,
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 16,
+    marginBottom: 12,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    gap: 8,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 12,
+    fontFamily: 'Inter-Medium',
+    fontSize: 15,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  avatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 12,
+  },
+  avatarText: {
+    fontSize: 16,
+    fontFamily: 'Inter-Bold',
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  username: {
+    fontSize: 15,
+    fontFamily: 'Inter-SemiBold',
+  },
+  fullName: {
+    fontSize: 13,
+    fontFamily: 'Inter-Regular',
+    marginTop: 2,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  actionButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  actionText: {
+    fontSize: 13,
+    fontFamily: 'Inter-SemiBold',
+  },
+});
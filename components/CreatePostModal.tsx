@@ -12,6 +12,7 @@ import {
   Alert,
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
+import { Image } from 'expo-image';
 import {
   X,
   Send,
@@ -21,8 +22,26 @@ import {
   MessageSquare,
   Image as ImageIcon,
   Smile,
+  Play,
+  RotateCcw,
 } from 'lucide-react-native';
-import { WorkoutSession } from '@/lib/supabase';
+import { PostMediaKind, WorkoutSession, removePostMedia, uploadPostMedia } from '@/lib/supabase';
+import { useAuth } from '@/contexts/AuthContext';
+import { MAX_VIDEO_BYTES, pickPostMedia } from '@/utils/mediaPicker';
+
+// Matches the feed, which shows up to four media tiles per post
+const MAX_ATTACHMENTS = 4;
+
+type Attachment = {
+  key: string;
+  uri: string;
+  kind: PostMediaKind;
+  mimeType: string;
+  status: 'uploading' | 'uploaded' | 'failed';
+  progress: number;
+  // Set once uploaded; posts store it in media_urls
+  path?: string;
+};
 
 interface CreatePostModalProps {
   visible: boolean;
@@ -31,7 +50,8 @@ interface CreatePostModalProps {
     content: string,
     type: 'general' | 'workout' | 'achievement' | 'progress',
     workoutSessionId?: number,
-    achievementId?: number
+    achievementId?: number,
+    mediaUrls?: string[]
   ) => Promise<void>;
   coachingGoal?: string | null;
   workoutSessions?: Pick<WorkoutSession, 'id' | 'duration_minutes' | 'started_at'>[];
@@ -51,6 +71,7 @@ export default function CreatePostModal({
   workoutSessions = [],
   achievements = [],
 }: CreatePostModalProps) {
+  const { user } = useAuth();
   const [content, setContent] = useState('');
   const [postType, setPostType] = useState<'general' | 'workout' | 'achievement' | 'progress'>(
     'general'
@@ -59,6 +80,7 @@ export default function CreatePostModal({
   const [tagPath, setTagPath] = useState(false);
   const [selectedSessionId, setSelectedSessionId] = useState<number | undefined>();
   const [selectedAchievementId, setSelectedAchievementId] = useState<number | undefined>();
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
 
   useEffect(() => {
     if (postType === 'workout' && workoutSessions.length > 0) {
@@ -116,6 +138,60 @@ export default function CreatePostModal({
   const achievementLabel = (achievement: { name: string; points?: number | null }) =>
     `${achievement.name}${achievement.points ? ` (${achievement.points} pts)` : ''}`;
 
+  const updateAttachment = (key: string, changes: Partial<Attachment>) => {
+    setAttachments((prev) =>
+      prev.map((item) => (item.key === key ? { ...item, ...changes } : item))
+    );
+  };
+
+  const startUpload = async (attachment: Attachment) => {
+    if (!user) return;
+    updateAttachment(attachment.key, { status: 'uploading', progress: 0 });
+    const { path, error } = await uploadPostMedia(
+      user.id,
+      { uri: attachment.uri, kind: attachment.kind, mimeType: attachment.mimeType },
+      (progress) => updateAttachment(attachment.key, { progress })
+    );
+    if (error || !path) {
+      updateAttachment(attachment.key, { status: 'failed' });
+      return;
+    }
+    updateAttachment(attachment.key, { status: 'uploaded', progress: 1, path });
+  };
+
+  const handlePickMedia = async () => {
+    const picked = await pickPostMedia(MAX_ATTACHMENTS - attachments.length);
+    const accepted = picked.filter(
+      (media) => media.kind !== 'video' || !media.fileSize || media.fileSize <= MAX_VIDEO_BYTES
+    );
+    if (accepted.length < picked.length) {
+      Alert.alert('Video too large', 'Videos must be under 50 MB.');
+    }
+
+    const added: Attachment[] = accepted.map((media, index) => ({
+      key: `${Date.now()}-${index}`,
+      uri: media.uri,
+      kind: media.kind,
+      mimeType: media.mimeType,
+      status: 'uploading',
+      progress: 0,
+    }));
+    setAttachments((prev) => [...prev, ...added]);
+    added.forEach(startUpload);
+  };
+
+  const handleRemoveAttachment = (attachment: Attachment) => {
+    setAttachments((prev) => prev.filter((item) => item.key !== attachment.key));
+    if (attachment.path) removePostMedia([attachment.path]);
+  };
+
+  // Files uploaded for a post that is never published would otherwise stay in storage
+  const discardAttachments = () => {
+    const paths = attachments.map((item) => item.path).filter((path): path is string => !!path);
+    removePostMedia(paths);
+    setAttachments([]);
+  };
+
   const handleSubmit = async () => {
     if (!content.trim()) {
       Alert.alert('Error', 'Please enter some content for your post');
@@ -138,11 +214,29 @@ export default function CreatePostModal({
       Alert.alert('Pick an achievement', 'Select an achievement to celebrate.');
       return;
     }
+    if (attachments.some((item) => item.status === 'uploading')) {
+      Alert.alert('Uploading', 'Wait for your media to finish uploading.');
+      return;
+    }
+    if (attachments.some((item) => item.status === 'failed')) {
+      Alert.alert('Upload failed', 'Retry or remove the media that failed to upload.');
+      return;
+    }
 
     setSubmitting(true);
     try {
-      await onCreatePost(contentWithTag, postType, selectedSessionId, selectedAchievementId);
+      const mediaPaths = attachments
+        .map((item) => item.path)
+        .filter((path): path is string => !!path);
+      await onCreatePost(
+        contentWithTag,
+        postType,
+        selectedSessionId,
+        selectedAchievementId,
+        mediaPaths.length > 0 ? mediaPaths : undefined
+      );
       setContent('');
+      setAttachments([]);
       setPostType('general');
       setTagPath(false);
       setSelectedSessionId(undefined);
@@ -157,7 +251,7 @@ export default function CreatePostModal({
   };
 
   const handleClose = () => {
-    if (content.trim()) {
+    if (content.trim() || attachments.length > 0) {
       Alert.alert('Discard Post', 'Are you sure you want to discard this post?', [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -166,6 +260,7 @@ export default function CreatePostModal({
           onPress: () => {
             setContent('');
             setPostType('general');
+            discardAttachments();
             onClose();
           },
         },
@@ -263,8 +358,15 @@ export default function CreatePostModal({
               <View style={styles.inputFooter}>
                 <Text style={styles.characterCount}>{content.length}/500</Text>
                 <View style={styles.inputActions}>
-                  <TouchableOpacity style={styles.inputActionButton}>
-                    <ImageIcon size={20} color="#999" />
+                  <TouchableOpacity
+                    style={styles.inputActionButton}
+                    onPress={handlePickMedia}
+                    disabled={attachments.length >= MAX_ATTACHMENTS}
+                  >
+                    <ImageIcon
+                      size={20}
+                      color={attachments.length >= MAX_ATTACHMENTS ? '#555' : '#999'}
+                    />
                   </TouchableOpacity>
                   <TouchableOpacity style={styles.inputActionButton}>
                     <Smile size={20} color="#999" />
@@ -272,6 +374,58 @@ export default function CreatePostModal({
                 </View>
               </View>
             </View>
+
+            {attachments.length > 0 && (
+              <ScrollView
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                style={styles.attachmentList}
+              >
+                {attachments.map((item) => (
+                  <View key={item.key} style={styles.attachment}>
+                    {item.kind === 'image' ? (
+                      <Image
+                        source={{ uri: item.uri }}
+                        style={styles.attachmentPreview}
+                        contentFit="cover"
+                      />
+                    ) : (
+                      <View style={[styles.attachmentPreview, styles.videoPreview]}>
+                        <Play size={24} color="#fff" />
+                      </View>
+                    )}
+
+                    {item.status === 'uploading' && (
+                      <View style={styles.progressTrack}>
+                        <View
+                          style={[
+                            styles.progressFill,
+                            { width: `${Math.round(item.progress * 100)}%` },
+                          ]}
+                        />
+                      </View>
+                    )}
+
+                    {item.status === 'failed' && (
+                      <TouchableOpacity
+                        style={styles.attachmentOverlay}
+                        onPress={() => startUpload(item)}
+                      >
+                        <RotateCcw size={20} color="#fff" />
+                        <Text style={styles.attachmentOverlayText}>Retry</Text>
+                      </TouchableOpacity>
+                    )}
+
+                    <TouchableOpacity
+                      style={styles.attachmentRemove}
+                      onPress={() => handleRemoveAttachment(item)}
+                    >
+                      <X size={14} color="#fff" />
+                    </TouchableOpacity>
+                  </View>
+                ))}
+              </ScrollView>
+            )}
           </View>
 
           {postType === 'workout' && (
@@ -571,6 +725,60 @@ const styles = StyleSheet.create({
     padding: 8,
     marginLeft: 8,
   },
+  attachmentList: {
+    marginTop: 12,
+  },
+  attachment: {
+    width: 88,
+    height: 88,
+    marginRight: 8,
+    borderRadius: 12,
+    overflow: 'hidden',
+    backgroundColor: '#1a1a1a',
+  },
+  attachmentPreview: {
+    width: '100%',
+    height: '100%',
+  },
+  videoPreview: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#000',
+  },
+  progressTrack: {
+    position: 'absolute',
+    left: 8,
+    right: 8,
+    bottom: 8,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: 'rgba(255, 255, 255, 0.3)',
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: 2,
+    backgroundColor: '#FF6B35',
+  },
+  attachmentOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(231, 76, 60, 0.7)',
+  },
+  attachmentOverlayText: {
+    fontSize: 12,
+    color: '#fff',
+    fontFamily: 'Inter-SemiBold',
+    marginTop: 4,
+  },
+  attachmentRemove: {
+    position: 'absolute',
+    top: 4,
+    right: 4,
+    padding: 4,
+    borderRadius: 10,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+  },
   selectorContainer: {
     marginBottom: 20,
     gap: 8,
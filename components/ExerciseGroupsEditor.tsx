@@ -0,0 +1,244 @@
+import React from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import { Plus, Trash2 } from 'lucide-react-native';
+import {
+  EXERCISE_GROUP_DEFAULTS,
+  EXERCISE_GROUP_LABELS,
+  createExerciseGroupDraft,
+  type ExerciseGroupDraft,
+  type ExerciseGroupType,
+} from '@/lib/exerciseGroups';
+
+interface ExerciseGroupsEditorProps {
+  groups: ExerciseGroupDraft[];
+  // Number of exercises assigned to each group, by group key
+  memberCounts: Record<string, number>;
+  onChange: (groups: ExerciseGroupDraft[]) => void;
+  onRemove: (key: string) => void;
+}
+
+const GROUP_TYPES = Object.keys(EXERCISE_GROUP_LABELS) as ExerciseGroupType[];
+
+const parseSeconds = (value: string) => Math.max(0, parseInt(value) || 0);
+
+export default function ExerciseGroupsEditor({
+  groups,
+  memberCounts,
+  onChange,
+  onRemove,
+}: ExerciseGroupsEditorProps) {
+  const updateGroup = (key: string, updates: Partial<ExerciseGroupDraft>) => {
+    onChange(groups.map((group) => (group.key === key ? { ...group, ...updates } : group)));
+  };
+
+  const changeType = (group: ExerciseGroupDraft, type: ExerciseGroupType) => {
+    updateGroup(group.key, { ...EXERCISE_GROUP_DEFAULTS[type], key: group.key });
+  };
+
+  return (
+    <View>
+      {groups.map((group, index) => (
+        <View key={group.key} style={styles.groupCard}>
+          <View style={styles.groupHeader}>
+            <Text style={styles.groupTitle}>
+              Group {String.fromCharCode(65 + index)} • {memberCounts[group.key] ?? 0} exercises
+            </Text>
+            <TouchableOpacity style={styles.removeButton} onPress={() => onRemove(group.key)}>
+              <Trash2 size={16} color="#E74C3C" />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.typeRow}>
+            {GROUP_TYPES.map((type) => (
+              <TouchableOpacity
+                key={type}
+                style={[styles.typeChip, group.group_type === type && styles.typeChipActive]}
+                onPress={() => changeType(group, type)}
+              >
+                <Text
+                  style={[
+                    styles.typeChipText,
+                    group.group_type === type && styles.typeChipTextActive,
+                  ]}
+                >
+                  {EXERCISE_GROUP_LABELS[type]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <View style={styles.fieldRow}>
+            <View style={styles.field}>
+              <Text style={styles.fieldLabel}>
+                {group.group_type === 'amrap' ? 'Target rounds' : 'Rounds'}
+              </Text>
+              <TextInput
+                style={styles.fieldInput}
+                value={group.rounds.toString()}
+                onChangeText={(value) =>
+                  updateGroup(group.key, {
+                    rounds: Math.min(50, Math.max(1, parseInt(value) || 1)),
+                  })
+                }
+                keyboardType="numeric"
+              />
+            </View>
+
+            {group.group_type === 'emom' ? (
+              <View style={styles.field}>
+                <Text style={styles.fieldLabel}>Every (sec)</Text>
+                <TextInput
+                  style={styles.fieldInput}
+                  value={group.interval_seconds?.toString() ?? ''}
+                  onChangeText={(value) =>
+                    updateGroup(group.key, { interval_seconds: parseSeconds(value) || 60 })
+                  }
+                  keyboardType="numeric"
+                />
+              </View>
+            ) : group.group_type === 'amrap' ? (
+              <View style={styles.field}>
+                <Text style={styles.fieldLabel}>Time cap (min)</Text>
+                <TextInput
+                  style={styles.fieldInput}
+                  value={Math.round((group.time_cap_seconds ?? 0) / 60).toString()}
+                  onChangeText={(value) =>
+                    updateGroup(group.key, {
+                      time_cap_seconds: Math.max(1, parseInt(value) || 1) * 60,
+                    })
+                  }
+                  keyboardType="numeric"
+                />
+              </View>
+            ) : (
+              <>
+                <View style={styles.field}>
+                  <Text style={styles.fieldLabel}>Rest between (sec)</Text>
+                  <TextInput
+                    style={styles.fieldInput}
+                    value={group.rest_between_exercises_seconds.toString()}
+                    onChangeText={(value) =>
+                      updateGroup(group.key, {
+                        rest_between_exercises_seconds: parseSeconds(value),
+                      })
+                    }
+                    keyboardType="numeric"
+                  />
+                </View>
+                <View style={styles.field}>
+                  <Text style={styles.fieldLabel}>Rest after round (sec)</Text>
+                  <TextInput
+                    style={styles.fieldInput}
+                    value={group.rest_after_round_seconds.toString()}
+                    onChangeText={(value) =>
+                      updateGroup(group.key, { rest_after_round_seconds: parseSeconds(value) })
+                    }
+                    keyboardType="numeric"
+                  />
+                </View>
+              </>
+            )}
+          </View>
+        </View>
+      ))}
+
+      <TouchableOpacity
+        style={styles.addGroupButton}
+        onPress={() => onChange([...groups, createExerciseGroupDraft('superset')])}
+      >
+        <Plus size={16} color="#FF6B35" />
+        <Text style={styles.addGroupText}>Add Superset / Circuit</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  groupCard: {
+    backgroundColor: '#2a2a2a',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  groupHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  groupTitle: {
+    fontSize: 16,
+    color: '#fff',
+    fontFamily: 'Inter-SemiBold',
+  },
+  removeButton: {
+    padding: 8,
+  },
+  typeRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  typeChip: {
+    backgroundColor: '#333',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderWidth: 1,
+    borderColor: '#444',
+  },
+  typeChipActive: {
+    borderColor: '#FF6B35',
+  },
+  typeChipText: {
+    fontSize: 13,
+    color: '#999',
+    fontFamily: 'Inter-Medium',
+  },
+  typeChipTextActive: {
+    color: '#FF6B35',
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  field: {
+    flex: 1,
+  },
+  fieldLabel: {
+    fontSize: 12,
+    color: '#ccc',
+    fontFamily: 'Inter-Medium',
+    marginBottom: 6,
+  },
+  fieldInput: {
+    backgroundColor: '#333',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 14,
+    color: '#fff',
+    fontFamily: 'Inter-Regular',
+    borderWidth: 1,
+    borderColor: '#444',
+  },
+  addGroupButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: '#FF6B35',
+    borderStyle: 'dashed',
+    borderRadius: 12,
+    paddingVertical: 12,
+    marginBottom: 16,
+  },
+  addGroupText: {
+    fontSize: 14,
+    color: '#FF6B35',
+    fontFamily: 'Inter-SemiBold',
+    marginLeft: 6,
+  },
+});
@@ -15,6 +15,8 @@ interface ExerciseProgressChartProps {
   unit?: string;
   chartType?: 'line' | 'bar';
   height?: number;
+  // All-time record in the same unit as the data, drawn as a reference line
+  recordValue?: number;
 }
 
 const screenWidth = Dimensions.get('window').width;
@@ -27,18 +29,20 @@ export default function ExerciseProgressChart({
   unit = '',
   chartType = 'line',
   height = 120,
+  recordValue,
 }: ExerciseProgressChartProps) {
   if (data.length === 0) {
     return null;
   }
 
-  const maxValue = Math.max(...data.map((d) => d.value), 1);
-  const minValue = Math.min(...data.map((d) => d.value));
+  const values = data.map((d) => d.value).concat(recordValue ? [recordValue] : []);
+  const maxValue = Math.max(...values, 1);
+  const minValue = Math.min(...values);
   const chartWidth = screenWidth - 80;
   const pointWidth = Math.max(8, (chartWidth - (data.length - 1) * 4) / data.length);
 
   const formatValue = (value: number) => {
-    if (unit === 'kg' && value >= 1000) {
+    if ((unit === 'kg' || unit === 'lb') && value >= 1000) {
       return `${(value / 1000).toFixed(1)}k`;
     }
     return value.toString();
@@ -94,6 +98,22 @@ export default function ExerciseProgressChart({
       </View>
 
       <View style={[styles.chart, { height }]}>
+        {recordValue ? (
+          <View
+            style={[
+              styles.recordLine,
+              {
+                top:
+                  chartType === 'line'
+                    ? height -
+                      40 -
+                      ((recordValue - minValue) / (maxValue - minValue || 1)) * (height - 60)
+                    : height - (recordValue / maxValue) * 0.8 * height,
+                borderColor: color,
+              },
+            ]}
+          />
+        ) : null}
         {chartType === 'line' ? (
           <View style={styles.lineChart}>
             {data.map((point, index) => {
@@ -185,6 +205,11 @@ export default function ExerciseProgressChart({
         <Text style={styles.footerText}>
           Max: {formatValue(maxValue)} {unit}
         </Text>
+        {recordValue ? (
+          <Text style={styles.footerText}>
+            PR: {formatValue(recordValue)} {unit}
+          </Text>
+        ) : null}
         <Text style={styles.footerText}>
           Latest: {formatValue(data[data.length - 1].value)} {unit}
         </Text>
@@ -248,6 +273,14 @@ const styles = StyleSheet.create({
     height: 2,
     zIndex: 1,
   },
+  recordLine: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    borderTopWidth: 1,
+    borderStyle: 'dashed',
+    opacity: 0.5,
+  },
   barChart: {
     flexDirection: 'row',
     alignItems: 'flex-end',
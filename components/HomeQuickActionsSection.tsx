@@ -29,8 +29,8 @@ export default function HomeQuickActionsSection({ quickActions }: HomeQuickActio
         router.push('/(tabs)/progress');
         break;
       case 'Find Friends':
-        // Navigate to social tab
-        router.push('/(tabs)/social');
+        // Navigate to friend search and requests
+        router.push('/social/friends');
         break;
       default:
         console.log('Unknown action:', actionLabel);
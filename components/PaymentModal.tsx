@@ -10,9 +10,16 @@ import {
   ActivityIndicator,
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
-import { X, UploadCloud } from 'lucide-react-native';
+import { X, UploadCloud, Tag } from 'lucide-react-native';
 import { useTheme } from '@/theme/ThemeProvider';
-import { Product, uploadReceipt } from '@/lib/supabase';
+import {
+  Product,
+  PromoQuote,
+  formatPromoDiscount,
+  normalizePromoCode,
+  uploadReceipt,
+  validatePromoCode,
+} from '@/lib/supabase';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/components/ToastProvider';
 import { getDocumentAsync } from '@/utils/documentPicker';
@@ -21,7 +28,12 @@ type PaymentModalProps = {
   visible: boolean;
   product: Product | null;
   onClose: () => void;
-  onSubmit: (receiptPath: string | null, amountCents: number, notes?: string) => Promise<void>;
+  onSubmit: (
+    receiptPath: string | null,
+    amountCents: number,
+    notes?: string,
+    promoCode?: string | null
+  ) => Promise<void>;
   instapayHandle?: string;
   disabled?: boolean;
 };
@@ -47,14 +59,41 @@ export default function PaymentModal({
   const [notes, setNotes] = useState('');
   const [submitting, setSubmitting] = useState(false);
   const [uploading, setUploading] = useState(false);
+  const [promoInput, setPromoInput] = useState('');
+  const [promoQuote, setPromoQuote] = useState<PromoQuote | null>(null);
+  const [checkingPromo, setCheckingPromo] = useState(false);
 
   useEffect(() => {
     setAmount(defaultAmount);
     setReceiptPath(null);
     setReceiptName(null);
     setNotes('');
+    setPromoInput('');
+    setPromoQuote(null);
   }, [defaultAmount, product?.id]);
 
+  // The server quotes the discount; the payment trigger checks the code again on submit
+  const handleApplyPromo = async () => {
+    if (!product || !promoInput.trim()) return;
+    setCheckingPromo(true);
+    const { data, error } = await validatePromoCode(promoInput, product.id);
+    setCheckingPromo(false);
+    if (error || !data) {
+      setPromoQuote(null);
+      setAmount(defaultAmount);
+      Alert.alert('Promo code', error?.message || 'This promo code is not valid');
+      return;
+    }
+    setPromoQuote(data);
+    setAmount((data.final_price_cents / 100).toFixed(2));
+  };
+
+  const handleRemovePromo = () => {
+    setPromoInput('');
+    setPromoQuote(null);
+    setAmount(defaultAmount);
+  };
+
   const handlePickReceipt = async () => {
     if (!user) {
       Alert.alert('Sign in required', 'Please sign in to upload a receipt.');
@@ -98,9 +137,13 @@ export default function PaymentModal({
       Alert.alert('Pending', 'You already have a pending submission for this product.');
       return;
     }
+    if (promoInput.trim() && promoQuote?.code !== normalizePromoCode(promoInput)) {
+      Alert.alert('Promo code', 'Apply the promo code before submitting, or clear it.');
+      return;
+    }
     setSubmitting(true);
     try {
-      await onSubmit(receiptPath, Math.round(amountNumber * 100), notes);
+      await onSubmit(receiptPath, Math.round(amountNumber * 100), notes, promoQuote?.code ?? null);
     } finally {
       setSubmitting(false);
     }
@@ -130,6 +173,39 @@ export default function PaymentModal({
           {product?.type?.replace('_', ' ')}
         </Text>
 
+        <Text style={[styles.label, { color: colors.textMuted }]}>Promo code</Text>
+        <View style={[styles.inputRow, { borderColor: colors.border }]}>
+          <Tag size={18} color={colors.textMuted} />
+          <TextInput
+            style={[styles.inputFlex, { color: colors.text }]}
+            autoCapitalize="characters"
+            autoCorrect={false}
+            value={promoInput}
+            onChangeText={setPromoInput}
+            placeholder="Optional"
+            placeholderTextColor={colors.textMuted}
+            editable={!promoQuote}
+          />
+          {checkingPromo ? (
+            <ActivityIndicator size="small" color={colors.primary} />
+          ) : promoQuote ? (
+            <TouchableOpacity onPress={handleRemovePromo}>
+              <Text style={{ color: colors.textMuted }}>Remove</Text>
+            </TouchableOpacity>
+          ) : (
+            <TouchableOpacity onPress={handleApplyPromo} disabled={!promoInput.trim()}>
+              <Text style={{ color: colors.primary }}>Apply</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+        {promoQuote ? (
+          <Text style={{ color: colors.success }}>
+            {promoQuote.code}: {formatPromoDiscount(promoQuote)} • $
+            {(promoQuote.price_cents / 100).toFixed(2)} → $
+            {(promoQuote.final_price_cents / 100).toFixed(2)}
+          </Text>
+        ) : null}
+
         <Text style={[styles.label, { color: colors.textMuted }]}>Amount</Text>
         <TextInput
           style={[styles.input, { color: colors.text }]}
@@ -1,8 +1,9 @@
 import React from 'react';
 import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
-import { Trophy, TrendingUp, Calendar } from 'lucide-react-native';
+import { Trophy, TrendingUp, Calendar, Zap, Dumbbell } from 'lucide-react-native';
 import { PersonalRecord } from '@/lib/supabase';
-import { formatPersonalRecordValue } from '@/lib/personalRecords';
+import { formatPersonalRecordContext, formatPersonalRecordValue } from '@/lib/personalRecords';
+import { useUnits } from '@/hooks/useUnits';
 
 interface PersonalRecordCardProps {
   record: PersonalRecord & { exercise?: { name: string } };
@@ -15,6 +16,7 @@ export default function PersonalRecordCard({
   showExerciseName = true,
   onPress,
 }: PersonalRecordCardProps) {
+  const { system } = useUnits();
   const getRecordIcon = (recordType: string) => {
     switch (recordType) {
       case 'max_weight':
@@ -24,7 +26,14 @@ export default function PersonalRecordCard({
       case 'best_time':
         return Calendar;
       case 'max_distance':
+      case 'max_volume':
         return TrendingUp;
+      case 'estimated_1rm':
+        return Zap;
+      case 'rep_max_3':
+      case 'rep_max_5':
+      case 'rep_max_10':
+        return Dumbbell;
       default:
         return Trophy;
     }
@@ -40,6 +49,14 @@ export default function PersonalRecordCard({
         return '#27AE60';
       case 'max_distance':
         return '#9B59B6';
+      case 'estimated_1rm':
+        return '#E74C3C';
+      case 'max_volume':
+        return '#F39C12';
+      case 'rep_max_3':
+      case 'rep_max_5':
+      case 'rep_max_10':
+        return '#1ABC9C';
       default:
         return '#FF6B35';
     }
@@ -55,6 +72,16 @@ export default function PersonalRecordCard({
         return 'Best Time';
       case 'max_distance':
         return 'Max Distance';
+      case 'estimated_1rm':
+        return 'Est. 1RM';
+      case 'max_volume':
+        return 'Best Session Volume';
+      case 'rep_max_3':
+        return '3RM';
+      case 'rep_max_5':
+        return '5RM';
+      case 'rep_max_10':
+        return '10RM';
       default:
         return recordType;
     }
@@ -74,6 +101,7 @@ export default function PersonalRecordCard({
 
   const IconComponent = getRecordIcon(record.record_type);
   const recordColor = getRecordColor(record.record_type);
+  const recordContext = formatPersonalRecordContext(record, system);
 
   const CardComponent = onPress ? TouchableOpacity : View;
 
@@ -89,8 +117,9 @@ export default function PersonalRecordCard({
         )}
         <Text style={styles.recordType}>{getRecordTypeLabel(record.record_type)}</Text>
         <Text style={styles.recordValue}>
-          {formatPersonalRecordValue(record.value, record.record_type, record.unit)}
+          {formatPersonalRecordValue(record.value, record.record_type, record.unit, system)}
         </Text>
+        {recordContext && <Text style={styles.recordContext}>{recordContext}</Text>}
         <Text style={styles.recordDate}>{formatDate(record.achieved_at)}</Text>
       </View>
 
@@ -138,6 +167,12 @@ const styles = StyleSheet.create({
     fontFamily: 'Inter-Bold',
     marginBottom: 4,
   },
+  recordContext: {
+    fontSize: 13,
+    color: '#999',
+    fontFamily: 'Inter-Regular',
+    marginBottom: 4,
+  },
   recordDate: {
     fontSize: 12,
     color: '#666',
@@ -2,7 +2,12 @@ import React from 'react';
 import { View, Text, StyleSheet, Modal, TouchableOpacity, Animated } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Trophy, X, TrendingUp, Calendar } from 'lucide-react-native';
-import { PersonalRecordData, formatPersonalRecordValue } from '@/lib/personalRecords';
+import {
+  PersonalRecordData,
+  formatPersonalRecordContext,
+  formatPersonalRecordValue,
+} from '@/lib/personalRecords';
+import { useUnits } from '@/hooks/useUnits';
 
 interface PersonalRecordModalProps {
   visible: boolean;
@@ -15,6 +20,7 @@ export default function PersonalRecordModal({
   record,
   onClose,
 }: PersonalRecordModalProps) {
+  const { system } = useUnits();
   const scaleValue = new Animated.Value(0);
 
   React.useEffect(() => {
@@ -43,6 +49,14 @@ export default function PersonalRecordModal({
         return '#27AE60';
       case 'max_distance':
         return '#9B59B6';
+      case 'estimated_1rm':
+        return '#E74C3C';
+      case 'max_volume':
+        return '#F39C12';
+      case 'rep_max_3':
+      case 'rep_max_5':
+      case 'rep_max_10':
+        return '#1ABC9C';
       default:
         return '#FF6B35';
     }
@@ -58,6 +72,16 @@ export default function PersonalRecordModal({
         return 'New Time Record!';
       case 'max_distance':
         return 'New Distance Record!';
+      case 'estimated_1rm':
+        return 'New Estimated 1RM!';
+      case 'max_volume':
+        return 'New Volume Record!';
+      case 'rep_max_3':
+        return 'New 3-Rep Max!';
+      case 'rep_max_5':
+        return 'New 5-Rep Max!';
+      case 'rep_max_10':
+        return 'New 10-Rep Max!';
       default:
         return 'New Personal Record!';
     }
@@ -65,6 +89,7 @@ export default function PersonalRecordModal({
 
   const recordColor = getRecordTypeColor(record.record_type);
   const recordTitle = getRecordTypeTitle(record.record_type);
+  const recordContext = formatPersonalRecordContext(record, system);
 
   return (
     <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
@@ -94,8 +119,9 @@ export default function PersonalRecordModal({
               <View style={styles.recordValue}>
                 <Text style={styles.newValueLabel}>New Record</Text>
                 <Text style={styles.newValueText}>
-                  {formatPersonalRecordValue(record.value, record.record_type, record.unit)}
+                  {formatPersonalRecordValue(record.value, record.record_type, record.unit, system)}
                 </Text>
+                {recordContext && <Text style={styles.newValueContext}>{recordContext}</Text>}
               </View>
 
               {record.previous_value && record.previous_value > 0 && (
@@ -106,7 +132,8 @@ export default function PersonalRecordModal({
                     {formatPersonalRecordValue(
                       record.improvement || 0,
                       record.record_type,
-                      record.unit
+                      record.unit,
+                      system
                     )}
                     <Text> improvement</Text>
                   </Text>
@@ -203,6 +230,13 @@ const styles = StyleSheet.create({
     color: '#fff',
     fontFamily: 'Inter-Bold',
   },
+  newValueContext: {
+    fontSize: 14,
+    color: '#fff',
+    fontFamily: 'Inter-Medium',
+    opacity: 0.8,
+    marginTop: 4,
+  },
   improvementContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1,8 +1,9 @@
 import React from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
-import { Trophy, TrendingUp, Clock, Target } from 'lucide-react-native';
+import { Trophy, TrendingUp, Clock, Target, Zap, Dumbbell } from 'lucide-react-native';
 import { router } from 'expo-router';
-import { formatPersonalRecordValue } from '@/lib/personalRecords';
+import { formatPersonalRecordContext, formatPersonalRecordValue } from '@/lib/personalRecords';
+import { useUnits } from '@/hooks/useUnits';
 
 interface PersonalRecord {
   id: number;
@@ -10,6 +11,8 @@ interface PersonalRecord {
   record_type: string;
   value: number;
   unit: string;
+  reps?: number | null;
+  weight_kg?: number | null;
   achieved_at: string;
   exercise: {
     name: string;
@@ -28,6 +31,7 @@ export default function PersonalRecordsSection({
   loading,
   onRecordPress,
 }: PersonalRecordsSectionProps) {
+  const { system } = useUnits();
   const getRecordIcon = (recordType: string) => {
     switch (recordType) {
       case 'max_weight':
@@ -37,7 +41,14 @@ export default function PersonalRecordsSection({
       case 'best_time':
         return Clock;
       case 'max_distance':
+      case 'max_volume':
         return TrendingUp;
+      case 'estimated_1rm':
+        return Zap;
+      case 'rep_max_3':
+      case 'rep_max_5':
+      case 'rep_max_10':
+        return Dumbbell;
       default:
         return Trophy;
     }
@@ -53,6 +64,14 @@ export default function PersonalRecordsSection({
         return '#27AE60';
       case 'max_distance':
         return '#9B59B6';
+      case 'estimated_1rm':
+        return '#E74C3C';
+      case 'max_volume':
+        return '#F39C12';
+      case 'rep_max_3':
+      case 'rep_max_5':
+      case 'rep_max_10':
+        return '#1ABC9C';
       default:
         return '#FF6B35';
     }
@@ -68,6 +87,16 @@ export default function PersonalRecordsSection({
         return 'Best Time';
       case 'max_distance':
         return 'Max Distance';
+      case 'estimated_1rm':
+        return 'Est. 1RM';
+      case 'max_volume':
+        return 'Best Session Volume';
+      case 'rep_max_3':
+        return '3RM';
+      case 'rep_max_5':
+        return '5RM';
+      case 'rep_max_10':
+        return '10RM';
       default:
         return recordType;
     }
@@ -132,6 +161,7 @@ export default function PersonalRecordsSection({
               {records.map((record) => {
                 const IconComponent = getRecordIcon(record.record_type);
                 const recordColor = getRecordColor(record.record_type);
+                const recordContext = formatPersonalRecordContext(record, system);
 
                 return (
                   <TouchableOpacity
@@ -147,8 +177,14 @@ export default function PersonalRecordsSection({
                         {getRecordTypeLabel(record.record_type)}
                       </Text>
                       <Text style={styles.recordValue}>
-                        {formatPersonalRecordValue(record.value, record.record_type, record.unit)}
+                        {formatPersonalRecordValue(
+                          record.value,
+                          record.record_type,
+                          record.unit,
+                          system
+                        )}
                       </Text>
+                      {recordContext && <Text style={styles.recordContext}>{recordContext}</Text>}
                       <Text style={styles.recordDate}>
                         {new Date(record.achieved_at).toLocaleDateString()}
                       </Text>
@@ -244,6 +280,12 @@ const styles = StyleSheet.create({
     fontFamily: 'Inter-Bold',
     marginBottom: 2,
   },
+  recordContext: {
+    fontSize: 12,
+    color: '#999',
+    fontFamily: 'Inter-Regular',
+    marginBottom: 2,
+  },
   recordDate: {
     fontSize: 11,
     color: '#666',
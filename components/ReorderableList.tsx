@@ -0,0 +1,141 @@
+import React, { useRef, useState } from 'react';
+import { Animated, PanResponder, StyleSheet, View } from 'react-native';
+import { GripVertical } from 'lucide-react-native';
+
+interface ReorderableListProps<T> {
+  items: T[];
+  keyExtractor: (item: T, index: number) => string;
+  renderItem: (item: T, index: number) => React.ReactNode;
+  onReorder: (fromIndex: number, toIndex: number) => void;
+  // Lets the parent ScrollView stop scrolling while an item is dragged
+  onDragStateChange?: (isDragging: boolean) => void;
+}
+
+// Works out where a dragged item lands: it passes a neighbour once it is dragged over half of it
+const getDropIndex = (heights: number[], fromIndex: number, dy: number) => {
+  let target = fromIndex;
+  let remaining = Math.abs(dy);
+  const step = dy > 0 ? 1 : -1;
+  while (
+    target + step >= 0 &&
+    target + step < heights.length &&
+    remaining > (heights[target + step] ?? 0) / 2
+  ) {
+    remaining -= heights[target + step] ?? 0;
+    target += step;
+  }
+  return target;
+};
+
+export default function ReorderableList<T>({
+  items,
+  keyExtractor,
+  renderItem,
+  onReorder,
+  onDragStateChange,
+}: ReorderableListProps<T>) {
+  const heights = useRef<number[]>([]);
+  const [draggingIndex, setDraggingIndex] = useState<number | null>(null);
+
+  const handleDragStart = (index: number) => {
+    setDraggingIndex(index);
+    onDragStateChange?.(true);
+  };
+
+  const handleDragEnd = (index: number, dy: number) => {
+    setDraggingIndex(null);
+    onDragStateChange?.(false);
+    const target = getDropIndex(heights.current.slice(0, items.length), index, dy);
+    if (target !== index) onReorder(index, target);
+  };
+
+  return (
+    <View>
+      {items.map((item, index) => (
+        <ReorderableRow
+          key={keyExtractor(item, index)}
+          index={index}
+          isDragging={draggingIndex === index}
+          onLayoutHeight={(height) => {
+            heights.current[index] = height;
+          }}
+          onDragStart={handleDragStart}
+          onDragEnd={handleDragEnd}
+        >
+          {renderItem(item, index)}
+        </ReorderableRow>
+      ))}
+    </View>
+  );
+}
+
+interface ReorderableRowProps {
+  index: number;
+  isDragging: boolean;
+  onLayoutHeight: (height: number) => void;
+  onDragStart: (index: number) => void;
+  onDragEnd: (index: number, dy: number) => void;
+  children: React.ReactNode;
+}
+
+function ReorderableRow({
+  index,
+  isDragging,
+  onLayoutHeight,
+  onDragStart,
+  onDragEnd,
+  children,
+}: ReorderableRowProps) {
+  const translateY = useRef(new Animated.Value(0)).current;
+  // The responder is created once, so it reads the latest props through this ref
+  const latest = useRef({ index, onDragStart, onDragEnd });
+  latest.current = { index, onDragStart, onDragEnd };
+
+  const responder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: () => latest.current.onDragStart(latest.current.index),
+      onPanResponderMove: (_, gesture) => translateY.setValue(gesture.dy),
+      onPanResponderRelease: (_, gesture) => {
+        translateY.setValue(0);
+        latest.current.onDragEnd(latest.current.index, gesture.dy);
+      },
+      onPanResponderTerminate: () => {
+        translateY.setValue(0);
+        latest.current.onDragEnd(latest.current.index, 0);
+      },
+    })
+  ).current;
+
+  return (
+    <Animated.View
+      onLayout={(event) => onLayoutHeight(event.nativeEvent.layout.height)}
+      style={[styles.row, { transform: [{ translateY }] }, isDragging && styles.rowDragging]}
+    >
+      <View style={styles.handle} {...responder.panHandlers}>
+        <GripVertical size={20} color={isDragging ? '#FF6B35' : '#666'} />
+      </View>
+      <View style={styles.content}>{children}</View>
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  rowDragging: {
+    zIndex: 10,
+    opacity: 0.9,
+  },
+  handle: {
+    paddingTop: 20,
+    paddingRight: 8,
+  },
+  content: {
+    flex: 1,
+  },
+});
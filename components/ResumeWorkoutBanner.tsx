@@ -0,0 +1,182 @@
+import { Alert, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { router } from 'expo-router';
+import { Play, History } from 'lucide-react-native';
+import { useAuth } from '@/contexts/AuthContext';
+import { useActiveSession } from '@/hooks/useActiveSession';
+import { useTheme } from '@/theme/ThemeProvider';
+import { routes } from '@/utils/routes';
+
+type Props = {
+  staleAfterMs?: number;
+};
+
+const formatStartedAgo = (iso: string) => {
+  const minutes = Math.max(0, Math.floor((Date.now() - new Date(iso).getTime()) / 60000));
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  const days = Math.floor(hours / 24);
+  return `${days} day${days === 1 ? '' : 's'} ago`;
+};
+
+export function ResumeWorkoutBanner({ staleAfterMs }: Props) {
+  const { user } = useAuth();
+  const { colors } = useTheme();
+  const { activeSession, isStale, finishSession, discardSession, isFinishing, isDiscarding } =
+    useActiveSession(user?.id ?? null, { staleAfterMs });
+
+  if (!activeSession) return null;
+
+  const completedSets = activeSession.sets.filter((set) => set.completed).length;
+  const busy = isFinishing || isDiscarding;
+
+  const handleResume = () => {
+    router.push(
+      routes.workoutSession(
+        activeSession.workoutId,
+        activeSession.workoutName,
+        activeSession.coachingSessionId ?? undefined
+      )
+    );
+  };
+
+  const handleFinish = async () => {
+    const { error } = await finishSession(activeSession);
+    if (error) {
+      Alert.alert('Error', 'Could not save this workout. Please try again.');
+    }
+  };
+
+  const handleDiscard = () => {
+    Alert.alert('Discard Workout', 'This unfinished workout and its logged sets will be removed.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Discard',
+        style: 'destructive',
+        onPress: async () => {
+          const { error } = await discardSession(activeSession);
+          if (error) {
+            Alert.alert('Error', 'Could not discard this workout. Please try again.');
+          }
+        },
+      },
+    ]);
+  };
+
+  return (
+    <View
+      style={[styles.container, { backgroundColor: colors.surface, borderColor: colors.primary }]}
+    >
+      <View style={styles.header}>
+        <History size={18} color={colors.primary} />
+        <Text style={[styles.label, { color: colors.primary }]}>
+          {isStale ? 'Unfinished workout' : 'Workout in progress'}
+        </Text>
+      </View>
+      <Text style={[styles.title, { color: colors.text }]}>{activeSession.workoutName}</Text>
+      <Text style={[styles.meta, { color: colors.textMuted }]}>
+        Started {formatStartedAgo(activeSession.sessionStartTime)} • Exercise{' '}
+        {activeSession.currentExerciseIndex + 1} of {activeSession.exerciseCount} • {completedSets}{' '}
+        sets logged
+      </Text>
+
+      <View style={styles.actions}>
+        {isStale ? (
+          <TouchableOpacity
+            style={[styles.primaryButton, { backgroundColor: colors.primary }]}
+            onPress={handleFinish}
+            disabled={busy}
+          >
+            <Text style={styles.primaryButtonText}>{isFinishing ? 'Saving...' : 'Finish'}</Text>
+          </TouchableOpacity>
+        ) : (
+          <TouchableOpacity
+            style={[styles.primaryButton, { backgroundColor: colors.primary }]}
+            onPress={handleResume}
+            disabled={busy}
+          >
+            <Play size={16} color="#fff" />
+            <Text style={styles.primaryButtonText}>Resume workout</Text>
+          </TouchableOpacity>
+        )}
+        {isStale ? (
+          <TouchableOpacity
+            style={[styles.secondaryButton, { borderColor: colors.border }]}
+            onPress={handleResume}
+            disabled={busy}
+          >
+            <Text style={[styles.secondaryButtonText, { color: colors.text }]}>Resume</Text>
+          </TouchableOpacity>
+        ) : null}
+        <TouchableOpacity
+          style={[styles.secondaryButton, { borderColor: colors.border }]}
+          onPress={handleDiscard}
+          disabled={busy}
+        >
+          <Text style={[styles.secondaryButtonText, { color: colors.danger }]}>
+            {isDiscarding ? 'Discarding...' : 'Discard'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginHorizontal: 20,
+    marginTop: 20,
+    padding: 16,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 6,
+  },
+  label: {
+    fontSize: 12,
+    fontFamily: 'Inter-SemiBold',
+    textTransform: 'uppercase',
+  },
+  title: {
+    fontSize: 18,
+    fontFamily: 'Inter-Bold',
+  },
+  meta: {
+    fontSize: 13,
+    fontFamily: 'Inter-Regular',
+    marginTop: 4,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 14,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 10,
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+  },
+  secondaryButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  secondaryButtonText: {
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+  },
+});
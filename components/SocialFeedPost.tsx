@@ -1,6 +1,7 @@
 import React from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, Alert } from 'react-native';
 import { Image } from 'expo-image';
+import * as WebBrowser from 'expo-web-browser';
 import {
   Heart,
   MessageCircle,
@@ -9,8 +10,10 @@ import {
   Trophy,
   Zap,
   Clock,
+  Play,
 } from 'lucide-react-native';
 import { SocialFeedPost } from '@/lib/socialFeed';
+import { getPostMediaKind, getPostMediaUrl } from '@/lib/supabase';
 
 const imagePlaceholder = { blurhash: 'L5H2EC=PM+yV0g-mq.wG9c010J}I' };
 
@@ -188,16 +191,26 @@ export default function SocialFeedPostComponent({
       {/* Media */}
       {post.media_urls && post.media_urls.length > 0 && (
         <View style={styles.mediaContainer}>
-          {post.media_urls.slice(0, 4).map((url, index) => (
-            <Image
-              key={index}
-              source={{ uri: url }}
-              style={styles.mediaImage}
-              cachePolicy="memory-disk"
-              placeholder={imagePlaceholder}
-              contentFit="cover"
-            />
-          ))}
+          {post.media_urls.slice(0, 4).map((media, index) =>
+            getPostMediaKind(media) === 'video' ? (
+              <TouchableOpacity
+                key={index}
+                style={[styles.mediaImage, styles.mediaVideo]}
+                onPress={() => WebBrowser.openBrowserAsync(getPostMediaUrl(media))}
+              >
+                <Play size={28} color="#fff" />
+              </TouchableOpacity>
+            ) : (
+              <Image
+                key={index}
+                source={{ uri: getPostMediaUrl(media) }}
+                style={styles.mediaImage}
+                cachePolicy="memory-disk"
+                placeholder={imagePlaceholder}
+                contentFit="cover"
+              />
+            )
+          )}
         </View>
       )}
 
@@ -430,6 +443,11 @@ const styles = StyleSheet.create({
     height: 120,
     borderRadius: 8,
   },
+  mediaVideo: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#000',
+  },
   postActions: {
     flexDirection: 'row',
     alignItems: 'center',
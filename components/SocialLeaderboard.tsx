@@ -1,25 +1,44 @@
-import React from 'react';
-import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
 import { Image } from 'expo-image';
 import { Trophy, Zap, Target, Crown } from 'lucide-react-native';
-
-interface LeaderboardUser {
-  id: string;
-  name: string;
-  username?: string | null;
-  points: number;
-  rank: number;
-  avatar?: string | null;
-  streak?: number | null;
-  workouts: number;
-}
+import { useLeaderboard } from '@/hooks/useLeaderboard';
+import { useUnits } from '@/hooks/useUnits';
+import {
+  LeaderboardEntry,
+  LeaderboardMetric,
+  LeaderboardScope,
+  LeaderboardWindow,
+} from '@/lib/supabase';
 
 interface SocialLeaderboardProps {
-  leaderboard: LeaderboardUser[];
   currentUserId?: string;
 }
 
-export default function SocialLeaderboard({ leaderboard, currentUserId }: SocialLeaderboardProps) {
+const METRICS: { id: LeaderboardMetric; label: string }[] = [
+  { id: 'workouts', label: 'Workouts' },
+  { id: 'minutes', label: 'Minutes' },
+  { id: 'volume', label: 'Volume' },
+  { id: 'streak', label: 'Streak' },
+];
+
+const WINDOWS: { id: LeaderboardWindow; label: string; title: string }[] = [
+  { id: 'weekly', label: 'Week', title: 'Weekly Leaderboard' },
+  { id: 'monthly', label: 'Month', title: 'Monthly Leaderboard' },
+  { id: 'all_time', label: 'All Time', title: 'All-Time Leaderboard' },
+];
+
+export default function SocialLeaderboard({ currentUserId }: SocialLeaderboardProps) {
+  const [metric, setMetric] = useState<LeaderboardMetric>('workouts');
+  const [timeWindow, setTimeWindow] = useState<LeaderboardWindow>('weekly');
+  const [scope, setScope] = useState<LeaderboardScope>('global');
+  const { formatWeight } = useUnits();
+  const { entries, myEntry, totalCount, loading, error, refresh, loadMore, hasMore, loadingMore } =
+    useLeaderboard(currentUserId, { metric, window: timeWindow, scope });
+
+  // Pin the caller's row only when it is not already in the loaded pages
+  const showPinnedRow = Boolean(myEntry) && !entries.some((e) => e.user_id === currentUserId);
+
   const getRankIcon = (rank: number) => {
     switch (rank) {
       case 1:
@@ -46,56 +65,151 @@ export default function SocialLeaderboard({ leaderboard, currentUserId }: Social
     }
   };
 
+  const formatValue = (value: number) => {
+    switch (metric) {
+      case 'volume':
+        return formatWeight(value, { compact: true });
+      case 'minutes':
+        return `${Math.round(value).toLocaleString()} min`;
+      case 'streak':
+        return `${value}d`;
+      default:
+        return Math.round(value).toLocaleString();
+    }
+  };
+
+  const metricLabel = METRICS.find((m) => m.id === metric)?.label ?? 'Score';
+  const title = WINDOWS.find((w) => w.id === timeWindow)?.title ?? 'Leaderboard';
+
+  const renderEntry = (entry: LeaderboardEntry, pinned = false) => (
+    <TouchableOpacity
+      key={pinned ? `pinned-${entry.user_id}` : entry.user_id}
+      style={[
+        styles.leaderboardItem,
+        entry.user_id === currentUserId && styles.currentUserItem,
+        pinned && styles.pinnedItem,
+      ]}
+    >
+      <View style={styles.rankContainer}>
+        {getRankIcon(entry.rank)}
+        <Text style={[styles.rankText, { color: getRankColor(entry.rank) }]}>#{entry.rank}</Text>
+      </View>
+
+      <Image
+        source={{ uri: entry.avatar_url || undefined }}
+        style={styles.avatar}
+        contentFit="cover"
+        cachePolicy="memory-disk"
+      />
+
+      <View style={styles.userInfo}>
+        <Text style={styles.userName}>
+          {pinned ? 'You' : entry.full_name || entry.username || 'Athlete'}
+        </Text>
+        <Text style={styles.userHandle}>@{entry.username}</Text>
+      </View>
+
+      <View style={styles.statsContainer}>
+        <View style={styles.statItem}>
+          <Text style={styles.statValue}>{formatValue(entry.value)}</Text>
+          <Text style={styles.statLabel}>{metricLabel}</Text>
+        </View>
+        <View style={styles.statItem}>
+          <View style={styles.streakContainer}>
+            <Zap size={12} color="#FF6B35" />
+            <Text style={styles.streakText}>{entry.streak}</Text>
+          </View>
+          <Text style={styles.statLabel}>Streak</Text>
+        </View>
+      </View>
+    </TouchableOpacity>
+  );
+
+  const renderBody = () => {
+    if (loading) {
+      return <ActivityIndicator color="#FF6B35" style={styles.stateContainer} />;
+    }
+    if (error) {
+      return (
+        <TouchableOpacity style={styles.stateContainer} onPress={refresh}>
+          <Text style={styles.stateText}>Couldn&apos;t load the leaderboard. Tap to retry.</Text>
+        </TouchableOpacity>
+      );
+    }
+    if (entries.length === 0) {
+      return (
+        <View style={styles.stateContainer}>
+          <Text style={styles.stateText}>
+            {scope === 'friends'
+              ? 'No activity from you or your friends yet.'
+              : 'No activity yet. Finish a workout to claim the top spot.'}
+          </Text>
+        </View>
+      );
+    }
+    return (
+      <>
+        {entries.map((entry) => renderEntry(entry))}
+        {hasMore && (
+          <TouchableOpacity
+            style={styles.loadMoreButton}
+            onPress={() => loadMore()}
+            disabled={loadingMore}
+          >
+            {loadingMore ? (
+              <ActivityIndicator size="small" color="#FF6B35" />
+            ) : (
+              <Text style={styles.loadMoreText}>
+                Show more ({entries.length} of {totalCount})
+              </Text>
+            )}
+          </TouchableOpacity>
+        )}
+        {showPinnedRow && myEntry && renderEntry(myEntry, true)}
+      </>
+    );
+  };
+
   return (
     <View style={styles.container}>
       <View style={styles.header}>
-        <Text style={styles.title}>Weekly Leaderboard</Text>
-        <TouchableOpacity style={styles.viewAllButton}>
-          <Text style={styles.viewAllText}>View All</Text>
+        <Text style={styles.title}>{title}</Text>
+        <TouchableOpacity
+          style={styles.viewAllButton}
+          onPress={() => setScope(scope === 'global' ? 'friends' : 'global')}
+        >
+          <Text style={styles.viewAllText}>{scope === 'global' ? 'Global' : 'Friends'}</Text>
         </TouchableOpacity>
       </View>
 
-      <View style={styles.leaderboardCard}>
-        {leaderboard.map((user, index) => (
+      <View style={styles.chipRow}>
+        {WINDOWS.map((option) => (
           <TouchableOpacity
-            key={user.id}
-            style={[styles.leaderboardItem, user.id === currentUserId && styles.currentUserItem]}
+            key={option.id}
+            style={[styles.chip, timeWindow === option.id && styles.chipActive]}
+            onPress={() => setTimeWindow(option.id)}
           >
-            <View style={styles.rankContainer}>
-              {getRankIcon(user.rank)}
-              <Text style={[styles.rankText, { color: getRankColor(user.rank) }]}>
-                #{user.rank}
-              </Text>
-            </View>
-
-            <Image
-              source={{ uri: user.avatar || undefined }}
-              style={styles.avatar}
-              contentFit="cover"
-              cachePolicy="memory-disk"
-            />
-
-            <View style={styles.userInfo}>
-              <Text style={styles.userName}>{user.name}</Text>
-              <Text style={styles.userHandle}>@{user.username}</Text>
-            </View>
-
-            <View style={styles.statsContainer}>
-              <View style={styles.statItem}>
-                <Text style={styles.statValue}>{user.points.toLocaleString()}</Text>
-                <Text style={styles.statLabel}>Points</Text>
-              </View>
-              <View style={styles.statItem}>
-                <View style={styles.streakContainer}>
-                  <Zap size={12} color="#FF6B35" />
-                  <Text style={styles.streakText}>{user.streak}</Text>
-                </View>
-                <Text style={styles.statLabel}>Streak</Text>
-              </View>
-            </View>
+            <Text style={[styles.chipText, timeWindow === option.id && styles.chipTextActive]}>
+              {option.label}
+            </Text>
           </TouchableOpacity>
         ))}
       </View>
+      <View style={styles.chipRow}>
+        {METRICS.map((option) => (
+          <TouchableOpacity
+            key={option.id}
+            style={[styles.chip, metric === option.id && styles.chipActive]}
+            onPress={() => setMetric(option.id)}
+          >
+            <Text style={[styles.chipText, metric === option.id && styles.chipTextActive]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.leaderboardCard}>{renderBody()}</View>
     </View>
   );
 }
@@ -143,6 +257,57 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: '#333',
   },
+  pinnedItem: {
+    marginTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#333',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 10,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#333',
+    backgroundColor: '#1a1a1a',
+  },
+  chipActive: {
+    backgroundColor: '#FF6B35',
+    borderColor: '#FF6B35',
+  },
+  chipText: {
+    fontSize: 12,
+    color: '#ccc',
+    fontFamily: 'Inter-Medium',
+  },
+  chipTextActive: {
+    color: '#fff',
+    fontFamily: 'Inter-SemiBold',
+  },
+  stateContainer: {
+    paddingVertical: 24,
+    alignItems: 'center',
+  },
+  stateText: {
+    fontSize: 14,
+    color: '#999',
+    fontFamily: 'Inter-Regular',
+    textAlign: 'center',
+  },
+  loadMoreButton: {
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  loadMoreText: {
+    fontSize: 13,
+    color: '#FF6B35',
+    fontFamily: 'Inter-Medium',
+  },
   currentUserItem: {
     backgroundColor: '#FF6B3520',
     borderRadius: 8,
@@ -25,6 +25,8 @@ import {
   TrendingDown,
   Minus,
 } from 'lucide-react-native';
+import { useUnits } from '@/hooks/useUnits';
+import { kgToLb, lbToKg } from '@/lib/units';
 
 interface TDEECalculatorProps {
   visible: boolean;
@@ -54,6 +56,8 @@ interface FormData {
 }
 
 export default function TDEECalculator({ visible, onClose }: TDEECalculatorProps) {
+  const { system } = useUnits();
+  const prefersMetric = system === 'metric';
   const [formData, setFormData] = useState<FormData>({
     weight: '',
     height: '',
@@ -62,7 +66,7 @@ export default function TDEECalculator({ visible, onClose }: TDEECalculatorProps
     bodyFat: '',
     activityLevel: 1.4,
     goal: 'maintenance',
-    isMetric: true,
+    isMetric: prefersMetric,
     isTrainingDay: true,
   });
 
@@ -138,7 +142,7 @@ export default function TDEECalculator({ visible, onClose }: TDEECalculatorProps
 
     // Convert to metric if needed
     if (!formData.isMetric) {
-      weight = weight * 0.453592; // lbs to kg
+      weight = lbToKg(weight);
     }
 
     // Calculate Lean Body Mass
@@ -206,7 +210,8 @@ export default function TDEECalculator({ visible, onClose }: TDEECalculatorProps
       protein: Math.round(protein),
       carbs: Math.round(carbs),
       fat: Math.round(fat),
-      lbm: Math.round(lbm * 10) / 10,
+      // Report LBM back in the unit the weight was entered in
+      lbm: Math.round((formData.isMetric ? lbm : kgToLb(lbm)) * 10) / 10,
     };
   };
 
@@ -227,7 +232,7 @@ export default function TDEECalculator({ visible, onClose }: TDEECalculatorProps
       bodyFat: '',
       activityLevel: 1.4,
       goal: 'maintenance',
-      isMetric: true,
+      isMetric: prefersMetric,
       isTrainingDay: true,
     });
     setResults(null);
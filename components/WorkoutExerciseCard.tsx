@@ -3,6 +3,12 @@ import { View, Text, TextInput, TouchableOpacity, StyleSheet, Alert } from 'reac
 import { Image } from 'expo-image';
 import { Trash2, ChevronUp, ChevronDown, CreditCard as Edit3, Check, X } from 'lucide-react-native';
 import { Exercise } from '@/lib/supabase';
+import {
+  SET_TYPE_LABELS,
+  getNextSelectableSetType,
+  getPlannedSetTypes,
+  type SetType,
+} from '@/lib/setTypes';
 
 interface WorkoutExercise {
   exercise: Exercise;
@@ -13,6 +19,7 @@ interface WorkoutExercise {
   target_duration_seconds?: number;
   rest_seconds: number;
   notes?: string;
+  set_types?: SetType[];
 }
 
 interface WorkoutExerciseCardProps {
@@ -40,13 +47,16 @@ export default function WorkoutExerciseCard({
     target_duration_seconds: exercise.target_duration_seconds?.toString() || '',
     rest_seconds: exercise.rest_seconds.toString(),
     notes: exercise.notes || '',
+    set_types: getPlannedSetTypes(exercise.set_types, exercise.target_sets),
   });
 
   const handleSaveEdit = () => {
     try {
+      const targetSets = parseInt(editData.target_sets) || 1;
       const updates: Partial<WorkoutExercise> = {
-        target_sets: parseInt(editData.target_sets) || 1,
+        target_sets: targetSets,
         rest_seconds: parseInt(editData.rest_seconds) || 60,
+        set_types: getPlannedSetTypes(editData.set_types, targetSets),
       };
 
       // Parse reps
@@ -88,6 +98,7 @@ export default function WorkoutExerciseCard({
       target_duration_seconds: exercise.target_duration_seconds?.toString() || '',
       rest_seconds: exercise.rest_seconds.toString(),
       notes: exercise.notes || '',
+      set_types: getPlannedSetTypes(exercise.set_types, exercise.target_sets),
     });
     setIsEditing(false);
   };
@@ -103,6 +114,20 @@ export default function WorkoutExerciseCard({
     );
   };
 
+  const plannedSetTypes = getPlannedSetTypes(exercise.set_types, exercise.target_sets);
+  const specialSets = plannedSetTypes
+    .map((type, setIndex) =>
+      type === 'working' ? null : `${setIndex + 1}: ${SET_TYPE_LABELS[type]}`
+    )
+    .filter(Boolean);
+
+  // Tapping a set cycles through the set types
+  const cycleEditSetType = (setIndex: number) => {
+    const setTypes = getPlannedSetTypes(editData.set_types, parseInt(editData.target_sets) || 1);
+    setTypes[setIndex] = getNextSelectableSetType(setTypes[setIndex]);
+    setEditData({ ...editData, set_types: setTypes });
+  };
+
   const formatDuration = (seconds: number) => {
     const minutes = Math.floor(seconds / 60);
     const remainingSeconds = seconds % 60;
@@ -224,6 +249,30 @@ export default function WorkoutExerciseCard({
             </View>
           </View>
 
+          <View style={styles.editField}>
+            <Text style={styles.editLabel}>Set types (tap to change)</Text>
+            <View style={styles.setTypeRow}>
+              {getPlannedSetTypes(editData.set_types, parseInt(editData.target_sets) || 1).map(
+                (type, setIndex) => (
+                  <TouchableOpacity
+                    key={setIndex}
+                    style={[styles.setTypeChip, type !== 'working' && styles.setTypeChipActive]}
+                    onPress={() => cycleEditSetType(setIndex)}
+                  >
+                    <Text
+                      style={[
+                        styles.setTypeChipText,
+                        type !== 'working' && styles.setTypeChipTextActive,
+                      ]}
+                    >
+                      {setIndex + 1}. {SET_TYPE_LABELS[type]}
+                    </Text>
+                  </TouchableOpacity>
+                )
+              )}
+            </View>
+          </View>
+
           <View style={styles.editField}>
             <Text style={styles.editLabel}>Notes</Text>
             <TextInput
@@ -285,6 +334,10 @@ export default function WorkoutExerciseCard({
             </View>
           </View>
 
+          {specialSets.length > 0 && (
+            <Text style={styles.setTypesSummary}>Sets {specialSets.join(' • ')}</Text>
+          )}
+
           {exercise.notes && (
             <View style={styles.notesContainer}>
               <Text style={styles.notesLabel}>Notes:</Text>
@@ -386,6 +439,35 @@ const styles = StyleSheet.create({
     color: '#fff',
     fontFamily: 'Inter-SemiBold',
   },
+  setTypesSummary: {
+    fontSize: 12,
+    color: '#ccc',
+    fontFamily: 'Inter-Medium',
+  },
+  setTypeRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  setTypeChip: {
+    backgroundColor: '#333',
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderWidth: 1,
+    borderColor: '#444',
+  },
+  setTypeChipActive: {
+    borderColor: '#FF6B35',
+  },
+  setTypeChipText: {
+    fontSize: 12,
+    color: '#999',
+    fontFamily: 'Inter-Medium',
+  },
+  setTypeChipTextActive: {
+    color: '#FF6B35',
+  },
   notesContainer: {
     backgroundColor: '#333',
     borderRadius: 8,
@@ -1,7 +1,7 @@
 import React from 'react';
 import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
 import { Image } from 'expo-image';
-import { Clock, Target, Users, Star } from 'lucide-react-native';
+import { Clock, Target, Users, Star, Lock } from 'lucide-react-native';
 import { Workout } from '@/lib/supabase';
 
 interface WorkoutTemplatesSectionProps {
@@ -12,6 +12,7 @@ interface WorkoutTemplatesSectionProps {
   getWorkoutTypeColor: (type: string) => string;
   searchQuery?: string;
   selectedFilter?: string;
+  isLocked?: (workout: Workout) => boolean;
 }
 
 export default function WorkoutTemplatesSection({
@@ -22,6 +23,7 @@ export default function WorkoutTemplatesSection({
   getWorkoutTypeColor,
   searchQuery = '',
   selectedFilter = 'all',
+  isLocked = () => false,
 }: WorkoutTemplatesSectionProps) {
   const getWorkoutImage = (workoutType: string): string => {
     switch (workoutType) {
@@ -99,6 +101,14 @@ export default function WorkoutTemplatesSection({
             <View style={styles.workoutContent}>
               <View style={styles.workoutHeader}>
                 <Text style={styles.workoutName}>{workout.name}</Text>
+                {workout.premium_product_id ? (
+                  <View style={styles.premiumBadge}>
+                    <Lock size={12} color="#FF6B35" />
+                    <Text style={styles.premiumBadgeText}>
+                      {isLocked(workout) ? 'Premium' : 'Unlocked'}
+                    </Text>
+                  </View>
+                ) : null}
                 <View style={styles.ratingContainer}>
                   <Star size={14} color="#FFD700" fill="#FFD700" />
                   <Text style={styles.ratingText}>4.8</Text>
@@ -149,7 +159,9 @@ export default function WorkoutTemplatesSection({
                   style={styles.startButton}
                   onPress={() => onWorkoutPress(workout)}
                 >
-                  <Text style={styles.startButtonText}>Start</Text>
+                  <Text style={styles.startButtonText}>
+                    {isLocked(workout) ? 'Preview' : 'Start'}
+                  </Text>
                 </TouchableOpacity>
               </View>
             </View>
@@ -236,6 +248,21 @@ const styles = StyleSheet.create({
     flex: 1,
     marginRight: 12,
   },
+  premiumBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(255, 107, 53, 0.15)',
+    borderRadius: 6,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    marginRight: 8,
+  },
+  premiumBadgeText: {
+    fontSize: 11,
+    color: '#FF6B35',
+    fontFamily: 'Inter-SemiBold',
+    marginLeft: 4,
+  },
   ratingContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -13,6 +13,7 @@ import {
   type Entitlement,
 } from '@/lib/supabase';
 import { queryKeys } from '@/lib/queryKeys';
+import { isEntitlementActive } from '@/lib/entitlements';
 
 interface AuthContextType {
   user: User | null;
@@ -125,10 +126,57 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     return () => sub.remove();
   }, [user]);
 
+  // Pick up approvals and revocations while the app is open. Deletes can't be filtered by
+  // user_id (the old row only carries its id), so any delete triggers a reload.
+  useEffect(() => {
+    if (!user) return;
+
+    // Purchased workouts come and go with the grants behind them
+    const handleChange = () => {
+      loadEntitlements(user.id);
+      queryClient.invalidateQueries({ queryKey: queryKeys.workouts.root });
+    };
+
+    const subscription = supabase
+      .channel(`entitlements_${user.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'entitlements',
+          filter: `user_id=eq.${user.id}`,
+        },
+        handleChange
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'entitlements',
+          filter: `user_id=eq.${user.id}`,
+        },
+        handleChange
+      )
+      .on(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'entitlements' },
+        handleChange
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(subscription);
+    };
+  }, [user, queryClient]);
+
   const hasEntitlement = (featureKeyOrProductId: string) =>
     entitlements.some(
       (e) =>
-        e.product_id === featureKeyOrProductId || e.products?.feature_key === featureKeyOrProductId
+        (e.product_id === featureKeyOrProductId ||
+          e.products?.feature_key === featureKeyOrProductId) &&
+        isEntitlementActive(e)
     );
 
   const signIn = async (email: string, password: string) => {
@@ -0,0 +1,61 @@
+import { useMemo } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  ActiveWorkoutSession,
+  DEFAULT_STALE_SESSION_MS,
+  discardActiveSession,
+  finishActiveSession,
+  isActiveSessionStale,
+  loadActiveSession,
+} from '@/lib/activeSession';
+import { queryKeys } from '@/lib/queryKeys';
+
+type Options = {
+  staleAfterMs?: number;
+};
+
+export function useActiveSession(userId?: string | null, options: Options = {}) {
+  const queryClient = useQueryClient();
+  const staleAfterMs = options.staleAfterMs ?? DEFAULT_STALE_SESSION_MS;
+  const sessionKey = queryKeys.workouts.activeSession(userId);
+
+  const { data, isLoading, refetch } = useQuery<ActiveWorkoutSession | null>({
+    queryKey: sessionKey,
+    queryFn: () => (userId ? loadActiveSession(userId) : Promise.resolve(null)),
+    enabled: Boolean(userId),
+    // Local storage is the source of truth; always re-read it when a screen mounts.
+    staleTime: 0,
+    gcTime: 0,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: sessionKey });
+    queryClient.invalidateQueries({ queryKey: queryKeys.workouts.root });
+  };
+
+  const finishMutation = useMutation({
+    mutationFn: (session: ActiveWorkoutSession) => finishActiveSession(session),
+    onSuccess: invalidate,
+  });
+
+  const discardMutation = useMutation({
+    mutationFn: (session: ActiveWorkoutSession) => discardActiveSession(session),
+    onSuccess: invalidate,
+  });
+
+  const isStale = useMemo(
+    () => (data ? isActiveSessionStale(data, staleAfterMs) : false),
+    [data, staleAfterMs]
+  );
+
+  return {
+    activeSession: data ?? null,
+    isStale,
+    loading: isLoading,
+    refresh: refetch,
+    finishSession: finishMutation.mutateAsync,
+    discardSession: discardMutation.mutateAsync,
+    isFinishing: finishMutation.isPending,
+    isDiscarding: discardMutation.isPending,
+  };
+}
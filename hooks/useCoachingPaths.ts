@@ -7,6 +7,7 @@ import {
   createCoachingPath,
   getCoachingPaths,
   logCoachingEvent,
+  startCoachingPathFromProduct,
   updateCoachingPathStatus,
 } from '@/lib/supabase';
 import { queryKeys } from '@/lib/queryKeys';
@@ -44,6 +45,16 @@ export function useCoachingPaths(userId?: string | null) {
     },
   });
 
+  const startFromProductMutation = useMutation({
+    mutationFn: (productId: string) => startCoachingPathFromProduct(productId),
+    onSuccess: async ({ data: pathId }) => {
+      if (pathId) {
+        await logCoachingEvent(pathId, 'recalc', { reason: 'path_started_from_product' });
+      }
+      queryClient.invalidateQueries({ queryKey: pathsKey });
+    },
+  });
+
   const statusMutation = useMutation({
     mutationFn: ({ pathId, status }: UpdateStatusInput) => updateCoachingPathStatus(pathId, status),
     onSuccess: () => {
@@ -73,10 +84,11 @@ export function useCoachingPaths(userId?: string | null) {
     error,
     refresh,
     createPath: createMutation.mutateAsync,
+    startPathFromProduct: startFromProductMutation.mutateAsync,
     pausePath,
     resumePath,
     completePath,
-    isCreating: createMutation.isPending,
+    isCreating: createMutation.isPending || startFromProductMutation.isPending,
     isUpdatingStatus: statusMutation.isPending,
   };
 }
@@ -1,6 +1,10 @@
 import { useState, useEffect } from 'react';
 import { supabase, Exercise, PersonalRecord, getExerciseProgress } from '@/lib/supabase';
-import { getExercisePersonalRecords } from '@/lib/personalRecords';
+import {
+  OneRepMaxFormula,
+  estimateOneRepMax,
+  getExercisePersonalRecords,
+} from '@/lib/personalRecords';
 
 interface ExerciseProgressData {
   date: string;
@@ -15,6 +19,7 @@ interface ExerciseStats {
   maxWeight: number;
   maxReps: number;
   totalVolume: number;
+  bestEstimatedOneRepMax: number;
 }
 
 interface ExerciseProgressChartData {
@@ -22,15 +27,22 @@ interface ExerciseProgressChartData {
   repsProgress: ExerciseProgressData[];
   volumeProgress: ExerciseProgressData[];
   durationProgress: ExerciseProgressData[];
+  // Best estimated 1RM per session
+  oneRepMaxProgress: ExerciseProgressData[];
 }
 
-export function useExerciseProgress(userId: string | null, exerciseId: number | null) {
+export function useExerciseProgress(
+  userId: string | null,
+  exerciseId: number | null,
+  formula: OneRepMaxFormula = 'epley'
+) {
   const [exercise, setExercise] = useState<Exercise | null>(null);
   const [progressData, setProgressData] = useState<ExerciseProgressChartData>({
     weightProgress: [],
     repsProgress: [],
     volumeProgress: [],
     durationProgress: [],
+    oneRepMaxProgress: [],
   });
   const [personalRecords, setPersonalRecords] = useState<PersonalRecord[]>([]);
   const [stats, setStats] = useState<ExerciseStats>({
@@ -40,6 +52,7 @@ export function useExerciseProgress(userId: string | null, exerciseId: number |
     maxWeight: 0,
     maxReps: 0,
     totalVolume: 0,
+    bestEstimatedOneRepMax: 0,
   });
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -48,7 +61,7 @@ export function useExerciseProgress(userId: string | null, exerciseId: number |
     if (userId && exerciseId) {
       loadExerciseProgress();
     }
-  }, [userId, exerciseId]);
+  }, [userId, exerciseId, formula]);
 
   const loadExerciseProgress = async () => {
     if (!userId || !exerciseId) return;
@@ -102,12 +115,14 @@ export function useExerciseProgress(userId: string | null, exerciseId: number |
     const repsProgress: ExerciseProgressData[] = [];
     const volumeProgress: ExerciseProgressData[] = [];
     const durationProgress: ExerciseProgressData[] = [];
+    const oneRepMaxProgress: ExerciseProgressData[] = [];
 
     let totalSets = 0;
     let totalReps = 0;
     let maxWeight = 0;
     let maxReps = 0;
     let totalVolume = 0;
+    let bestEstimatedOneRepMax = 0;
 
     // Process each session
     sessionGroups.forEach((sets, sessionId) => {
@@ -122,6 +137,10 @@ export function useExerciseProgress(userId: string | null, exerciseId: number |
       const sessionTotalVolume = sets.reduce((sum, s) => {
         return sum + (s.weight_kg || 0) * (s.reps || 0);
       }, 0);
+      const sessionBestOneRepMax = Math.max(
+        0,
+        ...sets.map((s) => estimateOneRepMax(s.weight_kg || 0, s.reps || 0, formula) ?? 0)
+      );
       const sessionTotalDuration = sets.reduce((sum, s) => {
         return sum + (s.duration_seconds || 0);
       }, 0);
@@ -136,6 +155,13 @@ export function useExerciseProgress(userId: string | null, exerciseId: number |
       if (sessionTotalVolume > 0) {
         volumeProgress.push({ date, value: sessionTotalVolume, sessionId });
       }
+      if (sessionBestOneRepMax > 0) {
+        oneRepMaxProgress.push({
+          date,
+          value: Math.round(sessionBestOneRepMax * 10) / 10,
+          sessionId,
+        });
+      }
       if (sessionTotalDuration > 0) {
         durationProgress.push({ date, value: Math.round(sessionTotalDuration / 60), sessionId });
       }
@@ -146,6 +172,7 @@ export function useExerciseProgress(userId: string | null, exerciseId: number |
       maxWeight = Math.max(maxWeight, sessionMaxWeight);
       maxReps = Math.max(maxReps, sessionMaxReps);
       totalVolume += sessionTotalVolume;
+      bestEstimatedOneRepMax = Math.max(bestEstimatedOneRepMax, sessionBestOneRepMax);
     });
 
     // Sort progress data by date
@@ -156,12 +183,14 @@ export function useExerciseProgress(userId: string | null, exerciseId: number |
     repsProgress.sort(sortByDate);
     volumeProgress.sort(sortByDate);
     durationProgress.sort(sortByDate);
+    oneRepMaxProgress.sort(sortByDate);
 
     const chartData: ExerciseProgressChartData = {
       weightProgress,
       repsProgress,
       volumeProgress,
       durationProgress,
+      oneRepMaxProgress,
     };
 
     const stats: ExerciseStats = {
@@ -171,6 +200,7 @@ export function useExerciseProgress(userId: string | null, exerciseId: number |
       maxWeight,
       maxReps,
       totalVolume,
+      bestEstimatedOneRepMax: Math.round(bestEstimatedOneRepMax * 10) / 10,
     };
 
     return { chartData, stats };
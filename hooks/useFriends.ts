@@ -0,0 +1,166 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  Achievement,
+  FriendConnection,
+  Friendship,
+  FriendProfile,
+  blockUser,
+  getFriendships,
+  removeFriendship,
+  respondToFriendRequest,
+  searchUsers,
+  sendFriendRequest,
+} from '@/lib/supabase';
+import { checkAllAchievements } from '@/lib/achievements';
+import { queryKeys } from '@/lib/queryKeys';
+
+type RespondInput = {
+  friendshipId: number;
+  accept: boolean;
+};
+
+export function useFriends(userId?: string | null) {
+  const queryClient = useQueryClient();
+  const friendsKey = queryKeys.social.friends(userId);
+
+  const {
+    data,
+    isLoading,
+    isFetching,
+    error,
+    refetch: refresh,
+  } = useQuery<FriendConnection[]>({
+    queryKey: friendsKey,
+    queryFn: () => getFriendships(userId as string),
+    enabled: Boolean(userId),
+    staleTime: 60 * 1000,
+  });
+
+  // Friend lists and search results both depend on relationship state
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.social.root });
+  };
+
+  // Accepting (or auto-accepting) a request is the only way friend_count grows; the database
+  // unlocks friend achievements on accept, this picks up the resulting events
+  const unlockAchievements = async (friendship: Friendship | null): Promise<Achievement[]> => {
+    if (!userId || friendship?.status !== 'accepted') return [];
+    return checkAllAchievements(userId);
+  };
+
+  const sendMutation = useMutation({
+    mutationFn: async (addresseeId: string) => {
+      const { data: friendship, error: sendError } = await sendFriendRequest(addresseeId);
+      if (sendError) throw sendError;
+      // The RPC accepts immediately when the other user had already sent a request
+      const unlocked = await unlockAchievements(friendship);
+      return { friendship, unlocked };
+    },
+    onSuccess: invalidate,
+  });
+
+  const respondMutation = useMutation({
+    mutationFn: async ({ friendshipId, accept }: RespondInput) => {
+      const { data: friendship, error: respondError } = await respondToFriendRequest(
+        friendshipId,
+        accept
+      );
+      if (respondError) throw respondError;
+      const unlocked = await unlockAchievements(friendship);
+      return { friendship, unlocked };
+    },
+    onSuccess: invalidate,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (friendshipId: number) => {
+      const { error: removeError } = await removeFriendship(friendshipId);
+      if (removeError) throw removeError;
+    },
+    onSuccess: invalidate,
+  });
+
+  const blockMutation = useMutation({
+    mutationFn: async (targetId: string) => {
+      const { error: blockError } = await blockUser(targetId);
+      if (blockError) throw blockError;
+    },
+    onSuccess: () => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: queryKeys.social.feedRoot });
+    },
+  });
+
+  const groups = useMemo(() => {
+    const connections = data ?? [];
+    return {
+      friends: connections.filter((c) => c.friendship.status === 'accepted'),
+      incoming: connections.filter(
+        (c) => c.friendship.status === 'pending' && c.direction === 'incoming'
+      ),
+      outgoing: connections.filter(
+        (c) => c.friendship.status === 'pending' && c.direction === 'outgoing'
+      ),
+      // Only the blocker can see a blocked row, so these are always our own blocks
+      blocked: connections.filter((c) => c.friendship.status === 'blocked'),
+    };
+  }, [data]);
+
+  const friendIds = useMemo(
+    () => new Set(groups.friends.map((c) => c.profile?.id).filter(Boolean) as string[]),
+    [groups.friends]
+  );
+
+  // Lets search results show whether a request is already in flight
+  const connectionFor = (profileId: string) =>
+    (data ?? []).find(
+      (c) => c.friendship.requester_id === profileId || c.friendship.addressee_id === profileId
+    ) ?? null;
+
+  return {
+    connections: data ?? [],
+    ...groups,
+    friendIds,
+    connectionFor,
+    loading: isLoading || isFetching,
+    error,
+    refresh,
+    sendRequest: sendMutation.mutateAsync,
+    acceptRequest: (friendshipId: number) =>
+      respondMutation.mutateAsync({ friendshipId, accept: true }),
+    declineRequest: (friendshipId: number) =>
+      respondMutation.mutateAsync({ friendshipId, accept: false }),
+    cancelRequest: removeMutation.mutateAsync,
+    removeFriend: removeMutation.mutateAsync,
+    unblockUser: removeMutation.mutateAsync,
+    blockUser: blockMutation.mutateAsync,
+    isMutating:
+      sendMutation.isPending ||
+      respondMutation.isPending ||
+      removeMutation.isPending ||
+      blockMutation.isPending,
+  };
+}
+
+export function useUserSearch(query: string, delayMs = 300) {
+  const [debouncedQuery, setDebouncedQuery] = useState(query.trim());
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query.trim()), delayMs);
+    return () => clearTimeout(timeout);
+  }, [query, delayMs]);
+
+  const { data, isLoading, isFetching, error } = useQuery<FriendProfile[]>({
+    queryKey: queryKeys.social.userSearch(debouncedQuery),
+    queryFn: () => searchUsers(debouncedQuery),
+    enabled: debouncedQuery.length >= 2,
+    staleTime: 30 * 1000,
+  });
+
+  return {
+    results: data ?? [],
+    loading: debouncedQuery.length >= 2 && (isLoading || isFetching),
+    error,
+  };
+}
@@ -0,0 +1,49 @@
+import { useMemo } from 'react';
+import { useInfiniteQuery, useQuery } from '@tanstack/react-query';
+import {
+  LeaderboardEntry,
+  LeaderboardPage,
+  LeaderboardQuery,
+  getLeaderboard,
+  getLeaderboardRank,
+} from '@/lib/supabase';
+import { queryKeys } from '@/lib/queryKeys';
+
+const PAGE_SIZE = 10;
+
+export function useLeaderboard(userId: string | null | undefined, query: LeaderboardQuery) {
+  const { data, isLoading, error, refetch, fetchNextPage, hasNextPage, isFetchingNextPage } =
+    useInfiniteQuery<LeaderboardPage>({
+      queryKey: queryKeys.social.leaderboard(userId, query.metric, query.window, query.scope),
+      queryFn: ({ pageParam }) => getLeaderboard(query, pageParam as number, PAGE_SIZE),
+      initialPageParam: 0,
+      getNextPageParam: (lastPage) => lastPage.nextOffset ?? undefined,
+      enabled: Boolean(userId),
+      staleTime: 60 * 1000,
+    });
+
+  const { data: myEntry, refetch: refetchRank } = useQuery<LeaderboardEntry | null>({
+    queryKey: queryKeys.social.leaderboardRank(userId, query.metric, query.window, query.scope),
+    queryFn: () => getLeaderboardRank(query),
+    enabled: Boolean(userId),
+    staleTime: 60 * 1000,
+  });
+
+  const entries = useMemo(() => (data?.pages ?? []).flatMap((page) => page.entries), [data]);
+
+  const refresh = async () => {
+    await Promise.all([refetch(), refetchRank()]);
+  };
+
+  return {
+    entries,
+    myEntry: myEntry ?? null,
+    totalCount: data?.pages[0]?.totalCount ?? 0,
+    loading: isLoading,
+    error,
+    refresh,
+    loadMore: fetchNextPage,
+    hasMore: Boolean(hasNextPage),
+    loadingMore: isFetchingNextPage,
+  };
+}
@@ -0,0 +1,111 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { Alert, AppState } from 'react-native';
+import { onlineManager, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/components/ToastProvider';
+import { checkAllAchievements } from '@/lib/achievements';
+import { checkForPersonalRecords } from '@/lib/personalRecords';
+import { queryKeys } from '@/lib/queryKeys';
+import {
+  discardOutboxOperation,
+  flushOutbox,
+  type OutboxFailure,
+  type OutboxOperationType,
+} from '@/lib/workoutOutbox';
+
+const OPERATION_LABELS: Record<OutboxOperationType, string> = {
+  create_session: 'A workout',
+  create_session_exercise: 'An exercise',
+  log_set: 'A logged set',
+  complete_session: 'A finished workout',
+};
+
+// Replays queued workout writes whenever the app comes back online or to the foreground,
+// then runs PR and achievement checks for sessions that were completed offline.
+// A write the server keeps rejecting is offered to the user to retry or discard.
+export function useOutboxSync() {
+  const { user } = useAuth();
+  const { showToast } = useToast();
+  const queryClient = useQueryClient();
+  const userId = user?.id ?? null;
+  // The failure currently shown, so overlapping syncs do not stack alerts
+  const alertedFailureRef = useRef<string | null>(null);
+
+  const showFailure = useCallback(
+    (failed: OutboxFailure, retry: () => void) => {
+      if (!userId || alertedFailureRef.current === failed.operationId) return;
+      alertedFailureRef.current = failed.operationId;
+      const dismiss = () => {
+        alertedFailureRef.current = null;
+      };
+
+      Alert.alert(
+        'Workout Not Synced',
+        `${OPERATION_LABELS[failed.type]} could not be saved after ${failed.attempts} tries: ${failed.message}. What was logged after it waits until it syncs, and is removed with it if you discard it.`,
+        [
+          { text: 'Later', style: 'cancel', onPress: dismiss },
+          {
+            text: 'Discard',
+            style: 'destructive',
+            onPress: async () => {
+              dismiss();
+              await discardOutboxOperation(userId, failed.operationId);
+              retry();
+            },
+          },
+          {
+            text: 'Retry',
+            onPress: () => {
+              dismiss();
+              retry();
+            },
+          },
+        ]
+      );
+    },
+    [userId]
+  );
+
+  const sync = useCallback(async () => {
+    if (!userId || !onlineManager.isOnline()) return;
+
+    const { synced, completedSessions, failed } = await flushOutbox(userId);
+    if (failed) showFailure(failed, sync);
+    if (synced === 0) return;
+
+    queryClient.invalidateQueries({ queryKey: queryKeys.workouts.root });
+    queryClient.invalidateQueries({ queryKey: queryKeys.analytics.root });
+
+    for (const { sessionId } of completedSessions) {
+      try {
+        const records = await checkForPersonalRecords(userId, sessionId);
+        const achievements = await checkAllAchievements(userId);
+
+        if (records.length > 0 || achievements.length > 0) {
+          showToast(
+            `Offline workout synced: ${records.length} new record${records.length === 1 ? '' : 's'}, ${achievements.length} achievement${achievements.length === 1 ? '' : 's'} unlocked`,
+            'success'
+          );
+        }
+      } catch (error) {
+        console.error('Error checking records for synced session:', error);
+      }
+    }
+  }, [queryClient, showFailure, showToast, userId]);
+
+  useEffect(() => {
+    sync();
+
+    const unsubscribeOnline = onlineManager.subscribe((isOnline) => {
+      if (isOnline) sync();
+    });
+    const appStateSubscription = AppState.addEventListener('change', (status) => {
+      if (status === 'active') sync();
+    });
+
+    return () => {
+      unsubscribeOnline();
+      appStateSubscription.remove();
+    };
+  }, [sync]);
+}
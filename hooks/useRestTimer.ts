@@ -0,0 +1,121 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AppState } from 'react-native';
+import {
+  RestOverrides,
+  cancelRestEndNotification,
+  getRestSecondsLeft,
+  loadRestOverrides,
+  playRestEndCue,
+  resolveRestSeconds,
+  saveRestOverride,
+  scheduleRestEndNotification,
+} from '@/lib/restTimer';
+
+type StartOptions = {
+  exerciseId: number;
+  prescribedSeconds?: number | null;
+  exerciseName?: string;
+  // Fixed length that skips the per-exercise default, e.g. the rest set by a superset or circuit
+  seconds?: number;
+};
+
+export function useRestTimer() {
+  const [endsAt, setEndsAt] = useState<number | null>(null);
+  // Full length of the current rest including extensions, so it can be saved as the default
+  const [duration, setDuration] = useState(0);
+  const [now, setNow] = useState(() => Date.now());
+  const [overrides, setOverrides] = useState<RestOverrides>({});
+  const exerciseNameRef = useRef<string | undefined>(undefined);
+
+  useEffect(() => {
+    loadRestOverrides().then(setOverrides);
+  }, []);
+
+  const remaining = getRestSecondsLeft(endsAt, now);
+  const isResting = endsAt !== null && remaining > 0;
+
+  // The interval only triggers re-renders; the remaining time always comes from `endsAt`
+  useEffect(() => {
+    if (!endsAt) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    const subscription = AppState.addEventListener('change', (status) => {
+      if (status === 'active') setNow(Date.now());
+    });
+    return () => {
+      clearInterval(interval);
+      subscription.remove();
+    };
+  }, [endsAt]);
+
+  useEffect(() => {
+    if (endsAt && remaining === 0) {
+      setEndsAt(null);
+      playRestEndCue();
+    }
+  }, [endsAt, remaining]);
+
+  const getRestSeconds = useCallback(
+    (exerciseId: number, prescribedSeconds?: number | null) =>
+      resolveRestSeconds(exerciseId, prescribedSeconds, overrides),
+    [overrides]
+  );
+
+  const schedule = (nextEndsAt: number) => {
+    setEndsAt(nextEndsAt);
+    setNow(Date.now());
+    scheduleRestEndNotification(nextEndsAt, exerciseNameRef.current);
+  };
+
+  const start = ({ exerciseId, prescribedSeconds, exerciseName, seconds: fixed }: StartOptions) => {
+    const seconds = fixed ?? getRestSeconds(exerciseId, prescribedSeconds);
+    if (seconds <= 0) {
+      skip();
+      return;
+    }
+    exerciseNameRef.current = exerciseName;
+    setDuration(seconds);
+    schedule(Date.now() + seconds * 1000);
+  };
+
+  // Picks a rest back up from a stored end time, e.g. after the app was killed mid-rest
+  const restore = (storedEndsAt: number, exerciseName?: string) => {
+    if (getRestSecondsLeft(storedEndsAt) === 0) return;
+    exerciseNameRef.current = exerciseName;
+    setDuration(getRestSecondsLeft(storedEndsAt));
+    schedule(storedEndsAt);
+  };
+
+  const extend = (seconds: number) => {
+    if (!endsAt) return;
+    const nextEndsAt = Math.max(Date.now(), endsAt + seconds * 1000);
+    setDuration((prev) => Math.max(0, prev + seconds));
+    if (nextEndsAt <= Date.now()) {
+      skip();
+      return;
+    }
+    schedule(nextEndsAt);
+  };
+
+  const skip = () => {
+    setEndsAt(null);
+    cancelRestEndNotification();
+  };
+
+  const rememberForExercise = async (exerciseId: number, seconds: number | null) => {
+    setOverrides(await saveRestOverride(exerciseId, seconds));
+  };
+
+  return {
+    endsAt,
+    remaining,
+    duration,
+    isResting,
+    overrides,
+    getRestSeconds,
+    start,
+    restore,
+    extend,
+    skip,
+    rememberForExercise,
+  };
+}
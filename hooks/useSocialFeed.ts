@@ -221,12 +221,19 @@ export function useSocialFeed(userId?: string) {
   const handleCreateWorkoutPost = async (
     content: string,
     workoutSessionId?: number,
-    coachingPathId?: string | null
+    coachingPathId?: string | null,
+    mediaUrls?: string[]
   ) => {
     if (!userId) return null;
 
     try {
-      const post = await createWorkoutPost(userId, content, workoutSessionId, coachingPathId);
+      const post = await createWorkoutPost(
+        userId,
+        content,
+        workoutSessionId,
+        coachingPathId,
+        mediaUrls
+      );
       if (post) {
         // The realtime subscription will handle adding it to the feed
         return post;
@@ -241,12 +248,19 @@ export function useSocialFeed(userId?: string) {
   const handleCreateAchievementPost = async (
     content: string,
     achievementId: number,
-    coachingPathId?: string | null
+    coachingPathId?: string | null,
+    mediaUrls?: string[]
   ) => {
     if (!userId) return null;
 
     try {
-      const post = await createAchievementPost(userId, content, achievementId, coachingPathId);
+      const post = await createAchievementPost(
+        userId,
+        content,
+        achievementId,
+        coachingPathId,
+        mediaUrls
+      );
       if (post) {
         // The realtime subscription will handle adding it to the feed
         return post;
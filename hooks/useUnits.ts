@@ -0,0 +1,41 @@
+import { useMemo } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  PLATE_STEP,
+  formatDistance,
+  formatHeight,
+  formatWeight,
+  fromDisplayHeight,
+  fromDisplayWeight,
+  getHeightUnit,
+  getWeightUnit,
+  normalizeUnitSystem,
+  roundToPlate,
+  toDisplayHeight,
+  toDisplayWeight,
+} from '@/lib/units';
+
+// Binds the shared unit helpers to the signed-in user's `preferred_units`.
+export function useUnits() {
+  const { profile } = useAuth();
+  const system = normalizeUnitSystem(profile?.preferred_units);
+
+  return useMemo(
+    () => ({
+      system,
+      weightUnit: getWeightUnit(system),
+      heightUnit: getHeightUnit(system),
+      weightStep: PLATE_STEP[system],
+      toDisplayWeight: (kg: number) => toDisplayWeight(kg, system),
+      fromDisplayWeight: (value: number) => fromDisplayWeight(value, system),
+      toDisplayHeight: (cm: number) => toDisplayHeight(cm, system),
+      fromDisplayHeight: (value: number) => fromDisplayHeight(value, system),
+      roundToPlate: (value: number) => roundToPlate(value, system),
+      formatWeight: (kg: number, options?: { compact?: boolean }) =>
+        formatWeight(kg, system, options),
+      formatDistance: (meters: number) => formatDistance(meters, system),
+      formatHeight: (cm: number) => formatHeight(cm, system),
+    }),
+    [system]
+  );
+}
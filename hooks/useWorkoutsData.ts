@@ -1,10 +1,18 @@
 import { useQuery } from '@tanstack/react-query';
-import { Workout, getWorkoutTemplates, getUserWorkouts, logSupabaseError } from '@/lib/supabase';
+import {
+  Workout,
+  PurchasedWorkout,
+  getWorkoutTemplates,
+  getUserWorkouts,
+  getPurchasedWorkouts,
+  logSupabaseError,
+} from '@/lib/supabase';
 import { queryKeys } from '@/lib/queryKeys';
 
 type WorkoutsData = {
   templates: Workout[];
   userWorkouts: Workout[];
+  purchasedWorkouts: PurchasedWorkout[];
 };
 
 export const useWorkoutsData = (userId?: string | null) => {
@@ -12,11 +20,12 @@ export const useWorkoutsData = (userId?: string | null) => {
     queryKey: queryKeys.workouts.user(userId ?? null),
     queryFn: async () => {
       try {
-        const [templates, userWorkouts] = await Promise.all([
+        const [templates, userWorkouts, purchasedWorkouts] = await Promise.all([
           getWorkoutTemplates(),
           userId ? getUserWorkouts(userId) : Promise.resolve([]),
+          userId ? getPurchasedWorkouts(userId) : Promise.resolve([]),
         ]);
-        return { templates, userWorkouts };
+        return { templates, userWorkouts, purchasedWorkouts };
       } catch (err) {
         logSupabaseError(err, 'fetch_workouts');
         throw err;
@@ -28,6 +37,7 @@ export const useWorkoutsData = (userId?: string | null) => {
   return {
     templates: query.data?.templates ?? [],
     userWorkouts: query.data?.userWorkouts ?? [],
+    purchasedWorkouts: query.data?.purchasedWorkouts ?? [],
     loading: query.isLoading,
     refetch: query.refetch,
     error: query.error,
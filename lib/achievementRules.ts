@@ -0,0 +1,308 @@
+import { z } from 'zod';
+import { KG_PER_LB } from './units';
+import { countsTowardVolume } from './setTypes';
+
+// Achievement criteria are stored as JSON in `achievements.criteria`. Every row is parsed with
+// these schemas, so new achievements only need a row insert as long as they use the metrics below.
+
+export const achievementMetrics = [
+  'workout_count',
+  'total_minutes',
+  'total_weight',
+  'total_reps',
+  'total_sets',
+  'distinct_exercises',
+  'streak',
+  'longest_streak',
+  'personal_records',
+  'friend_count',
+] as const;
+
+// Seeded rows predate filters and windows; each alias expands to a metric rule.
+const legacyMetrics = [
+  'weekly_workouts',
+  'monthly_workouts',
+  'cardio_workouts',
+  'advanced_exercises',
+] as const;
+
+export type AchievementMetric = (typeof achievementMetrics)[number];
+
+const windowSchema = z.union([
+  z.enum(['week', 'month', 'all_time']),
+  z.object({ days: z.number().int().positive() }),
+]);
+
+const filterSchema = z
+  .object({
+    exercise_ids: z.array(z.number().int()).nonempty(),
+    exercise_names: z.array(z.string()).nonempty(),
+    muscle_groups: z.array(z.string()).nonempty(),
+    exercise_types: z.array(z.string()).nonempty(),
+    difficulty_levels: z.array(z.string()).nonempty(),
+    workout_types: z.array(z.string()).nonempty(),
+  })
+  .partial()
+  .strict();
+
+const metricRuleSchema = z
+  .object({
+    type: z.enum([...achievementMetrics, ...legacyMetrics]),
+    target: z.number().positive(),
+    window: windowSchema.optional(),
+    filter: filterSchema.optional(),
+    // Weight targets are entered in the unit the description uses; stats are always kg
+    unit: z.enum(['kg', 'lb']).optional(),
+  })
+  .strict();
+
+export type AchievementWindow = z.infer<typeof windowSchema>;
+export type AchievementFilter = z.infer<typeof filterSchema>;
+export type MetricRule = z.infer<typeof metricRuleSchema>;
+export type CompoundRule = {
+  type: 'all' | 'any';
+  rules: AchievementRule[];
+};
+export type AchievementRule = MetricRule | CompoundRule;
+
+export const achievementRuleSchema: z.ZodType<AchievementRule> = z.lazy(() =>
+  z.union([
+    metricRuleSchema,
+    z
+      .object({
+        type: z.enum(['all', 'any']),
+        rules: z.array(achievementRuleSchema).nonempty(),
+      })
+      .strict(),
+  ])
+);
+
+export const parseAchievementRule = (criteria: unknown): AchievementRule | null => {
+  const result = achievementRuleSchema.safeParse(criteria);
+  if (!result.success) {
+    console.warn('Invalid achievement criteria:', result.error.issues);
+    return null;
+  }
+  return result.data;
+};
+
+// Stats the evaluator works from, loaded once per check
+export interface StatsSession {
+  id: number;
+  completed_at: string;
+  duration_minutes: number | null;
+  workout_type: string | null;
+}
+
+export interface StatsExercise {
+  id: number;
+  name: string;
+  muscle_groups: string[];
+  exercise_type: string | null;
+  difficulty_level: string | null;
+}
+
+export interface StatsSet {
+  session_id: number;
+  reps: number | null;
+  weight_kg: number | null;
+  set_type?: string | null;
+  exercise: StatsExercise | null;
+}
+
+export interface AchievementStats {
+  sessions: StatsSession[];
+  sets: StatsSet[];
+  personalRecords: { achieved_at: string | null; exercise_id: number | null }[];
+  currentStreak: number;
+  longestStreak: number;
+  friendCount: number;
+}
+
+export type StatsSource = 'sessions' | 'sets' | 'personal_records' | 'streak' | 'friends';
+
+export interface RuleEvaluation {
+  met: boolean;
+  current: number;
+  target: number;
+  // 0..1, used for progress bars
+  progress: number;
+}
+
+const expandLegacyRule = (rule: MetricRule): MetricRule => {
+  switch (rule.type) {
+    case 'weekly_workouts':
+      return { ...rule, type: 'workout_count', window: rule.window ?? { days: 7 } };
+    case 'monthly_workouts':
+      return { ...rule, type: 'workout_count', window: rule.window ?? { days: 30 } };
+    case 'cardio_workouts':
+      return {
+        ...rule,
+        type: 'workout_count',
+        filter: { workout_types: ['cardio'], ...rule.filter },
+      };
+    case 'advanced_exercises':
+      return {
+        ...rule,
+        type: 'distinct_exercises',
+        filter: { difficulty_levels: ['advanced'], ...rule.filter },
+      };
+    default:
+      return rule;
+  }
+};
+
+const isCompound = (rule: AchievementRule): rule is CompoundRule =>
+  rule.type === 'all' || rule.type === 'any';
+
+const metricSource = (metric: MetricRule['type'], filter?: AchievementFilter): StatsSource => {
+  switch (metric) {
+    case 'total_weight':
+    case 'total_reps':
+    case 'total_sets':
+    case 'distinct_exercises':
+      return 'sets';
+    case 'workout_count':
+    case 'total_minutes':
+      // Exercise-level filters need the sets to know what was trained in each session
+      return filter && hasExerciseFilter(filter) ? 'sets' : 'sessions';
+    case 'streak':
+    case 'longest_streak':
+      return 'streak';
+    case 'personal_records':
+      return 'personal_records';
+    case 'friend_count':
+      return 'friends';
+    default:
+      return 'sessions';
+  }
+};
+
+const hasExerciseFilter = (filter: AchievementFilter) =>
+  Boolean(
+    filter.exercise_ids ||
+    filter.exercise_names ||
+    filter.muscle_groups ||
+    filter.exercise_types ||
+    filter.difficulty_levels
+  );
+
+// Which stats a rule needs, so callers can skip loading the rest
+export const getRuleSources = (rule: AchievementRule): Set<StatsSource> => {
+  if (isCompound(rule)) {
+    return new Set(rule.rules.flatMap((child) => Array.from(getRuleSources(child))));
+  }
+  const expanded = expandLegacyRule(rule);
+  const sources = new Set<StatsSource>([metricSource(expanded.type, expanded.filter)]);
+  // Session filters (window, workout type) apply to sets through their session
+  if (sources.has('sets')) sources.add('sessions');
+  return sources;
+};
+
+const windowStart = (window: AchievementWindow | undefined, now: Date): Date | null => {
+  if (!window || window === 'all_time') return null;
+  const days = window === 'week' ? 7 : window === 'month' ? 30 : window.days;
+  return new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+};
+
+const matchesAny = (values: string[] | undefined, candidates: (string | null | undefined)[]) => {
+  if (!values) return true;
+  const wanted = values.map((v) => v.toLowerCase());
+  return candidates.some((c) => c && wanted.includes(c.toLowerCase()));
+};
+
+const matchesExercise = (exercise: StatsExercise | null, filter?: AchievementFilter) => {
+  if (!filter || !hasExerciseFilter(filter)) return true;
+  if (!exercise) return false;
+  if (filter.exercise_ids && !filter.exercise_ids.includes(exercise.id)) return false;
+  return (
+    matchesAny(filter.exercise_names, [exercise.name]) &&
+    matchesAny(filter.muscle_groups, exercise.muscle_groups) &&
+    matchesAny(filter.exercise_types, [exercise.exercise_type]) &&
+    matchesAny(filter.difficulty_levels, [exercise.difficulty_level])
+  );
+};
+
+const computeMetric = (rule: MetricRule, stats: AchievementStats, now: Date): number => {
+  const since = windowStart(rule.window, now);
+  const sessions = stats.sessions.filter(
+    (session) =>
+      (!since || new Date(session.completed_at) >= since) &&
+      matchesAny(rule.filter?.workout_types, [session.workout_type])
+  );
+  const sessionIds = new Set(sessions.map((session) => session.id));
+  const sets = stats.sets.filter(
+    (set) => sessionIds.has(set.session_id) && matchesExercise(set.exercise, rule.filter)
+  );
+
+  switch (rule.type) {
+    case 'workout_count':
+      return rule.filter && hasExerciseFilter(rule.filter)
+        ? new Set(sets.map((set) => set.session_id)).size
+        : sessions.length;
+    case 'total_minutes':
+      return sessions.reduce((sum, session) => sum + (session.duration_minutes ?? 0), 0);
+    case 'total_weight': {
+      const kg = sets
+        .filter(countsTowardVolume)
+        .reduce((sum, set) => sum + (set.weight_kg ?? 0) * (set.reps ?? 0), 0);
+      return rule.unit === 'lb' ? kg / KG_PER_LB : kg;
+    }
+    case 'total_reps':
+      return sets.reduce((sum, set) => sum + (set.reps ?? 0), 0);
+    case 'total_sets':
+      return sets.length;
+    case 'distinct_exercises':
+      return new Set(sets.map((set) => set.exercise?.id).filter((id) => id != null)).size;
+    case 'streak':
+      return stats.currentStreak;
+    case 'longest_streak':
+      return Math.max(stats.longestStreak, stats.currentStreak);
+    case 'personal_records': {
+      const exerciseIds = rule.filter?.exercise_ids;
+      return stats.personalRecords.filter(
+        (record) =>
+          (!since || (record.achieved_at && new Date(record.achieved_at) >= since)) &&
+          (!exerciseIds || (record.exercise_id != null && exerciseIds.includes(record.exercise_id)))
+      ).length;
+    }
+    case 'friend_count':
+      return stats.friendCount;
+    default:
+      return 0;
+  }
+};
+
+export const evaluateAchievementRule = (
+  rule: AchievementRule,
+  stats: AchievementStats,
+  now = new Date()
+): RuleEvaluation => {
+  if (isCompound(rule)) {
+    const children = rule.rules.map((child) => evaluateAchievementRule(child, stats, now));
+    const metCount = children.filter((child) => child.met).length;
+    if (rule.type === 'all') {
+      return {
+        met: metCount === children.length,
+        current: metCount,
+        target: children.length,
+        progress: children.reduce((sum, child) => sum + child.progress, 0) / children.length,
+      };
+    }
+    return {
+      met: metCount > 0,
+      current: metCount,
+      target: 1,
+      progress: Math.max(...children.map((child) => child.progress)),
+    };
+  }
+
+  const expanded = expandLegacyRule(rule);
+  const current = computeMetric(expanded, stats, now);
+  return {
+    met: current >= expanded.target,
+    current: Math.round(current * 100) / 100,
+    target: expanded.target,
+    progress: Math.min(current / expanded.target, 1),
+  };
+};
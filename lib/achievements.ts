@@ -1,4 +1,19 @@
-import { supabase, Achievement, WorkoutSession, PersonalRecord } from './supabase';
+import {
+  supabase,
+  Achievement,
+  evaluateMyAchievements,
+  getFriendCount,
+  getUnreadUserEvents,
+  markUserEventsRead,
+} from './supabase';
+import {
+  AchievementRule,
+  AchievementStats,
+  StatsSource,
+  evaluateAchievementRule,
+  getRuleSources,
+  parseAchievementRule,
+} from './achievementRules';
 
 export interface UserAchievement {
   id: number;
@@ -18,385 +33,165 @@ export interface AchievementProgress {
   achievement?: Achievement;
 }
 
-// Achievement checking functions
-const checkWorkoutCountAchievements = async (
-  userId: string,
-  totalWorkouts: number
-): Promise<Achievement[]> => {
-  const unlockedAchievements: Achievement[] = [];
-
-  try {
-    // Get user's already unlocked achievement IDs
-    const { data: userAchievements, error: userAchievementsError } = await supabase
-      .from('user_achievements')
-      .select('achievement_id')
-      .eq('user_id', userId);
-
-    if (userAchievementsError) throw userAchievementsError;
-
-    const unlockedIds = userAchievements?.map((ua) => ua.achievement_id) || [];
-
-    // Get workout count achievements that user hasn't unlocked yet
-    let query = supabase
-      .from('achievements')
-      .select('*')
-      .eq('category', 'workout')
-      .eq('is_active', true);
-
-    if (unlockedIds.length > 0) {
-      query = query.not('id', 'in', `(${unlockedIds.join(',')})`);
-    }
-
-    const { data: achievements, error } = await query;
-
-    if (error) throw error;
-
-    for (const achievement of achievements || []) {
-      const criteria = achievement.criteria as any;
-      if (criteria.type === 'workout_count' && totalWorkouts >= criteria.target) {
-        await unlockAchievement(userId, achievement.id);
-        unlockedAchievements.push(achievement);
-      }
-    }
-  } catch (error) {
-    console.error('Error checking workout count achievements:', error);
-  }
-
-  return unlockedAchievements;
-};
+// What the database puts in an achievement_unlocked event
+type AchievementUnlockedPayload = { achievement_id: number };
 
-const checkStreakAchievements = async (
+// Loads only the stats the given sources need; everything else stays empty.
+// Used for progress display only; unlocks are decided server-side.
+const loadAchievementStats = async (
   userId: string,
-  currentStreak: number
-): Promise<Achievement[]> => {
-  const unlockedAchievements: Achievement[] = [];
-
-  try {
-    // Get user's already unlocked achievement IDs
-    const { data: userAchievements, error: userAchievementsError } = await supabase
-      .from('user_achievements')
-      .select('achievement_id')
-      .eq('user_id', userId);
-
-    if (userAchievementsError) throw userAchievementsError;
-
-    const unlockedIds = userAchievements?.map((ua) => ua.achievement_id) || [];
-
-    let query = supabase
-      .from('achievements')
-      .select('*')
-      .eq('category', 'consistency')
-      .eq('is_active', true);
-
-    if (unlockedIds.length > 0) {
-      query = query.not('id', 'in', `(${unlockedIds.join(',')})`);
-    }
-
-    const { data: achievements, error } = await query;
-
-    if (error) throw error;
-
-    for (const achievement of achievements || []) {
-      const criteria = achievement.criteria as any;
-      if (criteria.type === 'streak' && currentStreak >= criteria.target) {
-        await unlockAchievement(userId, achievement.id);
-        unlockedAchievements.push(achievement);
-      }
-    }
-  } catch (error) {
-    console.error('Error checking streak achievements:', error);
+  sources: Set<StatsSource>
+): Promise<AchievementStats> => {
+  const stats: AchievementStats = {
+    sessions: [],
+    sets: [],
+    personalRecords: [],
+    currentStreak: 0,
+    longestStreak: 0,
+    friendCount: 0,
+  };
+
+  const loaders: Promise<void>[] = [];
+
+  if (sources.has('sessions')) {
+    loaders.push(
+      (async () => {
+        const { data, error } = await supabase
+          .from('workout_sessions')
+          .select('id, completed_at, duration_minutes, workout:workouts(workout_type)')
+          .eq('user_id', userId)
+          .not('completed_at', 'is', null);
+
+        if (error) throw error;
+
+        // completed_at is filtered to non-null above
+        stats.sessions = (data || []).flatMap((session) =>
+          session.completed_at
+            ? [
+                {
+                  id: session.id,
+                  completed_at: session.completed_at,
+                  duration_minutes: session.duration_minutes,
+                  workout_type: session.workout?.workout_type ?? null,
+                },
+              ]
+            : []
+        );
+      })()
+    );
   }
 
-  return unlockedAchievements;
-};
-
-const checkWeeklyWorkoutAchievements = async (userId: string): Promise<Achievement[]> => {
-  const unlockedAchievements: Achievement[] = [];
-
-  try {
-    // Get workouts from the last 7 days
-    const weekAgo = new Date();
-    weekAgo.setDate(weekAgo.getDate() - 7);
-
-    const { data: weeklyWorkouts, error: workoutsError } = await supabase
-      .from('workout_sessions')
-      .select('*')
-      .eq('user_id', userId)
-      .not('completed_at', 'is', null)
-      .gte('started_at', weekAgo.toISOString());
-
-    if (workoutsError) throw workoutsError;
-
-    const weeklyWorkoutCount = weeklyWorkouts?.length || 0;
-
-    // Get user's already unlocked achievement IDs
-    const { data: userAchievements, error: userAchievementsError } = await supabase
-      .from('user_achievements')
-      .select('achievement_id')
-      .eq('user_id', userId);
-
-    if (userAchievementsError) throw userAchievementsError;
-
-    const unlockedIds = userAchievements?.map((ua) => ua.achievement_id) || [];
-
-    let query = supabase
-      .from('achievements')
-      .select('*')
-      .eq('category', 'consistency')
-      .eq('is_active', true);
-
-    if (unlockedIds.length > 0) {
-      query = query.not('id', 'in', `(${unlockedIds.join(',')})`);
-    }
-
-    const { data: achievements, error } = await query;
-
-    if (error) throw error;
-
-    for (const achievement of achievements || []) {
-      const criteria = achievement.criteria as any;
-      if (criteria.type === 'weekly_workouts' && weeklyWorkoutCount >= criteria.target) {
-        await unlockAchievement(userId, achievement.id);
-        unlockedAchievements.push(achievement);
-      }
-    }
-  } catch (error) {
-    console.error('Error checking weekly workout achievements:', error);
+  if (sources.has('sets')) {
+    loaders.push(
+      (async () => {
+        const { data, error } = await supabase
+          .from('exercise_sets')
+          .select(
+            `
+            reps,
+            weight_kg,
+            set_type,
+            session_exercise:session_exercises!inner(
+              session_id,
+              exercise:exercises(id, name, muscle_groups, exercise_type, difficulty_level),
+              session:workout_sessions!inner(user_id)
+            )
+          `
+          )
+          .eq('session_exercise.session.user_id', userId)
+          .eq('completed', true);
+
+        if (error) throw error;
+
+        stats.sets = (data || []).flatMap(({ session_exercise, ...set }) =>
+          session_exercise.session_id === null
+            ? []
+            : [
+                {
+                  session_id: session_exercise.session_id,
+                  reps: set.reps,
+                  weight_kg: set.weight_kg,
+                  set_type: set.set_type,
+                  exercise: session_exercise.exercise ?? null,
+                },
+              ]
+        );
+      })()
+    );
   }
 
-  return unlockedAchievements;
-};
-
-const checkPersonalRecordAchievements = async (userId: string): Promise<Achievement[]> => {
-  const unlockedAchievements: Achievement[] = [];
-
-  try {
-    // Get total personal records count
-    const { data: personalRecords, error: prError } = await supabase
-      .from('personal_records')
-      .select('*')
-      .eq('user_id', userId);
-
-    if (prError) throw prError;
-
-    const totalPRs = personalRecords?.length || 0;
-
-    // Get user's already unlocked achievement IDs
-    const { data: userAchievements, error: userAchievementsError } = await supabase
-      .from('user_achievements')
-      .select('achievement_id')
-      .eq('user_id', userId);
-
-    if (userAchievementsError) throw userAchievementsError;
-
-    const unlockedIds = userAchievements?.map((ua) => ua.achievement_id) || [];
-
-    let query = supabase
-      .from('achievements')
-      .select('*')
-      .eq('category', 'strength')
-      .eq('is_active', true);
-
-    if (unlockedIds.length > 0) {
-      query = query.not('id', 'in', `(${unlockedIds.join(',')})`);
-    }
-
-    const { data: achievements, error } = await query;
-
-    if (error) throw error;
-
-    for (const achievement of achievements || []) {
-      const criteria = achievement.criteria as any;
-      if (criteria.type === 'personal_records' && totalPRs >= criteria.target) {
-        await unlockAchievement(userId, achievement.id);
-        unlockedAchievements.push(achievement);
-      }
-    }
-  } catch (error) {
-    console.error('Error checking personal record achievements:', error);
+  if (sources.has('personal_records')) {
+    loaders.push(
+      (async () => {
+        const { data, error } = await supabase
+          .from('personal_records')
+          .select('achieved_at, exercise_id')
+          .eq('user_id', userId);
+
+        if (error) throw error;
+        stats.personalRecords = data || [];
+      })()
+    );
   }
 
-  return unlockedAchievements;
-};
-
-const checkCardioAchievements = async (userId: string): Promise<Achievement[]> => {
-  const unlockedAchievements: Achievement[] = [];
-
-  try {
-    // Get cardio workouts count
-    const { data: cardioWorkouts, error: workoutsError } = await supabase
-      .from('workout_sessions')
-      .select(
-        `
-        id,
-        user_id,
-        completed_at,
-        workout:workouts(workout_type)
-      `
-      )
-      .eq('user_id', userId)
-      .not('completed_at', 'is', null)
-      .eq('workout.workout_type', 'cardio');
-
-    if (workoutsError) throw workoutsError;
-
-    const cardioCount = cardioWorkouts?.length || 0;
-
-    // Get user's already unlocked achievement IDs
-    const { data: userAchievements, error: userAchievementsError } = await supabase
-      .from('user_achievements')
-      .select('achievement_id')
-      .eq('user_id', userId);
-
-    if (userAchievementsError) throw userAchievementsError;
-
-    const unlockedIds = userAchievements?.map((ua) => ua.achievement_id) || [];
-
-    let query = supabase
-      .from('achievements')
-      .select('*')
-      .eq('category', 'workout')
-      .eq('is_active', true);
-
-    if (unlockedIds.length > 0) {
-      query = query.not('id', 'in', `(${unlockedIds.join(',')})`);
-    }
-
-    const { data: achievements, error } = await query;
-
-    if (error) throw error;
+  if (sources.has('streak')) {
+    loaders.push(
+      (async () => {
+        const { data } = await supabase
+          .from('workout_streaks')
+          .select('current_streak, longest_streak')
+          .eq('user_id', userId)
+          .maybeSingle();
+
+        stats.currentStreak = data?.current_streak || 0;
+        stats.longestStreak = data?.longest_streak || 0;
+      })()
+    );
+  }
 
-    for (const achievement of achievements || []) {
-      const criteria = achievement.criteria as any;
-      if (criteria.type === 'cardio_workouts' && cardioCount >= criteria.target) {
-        await unlockAchievement(userId, achievement.id);
-        unlockedAchievements.push(achievement);
-      }
-    }
-  } catch (error) {
-    console.error('Error checking cardio achievements:', error);
+  if (sources.has('friends')) {
+    loaders.push(
+      (async () => {
+        stats.friendCount = await getFriendCount(userId);
+      })()
+    );
   }
 
-  return unlockedAchievements;
+  await Promise.all(loaders);
+  return stats;
 };
 
-const checkMonthlyWorkoutAchievements = async (userId: string): Promise<Achievement[]> => {
-  const unlockedAchievements: Achievement[] = [];
-
-  try {
-    // Get workouts from the last 30 days
-    const monthAgo = new Date();
-    monthAgo.setDate(monthAgo.getDate() - 30);
-
-    const { data: monthlyWorkouts, error: workoutsError } = await supabase
-      .from('workout_sessions')
-      .select('*')
-      .eq('user_id', userId)
-      .not('completed_at', 'is', null)
-      .gte('started_at', monthAgo.toISOString());
-
-    if (workoutsError) throw workoutsError;
-
-    const monthlyWorkoutCount = monthlyWorkouts?.length || 0;
-
-    // Get user's already unlocked achievement IDs
-    const { data: userAchievements, error: userAchievementsError } = await supabase
-      .from('user_achievements')
-      .select('achievement_id')
-      .eq('user_id', userId);
-
-    if (userAchievementsError) throw userAchievementsError;
-
-    const unlockedIds = userAchievements?.map((ua) => ua.achievement_id) || [];
-
-    let query = supabase
-      .from('achievements')
-      .select('*')
-      .eq('category', 'consistency')
-      .eq('is_active', true);
-
-    if (unlockedIds.length > 0) {
-      query = query.not('id', 'in', `(${unlockedIds.join(',')})`);
-    }
-
-    const { data: achievements, error } = await query;
-
-    if (error) throw error;
-
-    for (const achievement of achievements || []) {
-      const criteria = achievement.criteria as any;
-      if (criteria.type === 'monthly_workouts' && monthlyWorkoutCount >= criteria.target) {
-        await unlockAchievement(userId, achievement.id);
-        unlockedAchievements.push(achievement);
-      }
-    }
-  } catch (error) {
-    console.error('Error checking monthly workout achievements:', error);
-  }
-
-  return unlockedAchievements;
+const collectSources = (rules: AchievementRule[]) => {
+  const sources = new Set<StatsSource>();
+  rules.forEach((rule) => getRuleSources(rule).forEach((source) => sources.add(source)));
+  return sources;
 };
 
-// Main achievement checking function
+// Unlocks are granted by the database (session completion and friendship triggers, plus a
+// catch-up RPC). This runs the catch-up, then returns and acknowledges any unseen unlocks.
 export const checkAllAchievements = async (userId: string): Promise<Achievement[]> => {
-  const allUnlockedAchievements: Achievement[] = [];
-
   try {
-    // Get user's workout statistics
-    const { data: workoutSessions, error: sessionsError } = await supabase
-      .from('workout_sessions')
-      .select('*')
-      .eq('user_id', userId)
-      .not('completed_at', 'is', null);
+    const { error } = await evaluateMyAchievements();
+    if (error) throw error;
 
-    if (sessionsError) throw sessionsError;
+    const events = await getUnreadUserEvents(userId, 'achievement_unlocked');
+    if (events.length === 0) return [];
 
-    const totalWorkouts = workoutSessions?.length || 0;
+    await markUserEventsRead(events.map((event) => event.id));
 
-    // Get user's current streak
-    const { data: streakData, error: streakError } = await supabase
-      .from('workout_streaks')
-      .select('current_streak')
-      .eq('user_id', userId)
-      .single();
-
-    const currentStreak = streakData?.current_streak || 0;
-
-    // Check all achievement types
-    const workoutCountAchievements = await checkWorkoutCountAchievements(userId, totalWorkouts);
-    const streakAchievements = await checkStreakAchievements(userId, currentStreak);
-    const weeklyAchievements = await checkWeeklyWorkoutAchievements(userId);
-    const prAchievements = await checkPersonalRecordAchievements(userId);
-    const cardioAchievements = await checkCardioAchievements(userId);
-    const monthlyAchievements = await checkMonthlyWorkoutAchievements(userId);
-
-    allUnlockedAchievements.push(
-      ...workoutCountAchievements,
-      ...streakAchievements,
-      ...weeklyAchievements,
-      ...prAchievements,
-      ...cardioAchievements,
-      ...monthlyAchievements
+    const achievementIds = events.map(
+      (event) => (event.payload as AchievementUnlockedPayload).achievement_id
     );
-  } catch (error) {
-    console.error('Error checking all achievements:', error);
-  }
-
-  return allUnlockedAchievements;
-};
-
-// Unlock achievement function
-const unlockAchievement = async (userId: string, achievementId: number): Promise<void> => {
-  try {
-    const { error } = await supabase.from('user_achievements').insert({
-      user_id: userId,
-      achievement_id: achievementId,
-      unlocked_at: new Date().toISOString(),
-    });
+    const { data: achievements, error: achievementsError } = await supabase
+      .from('achievements')
+      .select('*')
+      .in('id', achievementIds);
 
-    if (error) throw error;
+    if (achievementsError) throw achievementsError;
+    return achievements || [];
   } catch (error) {
-    console.error('Error unlocking achievement:', error);
+    console.error('Error checking all achievements:', error);
+    return [];
   }
 };
 
@@ -427,95 +222,27 @@ export const getUserAchievementProgress = async (
 
     const unlockedIds = new Set(userAchievements?.map((ua) => ua.achievement_id) || []);
 
-    // Get user statistics
-    const { data: workoutSessions } = await supabase
-      .from('workout_sessions')
-      .select(
-        `
-        *,
-        workout:workouts(workout_type)
-      `
-      )
-      .eq('user_id', userId)
-      .not('completed_at', 'is', null);
-
-    const { data: cardioSessions } = await supabase
-      .from('workout_sessions')
-      .select(
-        `
-        id,
-        user_id,
-        completed_at,
-        workout:workouts(workout_type)
-      `
-      )
-      .eq('user_id', userId)
-      .not('completed_at', 'is', null)
-      .eq('workout.workout_type', 'cardio');
-
-    const { data: streakData } = await supabase
-      .from('workout_streaks')
-      .select('current_streak')
-      .eq('user_id', userId)
-      .single();
-
-    const { data: personalRecords } = await supabase
-      .from('personal_records')
-      .select('*')
-      .eq('user_id', userId);
-
-    const totalWorkouts = workoutSessions?.length || 0;
-    const currentStreak = streakData?.current_streak || 0;
-    const totalPRs = personalRecords?.length || 0;
-    const cardioCount = cardioSessions?.length || 0;
+    const parsed = (achievements || []).map((achievement) => ({
+      achievement,
+      rule: parseAchievementRule(achievement.criteria),
+    }));
+    const stats = await loadAchievementStats(
+      userId,
+      collectSources(parsed.flatMap(({ rule }) => (rule ? [rule] : [])))
+    );
 
     // Calculate progress for each achievement
-    for (const achievement of achievements || []) {
-      const criteria = achievement.criteria as any;
-      let currentValue = 0;
-      let targetValue = criteria.target;
-
-      switch (criteria.type) {
-        case 'workout_count':
-          currentValue = totalWorkouts;
-          break;
-        case 'streak':
-          currentValue = currentStreak;
-          break;
-        case 'personal_records':
-          currentValue = totalPRs;
-          break;
-        case 'weekly_workouts':
-          // Calculate current week's workouts
-          const weekAgo = new Date();
-          weekAgo.setDate(weekAgo.getDate() - 7);
-          currentValue =
-            workoutSessions?.filter((ws) => ws.started_at && new Date(ws.started_at) >= weekAgo)
-              .length || 0;
-          break;
-        case 'monthly_workouts':
-          // Calculate current month's workouts
-          const monthAgo = new Date();
-          monthAgo.setDate(monthAgo.getDate() - 30);
-          currentValue =
-            workoutSessions?.filter((ws) => ws.started_at && new Date(ws.started_at) >= monthAgo)
-              .length || 0;
-          break;
-        case 'cardio_workouts':
-          currentValue = cardioCount;
-          break;
-        default:
-          currentValue = 0;
-      }
-
-      const percentage = Math.min((currentValue / targetValue) * 100, 100);
+    for (const { achievement, rule } of parsed) {
       const unlocked = unlockedIds.has(achievement.id);
+      const evaluation = rule
+        ? evaluateAchievementRule(rule, stats)
+        : { current: 0, target: 1, progress: unlocked ? 1 : 0 };
 
       progressList.push({
         achievement_id: achievement.id,
-        current_value: currentValue,
-        target_value: targetValue,
-        percentage,
+        current_value: evaluation.current,
+        target_value: evaluation.target,
+        percentage: evaluation.progress * 100,
         unlocked,
         achievement,
       });
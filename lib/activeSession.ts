@@ -0,0 +1,154 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { supabase, handleSupabaseError } from './supabase';
+import { discardQueuedSession, flushOutbox, queueCompleteSession } from './workoutOutbox';
+import type { SetType } from './setTypes';
+
+const ACTIVE_SESSION_STORAGE_KEY = 'gymverse.active-workout-session';
+const ACTIVE_SESSION_VERSION = 1;
+
+// Sessions untouched for longer than this are offered as "finish or discard" instead of resume.
+export const DEFAULT_STALE_SESSION_MS = 12 * 60 * 60 * 1000;
+
+export interface ActiveSessionSet {
+  set_number: number;
+  reps: number | null;
+  weight_kg: number | null;
+  duration_seconds: number | null;
+  completed: boolean;
+  rpe?: number;
+  // Missing on sessions saved before set types, which are all working sets
+  set_type?: SetType;
+  // Outbox id once logged, so drop sets can point at their parent
+  id?: number;
+  parent_set_id?: number | null;
+}
+
+// Progress of the other exercises in the current superset or circuit, keyed by exercise index
+export interface ActiveGroupExerciseProgress {
+  sessionExerciseId: number | null;
+  sets: ActiveSessionSet[];
+}
+
+export interface ActiveGroupProgress {
+  groupId: string;
+  round: number;
+  startedAt: string;
+  // When the current exercise's work starts, i.e. after the rest before it; EMOM rests use it
+  stepStartedAt: string;
+  // Every round is done, or the AMRAP time cap was reached
+  completed: boolean;
+  exercises: Record<number, ActiveGroupExerciseProgress>;
+}
+
+export interface ActiveWorkoutSession {
+  version: number;
+  userId: string;
+  sessionId: number;
+  workoutId: number;
+  workoutName: string;
+  coachingSessionId: string | null;
+  sessionStartTime: string;
+  currentExerciseIndex: number;
+  exerciseCount: number;
+  sessionExerciseId: number | null;
+  sets: ActiveSessionSet[];
+  restEndsAt: string | null;
+  // Only set while a grouped block is in progress
+  groupProgress?: ActiveGroupProgress | null;
+  updatedAt: string;
+}
+
+export type ActiveWorkoutSessionInput = Omit<ActiveWorkoutSession, 'version' | 'updatedAt'>;
+
+export const saveActiveSession = async (session: ActiveWorkoutSessionInput): Promise<void> => {
+  try {
+    const payload: ActiveWorkoutSession = {
+      ...session,
+      version: ACTIVE_SESSION_VERSION,
+      updatedAt: new Date().toISOString(),
+    };
+    await AsyncStorage.setItem(ACTIVE_SESSION_STORAGE_KEY, JSON.stringify(payload));
+  } catch (error) {
+    console.error('Error saving active workout session:', error);
+  }
+};
+
+// Returns the stored in-progress session for this user, or null if there is none.
+export const loadActiveSession = async (userId: string): Promise<ActiveWorkoutSession | null> => {
+  try {
+    const raw = await AsyncStorage.getItem(ACTIVE_SESSION_STORAGE_KEY);
+    if (!raw) return null;
+
+    const parsed = JSON.parse(raw) as ActiveWorkoutSession;
+    if (parsed.version !== ACTIVE_SESSION_VERSION || parsed.userId !== userId) {
+      return null;
+    }
+    return parsed;
+  } catch (error) {
+    console.error('Error loading active workout session:', error);
+    return null;
+  }
+};
+
+export const clearActiveSession = async (): Promise<void> => {
+  try {
+    await AsyncStorage.removeItem(ACTIVE_SESSION_STORAGE_KEY);
+  } catch (error) {
+    console.error('Error clearing active workout session:', error);
+  }
+};
+
+export const isActiveSessionStale = (
+  session: ActiveWorkoutSession,
+  staleAfterMs: number = DEFAULT_STALE_SESSION_MS,
+  now: number = Date.now()
+): boolean => now - new Date(session.updatedAt).getTime() > staleAfterMs;
+
+// Closes out an abandoned session using the last time it was touched as the end time,
+// so a session left open overnight does not record a 10-hour workout.
+export const finishActiveSession = async (session: ActiveWorkoutSession) => {
+  const startedAt = new Date(session.sessionStartTime).getTime();
+  const lastActivity = new Date(session.updatedAt).getTime();
+  const duration = Math.max(0, Math.floor((lastActivity - startedAt) / 60000));
+
+  try {
+    // Completion goes through the outbox so it is applied after any sets still waiting to sync.
+    await queueCompleteSession(
+      session.userId,
+      session.sessionId,
+      duration,
+      undefined,
+      undefined,
+      session.updatedAt
+    );
+  } catch (error) {
+    return { error: handleSupabaseError(error as Error, 'finish_active_session') };
+  }
+
+  await clearActiveSession();
+  flushOutbox(session.userId);
+  return { error: null };
+};
+
+export const discardActiveSession = async (
+  session: Pick<ActiveWorkoutSession, 'sessionId' | 'userId'>
+) => {
+  // Unsynced writes are dropped locally; only a session that reached the server needs deleting.
+  const serverId = await discardQueuedSession(session.userId, session.sessionId);
+
+  if (serverId !== null) {
+    const { error } = await supabase
+      .from('workout_sessions')
+      .delete()
+      .eq('id', serverId)
+      .eq('user_id', session.userId)
+      .is('completed_at', null);
+
+    if (error) {
+      return { error: handleSupabaseError(error, 'discard_active_session') };
+    }
+  }
+
+  await clearActiveSession();
+  return { error: null };
+};
@@ -0,0 +1,45 @@
+import type { Entitlement, Product } from './supabase';
+
+// How far ahead of expiry the marketplace starts nudging for a renewal
+export const RENEWAL_REMINDER_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Mirrors the expiry check in has_entitlement()
+export const isEntitlementActive = (
+  entitlement: Pick<Entitlement, 'expires_at'>,
+  now = Date.now()
+) => !entitlement.expires_at || new Date(entitlement.expires_at).getTime() > now;
+
+// Whole days until expiry (negative once expired), or null for permanent grants
+export const getEntitlementDaysLeft = (entitlement: Entitlement, now = Date.now()) =>
+  entitlement.expires_at
+    ? Math.ceil((new Date(entitlement.expires_at).getTime() - now) / DAY_MS)
+    : null;
+
+export const needsRenewal = (entitlement: Entitlement, now = Date.now()) => {
+  const daysLeft = getEntitlementDaysLeft(entitlement, now);
+  return daysLeft !== null && daysLeft <= RENEWAL_REMINDER_DAYS;
+};
+
+export const formatBillingPeriod = (
+  product: Pick<Product, 'billing_period' | 'billing_period_days'>
+) => {
+  switch (product.billing_period) {
+    case 'monthly':
+      return '/ month';
+    case 'yearly':
+      return '/ year';
+    case 'days':
+      return `for ${product.billing_period_days} days`;
+    default:
+      return '';
+  }
+};
+
+export const formatEntitlementExpiry = (entitlement: Entitlement, now = Date.now()) => {
+  const daysLeft = getEntitlementDaysLeft(entitlement, now);
+  if (daysLeft === null) return 'Never expires';
+  if (daysLeft <= 0) return 'Expired';
+  return daysLeft === 1 ? 'Expires tomorrow' : `Expires in ${daysLeft} days`;
+};
@@ -0,0 +1,182 @@
+import type { WorkoutExerciseGroup } from './supabase';
+
+// Exercises in a group are done back to back, one set each per round. Rest between them is
+// usually short (or none), and the longer rest only comes after the last exercise of a round.
+
+export type ExerciseGroupType = WorkoutExerciseGroup['group_type'];
+
+export type ExerciseGroupSettings = Pick<
+  WorkoutExerciseGroup,
+  | 'group_type'
+  | 'rounds'
+  | 'rest_between_exercises_seconds'
+  | 'rest_after_round_seconds'
+  | 'interval_seconds'
+  | 'time_cap_seconds'
+>;
+
+export const EXERCISE_GROUP_LABELS: Record<ExerciseGroupType, string> = {
+  superset: 'Superset',
+  circuit: 'Circuit',
+  emom: 'EMOM',
+  amrap: 'AMRAP',
+};
+
+export const EXERCISE_GROUP_DEFAULTS: Record<ExerciseGroupType, ExerciseGroupSettings> = {
+  superset: {
+    group_type: 'superset',
+    rounds: 3,
+    rest_between_exercises_seconds: 0,
+    rest_after_round_seconds: 90,
+    interval_seconds: null,
+    time_cap_seconds: null,
+  },
+  circuit: {
+    group_type: 'circuit',
+    rounds: 3,
+    rest_between_exercises_seconds: 15,
+    rest_after_round_seconds: 120,
+    interval_seconds: null,
+    time_cap_seconds: null,
+  },
+  emom: {
+    group_type: 'emom',
+    rounds: 10,
+    rest_between_exercises_seconds: 0,
+    rest_after_round_seconds: 0,
+    interval_seconds: 60,
+    time_cap_seconds: null,
+  },
+  amrap: {
+    group_type: 'amrap',
+    rounds: 5,
+    rest_between_exercises_seconds: 0,
+    rest_after_round_seconds: 0,
+    interval_seconds: null,
+    time_cap_seconds: 12 * 60,
+  },
+};
+
+// A group being put together in the workout builder, before it has an id
+export type ExerciseGroupDraft = ExerciseGroupSettings & { key: string };
+
+export const createExerciseGroupDraft = (
+  type: ExerciseGroupType,
+  key = `group-${Date.now()}`
+): ExerciseGroupDraft => ({ ...EXERCISE_GROUP_DEFAULTS[type], key });
+
+// Letters shown next to grouped exercises ("A1", "A2"), given in the order the groups first appear
+export const getGroupLetters = (groupIds: (string | null | undefined)[]) => {
+  const letters: Record<string, string> = {};
+  groupIds.forEach((groupId) => {
+    if (groupId && !letters[groupId]) {
+      letters[groupId] = String.fromCharCode(65 + (Object.keys(letters).length % 26));
+    }
+  });
+  return letters;
+};
+
+// "A2" for the second exercise of group A, or null for exercises outside a group
+export const getGroupPositionLabel = (
+  groupIds: (string | null | undefined)[],
+  index: number
+): string | null => {
+  const groupId = groupIds[index];
+  if (!groupId) return null;
+  const position = groupIds.slice(0, index + 1).filter((id) => id === groupId).length;
+  return `${getGroupLetters(groupIds)[groupId]}${position}`;
+};
+
+// Moves every group's exercises next to the first one, keeping the order inside the group
+export const orderExercisesByGroup = <T extends { group_key?: string | null }>(exercises: T[]) => {
+  const ordered: T[] = [];
+  const placed = new Set<string>();
+  exercises.forEach((exercise) => {
+    if (!exercise.group_key) {
+      ordered.push(exercise);
+    } else if (!placed.has(exercise.group_key)) {
+      placed.add(exercise.group_key);
+      ordered.push(...exercises.filter((other) => other.group_key === exercise.group_key));
+    }
+  });
+  return ordered;
+};
+
+// Indexes of the exercises sharing the group of `index`, or just `index` when it is not grouped
+export const getGroupMemberIndexes = (
+  exercises: { group_id?: string | null }[],
+  index: number
+): number[] => {
+  const groupId = exercises[index]?.group_id;
+  if (!groupId) return [index];
+  return exercises.reduce<number[]>(
+    (indexes, exercise, i) => (exercise.group_id === groupId ? [...indexes, i] : indexes),
+    []
+  );
+};
+
+export type GroupStep =
+  // Move to another exercise of the group after resting
+  | { kind: 'next'; exerciseIndex: number; round: number; restSeconds: number }
+  // Every round is done (or the AMRAP cap is reached)
+  | { kind: 'done' };
+
+type GroupStepInput = {
+  group: ExerciseGroupSettings;
+  memberIndexes: number[];
+  exerciseIndex: number;
+  // 1-based round the set that was just logged belongs to
+  round: number;
+  // Seconds spent on the step that just finished, for EMOM intervals
+  stepSeconds: number;
+  // Seconds since the group started, for the AMRAP time cap
+  groupSeconds: number;
+};
+
+// Works out where a grouped session goes after a set is logged
+export const getNextGroupStep = ({
+  group,
+  memberIndexes,
+  exerciseIndex,
+  round,
+  stepSeconds,
+  groupSeconds,
+}: GroupStepInput): GroupStep => {
+  const position = memberIndexes.indexOf(exerciseIndex);
+  const isLastInRound = position === memberIndexes.length - 1;
+  const capReached =
+    group.group_type === 'amrap' &&
+    group.time_cap_seconds !== null &&
+    groupSeconds >= group.time_cap_seconds;
+
+  if (capReached) return { kind: 'done' };
+  // AMRAP keeps going past the planned rounds until the cap runs out
+  if (isLastInRound && round >= group.rounds && group.group_type !== 'amrap') {
+    return { kind: 'done' };
+  }
+
+  // EMOM work starts on every interval, so the rest is whatever is left of it
+  const interval = group.interval_seconds ?? 60;
+  const restSeconds =
+    group.group_type === 'emom'
+      ? Math.min(interval, Math.max(0, interval - Math.round(stepSeconds)))
+      : isLastInRound
+        ? group.rest_after_round_seconds
+        : group.rest_between_exercises_seconds;
+
+  return isLastInRound
+    ? { kind: 'next', exerciseIndex: memberIndexes[0], round: round + 1, restSeconds }
+    : { kind: 'next', exerciseIndex: memberIndexes[position + 1], round, restSeconds };
+};
+
+export const describeExerciseGroup = (group: ExerciseGroupSettings) => {
+  const label = EXERCISE_GROUP_LABELS[group.group_type];
+  switch (group.group_type) {
+    case 'emom':
+      return `${label} • ${group.rounds} rounds every ${group.interval_seconds ?? 60}s`;
+    case 'amrap':
+      return `${label} • ${Math.round((group.time_cap_seconds ?? 0) / 60)} min cap`;
+    default:
+      return `${label} • ${group.rounds} rounds • ${group.rest_after_round_seconds}s rest after each`;
+  }
+};
@@ -0,0 +1,68 @@
+import type { LedgerEntry, PayoutBatch } from './supabase';
+
+const CSV_HEADER = [
+  'batch_id',
+  'period_start',
+  'period_end',
+  'coach_id',
+  'coach_name',
+  'date',
+  'type',
+  'payment_id',
+  'product',
+  'amount',
+];
+
+// Text starting with one of these is read as a formula by spreadsheet apps, so it gets a leading
+// quote. Plain numbers such as negative refund amounts are left as they are.
+const FORMULA_PREFIX = /^[=+\-@]/;
+const PLAIN_NUMBER = /^-?\d+(\.\d+)?$/;
+
+const escapeCsv = (value: string | number | null | undefined) => {
+  let text = value == null ? '' : String(value);
+  if (FORMULA_PREFIX.test(text) && !PLAIN_NUMBER.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const formatAmount = (cents: number) => (cents / 100).toFixed(2);
+
+// One row per sale/refund a payout settled, then a total row per coach. Amounts are what the
+// coach earned, so sales are positive and refunds negative.
+export const buildPayoutStatementCsv = (batch: PayoutBatch, entries: LedgerEntry[]) => {
+  const rows: (string | number | null | undefined)[][] = [];
+  const payouts = batch.payouts ?? [];
+
+  payouts.forEach((payout) => {
+    const coachName = payout.coach?.full_name || payout.coach?.username || '';
+    entries
+      .filter((entry) => entry.settled_by_payout_id === payout.id)
+      .forEach((entry) => {
+        rows.push([
+          batch.id,
+          batch.period_start,
+          batch.period_end,
+          payout.coach_id,
+          coachName,
+          entry.created_at,
+          entry.entry_type,
+          entry.payment_id,
+          entry.payment?.products?.title,
+          formatAmount(-entry.amount_cents),
+        ]);
+      });
+    rows.push([
+      batch.id,
+      batch.period_start,
+      batch.period_end,
+      payout.coach_id,
+      coachName,
+      batch.paid_at,
+      batch.status === 'paid' ? `payout (${batch.reference})` : 'payout (unpaid)',
+      null,
+      null,
+      formatAmount(payout.amount_cents),
+    ]);
+  });
+
+  return [CSV_HEADER, ...rows].map((row) => row.map(escapeCsv).join(',')).join('\n');
+};
@@ -1,404 +1,90 @@
-import { supabase, PersonalRecord, ExerciseSet } from './supabase';
+import { supabase, PersonalRecord, getUnreadUserEvents, markUserEventsRead } from './supabase';
+import { formatDistance, formatWeight, type UnitSystem } from './units';
+
+export type PersonalRecordType =
+  | 'max_weight'
+  | 'max_reps'
+  | 'max_distance'
+  | 'best_time'
+  | 'estimated_1rm'
+  | 'max_volume'
+  | 'rep_max_3'
+  | 'rep_max_5'
+  | 'rep_max_10';
+
+export type OneRepMaxFormula = 'epley' | 'brzycki';
+
+export const ONE_REP_MAX_FORMULAS: OneRepMaxFormula[] = ['epley', 'brzycki'];
+
+// Sets above this many reps say little about a single max, so they're left out of estimates
+export const ONE_REP_MAX_REP_LIMIT = 12;
+
+export const normalizeOneRepMaxFormula = (value?: string | null): OneRepMaxFormula =>
+  value === 'brzycki' ? 'brzycki' : 'epley';
+
+// Mirrors estimate_one_rep_max() in the database, which computes the stored records
+export const estimateOneRepMax = (
+  weightKg: number,
+  reps: number,
+  formula: OneRepMaxFormula = 'epley'
+): number | null => {
+  if (weightKg <= 0 || reps < 1 || reps > ONE_REP_MAX_REP_LIMIT) return null;
+  if (reps === 1) return weightKg;
+  return formula === 'brzycki' ? (weightKg * 36) / (37 - reps) : weightKg * (1 + reps / 30);
+};
 
 export interface PersonalRecordData {
   exercise_id: number;
   exercise_name: string;
-  record_type: 'max_weight' | 'max_reps' | 'max_distance' | 'best_time';
+  record_type: PersonalRecordType;
   value: number;
   unit: string;
+  // The set behind the record, e.g. the weight a max_reps set was done at
+  reps?: number | null;
+  weight_kg?: number | null;
   previous_value?: number;
   improvement?: number;
   achieved_at: string;
   session_id?: number;
 }
 
-interface PersonalRecordUpdate {
-  exercise_id: number;
-  record_type: 'max_weight' | 'max_reps' | 'max_distance' | 'best_time';
-  value: number;
-  unit: string;
-  session_id: number;
-}
+// What record_session_personal_records() puts in a personal_record event
+type PersonalRecordPayload = Omit<PersonalRecordData, 'achieved_at' | 'session_id'>;
 
-// Check for new personal records after a workout session
+// Records are computed by the database when a session is completed, leaving out warm-up sets;
+// this reads the resulting events for the session and marks them as seen.
 export const checkForPersonalRecords = async (
   userId: string,
   sessionId: number
 ): Promise<PersonalRecordData[]> => {
-  const newRecords: PersonalRecordData[] = [];
-
   try {
-    // Get all exercise sets from the completed session
-    const { data: sessionSets, error: setsError } = await supabase
-      .from('exercise_sets')
-      .select(
-        `
-        *,
-        session_exercise:session_exercises(
-          exercise_id,
-          exercise:exercises(name, exercise_type)
-        )
-      `
-      )
-      .eq('session_exercise.session_id', sessionId)
-      .eq('completed', true);
-
-    if (setsError) throw setsError;
-
-    // Filter out sets with null session_exercise or exercise data
-    const validSets = (sessionSets || []).filter(
-      (set) =>
-        set.session_exercise && set.session_exercise.exercise && set.session_exercise.exercise.name
-    );
-
-    if (validSets.length === 0) {
-      console.log('No valid exercise sets found for session:', sessionId);
-      return newRecords;
-    }
-
-    // Group sets by exercise
-    const exerciseGroups = groupSetsByExercise(validSets);
+    const events = await getUnreadUserEvents(userId, 'personal_record', sessionId);
+    if (events.length === 0) return [];
 
-    // Check each exercise for potential records
-    for (const [exerciseId, sets] of exerciseGroups) {
-      const exerciseName = sets[0].session_exercise.exercise.name;
-      const exerciseType = sets[0].session_exercise.exercise.exercise_type;
-
-      // Check different record types based on exercise type
-      if (exerciseType === 'strength') {
-        // Check max weight record
-        const maxWeightRecord = await checkMaxWeightRecord(
-          userId,
-          parseInt(exerciseId),
-          sets,
-          sessionId,
-          exerciseName
-        );
-        if (maxWeightRecord) newRecords.push(maxWeightRecord);
-
-        // Check max reps record (at any weight)
-        const maxRepsRecord = await checkMaxRepsRecord(
-          userId,
-          parseInt(exerciseId),
-          sets,
-          sessionId,
-          exerciseName
-        );
-        if (maxRepsRecord) newRecords.push(maxRepsRecord);
-      }
-
-      if (exerciseType === 'cardio') {
-        // Check best time record
-        const bestTimeRecord = await checkBestTimeRecord(
-          userId,
-          parseInt(exerciseId),
-          sets,
-          sessionId,
-          exerciseName
-        );
-        if (bestTimeRecord) newRecords.push(bestTimeRecord);
-
-        // Check max distance record
-        const maxDistanceRecord = await checkMaxDistanceRecord(
-          userId,
-          parseInt(exerciseId),
-          sets,
-          sessionId,
-          exerciseName
-        );
-        if (maxDistanceRecord) newRecords.push(maxDistanceRecord);
-      }
-    }
-  } catch (error) {
-    console.error('Error checking for personal records:', error);
-  }
-
-  return newRecords;
-};
-
-// Group exercise sets by exercise ID
-const groupSetsByExercise = (sets: any[]): Map<string, any[]> => {
-  const groups = new Map<string, any[]>();
-
-  sets.forEach((set) => {
-    // Add defensive null check for session_exercise
-    if (!set.session_exercise || !set.session_exercise.exercise_id) {
-      console.warn('Skipping set with invalid session_exercise data:', set);
-      return;
-    }
-
-    const exerciseId = set.session_exercise.exercise_id.toString();
-    if (!groups.has(exerciseId)) {
-      groups.set(exerciseId, []);
-    }
-    groups.get(exerciseId)!.push(set);
-  });
-
-  return groups;
-};
-
-// Check for max weight personal record
-const checkMaxWeightRecord = async (
-  userId: string,
-  exerciseId: number,
-  sets: any[],
-  sessionId: number,
-  exerciseName: string
-): Promise<PersonalRecordData | null> => {
-  try {
-    // Find the maximum weight lifted in this session
-    const maxWeight = Math.max(...sets.map((set) => set.weight_kg || 0));
-
-    if (maxWeight <= 0) return null;
-
-    // Get current max weight record
-    const { data: currentRecord, error } = await supabase
-      .from('personal_records')
-      .select('*')
-      .eq('user_id', userId)
-      .eq('exercise_id', exerciseId)
-      .eq('record_type', 'max_weight')
-      .single();
-
-    if (error && error.code !== 'PGRST116') throw error;
-
-    const previousValue = currentRecord?.value || 0;
-
-    // Check if this is a new record
-    if (maxWeight > previousValue) {
-      // Create or update the record
-      const recordData = {
-        user_id: userId,
-        exercise_id: exerciseId,
-        record_type: 'max_weight' as const,
-        value: maxWeight,
-        unit: 'kg',
-        session_id: sessionId,
-        achieved_at: new Date().toISOString(),
-      };
-
-      const { error: upsertError } = await supabase.from('personal_records').upsert(recordData, {
-        onConflict: 'user_id,exercise_id,record_type',
-      });
-
-      if (upsertError) throw upsertError;
+    await markUserEventsRead(events.map((event) => event.id));
 
+    return events.map((event) => {
+      const payload = event.payload as PersonalRecordPayload;
       return {
-        exercise_id: exerciseId,
-        exercise_name: exerciseName,
-        record_type: 'max_weight',
-        value: maxWeight,
-        unit: 'kg',
-        previous_value: previousValue,
-        improvement: maxWeight - previousValue,
-        achieved_at: recordData.achieved_at,
-        session_id: sessionId,
+        exercise_id: payload.exercise_id,
+        exercise_name: payload.exercise_name,
+        record_type: payload.record_type,
+        value: Number(payload.value),
+        unit: payload.unit,
+        reps: payload.reps ?? null,
+        weight_kg: payload.weight_kg != null ? Number(payload.weight_kg) : null,
+        previous_value: Number(payload.previous_value ?? 0),
+        improvement: Number(payload.improvement ?? 0),
+        achieved_at: event.created_at,
+        session_id: event.session_id ?? sessionId,
       };
-    }
+    });
   } catch (error) {
-    console.error('Error checking max weight record:', error);
-  }
-
-  return null;
-};
-
-// Check for max reps personal record
-const checkMaxRepsRecord = async (
-  userId: string,
-  exerciseId: number,
-  sets: any[],
-  sessionId: number,
-  exerciseName: string
-): Promise<PersonalRecordData | null> => {
-  try {
-    // Find the maximum reps in a single set
-    const maxReps = Math.max(...sets.map((set) => set.reps || 0));
-
-    if (maxReps <= 0) return null;
-
-    // Get current max reps record
-    const { data: currentRecord, error } = await supabase
-      .from('personal_records')
-      .select('*')
-      .eq('user_id', userId)
-      .eq('exercise_id', exerciseId)
-      .eq('record_type', 'max_reps')
-      .single();
-
-    if (error && error.code !== 'PGRST116') throw error;
-
-    const previousValue = currentRecord?.value || 0;
-
-    // Check if this is a new record
-    if (maxReps > previousValue) {
-      // Create or update the record
-      const recordData = {
-        user_id: userId,
-        exercise_id: exerciseId,
-        record_type: 'max_reps' as const,
-        value: maxReps,
-        unit: 'reps',
-        session_id: sessionId,
-        achieved_at: new Date().toISOString(),
-      };
-
-      const { error: upsertError } = await supabase.from('personal_records').upsert(recordData, {
-        onConflict: 'user_id,exercise_id,record_type',
-      });
-
-      if (upsertError) throw upsertError;
-
-      return {
-        exercise_id: exerciseId,
-        exercise_name: exerciseName,
-        record_type: 'max_reps',
-        value: maxReps,
-        unit: 'reps',
-        previous_value: previousValue,
-        improvement: maxReps - previousValue,
-        achieved_at: recordData.achieved_at,
-        session_id: sessionId,
-      };
-    }
-  } catch (error) {
-    console.error('Error checking max reps record:', error);
-  }
-
-  return null;
-};
-
-// Check for best time personal record (for cardio exercises)
-const checkBestTimeRecord = async (
-  userId: string,
-  exerciseId: number,
-  sets: any[],
-  sessionId: number,
-  exerciseName: string
-): Promise<PersonalRecordData | null> => {
-  try {
-    // Find the minimum time (best time) in this session
-    const validTimes = sets.map((set) => set.duration_seconds).filter((time) => time > 0);
-    if (validTimes.length === 0) return null;
-
-    const bestTime = Math.min(...validTimes);
-
-    // Get current best time record
-    const { data: currentRecord, error } = await supabase
-      .from('personal_records')
-      .select('*')
-      .eq('user_id', userId)
-      .eq('exercise_id', exerciseId)
-      .eq('record_type', 'best_time')
-      .single();
-
-    if (error && error.code !== 'PGRST116') throw error;
-
-    const previousValue = currentRecord?.value || Infinity;
-
-    // Check if this is a new record (lower time is better)
-    if (bestTime < previousValue) {
-      // Create or update the record
-      const recordData = {
-        user_id: userId,
-        exercise_id: exerciseId,
-        record_type: 'best_time' as const,
-        value: bestTime,
-        unit: 'seconds',
-        session_id: sessionId,
-        achieved_at: new Date().toISOString(),
-      };
-
-      const { error: upsertError } = await supabase.from('personal_records').upsert(recordData, {
-        onConflict: 'user_id,exercise_id,record_type',
-      });
-
-      if (upsertError) throw upsertError;
-
-      return {
-        exercise_id: exerciseId,
-        exercise_name: exerciseName,
-        record_type: 'best_time',
-        value: bestTime,
-        unit: 'seconds',
-        previous_value: previousValue === Infinity ? 0 : previousValue,
-        improvement: previousValue === Infinity ? bestTime : previousValue - bestTime,
-        achieved_at: recordData.achieved_at,
-        session_id: sessionId,
-      };
-    }
-  } catch (error) {
-    console.error('Error checking best time record:', error);
-  }
-
-  return null;
-};
-
-// Check for max distance personal record
-const checkMaxDistanceRecord = async (
-  userId: string,
-  exerciseId: number,
-  sets: any[],
-  sessionId: number,
-  exerciseName: string
-): Promise<PersonalRecordData | null> => {
-  try {
-    // Find the maximum distance in this session
-    const maxDistance = Math.max(...sets.map((set) => set.distance_meters || 0));
-
-    if (maxDistance <= 0) return null;
-
-    // Get current max distance record
-    const { data: currentRecord, error } = await supabase
-      .from('personal_records')
-      .select('*')
-      .eq('user_id', userId)
-      .eq('exercise_id', exerciseId)
-      .eq('record_type', 'max_distance')
-      .single();
-
-    if (error && error.code !== 'PGRST116') throw error;
-
-    const previousValue = currentRecord?.value || 0;
-
-    // Check if this is a new record
-    if (maxDistance > previousValue) {
-      // Create or update the record
-      const recordData = {
-        user_id: userId,
-        exercise_id: exerciseId,
-        record_type: 'max_distance' as const,
-        value: maxDistance,
-        unit: 'meters',
-        session_id: sessionId,
-        achieved_at: new Date().toISOString(),
-      };
-
-      const { error: upsertError } = await supabase.from('personal_records').upsert(recordData, {
-        onConflict: 'user_id,exercise_id,record_type',
-      });
-
-      if (upsertError) throw upsertError;
-
-      return {
-        exercise_id: exerciseId,
-        exercise_name: exerciseName,
-        record_type: 'max_distance',
-        value: maxDistance,
-        unit: 'meters',
-        previous_value: previousValue,
-        improvement: maxDistance - previousValue,
-        achieved_at: recordData.achieved_at,
-        session_id: sessionId,
-      };
-    }
-  } catch (error) {
-    console.error('Error checking max distance record:', error);
+    console.error('Error checking for personal records:', error);
+    return [];
   }
-
-  return null;
 };
 
-// Get user's personal records with exercise details
 export const getUserPersonalRecordsWithDetails = async (userId: string): Promise<any[]> => {
   try {
     const { data, error } = await supabase
@@ -441,29 +127,54 @@ export const getExercisePersonalRecords = async (
   }
 };
 
-// Format personal record value for display
+// Format personal record value for display. Values are stored in kg/metres and converted
+// to the viewer's preferred unit system here.
 export const formatPersonalRecordValue = (
   value: number,
   recordType: string,
-  unit: string
+  unit: string,
+  system: UnitSystem = 'metric'
 ): string => {
   switch (recordType) {
     case 'max_weight':
-      return `${value} ${unit}`;
+    case 'estimated_1rm':
+    case 'rep_max_3':
+    case 'rep_max_5':
+    case 'rep_max_10':
+      return unit === 'kg' ? formatWeight(value, system) : `${value} ${unit}`;
+    case 'max_volume':
+      return unit === 'kg' ? formatWeight(value, system, { compact: true }) : `${value} ${unit}`;
     case 'max_reps':
       return `${value} reps`;
     case 'best_time':
       return formatTime(value);
     case 'max_distance':
-      if (value >= 1000) {
-        return `${(value / 1000).toFixed(1)} km`;
-      }
-      return `${value} m`;
+      return formatDistance(value, system);
     default:
       return `${value} ${unit}`;
   }
 };
 
+// The set a record came from, e.g. "100 kg × 5". Null when the record has no single set behind it.
+export const formatPersonalRecordContext = (
+  record: { record_type: string; reps?: number | null; weight_kg?: number | null },
+  system: UnitSystem = 'metric'
+): string | null => {
+  const { reps, weight_kg } = record;
+  switch (record.record_type) {
+    case 'max_reps':
+      return weight_kg ? `at ${formatWeight(weight_kg, system)}` : 'bodyweight';
+    case 'max_weight':
+    case 'estimated_1rm':
+    case 'rep_max_3':
+    case 'rep_max_5':
+    case 'rep_max_10':
+      return weight_kg && reps ? `${formatWeight(weight_kg, system)} × ${reps}` : null;
+    default:
+      return null;
+  }
+};
+
 // Format time in seconds to readable format
 const formatTime = (seconds: number): string => {
   const hours = Math.floor(seconds / 3600);
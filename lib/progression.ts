@@ -0,0 +1,193 @@
+import { getRecentExerciseSessions } from './supabase';
+import { normalizeSetType, type SetType } from './setTypes';
+import { formatWeight, type UnitSystem } from './units';
+
+export type ProgressionRule = 'double_progression' | 'rpe' | 'linear';
+
+export const PROGRESSION_RULES: ProgressionRule[] = ['double_progression', 'rpe', 'linear'];
+
+export const PROGRESSION_RULE_LABELS: Record<ProgressionRule, string> = {
+  double_progression: 'Double',
+  rpe: 'RPE',
+  linear: 'Linear',
+};
+
+export const PROGRESSION_RULE_DESCRIPTIONS: Record<ProgressionRule, string> = {
+  double_progression: 'Build reps at the same weight, add weight once every set hits its reps',
+  rpe: 'Add weight after easy sets (RPE 7 or lower), take some off after missed reps or RPE 10',
+  linear: 'Add weight every time all reps were hit',
+};
+
+export const normalizeProgressionRule = (value?: string | null): ProgressionRule =>
+  value === 'rpe' || value === 'linear' ? value : 'double_progression';
+
+// RPE rule: the load goes up at or below EASY_RPE and comes down at MAX_RPE
+const EASY_RPE = 7;
+const MAX_RPE = 10;
+
+export interface PreviousSet {
+  set_number: number;
+  reps: number | null;
+  weight_kg: number | null;
+  duration_seconds: number | null;
+  rpe: number | null;
+  set_type: SetType;
+}
+
+// A set of today's session, with the reps the plan asks for
+export interface PlannedSet {
+  set_number: number;
+  reps: number | null;
+  set_type?: SetType;
+}
+
+export interface SetSuggestion {
+  set_number: number;
+  reps: number | null;
+  weight_kg: number | null;
+  duration_seconds: number | null;
+  // Change from last time; bodyweight sets progress by reps instead of weight
+  changeKg: number;
+  changeReps: number;
+  // Why, e.g. "hit all reps at RPE 7 last time"; null when last time is simply repeated
+  reason: string | null;
+}
+
+// Top-level sets of the latest completed session that logged the exercise; drop sets are left
+// out because they only follow on from their parent.
+export const getLastPerformance = async (
+  userId: string,
+  exerciseId: number
+): Promise<PreviousSet[]> => {
+  try {
+    const sessions = await getRecentExerciseSessions(userId, exerciseId);
+    for (const session of sessions) {
+      const sets = (session.sets ?? [])
+        .filter((set) => set.completed && !set.parent_set_id)
+        .map((set) => ({
+          set_number: set.set_number,
+          reps: set.reps,
+          weight_kg: set.weight_kg,
+          duration_seconds: set.duration_seconds,
+          rpe: set.rpe,
+          set_type: normalizeSetType(set.set_type),
+        }))
+        .sort((a, b) => a.set_number - b.set_number);
+      if (sets.length > 0) return sets;
+    }
+    return [];
+  } catch (error) {
+    console.error('Error loading last exercise performance:', error);
+    return [];
+  }
+};
+
+type Decision = { direction: 'up' | 'hold' | 'down'; addRep: boolean; reason: string };
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+const decide = (rule: ProgressionRule, missedSets: number, maxRpe: number | null): Decision => {
+  const hitAll = missedSets === 0;
+  const missedReason = `missed reps on ${plural(missedSets, 'set')} last time`;
+
+  if (rule === 'rpe' && maxRpe !== null) {
+    if (hitAll && maxRpe <= EASY_RPE) {
+      return { direction: 'up', addRep: false, reason: `hit all reps at RPE ${maxRpe} last time` };
+    }
+    if (!hitAll || maxRpe >= MAX_RPE) {
+      return {
+        direction: 'down',
+        addRep: false,
+        reason: hitAll ? `RPE ${maxRpe} last time` : missedReason,
+      };
+    }
+    return { direction: 'hold', addRep: false, reason: `hit all reps at RPE ${maxRpe} last time` };
+  }
+
+  if (hitAll) return { direction: 'up', addRep: false, reason: 'hit all reps last time' };
+  // Double progression builds reps at the same weight until every set hits its target
+  return { direction: 'hold', addRep: rule !== 'linear', reason: missedReason };
+};
+
+// Prefills today's sets from last time and moves the load on according to the rule. Sets with
+// no counterpart last time get no suggestion. Warm-ups are repeated as they were.
+export const suggestNextSets = (
+  previous: PreviousSet[],
+  planned: PlannedSet[],
+  rule: ProgressionRule,
+  incrementKg: number
+): SetSuggestion[] => {
+  const previousByNumber = new Map(previous.map((set) => [set.set_number, set]));
+  const plannedReps = new Map(planned.map((set) => [set.set_number, set.reps]));
+
+  // Sets without a planned rep target count as hit
+  const working = previous.filter((set) => set.set_type !== 'warmup' && set.reps !== null);
+  const missedSets = working.filter((set) => {
+    const target = plannedReps.get(set.set_number);
+    return !!target && (set.reps ?? 0) < target;
+  }).length;
+  const rpes = working.map((set) => set.rpe).filter((rpe): rpe is number => rpe !== null);
+  const decision = decide(rule, missedSets, rpes.length > 0 ? Math.max(...rpes) : null);
+
+  return planned.flatMap((plannedSet): SetSuggestion[] => {
+    const last = previousByNumber.get(plannedSet.set_number);
+    if (!last) return [];
+
+    const base = {
+      set_number: plannedSet.set_number,
+      reps: last.reps,
+      weight_kg: last.weight_kg,
+      duration_seconds: last.duration_seconds,
+      changeKg: 0,
+      changeReps: 0,
+    };
+    if (normalizeSetType(plannedSet.set_type) === 'warmup' || last.reps === null) {
+      return [{ ...base, reason: null }];
+    }
+
+    const target = plannedSet.reps ?? last.reps;
+    const isWeighted = (last.weight_kg ?? 0) > 0;
+    const step =
+      decision.direction === 'up' ? incrementKg : decision.direction === 'down' ? -incrementKg : 0;
+
+    if (!isWeighted) {
+      // Bodyweight sets move by a rep either way
+      const changeReps = decision.direction === 'up' || decision.addRep ? 1 : 0;
+      return [{ ...base, reps: last.reps + changeReps, changeReps, reason: decision.reason }];
+    }
+
+    const weight = Math.max(0, (last.weight_kg ?? 0) + step);
+    // A new load starts over at the planned reps; holding builds them up a rep at a time
+    let reps = last.reps;
+    if (step !== 0) reps = target;
+    else if (decision.addRep && last.reps < target) reps = last.reps + 1;
+    return [
+      {
+        ...base,
+        reps,
+        weight_kg: weight,
+        changeKg: weight - (last.weight_kg ?? 0),
+        changeReps: reps - last.reps,
+        reason: decision.reason,
+      },
+    ];
+  });
+};
+
+// e.g. "+2.5 kg: hit all reps at RPE 7 last time" or "Same weight, +1 rep: missed reps on 1 set
+// last time"
+export const formatSuggestion = (suggestion: SetSuggestion, system: UnitSystem) => {
+  const parts: string[] = [];
+  if (suggestion.changeKg > 0) parts.push(`+${formatWeight(suggestion.changeKg, system)}`);
+  else if (suggestion.changeKg < 0) parts.push(`−${formatWeight(-suggestion.changeKg, system)}`);
+  else if (suggestion.weight_kg) parts.push('Same weight');
+
+  if (suggestion.changeReps !== 0) {
+    const sign = suggestion.changeReps > 0 ? '+' : '−';
+    parts.push(`${sign}${plural(Math.abs(suggestion.changeReps), 'rep')}`);
+  }
+  if (!suggestion.reason) return 'Same as last time';
+  if (parts.length === 0) parts.push('Same reps');
+
+  return `${parts.join(', ')}: ${suggestion.reason}`;
+};
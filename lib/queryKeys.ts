@@ -3,12 +3,23 @@ export const queryKeys = {
     root: ['workouts'] as const,
     templates: ['workouts', 'templates'] as const,
     user: (userId?: string | null) => ['workouts', 'user', userId ?? 'anon'] as const,
+    activeSession: (userId?: string | null) =>
+      ['workouts', 'active-session', userId ?? 'anon'] as const,
   },
   exercises: ['exercises'] as const,
   social: {
+    root: ['social'] as const,
+    feedRoot: ['social-feed'] as const,
     feed: (userId?: string) => ['social-feed', userId ?? 'public'] as const,
+    friends: (userId?: string | null) => ['social', 'friends', userId ?? 'anon'] as const,
+    userSearch: (query: string) => ['social', 'user-search', query] as const,
+    leaderboard: (userId?: string | null, metric?: string, window?: string, scope?: string) =>
+      ['social', 'leaderboard', userId ?? 'anon', metric, window, scope] as const,
+    leaderboardRank: (userId?: string | null, metric?: string, window?: string, scope?: string) =>
+      ['social', 'leaderboard-rank', userId ?? 'anon', metric, window, scope] as const,
   },
   analytics: {
+    root: ['analytics'] as const,
     stats: (userId?: string | null) => ['analytics', 'stats', userId ?? 'anon'] as const,
     streak: (userId?: string | null) => ['analytics', 'streak', userId ?? 'anon'] as const,
     personalRecords: (userId?: string | null) => ['analytics', 'pr', userId ?? 'anon'] as const,
@@ -0,0 +1,141 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Notifications from 'expo-notifications';
+import { Platform, Vibration } from 'react-native';
+
+// The rest timer is driven by a stored end time rather than a countdown, so it stays correct
+// while the app is backgrounded and after the JS thread has been suspended.
+
+const REST_OVERRIDES_STORAGE_KEY = 'gymverse.rest-overrides';
+const REST_NOTIFICATION_ID = 'gymverse.rest-timer';
+const REST_NOTIFICATION_CHANNEL = 'rest-timer';
+
+export const DEFAULT_REST_SECONDS = 90;
+export const MIN_REST_SECONDS = 15;
+export const MAX_REST_SECONDS = 15 * 60;
+
+// Rest lengths the user picked for an exercise, keyed by exercise id
+export type RestOverrides = Record<string, number>;
+
+export const clampRestSeconds = (seconds: number) =>
+  Math.min(MAX_REST_SECONDS, Math.max(MIN_REST_SECONDS, Math.round(seconds)));
+
+export const getRestSecondsLeft = (endsAt: number | null, now: number = Date.now()) => {
+  if (!endsAt) return 0;
+  return Math.max(0, Math.ceil((endsAt - now) / 1000));
+};
+
+// User override first, then the workout's prescribed rest, then the app default
+export const resolveRestSeconds = (
+  exerciseId: number,
+  prescribedSeconds: number | null | undefined,
+  overrides: RestOverrides
+) => {
+  const override = overrides[String(exerciseId)];
+  if (override) return override;
+  return prescribedSeconds && prescribedSeconds > 0 ? prescribedSeconds : DEFAULT_REST_SECONDS;
+};
+
+export const loadRestOverrides = async (): Promise<RestOverrides> => {
+  try {
+    const raw = await AsyncStorage.getItem(REST_OVERRIDES_STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as RestOverrides) : {};
+  } catch (error) {
+    console.error('Error loading rest overrides:', error);
+    return {};
+  }
+};
+
+// Pass null to go back to the workout's prescribed rest
+export const saveRestOverride = async (
+  exerciseId: number,
+  seconds: number | null
+): Promise<RestOverrides> => {
+  const overrides = await loadRestOverrides();
+  if (seconds === null) {
+    delete overrides[String(exerciseId)];
+  } else {
+    overrides[String(exerciseId)] = clampRestSeconds(seconds);
+  }
+
+  try {
+    await AsyncStorage.setItem(REST_OVERRIDES_STORAGE_KEY, JSON.stringify(overrides));
+  } catch (error) {
+    console.error('Error saving rest override:', error);
+  }
+  return overrides;
+};
+
+let notificationsReady: Promise<boolean> | null = null;
+
+const prepareNotifications = async (): Promise<boolean> => {
+  try {
+    // In the foreground the rest modal and vibration already cover it
+    Notifications.setNotificationHandler({
+      handleNotification: async () => ({
+        shouldShowBanner: false,
+        shouldShowList: false,
+        shouldPlaySound: false,
+        shouldSetBadge: false,
+      }),
+    });
+
+    if (Platform.OS === 'android') {
+      await Notifications.setNotificationChannelAsync(REST_NOTIFICATION_CHANNEL, {
+        name: 'Rest timer',
+        importance: Notifications.AndroidImportance.HIGH,
+        vibrationPattern: [0, 250, 150, 250],
+      });
+    }
+
+    const current = await Notifications.getPermissionsAsync();
+    if (current.granted) return true;
+    if (!current.canAskAgain) return false;
+    const requested = await Notifications.requestPermissionsAsync();
+    return requested.granted;
+  } catch (error) {
+    console.error('Error preparing rest notifications:', error);
+    return false;
+  }
+};
+
+// Schedules the "rest is over" notification, replacing any pending one
+export const scheduleRestEndNotification = async (endsAt: number, exerciseName?: string) => {
+  if (Platform.OS === 'web' || endsAt <= Date.now()) return;
+
+  if (!notificationsReady) notificationsReady = prepareNotifications();
+  if (!(await notificationsReady)) return;
+
+  try {
+    await Notifications.scheduleNotificationAsync({
+      identifier: REST_NOTIFICATION_ID,
+      content: {
+        title: 'Rest complete',
+        body: exerciseName
+          ? `Time for your next set of ${exerciseName}.`
+          : 'Time for your next set.',
+        sound: true,
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: new Date(endsAt),
+        channelId: REST_NOTIFICATION_CHANNEL,
+      },
+    });
+  } catch (error) {
+    console.error('Error scheduling rest notification:', error);
+  }
+};
+
+export const cancelRestEndNotification = async () => {
+  if (Platform.OS === 'web') return;
+  try {
+    await Notifications.cancelScheduledNotificationAsync(REST_NOTIFICATION_ID);
+  } catch (error) {
+    console.error('Error cancelling rest notification:', error);
+  }
+};
+
+export const playRestEndCue = () => {
+  if (Platform.OS === 'web') return;
+  Vibration.vibrate([0, 250, 150, 250]);
+};
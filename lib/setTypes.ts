@@ -0,0 +1,45 @@
+export type SetType = 'warmup' | 'working' | 'drop' | 'failure' | 'amrap' | 'rest_pause';
+
+export const DEFAULT_SET_TYPE: SetType = 'working';
+
+export const SET_TYPE_LABELS: Record<SetType, string> = {
+  warmup: 'Warm-up',
+  working: 'Working',
+  drop: 'Drop set',
+  failure: 'To failure',
+  amrap: 'AMRAP',
+  rest_pause: 'Rest-pause',
+};
+
+// Drop sets are not picked directly: they are added as sub-sets of a logged set
+export const SELECTABLE_SET_TYPES: SetType[] = [
+  'warmup',
+  'working',
+  'failure',
+  'amrap',
+  'rest_pause',
+];
+
+export const normalizeSetType = (value?: string | null): SetType =>
+  value && Object.prototype.hasOwnProperty.call(SET_TYPE_LABELS, value)
+    ? (value as SetType)
+    : DEFAULT_SET_TYPE;
+
+// Warm-ups are logged but left out of volume, personal records and progress charts
+export const countsTowardVolume = (set: { set_type?: string | null }) =>
+  normalizeSetType(set.set_type) !== 'warmup';
+
+// Planned set types for each of a workout exercise's sets; missing entries are working sets
+export const getPlannedSetTypes = (setTypes: string[] | null | undefined, count: number) =>
+  Array.from({ length: count }, (_, index) => normalizeSetType(setTypes?.[index]));
+
+export const getNextSelectableSetType = (type: SetType): SetType => {
+  const index = SELECTABLE_SET_TYPES.indexOf(type);
+  return SELECTABLE_SET_TYPES[(index + 1) % SELECTABLE_SET_TYPES.length];
+};
+
+// What gets stored for a plan: empty when every set is a working set
+export const toStoredSetTypes = (setTypes: SetType[] | undefined, count: number): SetType[] => {
+  const planned = getPlannedSetTypes(setTypes, count);
+  return planned.every((type) => type === DEFAULT_SET_TYPE) ? [] : planned;
+};
@@ -1,4 +1,11 @@
-import { supabase, SocialPost, createSocialPost, logSupabaseError } from './supabase';
+import {
+  supabase,
+  SocialPost,
+  createSocialPost,
+  getPostMediaPath,
+  logSupabaseError,
+  removePostMedia,
+} from './supabase';
 
 export interface SocialFeedPost extends SocialPost {
   profile: {
@@ -164,7 +171,8 @@ export const createWorkoutPost = async (
   userId: string,
   content: string,
   workoutSessionId?: number,
-  coachingPathId?: string | null
+  coachingPathId?: string | null,
+  mediaUrls?: string[]
 ): Promise<SocialPost | null> => {
   try {
     const postData = {
@@ -172,6 +180,7 @@ export const createWorkoutPost = async (
       content,
       post_type: 'workout' as const,
       workout_session_id: workoutSessionId,
+      media_urls: mediaUrls,
       coaching_path_id: coachingPathId ?? null,
       is_public: true,
     };
@@ -191,7 +200,8 @@ export const createAchievementPost = async (
   userId: string,
   content: string,
   achievementId: number,
-  coachingPathId?: string | null
+  coachingPathId?: string | null,
+  mediaUrls?: string[]
 ): Promise<SocialPost | null> => {
   try {
     const postData = {
@@ -199,6 +209,7 @@ export const createAchievementPost = async (
       content,
       post_type: 'achievement' as const,
       achievement_id: achievementId,
+      media_urls: mediaUrls,
       coaching_path_id: coachingPathId ?? null,
       is_public: true,
     };
@@ -240,16 +251,24 @@ export const createProgressPost = async (
   }
 };
 
-// Delete a post (only by the author)
+// Delete a post (only by the author) along with its uploaded media
 export const deletePost = async (postId: number, userId: string): Promise<boolean> => {
   try {
-    const { error } = await supabase
+    const { data, error } = await supabase
       .from('social_posts')
       .delete()
       .eq('id', postId)
-      .eq('user_id', userId);
+      .eq('user_id', userId)
+      .select('media_urls');
 
     if (error) throw error;
+
+    const paths = (data ?? [])
+      .flatMap((post) => post.media_urls ?? [])
+      .map(getPostMediaPath)
+      .filter((path): path is string => path !== null);
+    // The post is already gone; a failed cleanup only leaves files behind, so it is not fatal
+    await removePostMedia(paths);
     return true;
   } catch (error) {
     logSupabaseError(error, 'delete_post');
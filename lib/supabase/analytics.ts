@@ -80,6 +80,8 @@ export const getExerciseProgress = async (userId: string, exerciseId: number) =>
     .eq('session_exercise.session.user_id', userId)
     .eq('session_exercise.exercise_id', exerciseId)
     .eq('completed', true)
+    // Warm-ups would drag down every per-session chart
+    .neq('set_type', 'warmup')
     .order('created_at', { ascending: false });
 
   if (error) {
@@ -89,3 +91,34 @@ export const getExerciseProgress = async (userId: string, exerciseId: number) =>
 
   return data || [];
 };
+
+// The user's latest completed sessions that included the exercise, newest first
+export const getRecentExerciseSessions = async (
+  userId: string,
+  exerciseId: number,
+  limit: number = 5
+) => {
+  const { data, error } = await supabase
+    .from('session_exercises')
+    .select(
+      `
+      id,
+      session:workout_sessions!inner(id, user_id, completed_at),
+      sets:exercise_sets(
+        set_number, reps, weight_kg, duration_seconds, rpe, set_type, parent_set_id, completed
+      )
+    `
+    )
+    .eq('exercise_id', exerciseId)
+    .eq('session.user_id', userId)
+    .not('session.completed_at', 'is', null)
+    .order('id', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    handleSupabaseError(error, 'get_recent_exercise_sessions');
+    return [];
+  }
+
+  return data || [];
+};
@@ -0,0 +1,52 @@
+import { Database } from '@/types/supabase';
+import { supabase } from './client';
+import { handleSupabaseError } from './errors';
+
+export type UserEvent = Database['public']['Tables']['user_events']['Row'];
+export type UserEventType = 'personal_record' | 'achievement_unlocked';
+
+// Events are written by database triggers when a session is completed or a friend is accepted
+export const getUnreadUserEvents = async (
+  userId: string,
+  eventType: UserEventType,
+  sessionId?: number
+): Promise<UserEvent[]> => {
+  let query = supabase
+    .from('user_events')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('event_type', eventType)
+    .is('read_at', null)
+    .order('created_at', { ascending: true });
+
+  if (sessionId !== undefined) {
+    query = query.eq('session_id', sessionId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    handleSupabaseError(error, 'get_unread_user_events');
+    return [];
+  }
+
+  return data ?? [];
+};
+
+export const markUserEventsRead = async (eventIds: number[]) => {
+  if (eventIds.length === 0) return { error: null };
+
+  const { error } = await supabase
+    .from('user_events')
+    .update({ read_at: new Date().toISOString() })
+    .in('id', eventIds);
+
+  return { error: handleSupabaseError(error, 'mark_user_events_read') };
+};
+
+// Unlocks anything the triggers did not cover, e.g. achievements added after the fact
+export const evaluateMyAchievements = async () => {
+  const { data, error } = await supabase.rpc('evaluate_my_achievements');
+
+  return { data: data ?? [], error: handleSupabaseError(error, 'evaluate_my_achievements') };
+};
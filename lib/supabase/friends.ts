@@ -0,0 +1,119 @@
+import { Database } from '@/types/supabase';
+import { supabase } from './client';
+import { handleSupabaseError } from './errors';
+
+export type Friendship = Database['public']['Tables']['friendships']['Row'];
+export type FriendshipStatus = 'pending' | 'accepted' | 'declined' | 'blocked';
+
+export type FriendProfile = Pick<
+  Database['public']['Tables']['profiles']['Row'],
+  'id' | 'username' | 'full_name' | 'avatar_url'
+>;
+
+export type FriendConnection = {
+  friendship: Friendship;
+  profile: FriendProfile | null;
+  // Whether the current user sent (outgoing) or received (incoming) this row
+  direction: 'incoming' | 'outgoing';
+};
+
+const profileFields = 'id, username, full_name, avatar_url';
+
+// A friendship with both sides' profiles joined, as getFriendships selects it
+type FriendshipRow = Friendship & {
+  requester: FriendProfile | null;
+  addressee: FriendProfile | null;
+};
+
+export const searchUsers = async (query: string, limit = 20): Promise<FriendProfile[]> => {
+  const trimmed = query.trim();
+  if (trimmed.length < 2) return [];
+
+  const { data, error } = await supabase.rpc('search_profiles', {
+    p_query: trimmed,
+    p_limit: limit,
+  });
+
+  if (error) {
+    handleSupabaseError(error, 'search_users');
+    return [];
+  }
+
+  return data ?? [];
+};
+
+export const getFriendships = async (userId: string): Promise<FriendConnection[]> => {
+  const { data, error } = await supabase
+    .from('friendships')
+    .select(
+      `
+        *,
+        requester:profiles!friendships_requester_id_fkey(${profileFields}),
+        addressee:profiles!friendships_addressee_id_fkey(${profileFields})
+      `
+    )
+    .or(`requester_id.eq.${userId},addressee_id.eq.${userId}`)
+    .order('updated_at', { ascending: false });
+
+  if (error) {
+    handleSupabaseError(error, 'get_friendships');
+    return [];
+  }
+
+  return (data ?? []).map((row: FriendshipRow) => {
+    const { requester, addressee, ...friendship } = row;
+    const outgoing = friendship.requester_id === userId;
+    return {
+      friendship,
+      profile: (outgoing ? addressee : requester) ?? null,
+      direction: outgoing ? 'outgoing' : 'incoming',
+    };
+  });
+};
+
+export const getFriendCount = async (userId: string): Promise<number> => {
+  const { count, error } = await supabase
+    .from('friendships')
+    .select('id', { count: 'exact', head: true })
+    .eq('status', 'accepted')
+    .or(`requester_id.eq.${userId},addressee_id.eq.${userId}`);
+
+  if (error) {
+    handleSupabaseError(error, 'get_friend_count');
+    return 0;
+  }
+
+  return count ?? 0;
+};
+
+export const sendFriendRequest = async (addresseeId: string) => {
+  const { data, error } = await supabase.rpc('send_friend_request', {
+    p_addressee: addresseeId,
+  });
+
+  return { data, error: handleSupabaseError(error, 'send_friend_request') };
+};
+
+export const respondToFriendRequest = async (friendshipId: number, accept: boolean) => {
+  const { data, error } = await supabase
+    .from('friendships')
+    .update({ status: accept ? 'accepted' : 'declined' })
+    .eq('id', friendshipId)
+    .select()
+    .single();
+
+  return { data, error: handleSupabaseError(error, 'respond_friend_request') };
+};
+
+// Cancels an outgoing request, removes a friend or lifts a block
+export const removeFriendship = async (friendshipId: number) => {
+  const { error } = await supabase.from('friendships').delete().eq('id', friendshipId);
+
+  return { error: handleSupabaseError(error, 'remove_friendship') };
+};
+
+export const blockUser = async (userId: string) => {
+  const { error } = await supabase.rpc('block_user', { p_user: userId });
+
+  return { error: handleSupabaseError(error, 'block_user') };
+};
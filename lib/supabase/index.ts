@@ -8,23 +8,83 @@ export {
   getExercises,
   getWorkoutTemplates,
   getUserWorkouts,
+  getWorkoutPreview,
+  getWorkoutExerciseGroups,
+  getWorkoutExercises,
+  saveWorkoutPlan,
+  duplicateWorkout,
+  forkWorkout,
+  deleteWorkout,
   createWorkout,
   createWorkoutExercise,
+  createWorkoutExerciseGroup,
   createWorkoutSession,
   completeWorkoutSession,
+  createSessionExercise,
+  logExerciseSet,
   type Exercise,
   type Workout,
   type WorkoutInsert,
   type WorkoutExercise,
   type WorkoutExerciseInsert,
+  type WorkoutExerciseGroup,
+  type WorkoutExerciseGroupInsert,
+  type WorkoutExerciseWithExercise,
+  type WorkoutPlanDetails,
+  type WorkoutPlanGroup,
+  type WorkoutPlanExercise,
   type WorkoutSession,
   type WorkoutSessionInsert,
+  type SessionExerciseInsert,
+  type ExerciseSetInsert,
+  type WorkoutPreview,
+  type WorkoutPreviewExercise,
 } from './workouts';
 export { createSocialPost, type SocialPost, type SocialPostInsert } from './social';
+export {
+  uploadPostMedia,
+  removePostMedia,
+  getPostMediaKind,
+  getPostMediaPath,
+  getPostMediaUrl,
+  type PostMediaKind,
+  type PostMediaUpload,
+} from './media';
+export {
+  searchUsers,
+  getFriendships,
+  getFriendCount,
+  sendFriendRequest,
+  respondToFriendRequest,
+  removeFriendship,
+  blockUser,
+  type Friendship,
+  type FriendshipStatus,
+  type FriendProfile,
+  type FriendConnection,
+} from './friends';
+export {
+  getLeaderboard,
+  getLeaderboardRank,
+  type LeaderboardEntry,
+  type LeaderboardMetric,
+  type LeaderboardPage,
+  type LeaderboardQuery,
+  type LeaderboardScope,
+  type LeaderboardWindow,
+} from './leaderboard';
+export {
+  getUnreadUserEvents,
+  markUserEventsRead,
+  evaluateMyAchievements,
+  type UserEvent,
+  type UserEventType,
+} from './events';
 export {
   getUserPersonalRecords,
   getWorkoutAnalytics,
   getExerciseProgress,
+  getRecentExerciseSessions,
   getUserStreak,
   type PersonalRecord,
   type WorkoutStreak,
@@ -53,17 +113,58 @@ export {
   createPendingPayment,
   getUserPayments,
   approvePayment,
+  type BillingPeriod,
   type Product,
   type PaymentInsert,
   type Payment,
+  type PaymentEvent,
   uploadReceipt,
   getReceiptSignedUrl,
   getCoachPayments,
   getAdminPayments,
   rejectPayment,
+  refundPayment,
+  revokePayment,
   getUserEntitlements,
+  refreshEntitlementsForUser,
   type Entitlement,
   getPendingPaymentForFeatureKey,
 } from './payments';
+export {
+  getCoachBalance,
+  getPayoutBatches,
+  createPayoutBatch,
+  markPayoutBatchPaid,
+  getPayoutStatementEntries,
+  type LedgerEntry,
+  type CoachPayout,
+  type PayoutBatch,
+  type CoachBalance,
+} from './payouts';
+export {
+  validatePromoCode,
+  getCoachPromoCodes,
+  savePromoCode,
+  setPromoCodeActive,
+  normalizePromoCode,
+  formatPromoDiscount,
+  type PromoCode,
+  type PromoCodeInput,
+  type PromoQuote,
+} from './promoCodes';
+export {
+  getPurchasedWorkouts,
+  getPurchasedPathPacks,
+  startCoachingPathFromProduct,
+  getProductWorkoutIds,
+  setProductWorkouts,
+  setPremiumTemplates,
+  getCoachingBlueprint,
+  saveCoachingBlueprint,
+  type CoachingBlueprint,
+  type CoachingBlueprintInput,
+  type PurchasedWorkout,
+  type PurchasedPathPack,
+} from './productContent';
 
 export type Achievement = Database['public']['Tables']['achievements']['Row'];
@@ -0,0 +1,69 @@
+import { Database } from '@/types/supabase';
+import { supabase } from './client';
+import { handleSupabaseError } from './errors';
+
+export type LeaderboardMetric = 'workouts' | 'minutes' | 'volume' | 'streak';
+export type LeaderboardWindow = 'weekly' | 'monthly' | 'all_time';
+export type LeaderboardScope = 'global' | 'friends';
+
+export type LeaderboardEntry =
+  Database['public']['Functions']['get_leaderboard']['Returns'][number];
+
+export type LeaderboardQuery = {
+  metric: LeaderboardMetric;
+  window: LeaderboardWindow;
+  scope: LeaderboardScope;
+};
+
+export type LeaderboardPage = {
+  entries: LeaderboardEntry[];
+  totalCount: number;
+  nextOffset: number | null;
+};
+
+export const getLeaderboard = async (
+  query: LeaderboardQuery,
+  offset = 0,
+  limit = 20
+): Promise<LeaderboardPage> => {
+  const { data, error } = await supabase.rpc('get_leaderboard', {
+    p_metric: query.metric,
+    p_window: query.window,
+    p_scope: query.scope,
+    p_limit: limit,
+    p_offset: offset,
+  });
+
+  if (error) {
+    handleSupabaseError(error, 'get_leaderboard');
+    return { entries: [], totalCount: 0, nextOffset: null };
+  }
+
+  const entries = data ?? [];
+  const totalCount = entries[0]?.total_count ?? 0;
+  const loaded = offset + entries.length;
+
+  return {
+    entries,
+    totalCount,
+    nextOffset: loaded < totalCount ? loaded : null,
+  };
+};
+
+// Null when the caller has nothing to rank for this metric and window yet
+export const getLeaderboardRank = async (
+  query: LeaderboardQuery
+): Promise<LeaderboardEntry | null> => {
+  const { data, error } = await supabase.rpc('get_leaderboard_rank', {
+    p_metric: query.metric,
+    p_window: query.window,
+    p_scope: query.scope,
+  });
+
+  if (error) {
+    handleSupabaseError(error, 'get_leaderboard_rank');
+    return null;
+  }
+
+  return data?.[0] ?? null;
+};
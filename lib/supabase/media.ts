@@ -0,0 +1,104 @@
+import { supabase } from './client';
+import { handleSupabaseError } from './errors';
+import { getRequiredEnv } from '../env';
+
+export const POST_MEDIA_BUCKET = 'post-media';
+const PUBLIC_PATH_MARKER = `/storage/v1/object/public/${POST_MEDIA_BUCKET}/`;
+
+export type PostMediaKind = 'image' | 'video';
+
+export interface PostMediaUpload {
+  uri: string;
+  kind: PostMediaKind;
+  mimeType?: string | null;
+}
+
+const VIDEO_EXTENSIONS = ['mp4', 'mov', 'm4v'];
+
+export const getPostMediaKind = (url: string): PostMediaKind => {
+  const extension = url.split('?')[0].split('.').pop()?.toLowerCase() ?? '';
+  return VIDEO_EXTENSIONS.includes(extension) ? 'video' : 'image';
+};
+
+// Posts store storage paths in media_urls; posts made before that hold full public URLs
+const isUrl = (value: string) => value.includes('://');
+
+// URL to load a post's media from
+export const getPostMediaUrl = (value: string) =>
+  isUrl(value)
+    ? value
+    : supabase.storage.from(POST_MEDIA_BUCKET).getPublicUrl(value).data.publicUrl;
+
+// Storage path for a stored path or a public URL from this bucket, or null for anything else
+export const getPostMediaPath = (url: string): string | null => {
+  if (!isUrl(url)) return url;
+  const index = url.indexOf(PUBLIC_PATH_MARKER);
+  if (index === -1) return null;
+  return decodeURIComponent(url.slice(index + PUBLIC_PATH_MARKER.length).split('?')[0]);
+};
+
+const buildPath = (userId: string, media: PostMediaUpload) => {
+  const fromUri = media.uri.split('?')[0].split('.').pop()?.toLowerCase();
+  const extension =
+    media.kind === 'image'
+      ? 'jpg'
+      : fromUri && VIDEO_EXTENSIONS.includes(fromUri)
+        ? fromUri
+        : 'mp4';
+  const randomId = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  return `${userId}/${randomId}.${extension}`;
+};
+
+// supabase-js does not report upload progress, so this posts to the storage REST endpoint
+// directly with XHR. The path must start with the author's id to pass the bucket policies, and
+// is what posts store in media_urls.
+export const uploadPostMedia = async (
+  userId: string,
+  media: PostMediaUpload,
+  onProgress?: (fraction: number) => void
+) => {
+  const path = buildPath(userId, media);
+  const contentType = media.mimeType || (media.kind === 'video' ? 'video/mp4' : 'image/jpeg');
+
+  try {
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+    if (!session) throw new Error('Not signed in');
+
+    const blob = await (await fetch(media.uri)).blob();
+    const endpoint = `${getRequiredEnv('EXPO_PUBLIC_SUPABASE_URL')}/storage/v1/object/${POST_MEDIA_BUCKET}/${path}`;
+
+    await new Promise<void>((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      xhr.open('POST', endpoint);
+      xhr.setRequestHeader('Authorization', `Bearer ${session.access_token}`);
+      xhr.setRequestHeader('apikey', getRequiredEnv('EXPO_PUBLIC_SUPABASE_ANON_KEY'));
+      xhr.setRequestHeader('Content-Type', contentType);
+      xhr.setRequestHeader('x-upsert', 'false');
+      xhr.upload.onprogress = (event) => {
+        if (event.lengthComputable) onProgress?.(event.loaded / event.total);
+      };
+      xhr.onload = () => {
+        if (xhr.status >= 200 && xhr.status < 300) {
+          resolve();
+        } else {
+          reject(new Error(`Upload failed with status ${xhr.status}: ${xhr.responseText}`));
+        }
+      };
+      xhr.onerror = () => reject(new Error('Network error while uploading media'));
+      xhr.send(blob);
+    });
+
+    onProgress?.(1);
+    return { path, error: null };
+  } catch (error) {
+    return { path: null, error: handleSupabaseError(error as Error, 'upload_post_media') };
+  }
+};
+
+export const removePostMedia = async (paths: string[]) => {
+  if (paths.length === 0) return { error: null };
+  const { error } = await supabase.storage.from(POST_MEDIA_BUCKET).remove(paths);
+  return { error: handleSupabaseError(error, 'remove_post_media') };
+};
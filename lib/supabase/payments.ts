@@ -1,10 +1,17 @@
 import { supabase } from './client';
 import { handleSupabaseError } from './errors';
 
+export type BillingPeriod = 'one_off' | 'monthly' | 'yearly' | 'days';
+
 export type Product = {
   id: string;
   coach_id: string | null;
   type: 'template' | 'path_pack' | 'addon';
+  billing_period: BillingPeriod;
+  // Length of each period when billing_period is 'days' (e.g. a 30-day trial)
+  billing_period_days: number | null;
+  // Coaching blueprint a path_pack product delivers
+  blueprint_id?: string | null;
   feature_key?: string | null;
   title: string;
   description: string | null;
@@ -20,13 +27,15 @@ export type Product = {
   } | null;
 };
 
+// The coach, price snapshot and fee split are filled in by the payments_apply_fees trigger
 export type PaymentInsert = {
   user_id: string;
-  coach_id: string | null;
-  product_id: string | null;
+  product_id: string;
   amount_client_paid_cents: number;
-  platform_fee_cents: number;
-  coach_net_cents: number;
+  // Set when renewing an existing entitlement rather than buying for the first time
+  entitlement_id?: string | null;
+  // Checked and applied by the trigger; an invalid code rejects the insert
+  promo_code?: string | null;
   receipt_url?: string | null;
   notes?: string | null;
 };
@@ -37,17 +46,50 @@ export type Payment = {
   coach_id: string | null;
   product_id: string | null;
   amount_client_paid_cents: number;
+  price_cents: number | null;
+  // Taken off price_cents by promo_code; fees are computed on what is left
+  discount_cents: number;
+  promo_code: string | null;
+  promo_code_id: string | null;
+  currency: string | null;
   platform_fee_cents: number;
   coach_net_cents: number;
-  status: 'pending' | 'approved' | 'rejected';
+  fee_schedule_id: string | null;
+  billing_period: BillingPeriod | null;
+  billing_period_days: number | null;
+  entitlement_id: string | null;
+  // Set when the amount the buyer reported differs from the quoted price
+  amount_mismatch: boolean;
+  // Partially refunded payments stay approved; `refunded` means the full amount went back
+  status: 'pending' | 'approved' | 'rejected' | 'refunded' | 'revoked';
+  refunded_cents: number;
+  // Share of the refund taken from the coach's net
+  refunded_coach_cents: number;
+  refunded_at?: string | null;
   receipt_url?: string | null;
   notes?: string | null;
+  review_reason?: string | null;
   approved_at?: string | null;
   approved_by?: string | null;
   created_at: string;
   updated_at: string;
   products?: Product | null;
   user?: { full_name?: string | null; username?: string | null } | null;
+  events?: PaymentEvent[];
+};
+
+// Audit trail written by the approve/reject RPCs and on submission
+export type PaymentEvent = {
+  id: string;
+  payment_id: string;
+  actor_id: string | null;
+  previous_status: Payment['status'] | null;
+  new_status: Payment['status'];
+  reason: string | null;
+  // Amount returned, on refund events
+  amount_cents: number | null;
+  created_at: string;
+  actor?: { full_name?: string | null; username?: string | null } | null;
 };
 
 export type Entitlement = {
@@ -56,6 +98,8 @@ export type Entitlement = {
   product_id: string;
   source_payment_id: string | null;
   granted_at: string;
+  // Null for grants that never expire
+  expires_at: string | null;
   created_at: string;
   products?: Product | null;
 };
@@ -106,37 +150,57 @@ export const getUserPayments = async (userId: string): Promise<Payment[]> => {
   return (data as unknown as Payment[]) ?? [];
 };
 
-export const approvePayment = async (paymentId: string, approverId: string) => {
-  const { data, error } = await supabase
-    .from('payments' as any)
-    .update({ status: 'approved', approved_by: approverId, approved_at: new Date().toISOString() })
-    .eq('id', paymentId)
-    .select()
-    .single();
-
-  if (error) {
-    return { data: null, error: handleSupabaseError(error, 'approve_payment') };
-  }
-
-  const payment = (data as unknown as Payment | null) || null;
+// Approval and the entitlement grant happen in one admin-only transaction on the server
+export const approvePayment = async (paymentId: string, reason?: string | null) => {
+  const { data, error } = await supabase.rpc('approve_payment', {
+    p_payment_id: paymentId,
+    p_reason: reason || undefined,
+  });
+  return {
+    data: data || null,
+    error: handleSupabaseError(error, 'approve_payment'),
+  };
+};
 
-  if (payment?.product_id && payment.user_id) {
-    await supabase.from('entitlements' as any).insert({
-      user_id: payment.user_id,
-      product_id: payment.product_id,
-      source_payment_id: paymentId,
-    });
-  }
+// Only pending payments can be rejected; use refundPayment or revokePayment after approval
+export const rejectPayment = async (paymentId: string, reason?: string | null) => {
+  const { data, error } = await supabase.rpc('reject_payment', {
+    p_payment_id: paymentId,
+    p_reason: reason || undefined,
+  });
+  return {
+    data: data || null,
+    error: handleSupabaseError(error, 'reject_payment'),
+  };
+};
 
-  return { data: payment, error: null };
+// Leave amountCents empty to refund whatever has not been refunded yet
+export const refundPayment = async (
+  paymentId: string,
+  amountCents?: number | null,
+  reason?: string | null
+) => {
+  const { data, error } = await supabase.rpc('refund_payment', {
+    p_payment_id: paymentId,
+    p_amount_cents: amountCents ?? undefined,
+    p_reason: reason || undefined,
+  });
+  return {
+    data: data || null,
+    error: handleSupabaseError(error, 'refund_payment'),
+  };
 };
 
-export const rejectPayment = async (paymentId: string, reason?: string | null) => {
-  const { error } = await supabase
-    .from('payments' as any)
-    .update({ status: 'rejected', notes: reason || null })
-    .eq('id', paymentId);
-  return { error: handleSupabaseError(error, 'reject_payment') };
+// Removes the access an approved payment bought without refunding it
+export const revokePayment = async (paymentId: string, reason?: string | null) => {
+  const { data, error } = await supabase.rpc('revoke_payment', {
+    p_payment_id: paymentId,
+    p_reason: reason || undefined,
+  });
+  return {
+    data: data || null,
+    error: handleSupabaseError(error, 'revoke_payment'),
+  };
 };
 
 export const getCoachPayments = async (coachId: string): Promise<Payment[]> => {
@@ -146,7 +210,7 @@ export const getCoachPayments = async (coachId: string): Promise<Payment[]> => {
       `
       *,
       products:products(*),
-      user:profiles(full_name, username)
+      user:profiles!payments_user_id_fkey(full_name, username)
     `
     )
     .eq('coach_id', coachId)
@@ -166,10 +230,12 @@ export const getAdminPayments = async (): Promise<Payment[]> => {
       `
       *,
       products:products(*),
-      user:profiles(full_name, username)
+      user:profiles!payments_user_id_fkey(full_name, username),
+      events:payment_events(*, actor:profiles(full_name, username))
     `
     )
-    .order('created_at', { ascending: false });
+    .order('created_at', { ascending: false })
+    .order('created_at', { referencedTable: 'events', ascending: true });
 
   if (error) {
     handleSupabaseError(error, 'get_admin_payments');
@@ -219,6 +285,17 @@ export const getUserEntitlements = async (userId: string): Promise<Entitlement[]
   return (data as unknown as Entitlement[]) ?? [];
 };
 
+// Re-derives a user's grants from their approved payments; admins only
+export const refreshEntitlementsForUser = async (userId: string) => {
+  const { data, error } = await supabase.rpc('refresh_entitlements_for_user', {
+    p_user_id: userId,
+  });
+  return {
+    data: data?.[0] ?? null,
+    error: handleSupabaseError(error, 'refresh_entitlements_for_user'),
+  };
+};
+
 export const getPendingPaymentForFeatureKey = async (userId: string, featureKey: string) => {
   const { data: product, error: productError } = await supabase
     .from('products' as any)
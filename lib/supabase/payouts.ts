@@ -0,0 +1,93 @@
+import { Database } from '@/types/supabase';
+import { supabase } from './client';
+import { handleSupabaseError } from './errors';
+
+// Accounts: cash, platform_revenue, coach_payable and payout_pending. Positive amounts are debits
+// and negative amounts credits; each transaction sums to zero.
+export type LedgerEntry = Database['public']['Tables']['ledger_entries']['Row'] & {
+  payment?: { id: string; products: { title: string } | null } | null;
+};
+
+export type CoachPayout = Database['public']['Tables']['coach_payouts']['Row'] & {
+  coach?: { full_name: string | null; username: string } | null;
+};
+
+// status is 'open' until the batch is marked paid
+export type PayoutBatch = Database['public']['Tables']['payout_batches']['Row'] & {
+  payouts?: CoachPayout[];
+};
+
+export type CoachBalance = Database['public']['Functions']['get_coach_balance']['Returns'][number];
+
+export const getCoachBalance = async (coachId: string) => {
+  const { data, error } = await supabase.rpc('get_coach_balance', {
+    p_coach_id: coachId,
+  });
+  return {
+    data: data?.[0] ?? null,
+    error: handleSupabaseError(error, 'get_coach_balance'),
+  };
+};
+
+export const getPayoutBatches = async (): Promise<PayoutBatch[]> => {
+  const { data, error } = await supabase
+    .from('payout_batches')
+    .select(
+      `
+      *,
+      payouts:coach_payouts(*, coach:profiles(full_name, username))
+    `
+    )
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    handleSupabaseError(error, 'get_payout_batches');
+    return [];
+  }
+  return data ?? [];
+};
+
+// Batches every coach's unsettled earnings in [periodStart, periodEnd)
+export const createPayoutBatch = async (periodStart: string, periodEnd: string) => {
+  const { data, error } = await supabase.rpc('create_payout_batch', {
+    p_period_start: periodStart,
+    p_period_end: periodEnd,
+  });
+  return {
+    data: data || null,
+    error: handleSupabaseError(error, 'create_payout_batch'),
+  };
+};
+
+export const markPayoutBatchPaid = async (batchId: string, reference: string) => {
+  const { data, error } = await supabase.rpc('mark_payout_batch_paid', {
+    p_batch_id: batchId,
+    p_reference: reference,
+  });
+  return {
+    data: data || null,
+    error: handleSupabaseError(error, 'mark_payout_batch_paid'),
+  };
+};
+
+// The coach_payable entries each payout in a batch settled, for statements
+export const getPayoutStatementEntries = async (payoutIds: string[]): Promise<LedgerEntry[]> => {
+  if (payoutIds.length === 0) return [];
+  const { data, error } = await supabase
+    .from('ledger_entries')
+    .select(
+      `
+      *,
+      payment:payments(id, products:products(title))
+    `
+    )
+    .in('settled_by_payout_id', payoutIds)
+    .eq('account', 'coach_payable')
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    handleSupabaseError(error, 'get_payout_statement_entries');
+    return [];
+  }
+  return data ?? [];
+};
@@ -0,0 +1,209 @@
+import { Database } from '@/types/supabase';
+import { supabase } from './client';
+import { handleSupabaseError } from './errors';
+import type { Workout } from './workouts';
+import type { Product } from './payments';
+import { isEntitlementActive } from '../entitlements';
+
+export type CoachingBlueprint = Database['public']['Tables']['coaching_blueprints']['Row'] & {
+  workouts?: { workout_id: number; position: number }[];
+};
+
+export type CoachingBlueprintInput = {
+  id?: string | null;
+  coachId: string;
+  title: string;
+  goalType: string;
+  weeks: number;
+  sessionsPerWeek: number;
+  workoutIds: number[];
+};
+
+export type PurchasedWorkout = {
+  workout: Workout;
+  product: Pick<Product, 'id' | 'title'>;
+  expiresAt: string | null;
+};
+
+export type PurchasedPathPack = {
+  product: Pick<Product, 'id' | 'title' | 'description'>;
+  blueprint: CoachingBlueprint;
+  expiresAt: string | null;
+};
+
+// Content behind the user's active entitlements; workouts are readable through the purchase RLS
+const getEntitledContent = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('entitlements')
+    .select(
+      `
+      expires_at,
+      products:products(
+        id,
+        title,
+        description,
+        blueprint:coaching_blueprints(*),
+        product_workouts(position, workout:workouts(*))
+      )
+    `
+    )
+    .eq('user_id', userId);
+
+  if (error) {
+    handleSupabaseError(error, 'get_entitled_content');
+    return [];
+  }
+  return (data ?? []).filter((row) => isEntitlementActive(row));
+};
+
+export const getPurchasedWorkouts = async (userId: string): Promise<PurchasedWorkout[]> => {
+  const rows = await getEntitledContent(userId);
+  return rows.flatMap((row) =>
+    row.products
+      ? [...row.products.product_workouts]
+          .sort((a, b) => a.position - b.position)
+          .filter((item) => item.workout)
+          .map((item) => ({
+            workout: item.workout as Workout,
+            product: { id: row.products!.id, title: row.products!.title },
+            expiresAt: row.expires_at,
+          }))
+      : []
+  );
+};
+
+export const getPurchasedPathPacks = async (userId: string): Promise<PurchasedPathPack[]> => {
+  const rows = await getEntitledContent(userId);
+  return rows
+    .filter((row) => row.products?.blueprint)
+    .map((row) => ({
+      product: {
+        id: row.products!.id,
+        title: row.products!.title,
+        description: row.products!.description,
+      },
+      blueprint: row.products!.blueprint as CoachingBlueprint,
+      expiresAt: row.expires_at,
+    }));
+};
+
+export const startCoachingPathFromProduct = async (productId: string) => {
+  const { data, error } = await supabase.rpc('start_coaching_path_from_product', {
+    p_product_id: productId,
+  });
+  return {
+    data: data ?? null,
+    error: handleSupabaseError(error, 'start_coaching_path_from_product'),
+  };
+};
+
+export const getProductWorkoutIds = async (productId: string): Promise<number[]> => {
+  const { data, error } = await supabase
+    .from('product_workouts')
+    .select('workout_id, position')
+    .eq('product_id', productId)
+    .order('position');
+
+  if (error) {
+    handleSupabaseError(error, 'get_product_workout_ids');
+    return [];
+  }
+  return (data ?? []).map((row) => row.workout_id);
+};
+
+// Replaces the workouts a template product delivers, keeping the given order
+export const setProductWorkouts = async (productId: string, workoutIds: number[]) => {
+  const { error: deleteError } = await supabase
+    .from('product_workouts')
+    .delete()
+    .eq('product_id', productId);
+  if (deleteError) {
+    return { error: handleSupabaseError(deleteError, 'set_product_workouts') };
+  }
+  if (workoutIds.length === 0) return { error: null };
+
+  const { error } = await supabase.from('product_workouts').insert(
+    workoutIds.map((workoutId, position) => ({
+      product_id: productId,
+      workout_id: workoutId,
+      position,
+    }))
+  );
+  return { error: handleSupabaseError(error, 'set_product_workouts') };
+};
+
+// Lists the given workouts in the public template library, locked behind the product. Workouts
+// that were locked behind it before are unlisted rather than left public for free.
+export const setPremiumTemplates = async (productId: string, workoutIds: number[]) => {
+  const { error: clearError } = await supabase
+    .from('workouts')
+    .update({ premium_product_id: null, is_public: false })
+    .eq('premium_product_id', productId);
+  if (clearError) {
+    return { error: handleSupabaseError(clearError, 'set_premium_templates') };
+  }
+  if (workoutIds.length === 0) return { error: null };
+
+  const { error } = await supabase
+    .from('workouts')
+    .update({ premium_product_id: productId, is_public: true, is_template: true })
+    .in('id', workoutIds);
+  return { error: handleSupabaseError(error, 'set_premium_templates') };
+};
+
+export const getCoachingBlueprint = async (
+  blueprintId: string
+): Promise<CoachingBlueprint | null> => {
+  const { data, error } = await supabase
+    .from('coaching_blueprints')
+    .select('*, workouts:coaching_blueprint_workouts(workout_id, position)')
+    .eq('id', blueprintId)
+    .maybeSingle();
+
+  if (error) {
+    handleSupabaseError(error, 'get_coaching_blueprint');
+    return null;
+  }
+  return data ?? null;
+};
+
+// Creates or updates a blueprint and replaces its workout rotation
+export const saveCoachingBlueprint = async (input: CoachingBlueprintInput) => {
+  const payload = {
+    coach_id: input.coachId,
+    title: input.title,
+    goal_type: input.goalType,
+    weeks: input.weeks,
+    sessions_per_week: input.sessionsPerWeek,
+    updated_at: new Date().toISOString(),
+  };
+  const query = input.id
+    ? supabase.from('coaching_blueprints').update(payload).eq('id', input.id)
+    : supabase.from('coaching_blueprints').insert(payload);
+  const { data, error } = await query.select().single();
+  if (error || !data) {
+    return { data: null, error: handleSupabaseError(error, 'save_coaching_blueprint') };
+  }
+
+  const blueprint: CoachingBlueprint = data;
+  const { error: deleteError } = await supabase
+    .from('coaching_blueprint_workouts')
+    .delete()
+    .eq('blueprint_id', blueprint.id);
+  if (deleteError) {
+    return { data: null, error: handleSupabaseError(deleteError, 'save_coaching_blueprint') };
+  }
+  if (input.workoutIds.length > 0) {
+    const { error: insertError } = await supabase.from('coaching_blueprint_workouts').insert(
+      input.workoutIds.map((workoutId, position) => ({
+        blueprint_id: blueprint.id,
+        workout_id: workoutId,
+        position,
+      }))
+    );
+    if (insertError) {
+      return { data: null, error: handleSupabaseError(insertError, 'save_coaching_blueprint') };
+    }
+  }
+  return { data: blueprint, error: null };
+};
@@ -0,0 +1,99 @@
+import { Database } from '@/types/supabase';
+import { supabase } from './client';
+import { handleSupabaseError } from './errors';
+
+export type PromoCode = Omit<
+  Database['public']['Tables']['promo_codes']['Row'],
+  'discount_type'
+> & {
+  discount_type: 'percent' | 'fixed';
+};
+
+export type PromoCodeInput = {
+  id?: string;
+  code: string;
+  coachId: string;
+  // Null applies the code to every product the coach sells
+  productId: string | null;
+  discountType: PromoCode['discount_type'];
+  // Whole percent for 'percent' codes, cents for 'fixed' ones
+  discountValue: number;
+  expiresAt: string | null;
+  maxRedemptions: number | null;
+  perUserLimit: number;
+  isActive: boolean;
+};
+
+// What validate_promo_code() quotes for a product; nothing is redeemed until the payment is made
+export type PromoQuote = {
+  promo_code_id: string;
+  code: string;
+  discount_type: PromoCode['discount_type'];
+  discount_value: number;
+  price_cents: number;
+  discount_cents: number;
+  final_price_cents: number;
+};
+
+export const normalizePromoCode = (code: string) => code.trim().toUpperCase();
+
+export const formatPromoDiscount = (promo: Pick<PromoCode, 'discount_type' | 'discount_value'>) =>
+  promo.discount_type === 'percent'
+    ? `${promo.discount_value}% off`
+    : `$${(promo.discount_value / 100).toFixed(2)} off`;
+
+export const validatePromoCode = async (code: string, productId: string) => {
+  const { data, error } = await supabase.rpc('validate_promo_code', {
+    p_code: normalizePromoCode(code),
+    p_product_id: productId,
+  });
+  return {
+    data: (data as PromoQuote | null) ?? null,
+    error: handleSupabaseError(error, 'validate_promo_code'),
+  };
+};
+
+export const getCoachPromoCodes = async (coachId: string): Promise<PromoCode[]> => {
+  const { data, error } = await supabase
+    .from('promo_codes')
+    .select('*')
+    .eq('coach_id', coachId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    handleSupabaseError(error, 'get_coach_promo_codes');
+    return [];
+  }
+  return (data as PromoCode[]) ?? [];
+};
+
+export const savePromoCode = async (input: PromoCodeInput) => {
+  const payload = {
+    code: normalizePromoCode(input.code),
+    coach_id: input.coachId,
+    product_id: input.productId,
+    discount_type: input.discountType,
+    discount_value: input.discountValue,
+    expires_at: input.expiresAt,
+    max_redemptions: input.maxRedemptions,
+    per_user_limit: input.perUserLimit,
+    is_active: input.isActive,
+    updated_at: new Date().toISOString(),
+  };
+  const query = input.id
+    ? supabase.from('promo_codes').update(payload).eq('id', input.id)
+    : supabase.from('promo_codes').insert(payload);
+  const { data, error } = await query.select().single();
+  return {
+    data: (data as PromoCode | null) ?? null,
+    error: handleSupabaseError(error, 'save_promo_code'),
+  };
+};
+
+export const setPromoCodeActive = async (id: string, isActive: boolean) => {
+  const { error } = await supabase
+    .from('promo_codes')
+    .update({ is_active: isActive, updated_at: new Date().toISOString() })
+    .eq('id', id);
+  return { error: handleSupabaseError(error, 'set_promo_code_active') };
+};
@@ -7,8 +7,70 @@ export type Workout = Database['public']['Tables']['workouts']['Row'];
 export type WorkoutInsert = Database['public']['Tables']['workouts']['Insert'];
 export type WorkoutExercise = Database['public']['Tables']['workout_exercises']['Row'];
 export type WorkoutExerciseInsert = Database['public']['Tables']['workout_exercises']['Insert'];
+export type WorkoutExerciseGroup = Omit<
+  Database['public']['Tables']['workout_exercise_groups']['Row'],
+  'group_type'
+> & {
+  group_type: 'superset' | 'circuit' | 'emom' | 'amrap';
+};
+export type WorkoutExerciseGroupInsert =
+  Database['public']['Tables']['workout_exercise_groups']['Insert'];
 export type WorkoutSession = Database['public']['Tables']['workout_sessions']['Row'];
 export type WorkoutSessionInsert = Database['public']['Tables']['workout_sessions']['Insert'];
+export type SessionExerciseInsert = Database['public']['Tables']['session_exercises']['Insert'];
+export type ExerciseSetInsert = Database['public']['Tables']['exercise_sets']['Insert'];
+
+export type WorkoutExerciseWithExercise = WorkoutExercise & { exercise: Exercise | null };
+
+// Shape save_workout_plan() expects; groups are matched to exercises by their client-side key
+export type WorkoutPlanDetails = Pick<
+  WorkoutInsert,
+  | 'name'
+  | 'description'
+  | 'estimated_duration_minutes'
+  | 'difficulty_level'
+  | 'workout_type'
+  | 'is_template'
+  | 'is_public'
+>;
+
+export type WorkoutPlanGroup = Omit<
+  WorkoutExerciseGroupInsert,
+  'id' | 'workout_id' | 'created_at' | 'group_type'
+> & {
+  key: string;
+  group_type: WorkoutExerciseGroup['group_type'];
+};
+
+export type WorkoutPlanExercise = {
+  // Existing workout_exercises row to update; left out for new exercises
+  id?: number;
+  exercise_id: number;
+  target_sets: number;
+  target_reps: number[];
+  target_weight_kg: number | null;
+  target_duration_seconds: number | null;
+  rest_seconds: number;
+  notes: string | null;
+  group_key: string | null;
+  // Planned set type per set; empty when they are all working sets
+  set_types: string[];
+};
+
+export type WorkoutPreviewExercise = {
+  id: number;
+  name: string;
+  muscle_groups: string[] | null;
+  target_sets: number;
+  target_reps: number[] | null;
+  target_duration_seconds: number | null;
+};
+
+export type WorkoutPreview = {
+  exercise_count: number;
+  muscle_groups: string[];
+  exercises: WorkoutPreviewExercise[];
+};
 
 export const getExercises = async (): Promise<Exercise[]> => {
   const { data, error } = await supabase.from('exercises').select('*').order('name');
@@ -27,6 +89,7 @@ export const getWorkoutTemplates = async (): Promise<Workout[]> => {
     .select('*')
     .eq('is_template', true)
     .eq('is_public', true)
+    .is('deleted_at', null)
     .order('name');
 
   if (error) {
@@ -37,11 +100,60 @@ export const getWorkoutTemplates = async (): Promise<Workout[]> => {
   return data || [];
 };
 
+// Readable for locked premium templates, whose full exercise list is hidden by RLS
+export const getWorkoutPreview = async (workoutId: number): Promise<WorkoutPreview | null> => {
+  const { data, error } = await supabase.rpc('get_workout_preview', {
+    p_workout_id: workoutId,
+  });
+
+  if (error) {
+    handleSupabaseError(error, 'get_workout_preview');
+    return null;
+  }
+
+  return (data as WorkoutPreview | null) ?? null;
+};
+
+export const getWorkoutExerciseGroups = async (
+  workoutId: number
+): Promise<WorkoutExerciseGroup[]> => {
+  const { data, error } = await supabase
+    .from('workout_exercise_groups')
+    .select('*')
+    .eq('workout_id', workoutId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    handleSupabaseError(error, 'get_workout_exercise_groups');
+    return [];
+  }
+
+  return (data as WorkoutExerciseGroup[]) ?? [];
+};
+
+export const getWorkoutExercises = async (
+  workoutId: number
+): Promise<WorkoutExerciseWithExercise[]> => {
+  const { data, error } = await supabase
+    .from('workout_exercises')
+    .select('*, exercise:exercises(*)')
+    .eq('workout_id', workoutId)
+    .order('order_index');
+
+  if (error) {
+    handleSupabaseError(error, 'get_workout_exercises');
+    return [];
+  }
+
+  return (data as WorkoutExerciseWithExercise[]) ?? [];
+};
+
 export const getUserWorkouts = async (userId: string): Promise<Workout[]> => {
   const { data, error } = await supabase
     .from('workouts')
     .select('*')
     .eq('creator_id', userId)
+    .is('deleted_at', null)
     .order('created_at', { ascending: false });
 
   if (error) {
@@ -58,6 +170,72 @@ export const createWorkout = async (workout: WorkoutInsert) => {
   return { data, error: handleSupabaseError(error, 'create_workout') };
 };
 
+// Saves the workout's details, groups and exercises in one transaction. Exercise rows are updated
+// in place, so sessions already logged against the workout are left as they were.
+export const saveWorkoutPlan = async (
+  workoutId: number,
+  details: WorkoutPlanDetails,
+  groups: WorkoutPlanGroup[],
+  exercises: WorkoutPlanExercise[]
+) => {
+  const { error } = await supabase.rpc('save_workout_plan', {
+    p_workout_id: workoutId,
+    p_details: details,
+    p_groups: groups,
+    p_exercises: exercises,
+  });
+  return { error: handleSupabaseError(error, 'save_workout_plan') };
+};
+
+export const duplicateWorkout = async (workoutId: number) => {
+  const { data, error } = await supabase.rpc('duplicate_workout', {
+    p_workout_id: workoutId,
+  });
+  return {
+    data: data ?? null,
+    error: handleSupabaseError(error, 'duplicate_workout'),
+  };
+};
+
+// Copies a public template (or a bought premium one) into a private workout that keeps a link
+// back to it and counts towards the template's fork_count
+export const forkWorkout = async (workoutId: number) => {
+  const { data, error } = await supabase.rpc('fork_workout', {
+    p_workout_id: workoutId,
+  });
+  return {
+    data: data ?? null,
+    error: handleSupabaseError(error, 'fork_workout'),
+  };
+};
+
+// Soft delete: past sessions keep their link to the workout and buyers keep purchased copies
+export const deleteWorkout = async (workoutId: number) => {
+  const { error } = await supabase
+    .from('workouts')
+    .update({
+      deleted_at: new Date().toISOString(),
+      is_public: false,
+      premium_product_id: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', workoutId);
+  return { error: handleSupabaseError(error, 'delete_workout') };
+};
+
+export const createWorkoutExerciseGroup = async (group: WorkoutExerciseGroupInsert) => {
+  const { data, error } = await supabase
+    .from('workout_exercise_groups')
+    .insert(group)
+    .select()
+    .single();
+
+  return {
+    data: data as WorkoutExerciseGroup | null,
+    error: handleSupabaseError(error, 'create_workout_exercise_group'),
+  };
+};
+
 export const createWorkoutExercise = async (workoutExercise: WorkoutExerciseInsert) => {
   const { data, error } = await supabase
     .from('workout_exercises')
@@ -68,22 +246,48 @@ export const createWorkoutExercise = async (workoutExercise: WorkoutExerciseInse
   return { data, error: handleSupabaseError(error, 'create_workout_exercise') };
 };
 
+// Session, exercise and set writes upsert on client_id so a replayed offline write is applied once
 export const createWorkoutSession = async (session: WorkoutSessionInsert) => {
-  const { data, error } = await supabase.from('workout_sessions').insert(session).select().single();
+  const { data, error } = await supabase
+    .from('workout_sessions')
+    .upsert(session, { onConflict: 'client_id' })
+    .select()
+    .single();
 
   return { data, error: handleSupabaseError(error, 'create_workout_session') };
 };
 
+export const createSessionExercise = async (sessionExercise: SessionExerciseInsert) => {
+  const { data, error } = await supabase
+    .from('session_exercises')
+    .upsert(sessionExercise, { onConflict: 'client_id' })
+    .select()
+    .single();
+
+  return { data, error: handleSupabaseError(error, 'create_session_exercise') };
+};
+
+export const logExerciseSet = async (set: ExerciseSetInsert) => {
+  const { data, error } = await supabase
+    .from('exercise_sets')
+    .upsert(set, { onConflict: 'client_id' })
+    .select()
+    .single();
+
+  return { data, error: handleSupabaseError(error, 'log_exercise_set') };
+};
+
 export const completeWorkoutSession = async (
   sessionId: number,
   duration: number,
   calories?: number,
-  rating?: number
+  rating?: number,
+  completedAt?: string
 ) => {
   const { data, error } = await supabase
     .from('workout_sessions')
     .update({
-      completed_at: new Date().toISOString(),
+      completed_at: completedAt ?? new Date().toISOString(),
       duration_minutes: duration,
       calories_burned: calories,
       rating,
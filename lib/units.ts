@@ -0,0 +1,78 @@
+// Storage is always metric (`weight_kg`, `distance_meters`, height in cm); these helpers only
+// convert at the edges for display and input.
+export type UnitSystem = 'metric' | 'imperial';
+
+export const KG_PER_LB = 0.45359237;
+export const METERS_PER_MILE = 1609.344;
+export const CM_PER_INCH = 2.54;
+
+// Smallest plate-friendly increment for each system.
+export const PLATE_STEP: Record<UnitSystem, number> = {
+  metric: 2.5,
+  imperial: 5,
+};
+
+export const normalizeUnitSystem = (value?: string | null): UnitSystem =>
+  value === 'imperial' ? 'imperial' : 'metric';
+
+const roundTo = (value: number, decimals: number) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+export const kgToLb = (kg: number) => kg / KG_PER_LB;
+export const lbToKg = (lb: number) => lb * KG_PER_LB;
+export const cmToInches = (cm: number) => cm / CM_PER_INCH;
+export const inchesToCm = (inches: number) => inches * CM_PER_INCH;
+
+export const getWeightUnit = (system: UnitSystem) => (system === 'imperial' ? 'lb' : 'kg');
+export const getHeightUnit = (system: UnitSystem) => (system === 'imperial' ? 'in' : 'cm');
+
+export const toDisplayWeight = (kg: number, system: UnitSystem) =>
+  roundTo(system === 'imperial' ? kgToLb(kg) : kg, 1);
+
+export const fromDisplayWeight = (value: number, system: UnitSystem) =>
+  system === 'imperial' ? lbToKg(value) : value;
+
+export const toDisplayHeight = (cm: number, system: UnitSystem) =>
+  roundTo(system === 'imperial' ? cmToInches(cm) : cm, 1);
+
+export const fromDisplayHeight = (value: number, system: UnitSystem) =>
+  system === 'imperial' ? inchesToCm(value) : value;
+
+// Rounds a value already in display units to the nearest loadable plate step.
+export const roundToPlate = (value: number, system: UnitSystem) => {
+  const step = PLATE_STEP[system];
+  return roundTo(Math.round(value / step) * step, 2);
+};
+
+export const formatWeight = (
+  kg: number,
+  system: UnitSystem,
+  options: { compact?: boolean } = {}
+) => {
+  const value = toDisplayWeight(kg, system);
+  const unit = getWeightUnit(system);
+  if (options.compact && value >= 1000) {
+    return `${roundTo(value / 1000, 1)}k ${unit}`;
+  }
+  return `${value} ${unit}`;
+};
+
+export const formatDistance = (meters: number, system: UnitSystem) => {
+  if (system === 'imperial') {
+    const miles = meters / METERS_PER_MILE;
+    if (miles >= 0.1) return `${miles.toFixed(1)} mi`;
+    return `${Math.round(meters * 1.0936133)} yd`;
+  }
+  if (meters >= 1000) return `${(meters / 1000).toFixed(1)} km`;
+  return `${meters} m`;
+};
+
+export const formatHeight = (cm: number, system: UnitSystem) => {
+  if (system === 'imperial') {
+    const totalInches = Math.round(cmToInches(cm));
+    return `${Math.floor(totalInches / 12)}'${totalInches % 12}"`;
+  }
+  return `${Math.round(cm)} cm`;
+};
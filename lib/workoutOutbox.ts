@@ -0,0 +1,453 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { onlineManager } from '@tanstack/react-query';
+import {
+  completeWorkoutSession,
+  createSessionExercise,
+  createWorkoutSession,
+  logExerciseSet,
+  logSupabaseError,
+  type ExerciseSetInsert,
+  type SessionExerciseInsert,
+  type WorkoutSessionInsert,
+} from './supabase';
+
+// Each user gets their own outbox, so writes queued before a sign-out are replayed under the
+// account that made them once it signs back in.
+const OUTBOX_STORAGE_KEY = 'gymverse.workout-outbox';
+const OUTBOX_VERSION = 1;
+
+// Resolved temporary IDs are kept this long so screens holding them can still finish the session.
+const ID_MAP_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Operations the server keeps rejecting are reported to the user after this many tries. They stay
+// queued until the user retries or discards them.
+const MAX_ATTEMPTS = 5;
+
+type OutboxOperationBase = {
+  id: string;
+  createdAt: string;
+  attempts: number;
+};
+
+export type OutboxOperation = OutboxOperationBase &
+  (
+    | { type: 'create_session'; localId: number; payload: WorkoutSessionInsert }
+    | {
+        type: 'create_session_exercise';
+        localId: number;
+        sessionId: number;
+        payload: Omit<SessionExerciseInsert, 'session_id'>;
+      }
+    | {
+        type: 'log_set';
+        // Missing on sets queued before drop sets could point at them
+        localId?: number;
+        sessionExerciseId: number;
+        // The set a drop set continues
+        parentSetId?: number | null;
+        payload: Omit<ExerciseSetInsert, 'session_exercise_id' | 'parent_set_id'>;
+      }
+    | {
+        type: 'complete_session';
+        sessionId: number;
+        durationMinutes: number;
+        caloriesBurned?: number;
+        rating?: number;
+        completedAt: string;
+      }
+  );
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+type NewOutboxOperation = DistributiveOmit<OutboxOperation, keyof OutboxOperationBase>;
+
+export type OutboxOperationType = OutboxOperation['type'];
+
+type OutboxState = {
+  version: number;
+  operations: OutboxOperation[];
+  // Temporary (negative) client IDs mapped to the IDs the server assigned on replay.
+  idMap: Record<string, number>;
+};
+
+export type CompletedSessionSync = {
+  localId: number;
+  sessionId: number;
+};
+
+// The first queued write that has failed MAX_ATTEMPTS times; nothing after it syncs until it does.
+export type OutboxFailure = {
+  operationId: string;
+  type: OutboxOperationType;
+  attempts: number;
+  message: string;
+};
+
+export type OutboxFlushResult = {
+  synced: number;
+  pending: number;
+  completedSessions: CompletedSessionSync[];
+  failed: OutboxFailure | null;
+};
+
+let storeQueue: Promise<unknown> = Promise.resolve();
+const flushesInFlight = new Map<string, Promise<OutboxFlushResult>>();
+let localIdCounter = 0;
+
+const getStorageKey = (userId: string) => `${OUTBOX_STORAGE_KEY}.${userId}`;
+
+const emptyState = (): OutboxState => ({ version: OUTBOX_VERSION, operations: [], idMap: {} });
+
+const readState = async (userId: string): Promise<OutboxState> => {
+  try {
+    const raw = await AsyncStorage.getItem(getStorageKey(userId));
+    if (!raw) return emptyState();
+    const parsed = JSON.parse(raw) as OutboxState;
+    return parsed.version === OUTBOX_VERSION ? parsed : emptyState();
+  } catch (error) {
+    console.error('Error reading workout outbox:', error);
+    return emptyState();
+  }
+};
+
+const writeState = async (userId: string, state: OutboxState) => {
+  await AsyncStorage.setItem(getStorageKey(userId), JSON.stringify(state));
+};
+
+// Serializes read-modify-write cycles so enqueues during a flush are never lost.
+const updateState = <T>(
+  userId: string,
+  updater: (state: OutboxState) => T | Promise<T>
+): Promise<T> => {
+  const run = storeQueue.then(async () => {
+    const state = await readState(userId);
+    const result = await updater(state);
+    await writeState(userId, state);
+    return result;
+  });
+  storeQueue = run.catch(() => undefined);
+  return run;
+};
+
+const createOperationId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+// Random (version 4) UUID sent with each insert; replays upsert on it so a write is applied once
+const createClientId = () =>
+  'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (char) => {
+    const random = Math.floor(Math.random() * 16);
+    return (char === 'x' ? random : (random & 0x3) | 0x8).toString(16);
+  });
+
+// Temporary IDs are negative so they can never collide with serial primary keys.
+export const createLocalId = () => {
+  localIdCounter = (localIdCounter + 1) % 1000;
+  return -(Date.now() * 1000 + localIdCounter);
+};
+
+export const isLocalId = (id: number) => id < 0;
+
+const getLocalIdCreatedAt = (id: number) => Math.floor(-id / 1000);
+
+const resolveWithMap = (id: number, idMap: Record<string, number>) =>
+  isLocalId(id) ? (idMap[String(id)] ?? null) : id;
+
+const enqueue = (userId: string, operation: NewOutboxOperation) =>
+  updateState(userId, (state) => {
+    state.operations.push({
+      ...operation,
+      id: createOperationId(),
+      createdAt: new Date().toISOString(),
+      attempts: 0,
+    } as OutboxOperation);
+  });
+
+export const queueWorkoutSession = async (userId: string, payload: WorkoutSessionInsert) => {
+  const localId = createLocalId();
+  await enqueue(userId, {
+    type: 'create_session',
+    localId,
+    payload: { ...payload, client_id: createClientId() },
+  });
+  return localId;
+};
+
+export const queueSessionExercise = async (
+  userId: string,
+  sessionId: number,
+  payload: Omit<SessionExerciseInsert, 'session_id'>
+) => {
+  const localId = createLocalId();
+  await enqueue(userId, {
+    type: 'create_session_exercise',
+    localId,
+    sessionId,
+    payload: { ...payload, client_id: createClientId() },
+  });
+  return localId;
+};
+
+export const queueExerciseSet = async (
+  userId: string,
+  sessionExerciseId: number,
+  payload: Omit<ExerciseSetInsert, 'session_exercise_id' | 'parent_set_id'>,
+  parentSetId: number | null = null
+) => {
+  const localId = createLocalId();
+  await enqueue(userId, {
+    type: 'log_set',
+    localId,
+    sessionExerciseId,
+    parentSetId,
+    payload: { ...payload, client_id: createClientId() },
+  });
+  return localId;
+};
+
+export const queueCompleteSession = (
+  userId: string,
+  sessionId: number,
+  durationMinutes: number,
+  caloriesBurned?: number,
+  rating?: number,
+  completedAt: string = new Date().toISOString()
+) =>
+  enqueue(userId, {
+    type: 'complete_session',
+    sessionId,
+    durationMinutes,
+    caloriesBurned,
+    rating,
+    completedAt,
+  });
+
+// Returns the server ID for a (possibly temporary) ID, or null if it has not synced yet.
+export const resolveOutboxId = async (userId: string, id: number) => {
+  if (!isLocalId(id)) return id;
+  const state = await readState(userId);
+  return resolveWithMap(id, state.idMap);
+};
+
+const referencesSession = (
+  operation: OutboxOperation,
+  sessionId: number,
+  sessionExerciseIds: Set<number>
+) => {
+  switch (operation.type) {
+    case 'create_session':
+      return operation.localId === sessionId;
+    case 'create_session_exercise':
+      return operation.sessionId === sessionId;
+    case 'log_set':
+      return sessionExerciseIds.has(operation.sessionExerciseId);
+    case 'complete_session':
+      return operation.sessionId === sessionId;
+  }
+};
+
+const collectSessionExerciseIds = (operations: OutboxOperation[], sessionId: number) =>
+  new Set(
+    operations.flatMap((operation) =>
+      operation.type === 'create_session_exercise' && operation.sessionId === sessionId
+        ? [operation.localId]
+        : []
+    )
+  );
+
+export const hasPendingSessionOperations = async (userId: string, sessionId: number) => {
+  const state = await readState(userId);
+  const serverId = resolveWithMap(sessionId, state.idMap);
+  const ids = [sessionId, serverId].filter((id): id is number => id !== null);
+  return ids.some((id) => {
+    const sessionExerciseIds = collectSessionExerciseIds(state.operations, id);
+    return state.operations.some((operation) =>
+      referencesSession(operation, id, sessionExerciseIds)
+    );
+  });
+};
+
+// Drops every queued write for a session. Returns the server ID if the session already synced,
+// so the caller can remove the server row as well.
+export const discardQueuedSession = (userId: string, sessionId: number) =>
+  updateState(userId, (state) => {
+    const serverId = resolveWithMap(sessionId, state.idMap);
+    const ids = [sessionId, serverId].filter((id): id is number => id !== null);
+    ids.forEach((id) => {
+      const sessionExerciseIds = collectSessionExerciseIds(state.operations, id);
+      state.operations = state.operations.filter(
+        (operation) => !referencesSession(operation, id, sessionExerciseIds)
+      );
+    });
+    return serverId;
+  });
+
+// Local IDs an operation needs resolved before it can be replayed
+const getReferencedIds = (operation: OutboxOperation): number[] => {
+  switch (operation.type) {
+    case 'create_session':
+      return [];
+    case 'create_session_exercise':
+      return [operation.sessionId];
+    case 'log_set':
+      return operation.parentSetId
+        ? [operation.sessionExerciseId, operation.parentSetId]
+        : [operation.sessionExerciseId];
+    case 'complete_session':
+      return [operation.sessionId];
+  }
+};
+
+// Drops a write the user gave up on, together with the queued writes that depend on it: a
+// session's exercises, sets and completion, an exercise's sets or a set's drop sets.
+export const discardOutboxOperation = (userId: string, operationId: string) =>
+  updateState(userId, (state) => {
+    const removedIds = new Set<number>();
+    state.operations = state.operations.filter((operation) => {
+      const isDependent = getReferencedIds(operation).some((id) => removedIds.has(id));
+      if (operation.id !== operationId && !isDependent) return true;
+      if ('localId' in operation && operation.localId !== undefined) {
+        removedIds.add(operation.localId);
+      }
+      return false;
+    });
+  });
+
+const getErrorMessage = (error: unknown) =>
+  typeof error === 'object' && error !== null && 'message' in error
+    ? String(error.message)
+    : 'The server did not return the saved row';
+
+type ReplayResult =
+  | { status: 'synced'; serverId?: number }
+  | { status: 'blocked' }
+  | { status: 'failed'; error: unknown };
+
+const replayOperation = async (
+  operation: OutboxOperation,
+  idMap: Record<string, number>
+): Promise<ReplayResult> => {
+  switch (operation.type) {
+    case 'create_session': {
+      const { data, error } = await createWorkoutSession(operation.payload);
+      if (error || !data) return { status: 'failed', error };
+      return { status: 'synced', serverId: data.id };
+    }
+    case 'create_session_exercise': {
+      const sessionId = resolveWithMap(operation.sessionId, idMap);
+      if (sessionId === null) return { status: 'blocked' };
+      const { data, error } = await createSessionExercise({
+        ...operation.payload,
+        session_id: sessionId,
+      });
+      if (error || !data) return { status: 'failed', error };
+      return { status: 'synced', serverId: data.id };
+    }
+    case 'log_set': {
+      const sessionExerciseId = resolveWithMap(operation.sessionExerciseId, idMap);
+      if (sessionExerciseId === null) return { status: 'blocked' };
+      const parentSetId = operation.parentSetId
+        ? resolveWithMap(operation.parentSetId, idMap)
+        : null;
+      if (operation.parentSetId && parentSetId === null) return { status: 'blocked' };
+      const { data, error } = await logExerciseSet({
+        ...operation.payload,
+        session_exercise_id: sessionExerciseId,
+        parent_set_id: parentSetId,
+      });
+      if (error || !data) return { status: 'failed', error };
+      return { status: 'synced', serverId: data.id };
+    }
+    case 'complete_session': {
+      const sessionId = resolveWithMap(operation.sessionId, idMap);
+      if (sessionId === null) return { status: 'blocked' };
+      const { error } = await completeWorkoutSession(
+        sessionId,
+        operation.durationMinutes,
+        operation.caloriesBurned,
+        operation.rating,
+        operation.completedAt
+      );
+      if (error) return { status: 'failed', error };
+      return { status: 'synced', serverId: sessionId };
+    }
+  }
+};
+
+const runFlush = async (userId: string): Promise<OutboxFlushResult> => {
+  const completedSessions: CompletedSessionSync[] = [];
+  let synced = 0;
+  let failed: OutboxFailure | null = null;
+
+  while (onlineManager.isOnline()) {
+    const { operations, idMap } = await readState(userId);
+    const operation = operations[0];
+    if (!operation) break;
+
+    const result = await replayOperation(operation, idMap);
+
+    // Failed writes stay at the head of the queue, so nothing that depends on them is lost.
+    if (result.status !== 'synced') {
+      const message =
+        result.status === 'blocked'
+          ? 'A write it depends on is no longer queued'
+          : getErrorMessage(result.error);
+      failed = await updateState(userId, (state) => {
+        const current = state.operations.find((item) => item.id === operation.id);
+        if (!current) return null;
+        // Going offline mid-request is not the write's fault
+        if (onlineManager.isOnline()) current.attempts += 1;
+        // A missing parent never comes back, so retrying cannot help
+        if (result.status === 'blocked')
+          current.attempts = Math.max(current.attempts, MAX_ATTEMPTS);
+        if (current.attempts < MAX_ATTEMPTS) return null;
+        return { operationId: current.id, type: current.type, attempts: current.attempts, message };
+      });
+      if (failed && result.status === 'failed') {
+        logSupabaseError(result.error, `outbox_${operation.type}`);
+      }
+      break;
+    }
+
+    await updateState(userId, (state) => {
+      state.operations = state.operations.filter((item) => item.id !== operation.id);
+      if (result.serverId === undefined) return;
+      if (operation.type === 'create_session' || operation.type === 'create_session_exercise') {
+        state.idMap[String(operation.localId)] = result.serverId;
+      }
+      if (operation.type === 'log_set' && operation.localId !== undefined) {
+        state.idMap[String(operation.localId)] = result.serverId;
+      }
+      if (operation.type === 'complete_session') {
+        completedSessions.push({ localId: operation.sessionId, sessionId: result.serverId });
+      }
+    });
+
+    synced += 1;
+  }
+
+  const pending = await updateState(userId, (state) => {
+    const cutoff = Date.now() - ID_MAP_RETENTION_MS;
+    Object.keys(state.idMap).forEach((localId) => {
+      if (getLocalIdCreatedAt(Number(localId)) < cutoff) delete state.idMap[localId];
+    });
+    return state.operations.length;
+  });
+
+  return { synced, pending, completedSessions, failed };
+};
+
+// Replays a user's queued writes in order. Concurrent callers share the same in-flight flush.
+export const flushOutbox = (userId: string): Promise<OutboxFlushResult> => {
+  let flush = flushesInFlight.get(userId);
+  if (!flush) {
+    flush = runFlush(userId)
+      .catch((error) => {
+        console.error('Error flushing workout outbox:', error);
+        return { synced: 0, pending: -1, completedSessions: [], failed: null };
+      })
+      .finally(() => {
+        flushesInFlight.delete(userId);
+      });
+    flushesInFlight.set(userId, flush);
+  }
+  return flush;
+};
@@ -0,0 +1,418 @@
+-- Coaching subsystem: adaptive paths made of weekly blocks and planned sessions
+
+-- Paths owned by a single user
+create table if not exists public.coaching_paths (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  goal_type text not null,
+  weeks integer not null check (weeks between 1 and 52),
+  current_week integer default 1 check (current_week >= 1),
+  status text not null default 'active' check (status in ('active','paused','completed')),
+  baseline_metrics jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+-- Ensure baseline_metrics exists for existing deployments
+alter table public.coaching_paths
+  add column if not exists baseline_metrics jsonb not null default '{}'::jsonb;
+
+-- One block per week of a path
+create table if not exists public.coaching_blocks (
+  id uuid primary key default gen_random_uuid(),
+  path_id uuid not null references public.coaching_paths(id) on delete cascade,
+  week_index integer not null check (week_index >= 1),
+  focus text,
+  readiness_target jsonb,
+  created_at timestamptz not null default now(),
+  unique (path_id, week_index)
+);
+
+-- Planned sessions within a block, optionally backed by a template workout
+create table if not exists public.coaching_sessions (
+  id uuid primary key default gen_random_uuid(),
+  block_id uuid not null references public.coaching_blocks(id) on delete cascade,
+  session_index integer not null check (session_index >= 1),
+  template_workout_id integer references public.workouts(id) on delete set null,
+  planned_duration integer check (planned_duration > 0),
+  planned_load jsonb,
+  notes text,
+  created_at timestamptz not null default now(),
+  unique (block_id, session_index)
+);
+
+-- Audit trail of adaptations (progression, deload, recalcs)
+create table if not exists public.coaching_events (
+  id uuid primary key default gen_random_uuid(),
+  path_id uuid not null references public.coaching_paths(id) on delete cascade,
+  type text not null,
+  payload jsonb,
+  created_at timestamptz not null default now()
+);
+
+-- Indexes
+create index if not exists idx_coaching_paths_user on public.coaching_paths(user_id, created_at desc);
+create index if not exists idx_coaching_blocks_path on public.coaching_blocks(path_id, week_index);
+create index if not exists idx_coaching_sessions_block on public.coaching_sessions(block_id, session_index);
+create index if not exists idx_coaching_sessions_template on public.coaching_sessions(template_workout_id);
+create index if not exists idx_coaching_events_path on public.coaching_events(path_id, created_at desc);
+
+-- Enable RLS
+alter table public.coaching_paths enable row level security;
+alter table public.coaching_blocks enable row level security;
+alter table public.coaching_sessions enable row level security;
+alter table public.coaching_events enable row level security;
+
+-- Paths: owners manage their own
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public' and tablename = 'coaching_paths' and policyname = 'Coaching paths owner manage'
+  ) then
+    create policy "Coaching paths owner manage" on public.coaching_paths
+      for all using (user_id = auth.uid())
+      with check (user_id = auth.uid());
+  end if;
+end$$;
+
+-- Blocks: scoped through the owning path
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public' and tablename = 'coaching_blocks' and policyname = 'Coaching blocks owner manage'
+  ) then
+    create policy "Coaching blocks owner manage" on public.coaching_blocks
+      for all using (
+        exists (
+          select 1 from public.coaching_paths p
+          where p.id = path_id and p.user_id = auth.uid()
+        )
+      )
+      with check (
+        exists (
+          select 1 from public.coaching_paths p
+          where p.id = path_id and p.user_id = auth.uid()
+        )
+      );
+  end if;
+end$$;
+
+-- Sessions: scoped through block -> path
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public' and tablename = 'coaching_sessions' and policyname = 'Coaching sessions owner manage'
+  ) then
+    create policy "Coaching sessions owner manage" on public.coaching_sessions
+      for all using (
+        exists (
+          select 1
+          from public.coaching_blocks b
+          join public.coaching_paths p on p.id = b.path_id
+          where b.id = block_id and p.user_id = auth.uid()
+        )
+      )
+      with check (
+        exists (
+          select 1
+          from public.coaching_blocks b
+          join public.coaching_paths p on p.id = b.path_id
+          where b.id = block_id and p.user_id = auth.uid()
+        )
+      );
+  end if;
+end$$;
+
+-- Events: owners can read and append, history is immutable from the client
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public' and tablename = 'coaching_events' and policyname = 'Coaching events owner read'
+  ) then
+    create policy "Coaching events owner read" on public.coaching_events
+      for select using (
+        exists (
+          select 1 from public.coaching_paths p
+          where p.id = path_id and p.user_id = auth.uid()
+        )
+      );
+  end if;
+end$$;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public' and tablename = 'coaching_events' and policyname = 'Coaching events owner insert'
+  ) then
+    create policy "Coaching events owner insert" on public.coaching_events
+      for insert with check (
+        exists (
+          select 1 from public.coaching_paths p
+          where p.id = path_id and p.user_id = auth.uid()
+        )
+      );
+  end if;
+end$$;
+
+-- Seed a path with weekly blocks and sessions drawn from the public template workouts.
+-- Sessions per week come from baseline_metrics.schedule (e.g. '3x/week'); template difficulty
+-- follows baseline_metrics.fitness_level, falling back to the profile's fitness level.
+create or replace function public.create_coaching_path(
+  goal_type text,
+  weeks integer,
+  baseline_metrics jsonb default '{}'::jsonb
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  v_user uuid := auth.uid();
+  v_path_id uuid;
+  v_block_id uuid;
+  v_metrics jsonb := coalesce(baseline_metrics, '{}'::jsonb);
+  v_goal text := lower(trim(goal_type));
+  v_weeks integer := weeks;
+  v_sessions_per_week integer;
+  v_level text;
+  v_types text[];
+  v_templates integer[];
+  v_template_count integer;
+  v_template_id integer;
+  v_base_duration integer;
+  v_week integer;
+  v_session integer;
+  v_slot integer := 0;
+  v_phase text;
+  v_focus text;
+  v_rpe integer;
+  v_volume numeric;
+begin
+  if v_user is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  if v_goal is null or v_goal = '' then
+    raise exception 'goal_type is required' using errcode = '22023';
+  end if;
+
+  if v_weeks is null or v_weeks < 4 or v_weeks > 16 then
+    raise exception 'weeks must be between 4 and 16' using errcode = '22023';
+  end if;
+
+  v_sessions_per_week := least(
+    6,
+    greatest(2, coalesce(nullif(substring(v_metrics->>'schedule' from '(\d+)'), '')::integer, 3))
+  );
+
+  select coalesce(
+    nullif(v_metrics->>'fitness_level', ''),
+    (select fitness_level from public.profiles where id = v_user),
+    'beginner'
+  ) into v_level;
+
+  if v_level not in ('beginner', 'intermediate', 'advanced') then
+    v_level := 'beginner';
+  end if;
+
+  v_types := case v_goal
+    when '5k' then array['cardio', 'hiit']
+    when 'fat_loss' then array['hiit', 'cardio', 'strength']
+    when 'recomp' then array['strength', 'hiit', 'mixed']
+    when 'hypertrophy' then array['strength']
+    when 'first_pullup' then array['strength']
+    else array['strength', 'mixed', 'cardio']
+  end;
+
+  -- Prefer templates at the user's level, then any level of the right type, then anything public
+  select array_agg(id order by array_position(v_types, workout_type), id)
+  into v_templates
+  from public.workouts
+  where is_template = true
+    and is_public = true
+    and workout_type = any(v_types)
+    and difficulty_level = v_level;
+
+  if v_templates is null then
+    select array_agg(id order by array_position(v_types, workout_type), id)
+    into v_templates
+    from public.workouts
+    where is_template = true
+      and is_public = true
+      and workout_type = any(v_types);
+  end if;
+
+  if v_templates is null then
+    select array_agg(id order by id)
+    into v_templates
+    from public.workouts
+    where is_template = true
+      and is_public = true;
+  end if;
+
+  v_template_count := coalesce(array_length(v_templates, 1), 0);
+
+  insert into public.coaching_paths (user_id, goal_type, weeks, current_week, status, baseline_metrics)
+  values (v_user, v_goal, v_weeks, 1, 'active', v_metrics)
+  returning id into v_path_id;
+
+  for v_week in 1..v_weeks loop
+    -- Base -> build -> peak, with a deload every 4th week and a test/taper final week
+    if v_week = v_weeks then
+      v_phase := case when v_goal = '5k' then 'taper' else 'test' end;
+      v_rpe := 7;
+      v_volume := 0.7;
+    elsif v_week % 4 = 0 then
+      v_phase := 'deload';
+      v_rpe := 6;
+      v_volume := 0.6;
+    elsif v_week <= ceil(v_weeks * 0.4) then
+      v_phase := 'base';
+      v_rpe := 7;
+      v_volume := 0.9;
+    elsif v_week <= ceil(v_weeks * 0.8) then
+      v_phase := 'build';
+      v_rpe := 8;
+      v_volume := 1.0;
+    else
+      v_phase := 'peak';
+      v_rpe := 9;
+      v_volume := 1.1;
+    end if;
+
+    v_focus := case v_goal
+      when 'first_pullup' then case v_phase
+        when 'base' then 'Scapular strength and hangs'
+        when 'build' then 'Negatives and assisted reps'
+        when 'peak' then 'Heavy singles and holds'
+        when 'deload' then 'Recovery and mobility'
+        else 'Pull-up test'
+      end
+      when '5k' then case v_phase
+        when 'base' then 'Aerobic base'
+        when 'build' then 'Tempo and threshold'
+        when 'peak' then 'Race-pace intervals'
+        when 'deload' then 'Easy mileage'
+        else 'Taper and race'
+      end
+      when 'hypertrophy' then case v_phase
+        when 'base' then 'Volume accumulation'
+        when 'build' then 'Progressive overload'
+        when 'peak' then 'Intensity techniques'
+        when 'deload' then 'Deload'
+        else 'Rep max check-in'
+      end
+      when 'fat_loss' then case v_phase
+        when 'base' then 'Conditioning base'
+        when 'build' then 'Metabolic circuits'
+        when 'peak' then 'High-intensity intervals'
+        when 'deload' then 'Active recovery'
+        else 'Progress check-in'
+      end
+      else initcap(v_phase) || ' phase'
+    end;
+
+    insert into public.coaching_blocks (path_id, week_index, focus, readiness_target)
+    values (
+      v_path_id,
+      v_week,
+      v_focus,
+      jsonb_build_object('phase', v_phase, 'target_rpe', v_rpe, 'min_readiness', v_rpe - 2)
+    )
+    returning id into v_block_id;
+
+    for v_session in 1..v_sessions_per_week loop
+      v_template_id := null;
+      v_base_duration := 45;
+
+      if v_template_count > 0 then
+        v_template_id := v_templates[(v_slot % v_template_count) + 1];
+        select coalesce(estimated_duration_minutes, 45)
+        into v_base_duration
+        from public.workouts
+        where id = v_template_id;
+      end if;
+
+      insert into public.coaching_sessions (
+        block_id, session_index, template_workout_id, planned_duration, planned_load, notes
+      )
+      values (
+        v_block_id,
+        v_session,
+        v_template_id,
+        greatest(15, round(v_base_duration * v_volume)::integer),
+        jsonb_build_object('phase', v_phase, 'rpe_target', v_rpe, 'volume_multiplier', v_volume),
+        'Week ' || v_week || ' • ' || v_focus
+      );
+
+      v_slot := v_slot + 1;
+    end loop;
+  end loop;
+
+  return v_path_id;
+end;
+$$;
+
+-- Coaching cue for a planned session: session notes, path goal and the latest adaptation
+create or replace function public.get_coach_notes(p_path_id uuid, p_session_id uuid)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_path public.coaching_paths%rowtype;
+  v_session record;
+  v_last_event jsonb;
+  v_cue text;
+begin
+  select * into v_path
+  from public.coaching_paths
+  where id = p_path_id and user_id = auth.uid();
+
+  if not found then
+    return null;
+  end if;
+
+  select s.notes, s.planned_duration, s.planned_load, b.week_index, b.focus
+  into v_session
+  from public.coaching_sessions s
+  join public.coaching_blocks b on b.id = s.block_id
+  where s.id = p_session_id and b.path_id = p_path_id;
+
+  if not found then
+    return null;
+  end if;
+
+  select jsonb_build_object('type', e.type, 'payload', e.payload, 'created_at', e.created_at)
+  into v_last_event
+  from public.coaching_events e
+  where e.path_id = p_path_id
+  order by e.created_at desc
+  limit 1;
+
+  v_cue := coalesce(nullif(v_session.notes, ''), v_session.focus, 'Stay consistent today.');
+  if v_session.planned_load ? 'rpe_target' then
+    v_cue := v_cue || ' • Aim for RPE ' || (v_session.planned_load->>'rpe_target');
+  end if;
+  if v_session.planned_duration is not null then
+    v_cue := v_cue || ' • ~' || v_session.planned_duration || ' min';
+  end if;
+
+  return jsonb_build_object(
+    'cue', v_cue,
+    'goal', v_path.goal_type || ' • Week ' || v_session.week_index || ' of ' || v_path.weeks,
+    'last_event', v_last_event
+  );
+end;
+$$;
+
+grant execute on function public.create_coaching_path(text, integer, jsonb) to authenticated;
+grant execute on function public.get_coach_notes(uuid, uuid) to authenticated;
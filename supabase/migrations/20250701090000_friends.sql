@@ -0,0 +1,208 @@
+-- Friends: request lifecycle, blocking and user search on top of public.friendships
+
+-- Keep a single row per pair of users regardless of who sent the request
+delete from public.friendships f
+using public.friendships other
+where f.requester_id = other.addressee_id
+  and f.addressee_id = other.requester_id
+  and f.id > other.id;
+
+create unique index if not exists idx_friendships_pair
+  on public.friendships (least(requester_id, addressee_id), greatest(requester_id, addressee_id));
+
+create index if not exists idx_friendships_addressee_status
+  on public.friendships(addressee_id, status);
+create index if not exists idx_friendships_requester_status
+  on public.friendships(requester_id, status);
+
+-- Blocked rows are only visible to the user who blocked
+drop policy if exists "Users can view own friendships" on public.friendships;
+create policy "Users can view own friendships" on public.friendships
+  for select using (
+    requester_id = auth.uid()
+    or (addressee_id = auth.uid() and status <> 'blocked')
+  );
+
+-- Only the addressee answers a pending request; blocks are managed through block_user
+drop policy if exists "Users can update friendships they're involved in" on public.friendships;
+create policy "Addressee can respond to friend requests" on public.friendships
+  for update using (addressee_id = auth.uid() and status = 'pending')
+  with check (addressee_id = auth.uid() and status in ('accepted', 'declined'));
+
+-- Cancel, unfriend and unblock are deletes; a blocked user cannot remove the block
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public' and tablename = 'friendships' and policyname = 'Users can remove own friendships'
+  ) then
+    create policy "Users can remove own friendships" on public.friendships
+      for delete using (
+        requester_id = auth.uid()
+        or (addressee_id = auth.uid() and status <> 'blocked')
+      );
+  end if;
+end$$;
+
+-- Private profiles stay visible to friends and to either side of a pending request
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public' and tablename = 'profiles' and policyname = 'Friends can view profiles'
+  ) then
+    create policy "Friends can view profiles" on public.profiles
+      for select using (
+        exists (
+          select 1 from public.friendships f
+          where f.status in ('pending', 'accepted')
+            and (
+              (f.requester_id = auth.uid() and f.addressee_id = profiles.id)
+              or (f.addressee_id = auth.uid() and f.requester_id = profiles.id)
+            )
+        )
+      );
+  end if;
+end$$;
+
+-- Requests can only be created through send_friend_request
+drop policy if exists "Users can create friendship requests" on public.friendships;
+
+-- Keep updated_at current on status changes
+create or replace function public.touch_friendship_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists friendships_touch_updated_at on public.friendships;
+create trigger friendships_touch_updated_at
+  before update on public.friendships
+  for each row execute function public.touch_friendship_updated_at();
+
+-- Sends a request, or accepts the reverse request if the other user already asked
+create or replace function public.send_friend_request(p_addressee uuid)
+returns public.friendships
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user uuid := auth.uid();
+  v_existing public.friendships%rowtype;
+  v_result public.friendships%rowtype;
+begin
+  if v_user is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  if p_addressee is null or p_addressee = v_user then
+    raise exception 'Invalid friend request' using errcode = '22023';
+  end if;
+
+  select * into v_existing
+  from public.friendships
+  where least(requester_id, addressee_id) = least(v_user, p_addressee)
+    and greatest(requester_id, addressee_id) = greatest(v_user, p_addressee)
+  for update;
+
+  if not found then
+    insert into public.friendships (requester_id, addressee_id, status)
+    values (v_user, p_addressee, 'pending')
+    returning * into v_result;
+    return v_result;
+  end if;
+
+  if v_existing.status = 'blocked' then
+    raise exception 'Friend request not allowed' using errcode = '42501';
+  end if;
+
+  if v_existing.status = 'accepted' then
+    return v_existing;
+  end if;
+
+  if v_existing.status = 'pending' and v_existing.addressee_id = v_user then
+    update public.friendships set status = 'accepted'
+    where id = v_existing.id
+    returning * into v_result;
+    return v_result;
+  end if;
+
+  -- Re-send after a decline, or a repeat send of our own pending request
+  update public.friendships
+  set requester_id = v_user, addressee_id = p_addressee, status = 'pending'
+  where id = v_existing.id
+  returning * into v_result;
+  return v_result;
+end;
+$$;
+
+-- Replaces any relationship with the user by a block owned by the caller
+create or replace function public.block_user(p_user uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user uuid := auth.uid();
+begin
+  if v_user is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  if p_user is null or p_user = v_user then
+    raise exception 'Invalid user' using errcode = '22023';
+  end if;
+
+  delete from public.friendships
+  where least(requester_id, addressee_id) = least(v_user, p_user)
+    and greatest(requester_id, addressee_id) = greatest(v_user, p_user);
+
+  insert into public.friendships (requester_id, addressee_id, status)
+  values (v_user, p_user, 'blocked');
+end;
+$$;
+
+-- Username search that hides the caller and anyone on either side of a block
+create or replace function public.search_profiles(p_query text, p_limit integer default 20)
+returns table (
+  id uuid,
+  username text,
+  full_name text,
+  avatar_url text
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p.id, p.username, p.full_name, p.avatar_url
+  from public.profiles p
+  where auth.uid() is not null
+    and length(trim(coalesce(p_query, ''))) >= 2
+    and p.id <> auth.uid()
+    and coalesce(p.is_public, true)
+    and (
+      p.username ilike '%' || trim(p_query) || '%'
+      or p.full_name ilike '%' || trim(p_query) || '%'
+    )
+    and not exists (
+      select 1 from public.friendships f
+      where f.status = 'blocked'
+        and (
+          (f.requester_id = auth.uid() and f.addressee_id = p.id)
+          or (f.requester_id = p.id and f.addressee_id = auth.uid())
+        )
+    )
+  order by (p.username ilike trim(p_query) || '%') desc, p.username
+  limit least(greatest(coalesce(p_limit, 20), 1), 50);
+$$;
+
+grant execute on function public.send_friend_request(uuid) to authenticated;
+grant execute on function public.block_user(uuid) to authenticated;
+grant execute on function public.search_profiles(text, integer) to authenticated;
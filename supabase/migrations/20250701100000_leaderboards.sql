@@ -0,0 +1,223 @@
+-- Ranked leaderboards computed in the database so clients never download other users' sessions
+
+create index if not exists idx_workout_sessions_user_completed
+  on public.workout_sessions(user_id, completed_at)
+  where completed_at is not null;
+
+-- Shared ranking for get_leaderboard and get_leaderboard_rank; not callable by clients
+create or replace function public.leaderboard_entries(
+  p_viewer uuid,
+  p_metric text,
+  p_window text,
+  p_scope text
+)
+returns table (
+  user_id uuid,
+  username text,
+  full_name text,
+  avatar_url text,
+  value numeric,
+  workouts bigint,
+  streak integer,
+  rank bigint
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with bounds as (
+    select case p_window
+      when 'weekly' then date_trunc('week', now())
+      when 'monthly' then date_trunc('month', now())
+    end as since
+  ),
+  participants as (
+    select p.id, p.username, p.full_name, p.avatar_url
+    from public.profiles p
+    where case p_scope
+      when 'friends' then
+        p.id = p_viewer
+        or exists (
+          select 1 from public.friendships f
+          where f.status = 'accepted'
+            and (
+              (f.requester_id = p_viewer and f.addressee_id = p.id)
+              or (f.addressee_id = p_viewer and f.requester_id = p.id)
+            )
+        )
+      else
+        (coalesce(p.is_public, true) or p.id = p_viewer)
+        and not exists (
+          select 1 from public.friendships f
+          where f.status = 'blocked'
+            and (
+              (f.requester_id = p_viewer and f.addressee_id = p.id)
+              or (f.addressee_id = p_viewer and f.requester_id = p.id)
+            )
+        )
+    end
+  ),
+  window_sessions as (
+    select s.id, s.user_id, s.duration_minutes
+    from public.workout_sessions s
+    cross join bounds b
+    where s.completed_at is not null
+      and (b.since is null or s.completed_at >= b.since)
+      and s.user_id in (select id from participants)
+  ),
+  session_totals as (
+    select ws.user_id, count(*) as workouts, coalesce(sum(ws.duration_minutes), 0) as minutes
+    from window_sessions ws
+    group by ws.user_id
+  ),
+  volume_totals as (
+    select ws.user_id, coalesce(sum(es.weight_kg * es.reps), 0) as volume
+    from window_sessions ws
+    join public.session_exercises se on se.session_id = ws.id
+    join public.exercise_sets es on es.session_exercise_id = se.id
+    where p_metric = 'volume'
+      and coalesce(es.completed, true)
+    group by ws.user_id
+  ),
+  scored as (
+    select
+      pt.id as user_id,
+      pt.username,
+      pt.full_name,
+      pt.avatar_url,
+      (case p_metric
+        when 'minutes' then coalesce(st.minutes, 0)
+        when 'volume' then coalesce(vt.volume, 0)
+        -- Streaks have no window of their own: all-time ranks the best streak ever
+        when 'streak' then case
+          when p_window = 'all_time' then coalesce(wk.longest_streak, 0)
+          else coalesce(wk.current_streak, 0)
+        end
+        else coalesce(st.workouts, 0)
+      end)::numeric as value,
+      coalesce(st.workouts, 0) as workouts,
+      coalesce(wk.current_streak, 0) as streak
+    from participants pt
+    left join session_totals st on st.user_id = pt.id
+    left join volume_totals vt on vt.user_id = pt.id
+    left join public.workout_streaks wk on wk.user_id = pt.id
+  )
+  select
+    sc.user_id,
+    sc.username,
+    sc.full_name,
+    sc.avatar_url,
+    sc.value,
+    sc.workouts,
+    sc.streak,
+    rank() over (order by sc.value desc) as rank
+  from scored sc
+  where sc.value > 0;
+$$;
+
+revoke all on function public.leaderboard_entries(uuid, text, text, text) from public, anon, authenticated;
+
+create or replace function public.validate_leaderboard_args(
+  p_metric text,
+  p_window text,
+  p_scope text
+)
+returns void
+language plpgsql
+immutable
+as $$
+begin
+  if p_metric not in ('workouts', 'minutes', 'volume', 'streak') then
+    raise exception 'Unknown leaderboard metric %', p_metric using errcode = '22023';
+  end if;
+  if p_window not in ('weekly', 'monthly', 'all_time') then
+    raise exception 'Unknown leaderboard window %', p_window using errcode = '22023';
+  end if;
+  if p_scope not in ('global', 'friends') then
+    raise exception 'Unknown leaderboard scope %', p_scope using errcode = '22023';
+  end if;
+end;
+$$;
+
+-- One page of the leaderboard; total_count lets the client know whether more pages exist
+create or replace function public.get_leaderboard(
+  p_metric text default 'workouts',
+  p_window text default 'weekly',
+  p_scope text default 'global',
+  p_limit integer default 20,
+  p_offset integer default 0
+)
+returns table (
+  user_id uuid,
+  username text,
+  full_name text,
+  avatar_url text,
+  value numeric,
+  workouts bigint,
+  streak integer,
+  rank bigint,
+  total_count bigint
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  perform public.validate_leaderboard_args(p_metric, p_window, p_scope);
+
+  return query
+  select e.*, count(*) over () as total_count
+  from public.leaderboard_entries(auth.uid(), p_metric, p_window, p_scope) e
+  order by e.rank, e.username
+  limit least(greatest(coalesce(p_limit, 20), 1), 100)
+  offset greatest(coalesce(p_offset, 0), 0);
+end;
+$$;
+
+-- The caller's own row, so it can be pinned even when it falls outside the loaded pages
+create or replace function public.get_leaderboard_rank(
+  p_metric text default 'workouts',
+  p_window text default 'weekly',
+  p_scope text default 'global'
+)
+returns table (
+  user_id uuid,
+  username text,
+  full_name text,
+  avatar_url text,
+  value numeric,
+  workouts bigint,
+  streak integer,
+  rank bigint,
+  total_count bigint
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  perform public.validate_leaderboard_args(p_metric, p_window, p_scope);
+
+  return query
+  select ranked.*
+  from (
+    select e.*, count(*) over () as total_count
+    from public.leaderboard_entries(auth.uid(), p_metric, p_window, p_scope) e
+  ) ranked
+  where ranked.user_id = auth.uid();
+end;
+$$;
+
+grant execute on function public.get_leaderboard(text, text, text, integer, integer) to authenticated;
+grant execute on function public.get_leaderboard_rank(text, text, text) to authenticated;
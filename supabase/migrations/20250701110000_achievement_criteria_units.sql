@@ -0,0 +1,7 @@
+-- "Heavy Lifter" is described in lbs, while set weights are stored in kg.
+-- The criteria evaluator converts when a rule carries an explicit unit.
+update public.achievements
+set criteria = criteria || '{"unit": "lb"}'::jsonb
+where criteria->>'type' = 'total_weight'
+  and name = 'Heavy Lifter'
+  and not (criteria ? 'unit');
@@ -0,0 +1,477 @@
+-- Personal records and achievement unlocks are computed in the database when a session is
+-- completed, in the same transaction as the completion. Clients read the outcome from user_events.
+
+create table if not exists public.user_events (
+  id bigserial primary key,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  session_id integer references public.workout_sessions(id) on delete set null,
+  event_type text not null check (event_type in ('personal_record', 'achievement_unlocked')),
+  payload jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now(),
+  read_at timestamptz
+);
+
+create index if not exists idx_user_events_user_unread
+  on public.user_events(user_id, created_at desc)
+  where read_at is null;
+create index if not exists idx_user_events_session on public.user_events(session_id);
+
+alter table public.user_events enable row level security;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public' and tablename = 'user_events' and policyname = 'Users can view own events'
+  ) then
+    create policy "Users can view own events" on public.user_events
+      for select using (user_id = auth.uid());
+  end if;
+
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public' and tablename = 'user_events' and policyname = 'Users can mark own events read'
+  ) then
+    create policy "Users can mark own events read" on public.user_events
+      for update using (user_id = auth.uid())
+      with check (user_id = auth.uid());
+  end if;
+end$$;
+
+-- Clients may only flip read_at; events themselves are written by the functions below
+revoke insert, update, delete on public.user_events from anon, authenticated;
+grant update (read_at) on public.user_events to authenticated;
+
+-- Records and unlocks can no longer be written by clients
+drop policy if exists "Users can manage own personal records" on public.personal_records;
+drop policy if exists "Users can manage own achievements" on public.user_achievements;
+
+-- Helpers mirroring lib/achievementRules.ts ---------------------------------------------------
+
+-- True when p_values (a json array of strings) is absent or contains p_candidate, ignoring case
+create or replace function public.achievement_value_matches(p_values jsonb, p_candidate text)
+returns boolean
+language sql
+immutable
+as $$
+  select p_values is null
+    or exists (
+      select 1 from jsonb_array_elements_text(p_values) v
+      where lower(v) = lower(p_candidate)
+    );
+$$;
+
+create or replace function public.achievement_exercise_matches(p_filter jsonb, p_exercise public.exercises)
+returns boolean
+language sql
+stable
+as $$
+  select p_exercise.id is not null
+    and (
+      p_filter->'exercise_ids' is null
+      or p_exercise.id in (select (jsonb_array_elements_text(p_filter->'exercise_ids'))::integer)
+    )
+    and public.achievement_value_matches(p_filter->'exercise_names', p_exercise.name)
+    and (
+      p_filter->'muscle_groups' is null
+      or exists (
+        select 1 from unnest(p_exercise.muscle_groups) mg
+        where public.achievement_value_matches(p_filter->'muscle_groups', mg)
+      )
+    )
+    and public.achievement_value_matches(p_filter->'exercise_types', p_exercise.exercise_type)
+    and public.achievement_value_matches(p_filter->'difficulty_levels', p_exercise.difficulty_level);
+$$;
+
+create or replace function public.achievement_window_start(p_window jsonb)
+returns timestamptz
+language sql
+stable
+as $$
+  select case
+    when p_window is null or p_window = '"all_time"'::jsonb then null
+    when p_window = '"week"'::jsonb then now() - interval '7 days'
+    when p_window = '"month"'::jsonb then now() - interval '30 days'
+    when p_window ? 'days' then now() - make_interval(days => (p_window->>'days')::integer)
+  end;
+$$;
+
+-- Current value of a single metric rule for a user
+create or replace function public.achievement_metric_value(p_user uuid, p_rule jsonb)
+returns numeric
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_type text := p_rule->>'type';
+  v_filter jsonb := coalesce(p_rule->'filter', '{}'::jsonb);
+  v_window jsonb := p_rule->'window';
+  v_since timestamptz;
+  v_exercise_filter boolean;
+  v_value numeric := 0;
+begin
+  -- Seeded rows predate filters and windows
+  case v_type
+    when 'weekly_workouts' then
+      v_type := 'workout_count';
+      v_window := coalesce(v_window, '{"days": 7}'::jsonb);
+    when 'monthly_workouts' then
+      v_type := 'workout_count';
+      v_window := coalesce(v_window, '{"days": 30}'::jsonb);
+    when 'cardio_workouts' then
+      v_type := 'workout_count';
+      v_filter := '{"workout_types": ["cardio"]}'::jsonb || v_filter;
+    when 'advanced_exercises' then
+      v_type := 'distinct_exercises';
+      v_filter := '{"difficulty_levels": ["advanced"]}'::jsonb || v_filter;
+    else
+      null;
+  end case;
+
+  v_since := public.achievement_window_start(v_window);
+  v_exercise_filter := v_filter ?| array[
+    'exercise_ids', 'exercise_names', 'muscle_groups', 'exercise_types', 'difficulty_levels'
+  ];
+
+  if v_type in ('total_weight', 'total_reps', 'total_sets', 'distinct_exercises') then
+    select
+      case v_type
+        when 'total_weight' then coalesce(sum(es.weight_kg * es.reps), 0)
+        when 'total_reps' then coalesce(sum(es.reps), 0)
+        when 'total_sets' then count(*)
+        else count(distinct se.exercise_id)
+      end
+    into v_value
+    from public.workout_sessions s
+    left join public.workouts w on w.id = s.workout_id
+    join public.session_exercises se on se.session_id = s.id
+    join public.exercise_sets es on es.session_exercise_id = se.id
+    left join public.exercises e on e.id = se.exercise_id
+    where s.user_id = p_user
+      and s.completed_at is not null
+      and (v_since is null or s.completed_at >= v_since)
+      and public.achievement_value_matches(v_filter->'workout_types', w.workout_type)
+      and coalesce(es.completed, false)
+      and (not v_exercise_filter or public.achievement_exercise_matches(v_filter, e));
+
+    if v_type = 'total_weight' and p_rule->>'unit' = 'lb' then
+      v_value := v_value / 0.45359237;
+    end if;
+  elsif v_type in ('workout_count', 'total_minutes') then
+    select
+      case v_type
+        when 'workout_count' then count(*)
+        else coalesce(sum(s.duration_minutes), 0)
+      end
+    into v_value
+    from public.workout_sessions s
+    left join public.workouts w on w.id = s.workout_id
+    where s.user_id = p_user
+      and s.completed_at is not null
+      and (v_since is null or s.completed_at >= v_since)
+      and public.achievement_value_matches(v_filter->'workout_types', w.workout_type)
+      -- Exercise filters count sessions that included a matching completed set
+      and (
+        not v_exercise_filter
+        or exists (
+          select 1
+          from public.session_exercises se
+          join public.exercise_sets es on es.session_exercise_id = se.id
+          left join public.exercises e on e.id = se.exercise_id
+          where se.session_id = s.id
+            and coalesce(es.completed, false)
+            and public.achievement_exercise_matches(v_filter, e)
+        )
+      );
+  elsif v_type in ('streak', 'longest_streak') then
+    select
+      case v_type
+        when 'streak' then coalesce(current_streak, 0)
+        else greatest(coalesce(longest_streak, 0), coalesce(current_streak, 0))
+      end
+    into v_value
+    from public.workout_streaks
+    where user_id = p_user;
+  elsif v_type = 'personal_records' then
+    select count(*) into v_value
+    from public.personal_records pr
+    where pr.user_id = p_user
+      and (v_since is null or pr.achieved_at >= v_since)
+      and (
+        v_filter->'exercise_ids' is null
+        or pr.exercise_id in (select (jsonb_array_elements_text(v_filter->'exercise_ids'))::integer)
+      );
+  elsif v_type = 'friend_count' then
+    select count(*) into v_value
+    from public.friendships f
+    where f.status = 'accepted'
+      and (f.requester_id = p_user or f.addressee_id = p_user);
+  end if;
+
+  return coalesce(v_value, 0);
+end;
+$$;
+
+-- Evaluates a metric rule or an all/any compound rule
+create or replace function public.achievement_rule_met(p_user uuid, p_rule jsonb)
+returns boolean
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_child jsonb;
+  v_met boolean;
+begin
+  if p_rule->>'type' in ('all', 'any') then
+    if jsonb_typeof(p_rule->'rules') <> 'array' or jsonb_array_length(p_rule->'rules') = 0 then
+      return false;
+    end if;
+
+    for v_child in select * from jsonb_array_elements(p_rule->'rules') loop
+      v_met := public.achievement_rule_met(p_user, v_child);
+      if p_rule->>'type' = 'all' and not v_met then
+        return false;
+      elsif p_rule->>'type' = 'any' and v_met then
+        return true;
+      end if;
+    end loop;
+
+    return p_rule->>'type' = 'all';
+  end if;
+
+  if jsonb_typeof(p_rule->'target') <> 'number' then
+    return false;
+  end if;
+
+  return public.achievement_metric_value(p_user, p_rule) >= (p_rule->>'target')::numeric;
+end;
+$$;
+
+-- Evaluation ----------------------------------------------------------------------------------
+
+-- Upserts records beaten in the session and emits one personal_record event per record
+create or replace function public.record_session_personal_records(p_session_id integer)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user uuid;
+  v_candidate record;
+  v_previous numeric;
+  v_count integer := 0;
+begin
+  select user_id into v_user from public.workout_sessions where id = p_session_id;
+  if v_user is null then
+    return 0;
+  end if;
+
+  for v_candidate in
+    with session_sets as (
+      select se.exercise_id, e.name as exercise_name, e.exercise_type, es.*
+      from public.session_exercises se
+      join public.exercise_sets es on es.session_exercise_id = se.id
+      join public.exercises e on e.id = se.exercise_id
+      where se.session_id = p_session_id
+        and coalesce(es.completed, false)
+    )
+    select exercise_id, exercise_name, 'max_weight' as record_type, max(weight_kg) as value, 'kg' as unit
+    from session_sets where exercise_type = 'strength'
+    group by exercise_id, exercise_name having max(weight_kg) > 0
+    union all
+    select exercise_id, exercise_name, 'max_reps', max(reps), 'reps'
+    from session_sets where exercise_type = 'strength'
+    group by exercise_id, exercise_name having max(reps) > 0
+    union all
+    select exercise_id, exercise_name, 'best_time', min(duration_seconds), 'seconds'
+    from session_sets where exercise_type = 'cardio' and duration_seconds > 0
+    group by exercise_id, exercise_name
+    union all
+    select exercise_id, exercise_name, 'max_distance', max(distance_meters), 'meters'
+    from session_sets where exercise_type = 'cardio'
+    group by exercise_id, exercise_name having max(distance_meters) > 0
+  loop
+    v_previous := null;
+    select value into v_previous
+    from public.personal_records
+    where user_id = v_user
+      and exercise_id = v_candidate.exercise_id
+      and record_type = v_candidate.record_type
+    for update;
+
+    -- Lower is better for times, higher for everything else
+    if v_previous is not null and (
+      (v_candidate.record_type = 'best_time' and v_candidate.value >= v_previous)
+      or (v_candidate.record_type <> 'best_time' and v_candidate.value <= v_previous)
+    ) then
+      continue;
+    end if;
+
+    insert into public.personal_records (
+      user_id, exercise_id, record_type, value, unit, session_id, achieved_at
+    )
+    values (
+      v_user, v_candidate.exercise_id, v_candidate.record_type, v_candidate.value,
+      v_candidate.unit, p_session_id, now()
+    )
+    on conflict (user_id, exercise_id, record_type) do update
+      set value = excluded.value,
+          unit = excluded.unit,
+          session_id = excluded.session_id,
+          achieved_at = excluded.achieved_at;
+
+    insert into public.user_events (user_id, session_id, event_type, payload)
+    values (
+      v_user,
+      p_session_id,
+      'personal_record',
+      jsonb_build_object(
+        'exercise_id', v_candidate.exercise_id,
+        'exercise_name', v_candidate.exercise_name,
+        'record_type', v_candidate.record_type,
+        'value', v_candidate.value,
+        'unit', v_candidate.unit,
+        'previous_value', coalesce(v_previous, 0),
+        'improvement', case
+          when v_previous is null then v_candidate.value
+          when v_candidate.record_type = 'best_time' then v_previous - v_candidate.value
+          else v_candidate.value - v_previous
+        end
+      )
+    );
+
+    v_count := v_count + 1;
+  end loop;
+
+  return v_count;
+end;
+$$;
+
+-- Unlocks every active achievement the user now qualifies for and emits one event per unlock
+create or replace function public.evaluate_user_achievements(p_user uuid, p_session_id integer default null)
+returns setof public.achievements
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_achievement public.achievements%rowtype;
+begin
+  for v_achievement in
+    select a.* from public.achievements a
+    where a.is_active
+      and not exists (
+        select 1 from public.user_achievements ua
+        where ua.user_id = p_user and ua.achievement_id = a.id
+      )
+  loop
+    if not public.achievement_rule_met(p_user, v_achievement.criteria) then
+      continue;
+    end if;
+
+    insert into public.user_achievements (user_id, achievement_id, unlocked_at)
+    values (p_user, v_achievement.id, now())
+    on conflict (user_id, achievement_id) do nothing;
+
+    if found then
+      insert into public.user_events (user_id, session_id, event_type, payload)
+      values (
+        p_user,
+        p_session_id,
+        'achievement_unlocked',
+        jsonb_build_object(
+          'achievement_id', v_achievement.id,
+          'name', v_achievement.name,
+          'description', v_achievement.description,
+          'icon', v_achievement.icon,
+          'category', v_achievement.category,
+          'points', v_achievement.points
+        )
+      );
+      return next v_achievement;
+    end if;
+  end loop;
+end;
+$$;
+
+revoke all on function public.achievement_metric_value(uuid, jsonb) from public, anon, authenticated;
+revoke all on function public.achievement_rule_met(uuid, jsonb) from public, anon, authenticated;
+revoke all on function public.record_session_personal_records(integer) from public, anon, authenticated;
+revoke all on function public.evaluate_user_achievements(uuid, integer) from public, anon, authenticated;
+
+-- Triggers ------------------------------------------------------------------------------------
+
+create or replace function public.handle_workout_session_completed()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- Edits to an already-completed session do not re-run evaluation
+  if new.user_id is null or (tg_op = 'UPDATE' and old.completed_at is not null) then
+    return new;
+  end if;
+
+  insert into public.workout_streaks (user_id) values (new.user_id)
+  on conflict (user_id) do nothing;
+  perform public.update_workout_streak(new.user_id);
+
+  perform public.record_session_personal_records(new.id);
+  perform public.evaluate_user_achievements(new.user_id, new.id);
+
+  return new;
+end;
+$$;
+
+drop trigger if exists workout_session_completed on public.workout_sessions;
+create trigger workout_session_completed
+  after insert or update of completed_at on public.workout_sessions
+  for each row
+  when (new.completed_at is not null)
+  execute function public.handle_workout_session_completed();
+
+-- Friend counts only change when a request is accepted, so evaluate both sides then
+create or replace function public.handle_friendship_accepted()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.status = 'accepted' and (tg_op = 'INSERT' or old.status is distinct from 'accepted') then
+    perform public.evaluate_user_achievements(new.requester_id);
+    perform public.evaluate_user_achievements(new.addressee_id);
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists friendship_accepted on public.friendships;
+create trigger friendship_accepted
+  after insert or update of status on public.friendships
+  for each row
+  execute function public.handle_friendship_accepted();
+
+-- Catch-up for unlocks that no trigger covers (e.g. achievements added after the fact)
+create or replace function public.evaluate_my_achievements()
+returns setof public.achievements
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  return query select * from public.evaluate_user_achievements(auth.uid());
+end;
+$$;
+
+grant execute on function public.evaluate_my_achievements() to authenticated;
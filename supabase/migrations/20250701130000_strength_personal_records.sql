@@ -0,0 +1,200 @@
+-- Strength PRs: estimated one-rep max, best single-session volume and 3/5/10 rep maxes
+
+alter table public.personal_records
+  drop constraint if exists personal_records_record_type_check;
+alter table public.personal_records
+  add constraint personal_records_record_type_check check (
+    record_type in (
+      'max_weight', 'max_reps', 'max_distance', 'best_time',
+      'estimated_1rm', 'max_volume', 'rep_max_3', 'rep_max_5', 'rep_max_10'
+    )
+  );
+
+-- The set that produced the record, so max_reps and e1RM can show the weight behind them
+alter table public.personal_records add column if not exists reps integer;
+alter table public.personal_records add column if not exists weight_kg decimal(6,2);
+
+alter table public.profiles
+  add column if not exists one_rep_max_formula text not null default 'epley'
+  check (one_rep_max_formula in ('epley', 'brzycki'));
+
+-- Mirrors estimateOneRepMax in lib/personalRecords.ts
+create or replace function public.estimate_one_rep_max(p_weight numeric, p_reps integer, p_formula text default 'epley')
+returns numeric
+language sql
+immutable
+as $$
+  select case
+    when p_weight is null or p_weight <= 0 or p_reps is null or p_reps < 1 then null
+    when p_reps = 1 then p_weight
+    when p_formula = 'brzycki' then p_weight * 36 / (37 - least(p_reps, 36))
+    else p_weight * (1 + p_reps / 30.0)
+  end;
+$$;
+
+-- Same contract as before: upsert beaten records and emit one personal_record event each
+create or replace function public.record_session_personal_records(p_session_id integer)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user uuid;
+  v_formula text;
+  v_candidate record;
+  v_previous numeric;
+  v_count integer := 0;
+begin
+  select s.user_id, coalesce(p.one_rep_max_formula, 'epley')
+  into v_user, v_formula
+  from public.workout_sessions s
+  left join public.profiles p on p.id = s.user_id
+  where s.id = p_session_id;
+
+  if v_user is null then
+    return 0;
+  end if;
+
+  for v_candidate in
+    with session_sets as (
+      select
+        se.exercise_id,
+        e.name as exercise_name,
+        e.exercise_type,
+        es.reps,
+        es.weight_kg,
+        es.duration_seconds,
+        es.distance_meters
+      from public.session_exercises se
+      join public.exercise_sets es on es.session_exercise_id = se.id
+      join public.exercises e on e.id = se.exercise_id
+      where se.session_id = p_session_id
+        and coalesce(es.completed, false)
+    ),
+    strength_sets as (
+      select * from session_sets
+      where exercise_type = 'strength' and coalesce(weight_kg, 0) > 0 and coalesce(reps, 0) > 0
+    )
+    (
+      select distinct on (exercise_id)
+        exercise_id, exercise_name, 'max_weight'::text as record_type,
+        weight_kg::numeric as value, 'kg'::text as unit, reps, weight_kg
+      from strength_sets
+      order by exercise_id, weight_kg desc, reps desc
+    )
+    union all
+    (
+      -- Most reps in a set; ties go to the heavier set
+      select distinct on (exercise_id)
+        exercise_id, exercise_name, 'max_reps', reps::numeric, 'reps', reps, weight_kg
+      from session_sets
+      where exercise_type = 'strength' and coalesce(reps, 0) > 0
+      order by exercise_id, reps desc, weight_kg desc nulls last
+    )
+    union all
+    (
+      -- Estimates get unreliable past ~12 reps, so those sets are ignored
+      select distinct on (exercise_id)
+        exercise_id, exercise_name, 'estimated_1rm',
+        round(public.estimate_one_rep_max(weight_kg, reps, v_formula), 2), 'kg', reps, weight_kg
+      from strength_sets
+      where reps <= 12
+      order by exercise_id, public.estimate_one_rep_max(weight_kg, reps, v_formula) desc
+    )
+    union all
+    (
+      select
+        exercise_id, exercise_name, 'max_volume', sum(weight_kg * reps), 'kg', null::integer, null::numeric
+      from strength_sets
+      group by exercise_id, exercise_name
+    )
+    union all
+    (
+      -- Heaviest weight moved for at least N reps
+      select distinct on (ss.exercise_id, n.target)
+        ss.exercise_id, ss.exercise_name, 'rep_max_' || n.target, ss.weight_kg::numeric, 'kg',
+        ss.reps, ss.weight_kg
+      from strength_sets ss
+      cross join (values (3), (5), (10)) as n(target)
+      where ss.reps >= n.target
+      order by ss.exercise_id, n.target, ss.weight_kg desc, ss.reps desc
+    )
+    union all
+    (
+      select exercise_id, exercise_name, 'best_time', min(duration_seconds)::numeric, 'seconds',
+        null::integer, null::numeric
+      from session_sets
+      where exercise_type = 'cardio' and duration_seconds > 0
+      group by exercise_id, exercise_name
+    )
+    union all
+    (
+      select exercise_id, exercise_name, 'max_distance', max(distance_meters)::numeric, 'meters',
+        null::integer, null::numeric
+      from session_sets
+      where exercise_type = 'cardio' and distance_meters > 0
+      group by exercise_id, exercise_name
+    )
+  loop
+    v_previous := null;
+    select value into v_previous
+    from public.personal_records
+    where user_id = v_user
+      and exercise_id = v_candidate.exercise_id
+      and record_type = v_candidate.record_type
+    for update;
+
+    -- Lower is better for times, higher for everything else
+    if v_previous is not null and (
+      (v_candidate.record_type = 'best_time' and v_candidate.value >= v_previous)
+      or (v_candidate.record_type <> 'best_time' and v_candidate.value <= v_previous)
+    ) then
+      continue;
+    end if;
+
+    insert into public.personal_records (
+      user_id, exercise_id, record_type, value, unit, session_id, achieved_at, reps, weight_kg
+    )
+    values (
+      v_user, v_candidate.exercise_id, v_candidate.record_type, v_candidate.value,
+      v_candidate.unit, p_session_id, now(), v_candidate.reps, v_candidate.weight_kg
+    )
+    on conflict (user_id, exercise_id, record_type) do update
+      set value = excluded.value,
+          unit = excluded.unit,
+          session_id = excluded.session_id,
+          achieved_at = excluded.achieved_at,
+          reps = excluded.reps,
+          weight_kg = excluded.weight_kg;
+
+    insert into public.user_events (user_id, session_id, event_type, payload)
+    values (
+      v_user,
+      p_session_id,
+      'personal_record',
+      jsonb_build_object(
+        'exercise_id', v_candidate.exercise_id,
+        'exercise_name', v_candidate.exercise_name,
+        'record_type', v_candidate.record_type,
+        'value', v_candidate.value,
+        'unit', v_candidate.unit,
+        'reps', v_candidate.reps,
+        'weight_kg', v_candidate.weight_kg,
+        'previous_value', coalesce(v_previous, 0),
+        'improvement', case
+          when v_previous is null then v_candidate.value
+          when v_candidate.record_type = 'best_time' then v_previous - v_candidate.value
+          else v_candidate.value - v_previous
+        end
+      )
+    );
+
+    v_count := v_count + 1;
+  end loop;
+
+  return v_count;
+end;
+$$;
+
+revoke all on function public.record_session_personal_records(integer) from public, anon, authenticated;
@@ -0,0 +1,71 @@
+-- Storage for photos and videos attached to social posts.
+-- Files live under `<author id>/...`; the bucket is public so feed images load without signed URLs,
+-- and only the author can write or remove files in their own folder.
+
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values (
+  'post-media',
+  'post-media',
+  true,
+  52428800,
+  array['image/jpeg', 'image/png', 'image/webp', 'video/mp4', 'video/quicktime']
+)
+on conflict (id) do nothing;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'storage' and tablename = 'objects' and policyname = 'Post media author upload'
+  ) then
+    create policy "Post media author upload" on storage.objects
+      for insert to authenticated with check (
+        bucket_id = 'post-media'
+        and (storage.foldername(name))[1] = auth.uid()::text
+      );
+  end if;
+end$$;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'storage' and tablename = 'objects' and policyname = 'Post media public read'
+  ) then
+    create policy "Post media public read" on storage.objects
+      for select using (bucket_id = 'post-media');
+  end if;
+end$$;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'storage' and tablename = 'objects' and policyname = 'Post media author delete'
+  ) then
+    create policy "Post media author delete" on storage.objects
+      for delete to authenticated using (
+        bucket_id = 'post-media'
+        and (storage.foldername(name))[1] = auth.uid()::text
+      );
+  end if;
+end$$;
+
+-- Posts store object paths in this bucket, not URLs, and may only reference files from the
+-- author's own folder. Not validated against existing rows, which may hold full URLs.
+create or replace function public.social_post_media_is_own(p_user uuid, p_urls text[])
+returns boolean
+language sql
+immutable
+as $$
+  select coalesce(bool_and(path like p_user::text || '/%' and path not like '%..%'), true)
+  from unnest(coalesce(p_urls, '{}'::text[])) as path;
+$$;
+
+alter table public.social_posts
+  drop constraint if exists social_posts_media_urls_check;
+alter table public.social_posts
+  add constraint social_posts_media_urls_check check (
+    coalesce(cardinality(media_urls), 0) <= 4
+    and public.social_post_media_is_own(user_id, media_urls)
+  ) not valid;
@@ -0,0 +1,155 @@
+-- Payment review as atomic, admin-only RPCs with an audit trail.
+-- Approving/rejecting used to be two unchecked client writes, and a rejection reason replaced the
+-- buyer's own notes. The reviewer's reason now has its own column and every change is logged.
+
+alter table public.payments add column if not exists review_reason text;
+
+create table if not exists public.payment_events (
+  id uuid primary key default gen_random_uuid(),
+  payment_id uuid not null references public.payments(id) on delete cascade,
+  actor_id uuid references public.profiles(id) on delete set null,
+  previous_status text,
+  new_status text not null,
+  reason text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_payment_events_payment on public.payment_events(payment_id, created_at);
+
+alter table public.payment_events enable row level security;
+
+-- Written only by the review functions below; readable by admins and the parties to the payment
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public' and tablename = 'payment_events' and policyname = 'Payment events read'
+  ) then
+    create policy "Payment events read" on public.payment_events
+      for select using (
+        is_admin()
+        or exists (
+          select 1 from public.payments p
+          where p.id = payment_events.payment_id
+            and (p.user_id = auth.uid() or p.coach_id = auth.uid())
+        )
+      );
+  end if;
+end$$;
+
+-- Start each payment's history with its submission
+create or replace function public.log_payment_submitted()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.payment_events (payment_id, actor_id, previous_status, new_status)
+  values (new.id, new.user_id, null, new.status);
+  return new;
+end;
+$$;
+
+drop trigger if exists payment_submitted on public.payments;
+create trigger payment_submitted
+  after insert on public.payments
+  for each row execute function public.log_payment_submitted();
+
+-- Approve a pending (or previously rejected) payment and grant its product in one transaction
+create or replace function public.approve_payment(p_payment_id uuid, p_reason text default null)
+returns public.payments
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_payment public.payments;
+  v_previous text;
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can approve payments' using errcode = '42501';
+  end if;
+
+  select * into v_payment from public.payments where id = p_payment_id for update;
+  if not found then
+    raise exception 'Payment % not found', p_payment_id using errcode = 'P0002';
+  end if;
+  if v_payment.status = 'approved' then
+    raise exception 'Payment % is already approved', p_payment_id using errcode = '22023';
+  end if;
+
+  v_previous := v_payment.status;
+
+  update public.payments
+  set status = 'approved',
+      approved_by = auth.uid(),
+      approved_at = now(),
+      review_reason = nullif(trim(p_reason), ''),
+      updated_at = now()
+  where id = p_payment_id
+  returning * into v_payment;
+
+  if v_payment.product_id is not null and v_payment.user_id is not null then
+    insert into public.entitlements (user_id, product_id, source_payment_id)
+    select v_payment.user_id, v_payment.product_id, v_payment.id
+    where not exists (
+      select 1 from public.entitlements
+      where user_id = v_payment.user_id and product_id = v_payment.product_id
+    );
+  end if;
+
+  insert into public.payment_events (payment_id, actor_id, previous_status, new_status, reason)
+  values (v_payment.id, auth.uid(), v_previous, 'approved', nullif(trim(p_reason), ''));
+
+  return v_payment;
+end;
+$$;
+
+-- Reject a pending payment, or reverse an approval and revoke the access it granted
+create or replace function public.reject_payment(p_payment_id uuid, p_reason text default null)
+returns public.payments
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_payment public.payments;
+  v_previous text;
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can reject payments' using errcode = '42501';
+  end if;
+
+  select * into v_payment from public.payments where id = p_payment_id for update;
+  if not found then
+    raise exception 'Payment % not found', p_payment_id using errcode = 'P0002';
+  end if;
+  if v_payment.status = 'rejected' then
+    raise exception 'Payment % is already rejected', p_payment_id using errcode = '22023';
+  end if;
+
+  v_previous := v_payment.status;
+
+  delete from public.entitlements where source_payment_id = v_payment.id;
+
+  update public.payments
+  set status = 'rejected',
+      approved_by = null,
+      approved_at = null,
+      review_reason = nullif(trim(p_reason), ''),
+      updated_at = now()
+  where id = p_payment_id
+  returning * into v_payment;
+
+  insert into public.payment_events (payment_id, actor_id, previous_status, new_status, reason)
+  values (v_payment.id, auth.uid(), v_previous, 'rejected', nullif(trim(p_reason), ''));
+
+  return v_payment;
+end;
+$$;
+
+revoke all on function public.approve_payment(uuid, text) from public, anon;
+revoke all on function public.reject_payment(uuid, text) from public, anon;
+grant execute on function public.approve_payment(uuid, text) to authenticated;
+grant execute on function public.reject_payment(uuid, text) to authenticated;
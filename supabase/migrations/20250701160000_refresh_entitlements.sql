@@ -0,0 +1,97 @@
+-- Entitlement reconciliation and realtime delivery.
+-- The admin screen has called refresh_entitlements_for_user since payments shipped, but nothing
+-- defined it. Approvals before the review RPCs could also leave missing or duplicate grants.
+
+-- Collapse duplicate grants, keeping the oldest, so the unique index below can be created
+delete from public.entitlements e
+using public.entitlements keep
+where e.user_id = keep.user_id
+  and e.product_id = keep.product_id
+  and (keep.granted_at, keep.id) < (e.granted_at, e.id);
+
+create unique index if not exists idx_entitlements_user_product
+  on public.entitlements(user_id, product_id);
+
+-- Brings a user's entitlements in line with their payments:
+--   * every approved payment's product is granted exactly once
+--   * grants sourced from a payment that is no longer approved are removed
+-- Grants without a source payment were made by hand and are left alone. Admins only: buyers see
+-- their grants change when a payment is reviewed.
+create or replace function public.refresh_entitlements_for_user(p_user_id uuid)
+returns table (granted integer, revoked integer)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_granted integer := 0;
+  v_revoked integer := 0;
+begin
+  if p_user_id is null then
+    raise exception 'A user id is required' using errcode = '22023';
+  end if;
+  if not public.is_admin() then
+    raise exception 'Only admins can refresh entitlements' using errcode = '42501';
+  end if;
+
+  delete from public.entitlements e
+  where e.user_id = p_user_id
+    and e.source_payment_id is not null
+    and not exists (
+      select 1 from public.payments p
+      where p.id = e.source_payment_id and p.status = 'approved'
+    )
+    -- Another approved payment for the same product still covers it; repoint instead of revoking
+    and not exists (
+      select 1 from public.payments p
+      where p.user_id = p_user_id and p.product_id = e.product_id and p.status = 'approved'
+    );
+  get diagnostics v_revoked = row_count;
+
+  update public.entitlements e
+  set source_payment_id = (
+    select p.id from public.payments p
+    where p.user_id = p_user_id and p.product_id = e.product_id and p.status = 'approved'
+    order by p.approved_at nulls last, p.created_at
+    limit 1
+  )
+  where e.user_id = p_user_id
+    and e.source_payment_id is not null
+    and not exists (
+      select 1 from public.payments p
+      where p.id = e.source_payment_id and p.status = 'approved'
+    );
+
+  insert into public.entitlements (user_id, product_id, source_payment_id)
+  select distinct on (p.product_id) p.user_id, p.product_id, p.id
+  from public.payments p
+  where p.user_id = p_user_id
+    and p.status = 'approved'
+    and p.product_id is not null
+  order by p.product_id, p.approved_at nulls last, p.created_at
+  on conflict (user_id, product_id) do nothing;
+  get diagnostics v_granted = row_count;
+
+  return query select v_granted, v_revoked;
+end;
+$$;
+
+revoke all on function public.refresh_entitlements_for_user(uuid) from public, anon;
+grant execute on function public.refresh_entitlements_for_user(uuid) to authenticated;
+
+-- Grants come from approved payments, so buyers may only submit pending ones; the review RPCs are
+-- the only way past pending
+drop policy if exists "Payments user insert own" on public.payments;
+create policy "Payments user insert own" on public.payments
+  for insert with check (user_id = auth.uid() and status = 'pending');
+
+-- Let clients hear about their own grants and revocations
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'entitlements'
+  ) then
+    alter publication supabase_realtime add table public.entitlements;
+  end if;
+end$$;
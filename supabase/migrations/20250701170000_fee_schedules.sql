@@ -0,0 +1,126 @@
+-- Platform fees computed on the server from a configurable schedule.
+-- The marketplace used to send platform_fee_cents/coach_net_cents itself, so a modified client
+-- could pick any split. Payments now snapshot the quoted price and the fee is derived from it.
+
+create table if not exists public.fee_schedules (
+  id uuid primary key default gen_random_uuid(),
+  coach_id uuid references public.profiles(id) on delete cascade,
+  product_type text check (product_type in ('template','path_pack','addon')),
+  fee_percent numeric(5,2) not null check (fee_percent >= 0 and fee_percent <= 100),
+  min_fee_cents integer not null default 0 check (min_fee_cents >= 0),
+  is_active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- One schedule per (coach, product type) pair; nulls mean "any"
+create unique index if not exists idx_fee_schedules_scope
+  on public.fee_schedules(
+    coalesce(coach_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    coalesce(product_type, '')
+  );
+
+alter table public.fee_schedules enable row level security;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public' and tablename = 'fee_schedules' and policyname = 'Fee schedules read'
+  ) then
+    create policy "Fee schedules read" on public.fee_schedules
+      for select using (coach_id is null or coach_id = auth.uid() or is_admin());
+  end if;
+end$$;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public' and tablename = 'fee_schedules' and policyname = 'Fee schedules admin manage'
+  ) then
+    create policy "Fee schedules admin manage" on public.fee_schedules
+      for all using (is_admin()) with check (is_admin());
+  end if;
+end$$;
+
+-- Platform default, matching the 10% the client used to apply
+insert into public.fee_schedules (coach_id, product_type, fee_percent, min_fee_cents)
+select null, null, 10, 0
+where not exists (
+  select 1 from public.fee_schedules where coach_id is null and product_type is null
+);
+
+alter table public.payments add column if not exists price_cents integer;
+alter table public.payments add column if not exists currency text;
+alter table public.payments add column if not exists fee_schedule_id uuid
+  references public.fee_schedules(id) on delete set null;
+alter table public.payments add column if not exists amount_mismatch boolean not null default false;
+
+-- Most specific active schedule wins: coach + type, then coach, then type, then the default
+create or replace function public.resolve_fee_schedule(p_coach_id uuid, p_product_type text)
+returns public.fee_schedules
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select *
+  from public.fee_schedules
+  where is_active
+    and (coach_id is null or coach_id = p_coach_id)
+    and (product_type is null or product_type = p_product_type)
+  order by (coach_id is not null) desc, (product_type is not null) desc
+  limit 1;
+$$;
+
+-- Fills in the price snapshot and the fee split from the product, ignoring whatever the client sent
+create or replace function public.apply_payment_fees()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_product public.products;
+  v_schedule public.fee_schedules;
+  v_fee integer := 0;
+begin
+  if new.product_id is null then
+    raise exception 'A product is required to submit a payment' using errcode = '23502';
+  end if;
+
+  select * into v_product from public.products where id = new.product_id;
+  if not found then
+    raise exception 'Product % not found', new.product_id using errcode = 'P0002';
+  end if;
+
+  v_schedule := public.resolve_fee_schedule(v_product.coach_id, v_product.type);
+  if v_schedule.id is not null then
+    v_fee := least(
+      v_product.price_cents,
+      greatest(v_schedule.min_fee_cents, ceil(v_product.price_cents * v_schedule.fee_percent / 100)::integer)
+    );
+  end if;
+
+  new.coach_id := v_product.coach_id;
+  new.price_cents := v_product.price_cents;
+  new.currency := v_product.currency;
+  new.fee_schedule_id := v_schedule.id;
+  new.platform_fee_cents := v_fee;
+  new.coach_net_cents := v_product.price_cents - v_fee;
+  new.amount_mismatch := new.amount_client_paid_cents <> v_product.price_cents;
+
+  -- Every payment starts out pending; only the review RPCs move it on
+  new.status := 'pending';
+  new.approved_at := null;
+  new.approved_by := null;
+  new.review_reason := null;
+  return new;
+end;
+$$;
+
+drop trigger if exists payments_apply_fees on public.payments;
+create trigger payments_apply_fees
+  before insert on public.payments
+  for each row execute function public.apply_payment_fees();
@@ -0,0 +1,295 @@
+-- Time-bound entitlements: subscriptions, fixed-length passes and trials.
+-- Products carry a billing period and each approved payment buys one period. An entitlement's
+-- expires_at is derived from the chain of approved payments, so approving, rejecting or
+-- resyncing always lands on the same answer. Existing products and payments stay one-off.
+
+alter table public.products add column if not exists billing_period text not null default 'one_off';
+alter table public.products add column if not exists billing_period_days integer;
+
+alter table public.products drop constraint if exists products_billing_period_check;
+alter table public.products
+  add constraint products_billing_period_check check (
+    billing_period in ('one_off','monthly','yearly','days')
+    and (billing_period = 'days') = (billing_period_days is not null)
+    and (billing_period_days is null or billing_period_days > 0)
+  );
+
+-- Null means the grant never expires (one-off purchases, hand-made grants)
+alter table public.entitlements add column if not exists expires_at timestamptz;
+
+-- Period snapshot taken at submission, plus the entitlement a renewal extends
+alter table public.payments add column if not exists billing_period text;
+alter table public.payments add column if not exists billing_period_days integer;
+alter table public.payments add column if not exists entitlement_id uuid
+  references public.entitlements(id) on delete set null;
+
+create or replace function public.entitlement_period_end(p_start timestamptz, p_period text, p_days integer)
+returns timestamptz
+language sql
+immutable
+as $$
+  select case p_period
+    when 'monthly' then p_start + interval '1 month'
+    when 'yearly' then p_start + interval '1 year'
+    when 'days' then p_start + make_interval(days => p_days)
+    else null
+  end;
+$$;
+
+-- Same split as before, now also snapshotting the billing period and checking renewals
+create or replace function public.apply_payment_fees()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_product public.products;
+  v_schedule public.fee_schedules;
+  v_fee integer := 0;
+begin
+  if new.product_id is null then
+    raise exception 'A product is required to submit a payment' using errcode = '23502';
+  end if;
+
+  select * into v_product from public.products where id = new.product_id;
+  if not found then
+    raise exception 'Product % not found', new.product_id using errcode = 'P0002';
+  end if;
+
+  if new.entitlement_id is not null and not exists (
+    select 1 from public.entitlements
+    where id = new.entitlement_id and user_id = new.user_id and product_id = new.product_id
+  ) then
+    raise exception 'Entitlement % cannot be renewed by this payment', new.entitlement_id
+      using errcode = '22023';
+  end if;
+
+  v_schedule := public.resolve_fee_schedule(v_product.coach_id, v_product.type);
+  if v_schedule.id is not null then
+    v_fee := least(
+      v_product.price_cents,
+      greatest(v_schedule.min_fee_cents, ceil(v_product.price_cents * v_schedule.fee_percent / 100)::integer)
+    );
+  end if;
+
+  new.coach_id := v_product.coach_id;
+  new.price_cents := v_product.price_cents;
+  new.currency := v_product.currency;
+  new.billing_period := v_product.billing_period;
+  new.billing_period_days := v_product.billing_period_days;
+  new.fee_schedule_id := v_schedule.id;
+  new.platform_fee_cents := v_fee;
+  new.coach_net_cents := v_product.price_cents - v_fee;
+  new.amount_mismatch := new.amount_client_paid_cents <> v_product.price_cents;
+
+  -- Every payment starts out pending; only the review RPCs move it on
+  new.status := 'pending';
+  new.approved_at := null;
+  new.approved_by := null;
+  new.review_reason := null;
+  return new;
+end;
+$$;
+
+-- Recomputes one user's grant for one product from their approved payments.
+-- Each payment buys a period starting when it was approved, or when the previous period ends if
+-- that is later; any one-off payment makes the grant permanent.
+-- Returns 1 when a grant was created, -1 when one was removed and 0 otherwise.
+create or replace function public.sync_entitlement(p_user_id uuid, p_product_id uuid)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_payment record;
+  v_latest uuid;
+  v_expires timestamptz;
+  v_permanent boolean := false;
+  v_inserted boolean;
+  v_removed integer;
+begin
+  for v_payment in
+    select id, coalesce(approved_at, created_at) as paid_at,
+           coalesce(billing_period, 'one_off') as period, billing_period_days
+    from public.payments
+    where user_id = p_user_id and product_id = p_product_id and status = 'approved'
+    order by coalesce(approved_at, created_at), created_at
+  loop
+    v_latest := v_payment.id;
+    if v_payment.period = 'one_off' then
+      v_permanent := true;
+    elsif not v_permanent then
+      v_expires := public.entitlement_period_end(
+        greatest(coalesce(v_expires, v_payment.paid_at), v_payment.paid_at),
+        v_payment.period,
+        v_payment.billing_period_days
+      );
+    end if;
+  end loop;
+
+  -- Nothing approved: drop payment-sourced grants, leave hand-made ones alone
+  if v_latest is null then
+    delete from public.entitlements
+    where user_id = p_user_id and product_id = p_product_id and source_payment_id is not null;
+    get diagnostics v_removed = row_count;
+    return case when v_removed > 0 then -1 else 0 end;
+  end if;
+
+  insert into public.entitlements (user_id, product_id, source_payment_id, expires_at)
+  values (p_user_id, p_product_id, v_latest, case when v_permanent then null else v_expires end)
+  on conflict (user_id, product_id) do update
+    set source_payment_id = excluded.source_payment_id,
+        expires_at = excluded.expires_at
+  returning (xmax = 0) into v_inserted;
+
+  return case when v_inserted then 1 else 0 end;
+end;
+$$;
+
+revoke all on function public.sync_entitlement(uuid, uuid) from public, anon, authenticated;
+
+create or replace function public.approve_payment(p_payment_id uuid, p_reason text default null)
+returns public.payments
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_payment public.payments;
+  v_previous text;
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can approve payments' using errcode = '42501';
+  end if;
+
+  select * into v_payment from public.payments where id = p_payment_id for update;
+  if not found then
+    raise exception 'Payment % not found', p_payment_id using errcode = 'P0002';
+  end if;
+  if v_payment.status = 'approved' then
+    raise exception 'Payment % is already approved', p_payment_id using errcode = '22023';
+  end if;
+
+  v_previous := v_payment.status;
+
+  update public.payments
+  set status = 'approved',
+      approved_by = auth.uid(),
+      approved_at = now(),
+      review_reason = nullif(trim(p_reason), ''),
+      updated_at = now()
+  where id = p_payment_id
+  returning * into v_payment;
+
+  if v_payment.product_id is not null and v_payment.user_id is not null then
+    perform public.sync_entitlement(v_payment.user_id, v_payment.product_id);
+  end if;
+
+  insert into public.payment_events (payment_id, actor_id, previous_status, new_status, reason)
+  values (v_payment.id, auth.uid(), v_previous, 'approved', nullif(trim(p_reason), ''));
+
+  return v_payment;
+end;
+$$;
+
+-- Rejecting a renewal only takes back the period it bought
+create or replace function public.reject_payment(p_payment_id uuid, p_reason text default null)
+returns public.payments
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_payment public.payments;
+  v_previous text;
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can reject payments' using errcode = '42501';
+  end if;
+
+  select * into v_payment from public.payments where id = p_payment_id for update;
+  if not found then
+    raise exception 'Payment % not found', p_payment_id using errcode = 'P0002';
+  end if;
+  if v_payment.status = 'rejected' then
+    raise exception 'Payment % is already rejected', p_payment_id using errcode = '22023';
+  end if;
+
+  v_previous := v_payment.status;
+
+  update public.payments
+  set status = 'rejected',
+      approved_by = null,
+      approved_at = null,
+      review_reason = nullif(trim(p_reason), ''),
+      updated_at = now()
+  where id = p_payment_id
+  returning * into v_payment;
+
+  if v_payment.product_id is not null and v_payment.user_id is not null then
+    perform public.sync_entitlement(v_payment.user_id, v_payment.product_id);
+  end if;
+
+  insert into public.payment_events (payment_id, actor_id, previous_status, new_status, reason)
+  values (v_payment.id, auth.uid(), v_previous, 'rejected', nullif(trim(p_reason), ''));
+
+  return v_payment;
+end;
+$$;
+
+create or replace function public.refresh_entitlements_for_user(p_user_id uuid)
+returns table (granted integer, revoked integer)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_product uuid;
+  v_result integer;
+  v_granted integer := 0;
+  v_revoked integer := 0;
+begin
+  if p_user_id is null then
+    raise exception 'A user id is required' using errcode = '22023';
+  end if;
+  if not public.is_admin() then
+    raise exception 'Only admins can refresh entitlements' using errcode = '42501';
+  end if;
+
+  for v_product in
+    select product_id from public.payments
+    where user_id = p_user_id and product_id is not null
+    union
+    select product_id from public.entitlements
+    where user_id = p_user_id and product_id is not null and source_payment_id is not null
+  loop
+    v_result := public.sync_entitlement(p_user_id, v_product);
+    if v_result > 0 then
+      v_granted := v_granted + 1;
+    elsif v_result < 0 then
+      v_revoked := v_revoked + 1;
+    end if;
+  end loop;
+
+  return query select v_granted, v_revoked;
+end;
+$$;
+
+-- Expired grants no longer count
+create or replace function public.has_entitlement(p_user uuid, p_feature_key text default null, p_product_id uuid default null)
+returns boolean
+language sql security definer set search_path = public as $$
+  select exists (
+    select 1
+    from public.entitlements e
+    join public.products p on p.id = e.product_id
+    where e.user_id = p_user
+      and (e.expires_at is null or e.expires_at > now())
+      and (
+        (p_feature_key is not null and p.feature_key = p_feature_key)
+        or (p_product_id is not null and e.product_id = p_product_id)
+      )
+  );
+$$;
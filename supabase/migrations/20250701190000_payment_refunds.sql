@@ -0,0 +1,277 @@
+-- Refunds and revocations for approved payments.
+-- `refunded` means the buyer got all of their money back; a partial refund keeps the payment
+-- approved and records the amount. `revoked` pulls access without returning money. Both flow
+-- through sync_entitlement, so the linked grant is removed or shortened to match.
+-- One-off purchases have no period to shorten, so they can only be refunded in full, which
+-- removes the access.
+
+alter table public.payments drop constraint if exists payments_status_check;
+alter table public.payments
+  add constraint payments_status_check
+  check (status in ('pending','approved','rejected','refunded','revoked'));
+
+alter table public.payments add column if not exists refunded_cents integer not null default 0;
+-- Part of the refund that comes out of the coach's net, in proportion to the original split
+alter table public.payments add column if not exists refunded_coach_cents integer not null default 0;
+alter table public.payments add column if not exists refunded_at timestamptz;
+
+alter table public.payments drop constraint if exists payments_refunded_cents_check;
+alter table public.payments
+  add constraint payments_refunded_cents_check check (
+    refunded_cents >= 0
+    and refunded_cents <= amount_client_paid_cents
+    and refunded_coach_cents between 0 and refunded_cents
+  );
+
+alter table public.payment_events add column if not exists amount_cents integer;
+
+-- Only unreviewed or rejected payments can be approved; refunds and revocations are final
+create or replace function public.approve_payment(p_payment_id uuid, p_reason text default null)
+returns public.payments
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_payment public.payments;
+  v_previous text;
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can approve payments' using errcode = '42501';
+  end if;
+
+  select * into v_payment from public.payments where id = p_payment_id for update;
+  if not found then
+    raise exception 'Payment % not found', p_payment_id using errcode = 'P0002';
+  end if;
+  if v_payment.status not in ('pending', 'rejected') then
+    raise exception 'Payment % is % and cannot be approved', p_payment_id, v_payment.status
+      using errcode = '22023';
+  end if;
+
+  v_previous := v_payment.status;
+
+  update public.payments
+  set status = 'approved',
+      approved_by = auth.uid(),
+      approved_at = now(),
+      review_reason = nullif(trim(p_reason), ''),
+      updated_at = now()
+  where id = p_payment_id
+  returning * into v_payment;
+
+  if v_payment.product_id is not null and v_payment.user_id is not null then
+    perform public.sync_entitlement(v_payment.user_id, v_payment.product_id);
+  end if;
+
+  insert into public.payment_events (payment_id, actor_id, previous_status, new_status, reason)
+  values (v_payment.id, auth.uid(), v_previous, 'approved', nullif(trim(p_reason), ''));
+
+  return v_payment;
+end;
+$$;
+
+-- Rejection is for payments that were never approved; approved ones are refunded or revoked
+create or replace function public.reject_payment(p_payment_id uuid, p_reason text default null)
+returns public.payments
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_payment public.payments;
+  v_previous text;
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can reject payments' using errcode = '42501';
+  end if;
+
+  select * into v_payment from public.payments where id = p_payment_id for update;
+  if not found then
+    raise exception 'Payment % not found', p_payment_id using errcode = 'P0002';
+  end if;
+  if v_payment.status <> 'pending' then
+    raise exception 'Payment % is % and cannot be rejected', p_payment_id, v_payment.status
+      using errcode = '22023';
+  end if;
+
+  v_previous := v_payment.status;
+
+  update public.payments
+  set status = 'rejected',
+      review_reason = nullif(trim(p_reason), ''),
+      updated_at = now()
+  where id = p_payment_id
+  returning * into v_payment;
+
+  insert into public.payment_events (payment_id, actor_id, previous_status, new_status, reason)
+  values (v_payment.id, auth.uid(), v_previous, 'rejected', nullif(trim(p_reason), ''));
+
+  return v_payment;
+end;
+$$;
+
+-- Refunds part or all of an approved payment. A null amount refunds whatever is left.
+-- Partial refunds shorten a time-bound grant by the same share of its period; one-off purchases
+-- are refunded in full or not at all.
+create or replace function public.refund_payment(
+  p_payment_id uuid,
+  p_amount_cents integer default null,
+  p_reason text default null
+)
+returns public.payments
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_payment public.payments;
+  v_amount integer;
+  v_total integer;
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can refund payments' using errcode = '42501';
+  end if;
+
+  select * into v_payment from public.payments where id = p_payment_id for update;
+  if not found then
+    raise exception 'Payment % not found', p_payment_id using errcode = 'P0002';
+  end if;
+  if v_payment.status <> 'approved' then
+    raise exception 'Only approved payments can be refunded' using errcode = '22023';
+  end if;
+
+  v_amount := coalesce(p_amount_cents, v_payment.amount_client_paid_cents - v_payment.refunded_cents);
+  v_total := v_payment.refunded_cents + v_amount;
+  if v_amount <= 0 or v_total > v_payment.amount_client_paid_cents then
+    raise exception 'Refund must be between 1 and % cents',
+      v_payment.amount_client_paid_cents - v_payment.refunded_cents
+      using errcode = '22023';
+  end if;
+  if coalesce(v_payment.billing_period, 'one_off') = 'one_off'
+    and v_total < v_payment.amount_client_paid_cents then
+    raise exception 'One-off purchases can only be refunded in full' using errcode = '22023';
+  end if;
+
+  update public.payments
+  set status = case when v_total = amount_client_paid_cents then 'refunded' else 'approved' end,
+      refunded_cents = v_total,
+      refunded_coach_cents = least(
+        coach_net_cents,
+        round(v_total::numeric * coach_net_cents / nullif(coach_net_cents + platform_fee_cents, 0))::integer
+      ),
+      refunded_at = now(),
+      review_reason = coalesce(nullif(trim(p_reason), ''), review_reason),
+      updated_at = now()
+  where id = p_payment_id
+  returning * into v_payment;
+
+  if v_payment.product_id is not null and v_payment.user_id is not null then
+    perform public.sync_entitlement(v_payment.user_id, v_payment.product_id);
+  end if;
+
+  insert into public.payment_events (payment_id, actor_id, previous_status, new_status, reason, amount_cents)
+  values (v_payment.id, auth.uid(), 'approved', v_payment.status, nullif(trim(p_reason), ''), v_amount);
+
+  return v_payment;
+end;
+$$;
+
+-- Pulls access bought by an approved payment without refunding it (e.g. a chargeback)
+create or replace function public.revoke_payment(p_payment_id uuid, p_reason text default null)
+returns public.payments
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_payment public.payments;
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can revoke payments' using errcode = '42501';
+  end if;
+
+  select * into v_payment from public.payments where id = p_payment_id for update;
+  if not found then
+    raise exception 'Payment % not found', p_payment_id using errcode = 'P0002';
+  end if;
+  if v_payment.status <> 'approved' then
+    raise exception 'Only approved payments can be revoked' using errcode = '22023';
+  end if;
+
+  update public.payments
+  set status = 'revoked',
+      review_reason = nullif(trim(p_reason), ''),
+      updated_at = now()
+  where id = p_payment_id
+  returning * into v_payment;
+
+  if v_payment.product_id is not null and v_payment.user_id is not null then
+    perform public.sync_entitlement(v_payment.user_id, v_payment.product_id);
+  end if;
+
+  insert into public.payment_events (payment_id, actor_id, previous_status, new_status, reason)
+  values (v_payment.id, auth.uid(), 'approved', 'revoked', nullif(trim(p_reason), ''));
+
+  return v_payment;
+end;
+$$;
+
+-- As before, but a partially refunded payment only buys the unrefunded share of its period
+create or replace function public.sync_entitlement(p_user_id uuid, p_product_id uuid)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_payment record;
+  v_latest uuid;
+  v_start timestamptz;
+  v_expires timestamptz;
+  v_permanent boolean := false;
+  v_inserted boolean;
+  v_removed integer;
+begin
+  for v_payment in
+    select id, coalesce(approved_at, created_at) as paid_at,
+           coalesce(billing_period, 'one_off') as period, billing_period_days,
+           1 - refunded_cents::numeric / amount_client_paid_cents as kept
+    from public.payments
+    where user_id = p_user_id and product_id = p_product_id and status = 'approved'
+    order by coalesce(approved_at, created_at), created_at
+  loop
+    v_latest := v_payment.id;
+    if v_payment.period = 'one_off' then
+      v_permanent := true;
+    elsif not v_permanent then
+      v_start := greatest(coalesce(v_expires, v_payment.paid_at), v_payment.paid_at);
+      v_expires := v_start + (
+        public.entitlement_period_end(v_start, v_payment.period, v_payment.billing_period_days) - v_start
+      ) * v_payment.kept;
+    end if;
+  end loop;
+
+  -- Nothing approved: drop payment-sourced grants, leave hand-made ones alone
+  if v_latest is null then
+    delete from public.entitlements
+    where user_id = p_user_id and product_id = p_product_id and source_payment_id is not null;
+    get diagnostics v_removed = row_count;
+    return case when v_removed > 0 then -1 else 0 end;
+  end if;
+
+  insert into public.entitlements (user_id, product_id, source_payment_id, expires_at)
+  values (p_user_id, p_product_id, v_latest, case when v_permanent then null else v_expires end)
+  on conflict (user_id, product_id) do update
+    set source_payment_id = excluded.source_payment_id,
+        expires_at = excluded.expires_at
+  returning (xmax = 0) into v_inserted;
+
+  return case when v_inserted then 1 else 0 end;
+end;
+$$;
+
+revoke all on function public.refund_payment(uuid, integer, text) from public, anon;
+revoke all on function public.revoke_payment(uuid, text) from public, anon;
+grant execute on function public.refund_payment(uuid, integer, text) to authenticated;
+grant execute on function public.revoke_payment(uuid, text) to authenticated;
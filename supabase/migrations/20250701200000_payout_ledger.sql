@@ -0,0 +1,373 @@
+-- Double-entry ledger for marketplace money and coach payout batches.
+-- Every money movement is one transaction of entries that sum to zero (positive = debit,
+-- negative = credit) across these accounts:
+--   cash              money the platform holds
+--   platform_revenue  the platform's fees
+--   coach_payable     earned by a coach and not yet put into a payout
+--   payout_pending    in a payout batch that has not been paid yet
+-- Entries are written by triggers and RPCs only; clients can read their own.
+
+create table if not exists public.payout_batches (
+  id uuid primary key default gen_random_uuid(),
+  period_start timestamptz not null,
+  period_end timestamptz not null,
+  status text not null default 'open' check (status in ('open','paid')),
+  reference text,
+  paid_at timestamptz,
+  created_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  check (period_end > period_start)
+);
+
+create table if not exists public.coach_payouts (
+  id uuid primary key default gen_random_uuid(),
+  batch_id uuid not null references public.payout_batches(id) on delete cascade,
+  coach_id uuid not null references public.profiles(id) on delete cascade,
+  amount_cents integer not null check (amount_cents > 0),
+  created_at timestamptz not null default now(),
+  unique (batch_id, coach_id)
+);
+
+create table if not exists public.ledger_entries (
+  id uuid primary key default gen_random_uuid(),
+  transaction_id uuid not null,
+  account text not null check (account in ('cash','platform_revenue','coach_payable','payout_pending')),
+  coach_id uuid references public.profiles(id) on delete set null,
+  entry_type text not null check (entry_type in ('sale','refund','revocation','payout_batched','payout_paid')),
+  amount_cents integer not null,
+  payment_id uuid references public.payments(id) on delete set null,
+  coach_payout_id uuid references public.coach_payouts(id) on delete set null,
+  -- For coach_payable credits: the payout that settled them, so each is paid out once
+  settled_by_payout_id uuid references public.coach_payouts(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_ledger_entries_coach on public.ledger_entries(coach_id, account, created_at);
+create index if not exists idx_ledger_entries_transaction on public.ledger_entries(transaction_id);
+create index if not exists idx_coach_payouts_coach on public.coach_payouts(coach_id);
+
+alter table public.payout_batches enable row level security;
+alter table public.coach_payouts enable row level security;
+alter table public.ledger_entries enable row level security;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public' and tablename = 'payout_batches' and policyname = 'Payout batches read'
+  ) then
+    create policy "Payout batches read" on public.payout_batches
+      for select using (
+        is_admin()
+        or exists (
+          select 1 from public.coach_payouts cp
+          where cp.batch_id = payout_batches.id and cp.coach_id = auth.uid()
+        )
+      );
+  end if;
+end$$;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public' and tablename = 'coach_payouts' and policyname = 'Coach payouts read'
+  ) then
+    create policy "Coach payouts read" on public.coach_payouts
+      for select using (coach_id = auth.uid() or is_admin());
+  end if;
+end$$;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public' and tablename = 'ledger_entries' and policyname = 'Ledger entries read'
+  ) then
+    create policy "Ledger entries read" on public.ledger_entries
+      for select using (coach_id = auth.uid() or is_admin());
+  end if;
+end$$;
+
+-- Posts one balanced transaction; zero-amount legs are skipped
+create or replace function public.post_ledger_transaction(
+  p_entry_type text,
+  p_coach_id uuid,
+  p_payment_id uuid,
+  p_cash integer,
+  p_platform_revenue integer,
+  p_coach_payable integer,
+  p_at timestamptz default now()
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_transaction uuid := gen_random_uuid();
+begin
+  if p_cash + p_platform_revenue + p_coach_payable <> 0 then
+    raise exception 'Unbalanced ledger transaction' using errcode = '23514';
+  end if;
+
+  insert into public.ledger_entries (transaction_id, account, coach_id, entry_type, amount_cents, payment_id, created_at)
+  select v_transaction, leg.account, p_coach_id, p_entry_type, leg.amount, p_payment_id, p_at
+  from (values
+    ('cash', p_cash),
+    ('platform_revenue', p_platform_revenue),
+    ('coach_payable', p_coach_payable)
+  ) as leg(account, amount)
+  where leg.amount <> 0;
+
+  return v_transaction;
+end;
+$$;
+
+revoke all on function public.post_ledger_transaction(text, uuid, uuid, integer, integer, integer, timestamptz)
+  from public, anon, authenticated;
+
+-- Mirrors review outcomes into the ledger:
+--   approval   cash in, coach and platform credited with their split
+--   refund     the refunded amount reversed in the same proportions
+--   revocation whatever is left of the sale reversed
+create or replace function public.post_payment_ledger()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_coach_refund integer;
+  v_refund integer;
+begin
+  if new.status = 'approved' and old.status in ('pending', 'rejected') then
+    perform public.post_ledger_transaction(
+      'sale', new.coach_id, new.id,
+      new.amount_client_paid_cents,
+      -(new.amount_client_paid_cents - new.coach_net_cents),
+      -new.coach_net_cents
+    );
+  end if;
+
+  if new.refunded_cents > old.refunded_cents then
+    v_refund := new.refunded_cents - old.refunded_cents;
+    v_coach_refund := new.refunded_coach_cents - old.refunded_coach_cents;
+    perform public.post_ledger_transaction(
+      'refund', new.coach_id, new.id,
+      -v_refund,
+      v_refund - v_coach_refund,
+      v_coach_refund
+    );
+  end if;
+
+  if new.status = 'revoked' and old.status = 'approved' then
+    perform public.post_ledger_transaction(
+      'revocation', new.coach_id, new.id,
+      -(new.amount_client_paid_cents - new.refunded_cents),
+      (new.amount_client_paid_cents - new.refunded_cents) - (new.coach_net_cents - new.refunded_coach_cents),
+      new.coach_net_cents - new.refunded_coach_cents
+    );
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists payments_post_ledger on public.payments;
+create trigger payments_post_ledger
+  after update on public.payments
+  for each row execute function public.post_payment_ledger();
+
+-- Backfill payments reviewed before the ledger existed
+do $$
+declare
+  v_payment public.payments;
+begin
+  if exists (select 1 from public.ledger_entries) then
+    return;
+  end if;
+
+  for v_payment in
+    select * from public.payments where status in ('approved', 'refunded', 'revoked') and approved_at is not null
+  loop
+    perform public.post_ledger_transaction(
+      'sale', v_payment.coach_id, v_payment.id,
+      v_payment.amount_client_paid_cents,
+      -(v_payment.amount_client_paid_cents - v_payment.coach_net_cents),
+      -v_payment.coach_net_cents,
+      v_payment.approved_at
+    );
+    if v_payment.refunded_cents > 0 then
+      perform public.post_ledger_transaction(
+        'refund', v_payment.coach_id, v_payment.id,
+        -v_payment.refunded_cents,
+        v_payment.refunded_cents - v_payment.refunded_coach_cents,
+        v_payment.refunded_coach_cents,
+        coalesce(v_payment.refunded_at, v_payment.updated_at)
+      );
+    end if;
+    if v_payment.status = 'revoked' then
+      perform public.post_ledger_transaction(
+        'revocation', v_payment.coach_id, v_payment.id,
+        -(v_payment.amount_client_paid_cents - v_payment.refunded_cents),
+        (v_payment.amount_client_paid_cents - v_payment.refunded_cents)
+          - (v_payment.coach_net_cents - v_payment.refunded_coach_cents),
+        v_payment.coach_net_cents - v_payment.refunded_coach_cents,
+        v_payment.updated_at
+      );
+    end if;
+  end loop;
+end$$;
+
+-- Collects each coach's unsettled earnings from [p_period_start, p_period_end) into a new batch.
+-- Coaches whose refunds outweigh their earnings for the period are carried over.
+create or replace function public.create_payout_batch(p_period_start timestamptz, p_period_end timestamptz)
+returns public.payout_batches
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_batch public.payout_batches;
+  v_coach record;
+  v_payout_id uuid;
+  v_amount integer;
+  v_transaction uuid;
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can create payout batches' using errcode = '42501';
+  end if;
+  if p_period_start is null or p_period_end is null or p_period_end <= p_period_start then
+    raise exception 'The payout period must end after it starts' using errcode = '22023';
+  end if;
+
+  -- One batch at a time, so two admins cannot both settle the same entries
+  perform pg_advisory_xact_lock(hashtext('public.create_payout_batch'));
+
+  insert into public.payout_batches (period_start, period_end, created_by)
+  values (p_period_start, p_period_end, auth.uid())
+  returning * into v_batch;
+
+  for v_coach in
+    select coach_id, -sum(amount_cents)::integer as amount
+    from public.ledger_entries
+    where account = 'coach_payable'
+      and entry_type in ('sale', 'refund', 'revocation')
+      and settled_by_payout_id is null
+      and coach_id is not null
+      and created_at >= p_period_start
+      and created_at < p_period_end
+    group by coach_id
+    having -sum(amount_cents) > 0
+  loop
+    insert into public.coach_payouts (batch_id, coach_id, amount_cents)
+    values (v_batch.id, v_coach.coach_id, v_coach.amount)
+    returning id into v_payout_id;
+
+    -- The payout is what this update settled, which includes entries written since the sum above
+    with settled as (
+      update public.ledger_entries
+      set settled_by_payout_id = v_payout_id
+      where account = 'coach_payable'
+        and entry_type in ('sale', 'refund', 'revocation')
+        and settled_by_payout_id is null
+        and coach_id = v_coach.coach_id
+        and created_at >= p_period_start
+        and created_at < p_period_end
+      returning amount_cents
+    )
+    select -coalesce(sum(amount_cents), 0)::integer into v_amount from settled;
+
+    -- Deleting the payout unsettles its entries again (on delete set null)
+    if v_amount <= 0 then
+      delete from public.coach_payouts where id = v_payout_id;
+      continue;
+    end if;
+    if v_amount <> v_coach.amount then
+      update public.coach_payouts set amount_cents = v_amount where id = v_payout_id;
+    end if;
+
+    v_transaction := gen_random_uuid();
+    insert into public.ledger_entries (transaction_id, account, coach_id, entry_type, amount_cents, coach_payout_id)
+    values
+      (v_transaction, 'coach_payable', v_coach.coach_id, 'payout_batched', v_amount, v_payout_id),
+      (v_transaction, 'payout_pending', v_coach.coach_id, 'payout_batched', -v_amount, v_payout_id);
+  end loop;
+
+  return v_batch;
+end;
+$$;
+
+create or replace function public.mark_payout_batch_paid(p_batch_id uuid, p_reference text)
+returns public.payout_batches
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_batch public.payout_batches;
+  v_payout public.coach_payouts;
+  v_transaction uuid;
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can mark payouts as paid' using errcode = '42501';
+  end if;
+  if nullif(trim(p_reference), '') is null then
+    raise exception 'A payment reference is required' using errcode = '22023';
+  end if;
+
+  select * into v_batch from public.payout_batches where id = p_batch_id for update;
+  if not found then
+    raise exception 'Payout batch % not found', p_batch_id using errcode = 'P0002';
+  end if;
+  if v_batch.status = 'paid' then
+    raise exception 'Payout batch % is already paid', p_batch_id using errcode = '22023';
+  end if;
+
+  for v_payout in select * from public.coach_payouts where batch_id = p_batch_id loop
+    v_transaction := gen_random_uuid();
+    insert into public.ledger_entries (transaction_id, account, coach_id, entry_type, amount_cents, coach_payout_id)
+    values
+      (v_transaction, 'payout_pending', v_payout.coach_id, 'payout_paid', v_payout.amount_cents, v_payout.id),
+      (v_transaction, 'cash', v_payout.coach_id, 'payout_paid', -v_payout.amount_cents, v_payout.id);
+  end loop;
+
+  update public.payout_batches
+  set status = 'paid', reference = trim(p_reference), paid_at = now()
+  where id = p_batch_id
+  returning * into v_batch;
+
+  return v_batch;
+end;
+$$;
+
+-- available: earned and not yet in a batch; pending: in an unpaid batch; paid: paid out so far
+create or replace function public.get_coach_balance(p_coach_id uuid default auth.uid())
+returns table (available_cents integer, pending_cents integer, paid_cents integer)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_admin() and p_coach_id is distinct from auth.uid() then
+    raise exception 'Only admins can view another coach''s balance' using errcode = '42501';
+  end if;
+
+  return query
+  select
+    coalesce(-sum(amount_cents) filter (where account = 'coach_payable'), 0)::integer,
+    coalesce(-sum(amount_cents) filter (where account = 'payout_pending'), 0)::integer,
+    coalesce(sum(amount_cents) filter (where account = 'payout_pending' and entry_type = 'payout_paid'), 0)::integer
+  from public.ledger_entries
+  where coach_id = p_coach_id;
+end;
+$$;
+
+revoke all on function public.create_payout_batch(timestamptz, timestamptz) from public, anon;
+revoke all on function public.mark_payout_batch_paid(uuid, text) from public, anon;
+revoke all on function public.get_coach_balance(uuid) from public, anon;
+grant execute on function public.create_payout_batch(timestamptz, timestamptz) to authenticated;
+grant execute on function public.mark_payout_batch_paid(uuid, text) to authenticated;
+grant execute on function public.get_coach_balance(uuid) to authenticated;
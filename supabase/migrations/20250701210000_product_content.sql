@@ -0,0 +1,288 @@
+-- Deliverable content for marketplace products.
+-- A `template` product sells one or more of the coach's workouts; a `path_pack` product sells a
+-- coaching blueprint that buyers turn into their own coaching path. The workouts stay private to
+-- the coach and become readable to anyone holding an active entitlement to the product.
+
+create table if not exists public.product_workouts (
+  product_id uuid not null references public.products(id) on delete cascade,
+  workout_id integer not null references public.workouts(id) on delete cascade,
+  position integer not null default 0,
+  primary key (product_id, workout_id)
+);
+
+create index if not exists idx_product_workouts_workout on public.product_workouts(workout_id);
+
+create table if not exists public.coaching_blueprints (
+  id uuid primary key default gen_random_uuid(),
+  coach_id uuid not null references public.profiles(id) on delete cascade,
+  title text not null,
+  goal_type text not null,
+  weeks integer not null check (weeks between 4 and 16),
+  sessions_per_week integer not null default 3 check (sessions_per_week between 2 and 6),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- Workouts a blueprint rotates through, in order
+create table if not exists public.coaching_blueprint_workouts (
+  blueprint_id uuid not null references public.coaching_blueprints(id) on delete cascade,
+  workout_id integer not null references public.workouts(id) on delete cascade,
+  position integer not null default 0,
+  primary key (blueprint_id, workout_id)
+);
+
+create index if not exists idx_coaching_blueprint_workouts_workout
+  on public.coaching_blueprint_workouts(workout_id);
+
+alter table public.products add column if not exists blueprint_id uuid
+  references public.coaching_blueprints(id) on delete set null;
+
+alter table public.coaching_paths add column if not exists source_product_id uuid
+  references public.products(id) on delete set null;
+
+alter table public.product_workouts enable row level security;
+alter table public.coaching_blueprints enable row level security;
+alter table public.coaching_blueprint_workouts enable row level security;
+
+-- Whether the current user bought access to a workout, directly or through a path pack
+create or replace function public.can_access_purchased_workout(p_workout_id integer)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.product_workouts pw
+    where pw.workout_id = p_workout_id
+      and public.has_entitlement(auth.uid(), null, pw.product_id)
+  )
+  or exists (
+    select 1
+    from public.coaching_blueprint_workouts bw
+    join public.products p on p.blueprint_id = bw.blueprint_id
+    where bw.workout_id = p_workout_id
+      and public.has_entitlement(auth.uid(), null, p.id)
+  );
+$$;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public' and tablename = 'workouts' and policyname = 'Entitled users can view purchased workouts'
+  ) then
+    create policy "Entitled users can view purchased workouts" on public.workouts
+      for select using (public.can_access_purchased_workout(id));
+  end if;
+end$$;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public' and tablename = 'workout_exercises' and policyname = 'Entitled users can view purchased workout exercises'
+  ) then
+    create policy "Entitled users can view purchased workout exercises" on public.workout_exercises
+      for select using (public.can_access_purchased_workout(workout_id));
+  end if;
+end$$;
+
+-- What a product contains is public so the marketplace can describe it; the workouts are not
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public' and tablename = 'product_workouts' and policyname = 'Product workouts public read'
+  ) then
+    create policy "Product workouts public read" on public.product_workouts
+      for select using (true);
+  end if;
+end$$;
+
+-- Coaches can only sell their own workouts in their own products
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public' and tablename = 'product_workouts' and policyname = 'Product workouts coach manage own'
+  ) then
+    create policy "Product workouts coach manage own" on public.product_workouts
+      for all using (
+        exists (select 1 from public.products p where p.id = product_id and p.coach_id = auth.uid())
+      )
+      with check (
+        exists (select 1 from public.products p where p.id = product_id and p.coach_id = auth.uid())
+        and exists (select 1 from public.workouts w where w.id = workout_id and w.creator_id = auth.uid())
+      );
+  end if;
+end$$;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public' and tablename = 'coaching_blueprints' and policyname = 'Coaching blueprints public read'
+  ) then
+    create policy "Coaching blueprints public read" on public.coaching_blueprints
+      for select using (true);
+  end if;
+end$$;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public' and tablename = 'coaching_blueprints' and policyname = 'Coaching blueprints coach manage own'
+  ) then
+    create policy "Coaching blueprints coach manage own" on public.coaching_blueprints
+      for all using (coach_id = auth.uid())
+      with check (coach_id = auth.uid());
+  end if;
+end$$;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public' and tablename = 'coaching_blueprint_workouts' and policyname = 'Coaching blueprint workouts public read'
+  ) then
+    create policy "Coaching blueprint workouts public read" on public.coaching_blueprint_workouts
+      for select using (true);
+  end if;
+end$$;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public' and tablename = 'coaching_blueprint_workouts' and policyname = 'Coaching blueprint workouts coach manage own'
+  ) then
+    create policy "Coaching blueprint workouts coach manage own" on public.coaching_blueprint_workouts
+      for all using (
+        exists (select 1 from public.coaching_blueprints b where b.id = blueprint_id and b.coach_id = auth.uid())
+      )
+      with check (
+        exists (select 1 from public.coaching_blueprints b where b.id = blueprint_id and b.coach_id = auth.uid())
+        and exists (select 1 from public.workouts w where w.id = workout_id and w.creator_id = auth.uid())
+      );
+  end if;
+end$$;
+
+-- Starts a coaching path for the current user from a path pack they own. Weeks follow the same
+-- build/deload/test rhythm as create_coaching_path, with sessions rotating the blueprint's workouts.
+create or replace function public.start_coaching_path_from_product(p_product_id uuid)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user uuid := auth.uid();
+  v_blueprint public.coaching_blueprints;
+  v_workouts integer[];
+  v_workout_count integer;
+  v_workout_id integer;
+  v_base_duration integer;
+  v_path_id uuid;
+  v_block_id uuid;
+  v_week integer;
+  v_session integer;
+  v_slot integer := 0;
+  v_phase text;
+  v_rpe integer;
+  v_volume numeric;
+begin
+  if v_user is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  select b.* into v_blueprint
+  from public.products p
+  join public.coaching_blueprints b on b.id = p.blueprint_id
+  where p.id = p_product_id;
+  if not found then
+    raise exception 'Product % has no coaching blueprint', p_product_id using errcode = 'P0002';
+  end if;
+
+  if not public.has_entitlement(v_user, null, p_product_id) then
+    raise exception 'You do not own this path pack' using errcode = '42501';
+  end if;
+
+  select array_agg(workout_id order by position, workout_id)
+  into v_workouts
+  from public.coaching_blueprint_workouts
+  where blueprint_id = v_blueprint.id;
+
+  v_workout_count := coalesce(array_length(v_workouts, 1), 0);
+
+  insert into public.coaching_paths (user_id, goal_type, weeks, current_week, status, baseline_metrics, source_product_id)
+  values (
+    v_user,
+    v_blueprint.goal_type,
+    v_blueprint.weeks,
+    1,
+    'active',
+    jsonb_build_object('blueprint_id', v_blueprint.id, 'schedule', v_blueprint.sessions_per_week || 'x/week'),
+    p_product_id
+  )
+  returning id into v_path_id;
+
+  for v_week in 1..v_blueprint.weeks loop
+    if v_week = v_blueprint.weeks then
+      v_phase := 'test';
+      v_rpe := 7;
+      v_volume := 0.7;
+    elsif v_week % 4 = 0 then
+      v_phase := 'deload';
+      v_rpe := 6;
+      v_volume := 0.6;
+    else
+      v_phase := 'build';
+      v_rpe := 8;
+      v_volume := 1.0;
+    end if;
+
+    insert into public.coaching_blocks (path_id, week_index, focus, readiness_target)
+    values (
+      v_path_id,
+      v_week,
+      v_blueprint.title || ' • ' || initcap(v_phase),
+      jsonb_build_object('phase', v_phase, 'target_rpe', v_rpe, 'min_readiness', v_rpe - 2)
+    )
+    returning id into v_block_id;
+
+    for v_session in 1..v_blueprint.sessions_per_week loop
+      v_workout_id := null;
+      v_base_duration := 45;
+
+      if v_workout_count > 0 then
+        v_workout_id := v_workouts[(v_slot % v_workout_count) + 1];
+        select coalesce(estimated_duration_minutes, 45)
+        into v_base_duration
+        from public.workouts
+        where id = v_workout_id;
+      end if;
+
+      insert into public.coaching_sessions (
+        block_id, session_index, template_workout_id, planned_duration, planned_load, notes
+      )
+      values (
+        v_block_id,
+        v_session,
+        v_workout_id,
+        greatest(15, round(v_base_duration * v_volume)::integer),
+        jsonb_build_object('phase', v_phase, 'rpe_target', v_rpe, 'volume_multiplier', v_volume),
+        'Week ' || v_week || ' • ' || v_blueprint.title
+      );
+
+      v_slot := v_slot + 1;
+    end loop;
+  end loop;
+
+  return v_path_id;
+end;
+$$;
+
+revoke all on function public.start_coaching_path_from_product(uuid) from public, anon;
+grant execute on function public.start_coaching_path_from_product(uuid) to authenticated;
@@ -0,0 +1,313 @@
+-- Premium workout templates.
+-- A public template can be tied to a marketplace product. Everyone can still see the workout row
+-- and a preview of it, but its exercise list is only readable by the creator and by users with an
+-- active entitlement to the product.
+
+alter table public.workouts add column if not exists premium_product_id uuid
+  references public.products(id) on delete set null;
+
+create index if not exists idx_workouts_premium_product on public.workouts(premium_product_id);
+
+-- A coach can only lock a workout behind one of their own products
+create or replace function public.check_workout_premium_product()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.premium_product_id is not null and not exists (
+    select 1 from public.products p
+    where p.id = new.premium_product_id and p.coach_id = new.creator_id
+  ) then
+    raise exception 'Premium workouts must be sold by their creator' using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists workouts_check_premium_product on public.workouts;
+create trigger workouts_check_premium_product
+  before insert or update of premium_product_id, creator_id on public.workouts
+  for each row execute function public.check_workout_premium_product();
+
+-- Whether the current user may read the full exercise list of a workout
+create or replace function public.can_view_workout_exercises(p_workout_id integer)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.workouts w
+    where w.id = p_workout_id
+      and (
+        w.creator_id = auth.uid()
+        or (
+          w.is_public = true
+          and (
+            w.premium_product_id is null
+            or public.has_entitlement(auth.uid(), null, w.premium_product_id)
+          )
+        )
+      )
+  );
+$$;
+
+drop policy if exists "Users can view workout exercises for accessible workouts" on public.workout_exercises;
+create policy "Users can view workout exercises for accessible workouts" on public.workout_exercises
+  for select using (public.can_view_workout_exercises(workout_id));
+
+-- What a locked workout shows before purchase: its muscle groups and first two exercises
+create or replace function public.get_workout_preview(p_workout_id integer)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select jsonb_build_object(
+    'exercise_count', (
+      select count(*) from public.workout_exercises we where we.workout_id = w.id
+    ),
+    'muscle_groups', coalesce((
+      select jsonb_agg(distinct mg)
+      from public.workout_exercises we
+      join public.exercises e on e.id = we.exercise_id
+      cross join lateral unnest(e.muscle_groups) as mg
+      where we.workout_id = w.id
+    ), '[]'::jsonb),
+    'exercises', coalesce((
+      select jsonb_agg(
+        jsonb_build_object(
+          'id', first_two.id,
+          'name', first_two.name,
+          'muscle_groups', to_jsonb(first_two.muscle_groups),
+          'target_sets', first_two.target_sets,
+          'target_reps', to_jsonb(first_two.target_reps),
+          'target_duration_seconds', first_two.target_duration_seconds
+        )
+        order by first_two.order_index
+      )
+      from (
+        select we.id, we.order_index, we.target_sets, we.target_reps, we.target_duration_seconds,
+          e.name, e.muscle_groups
+        from public.workout_exercises we
+        join public.exercises e on e.id = we.exercise_id
+        where we.workout_id = w.id
+        order by we.order_index
+        limit 2
+      ) first_two
+    ), '[]'::jsonb)
+  )
+  from public.workouts w
+  where w.id = p_workout_id
+    and (w.is_public = true or w.creator_id = auth.uid());
+$$;
+
+revoke all on function public.get_workout_preview(integer) from public, anon;
+grant execute on function public.get_workout_preview(integer) to authenticated;
+
+-- Generated coaching paths only use premium templates the user may open
+create or replace function public.create_coaching_path(
+  goal_type text,
+  weeks integer,
+  baseline_metrics jsonb default '{}'::jsonb
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  v_user uuid := auth.uid();
+  v_path_id uuid;
+  v_block_id uuid;
+  v_metrics jsonb := coalesce(baseline_metrics, '{}'::jsonb);
+  v_goal text := lower(trim(goal_type));
+  v_weeks integer := weeks;
+  v_sessions_per_week integer;
+  v_level text;
+  v_types text[];
+  v_templates integer[];
+  v_template_count integer;
+  v_template_id integer;
+  v_base_duration integer;
+  v_week integer;
+  v_session integer;
+  v_slot integer := 0;
+  v_phase text;
+  v_focus text;
+  v_rpe integer;
+  v_volume numeric;
+begin
+  if v_user is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  if v_goal is null or v_goal = '' then
+    raise exception 'goal_type is required' using errcode = '22023';
+  end if;
+
+  if v_weeks is null or v_weeks < 4 or v_weeks > 16 then
+    raise exception 'weeks must be between 4 and 16' using errcode = '22023';
+  end if;
+
+  v_sessions_per_week := least(
+    6,
+    greatest(2, coalesce(nullif(substring(v_metrics->>'schedule' from '(\d+)'), '')::integer, 3))
+  );
+
+  select coalesce(
+    nullif(v_metrics->>'fitness_level', ''),
+    (select fitness_level from public.profiles where id = v_user),
+    'beginner'
+  ) into v_level;
+
+  if v_level not in ('beginner', 'intermediate', 'advanced') then
+    v_level := 'beginner';
+  end if;
+
+  v_types := case v_goal
+    when '5k' then array['cardio', 'hiit']
+    when 'fat_loss' then array['hiit', 'cardio', 'strength']
+    when 'recomp' then array['strength', 'hiit', 'mixed']
+    when 'hypertrophy' then array['strength']
+    when 'first_pullup' then array['strength']
+    else array['strength', 'mixed', 'cardio']
+  end;
+
+  -- Prefer templates at the user's level, then any level of the right type, then anything public.
+  -- Premium templates only count if the user owns them.
+  select array_agg(id order by array_position(v_types, workout_type), id)
+  into v_templates
+  from public.workouts
+  where is_template = true
+    and is_public = true
+    and public.can_view_workout_exercises(id)
+    and workout_type = any(v_types)
+    and difficulty_level = v_level;
+
+  if v_templates is null then
+    select array_agg(id order by array_position(v_types, workout_type), id)
+    into v_templates
+    from public.workouts
+    where is_template = true
+      and is_public = true
+      and public.can_view_workout_exercises(id)
+      and workout_type = any(v_types);
+  end if;
+
+  if v_templates is null then
+    select array_agg(id order by id)
+    into v_templates
+    from public.workouts
+    where is_template = true
+      and is_public = true
+      and public.can_view_workout_exercises(id);
+  end if;
+
+  v_template_count := coalesce(array_length(v_templates, 1), 0);
+
+  insert into public.coaching_paths (user_id, goal_type, weeks, current_week, status, baseline_metrics)
+  values (v_user, v_goal, v_weeks, 1, 'active', v_metrics)
+  returning id into v_path_id;
+
+  for v_week in 1..v_weeks loop
+    -- Base -> build -> peak, with a deload every 4th week and a test/taper final week
+    if v_week = v_weeks then
+      v_phase := case when v_goal = '5k' then 'taper' else 'test' end;
+      v_rpe := 7;
+      v_volume := 0.7;
+    elsif v_week % 4 = 0 then
+      v_phase := 'deload';
+      v_rpe := 6;
+      v_volume := 0.6;
+    elsif v_week <= ceil(v_weeks * 0.4) then
+      v_phase := 'base';
+      v_rpe := 7;
+      v_volume := 0.9;
+    elsif v_week <= ceil(v_weeks * 0.8) then
+      v_phase := 'build';
+      v_rpe := 8;
+      v_volume := 1.0;
+    else
+      v_phase := 'peak';
+      v_rpe := 9;
+      v_volume := 1.1;
+    end if;
+
+    v_focus := case v_goal
+      when 'first_pullup' then case v_phase
+        when 'base' then 'Scapular strength and hangs'
+        when 'build' then 'Negatives and assisted reps'
+        when 'peak' then 'Heavy singles and holds'
+        when 'deload' then 'Recovery and mobility'
+        else 'Pull-up test'
+      end
+      when '5k' then case v_phase
+        when 'base' then 'Aerobic base'
+        when 'build' then 'Tempo and threshold'
+        when 'peak' then 'Race-pace intervals'
+        when 'deload' then 'Easy mileage'
+        else 'Taper and race'
+      end
+      when 'hypertrophy' then case v_phase
+        when 'base' then 'Volume accumulation'
+        when 'build' then 'Progressive overload'
+        when 'peak' then 'Intensity techniques'
+        when 'deload' then 'Deload'
+        else 'Rep max check-in'
+      end
+      when 'fat_loss' then case v_phase
+        when 'base' then 'Conditioning base'
+        when 'build' then 'Metabolic circuits'
+        when 'peak' then 'High-intensity intervals'
+        when 'deload' then 'Active recovery'
+        else 'Progress check-in'
+      end
+      else initcap(v_phase) || ' phase'
+    end;
+
+    insert into public.coaching_blocks (path_id, week_index, focus, readiness_target)
+    values (
+      v_path_id,
+      v_week,
+      v_focus,
+      jsonb_build_object('phase', v_phase, 'target_rpe', v_rpe, 'min_readiness', v_rpe - 2)
+    )
+    returning id into v_block_id;
+
+    for v_session in 1..v_sessions_per_week loop
+      v_template_id := null;
+      v_base_duration := 45;
+
+      if v_template_count > 0 then
+        v_template_id := v_templates[(v_slot % v_template_count) + 1];
+        select coalesce(estimated_duration_minutes, 45)
+        into v_base_duration
+        from public.workouts
+        where id = v_template_id;
+      end if;
+
+      insert into public.coaching_sessions (
+        block_id, session_index, template_workout_id, planned_duration, planned_load, notes
+      )
+      values (
+        v_block_id,
+        v_session,
+        v_template_id,
+        greatest(15, round(v_base_duration * v_volume)::integer),
+        jsonb_build_object('phase', v_phase, 'rpe_target', v_rpe, 'volume_multiplier', v_volume),
+        'Week ' || v_week || ' • ' || v_focus
+      );
+
+      v_slot := v_slot + 1;
+    end loop;
+  end loop;
+
+  return v_path_id;
+end;
+$$;
@@ -0,0 +1,257 @@
+-- Promo codes for marketplace products.
+-- A code takes a percentage or a fixed amount off the list price. Coaches create codes for their
+-- own products (one product, or all of them when product_id is null); admins can also create
+-- platform-wide codes, e.g. for referrals, by leaving coach_id null. Buyers never read this table:
+-- they quote a code through validate_promo_code() and the payment trigger applies it again.
+
+create table if not exists public.promo_codes (
+  id uuid primary key default gen_random_uuid(),
+  code text not null check (code ~ '^[A-Z0-9_-]{3,32}$'),
+  coach_id uuid references public.profiles(id) on delete cascade,
+  product_id uuid references public.products(id) on delete cascade,
+  discount_type text not null check (discount_type in ('percent','fixed')),
+  discount_value integer not null check (discount_value > 0),
+  expires_at timestamptz,
+  max_redemptions integer check (max_redemptions is null or max_redemptions > 0),
+  per_user_limit integer not null default 1 check (per_user_limit > 0),
+  redemption_count integer not null default 0,
+  is_active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  -- A 100% code would leave nothing to pay a receipt against
+  check (discount_type <> 'percent' or discount_value < 100)
+);
+
+create unique index if not exists idx_promo_codes_code on public.promo_codes(code);
+create index if not exists idx_promo_codes_coach on public.promo_codes(coach_id);
+
+alter table public.promo_codes enable row level security;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public' and tablename = 'promo_codes' and policyname = 'Promo codes coach manage own'
+  ) then
+    create policy "Promo codes coach manage own" on public.promo_codes
+      for all using (coach_id = auth.uid())
+      with check (
+        coach_id = auth.uid()
+        and (
+          product_id is null
+          or exists (select 1 from public.products p where p.id = product_id and p.coach_id = auth.uid())
+        )
+      );
+  end if;
+end$$;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public' and tablename = 'promo_codes' and policyname = 'Promo codes admin manage'
+  ) then
+    create policy "Promo codes admin manage" on public.promo_codes
+      for all using (is_admin()) with check (is_admin());
+  end if;
+end$$;
+
+alter table public.payments add column if not exists promo_code text;
+alter table public.payments add column if not exists promo_code_id uuid
+  references public.promo_codes(id) on delete set null;
+alter table public.payments add column if not exists discount_cents integer not null default 0;
+
+create index if not exists idx_payments_promo_code on public.payments(promo_code_id);
+
+-- Finds the code and checks it can be used by this user on this product, raising a readable
+-- error otherwise. Locks the code so concurrent payments cannot overshoot the redemption limits.
+create or replace function public.resolve_promo_code(p_code text, p_product_id uuid, p_user_id uuid)
+returns public.promo_codes
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_promo public.promo_codes;
+  v_product public.products;
+  v_user_redemptions integer;
+begin
+  select * into v_promo from public.promo_codes where code = upper(trim(p_code)) for update;
+  if not found or not v_promo.is_active then
+    raise exception 'This promo code is not valid' using errcode = 'P0002';
+  end if;
+  if v_promo.expires_at is not null and v_promo.expires_at <= now() then
+    raise exception 'This promo code has expired' using errcode = '22023';
+  end if;
+
+  select * into v_product from public.products where id = p_product_id;
+  if not found
+    or (v_promo.product_id is not null and v_promo.product_id <> p_product_id)
+    or (v_promo.coach_id is not null and v_promo.coach_id is distinct from v_product.coach_id) then
+    raise exception 'This promo code does not apply to this product' using errcode = '22023';
+  end if;
+  if v_promo.discount_type = 'fixed' and v_promo.discount_value >= v_product.price_cents then
+    raise exception 'This promo code does not apply to this product' using errcode = '22023';
+  end if;
+
+  if v_promo.max_redemptions is not null and v_promo.redemption_count >= v_promo.max_redemptions then
+    raise exception 'This promo code has been fully redeemed' using errcode = '22023';
+  end if;
+
+  select count(*) into v_user_redemptions
+  from public.payments
+  where promo_code_id = v_promo.id and user_id = p_user_id and status <> 'rejected';
+  if v_user_redemptions >= v_promo.per_user_limit then
+    raise exception 'You have already used this promo code' using errcode = '22023';
+  end if;
+
+  return v_promo;
+end;
+$$;
+
+create or replace function public.promo_discount_cents(p_promo public.promo_codes, p_price_cents integer)
+returns integer
+language sql
+immutable
+as $$
+  select case p_promo.discount_type
+    when 'percent' then floor(p_price_cents * p_promo.discount_value / 100.0)::integer
+    else least(p_promo.discount_value, p_price_cents)
+  end;
+$$;
+
+-- Quotes a code for the current user without redeeming it
+create or replace function public.validate_promo_code(p_code text, p_product_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_promo public.promo_codes;
+  v_price integer;
+  v_discount integer;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  v_promo := public.resolve_promo_code(p_code, p_product_id, auth.uid());
+  select price_cents into v_price from public.products where id = p_product_id;
+  v_discount := public.promo_discount_cents(v_promo, v_price);
+
+  return jsonb_build_object(
+    'promo_code_id', v_promo.id,
+    'code', v_promo.code,
+    'discount_type', v_promo.discount_type,
+    'discount_value', v_promo.discount_value,
+    'price_cents', v_price,
+    'discount_cents', v_discount,
+    'final_price_cents', v_price - v_discount
+  );
+end;
+$$;
+
+revoke all on function public.resolve_promo_code(text, uuid, uuid) from public, anon, authenticated;
+revoke all on function public.validate_promo_code(text, uuid) from public, anon;
+grant execute on function public.validate_promo_code(text, uuid) to authenticated;
+
+-- Same as before, plus the promo code: fees and the mismatch check use the discounted price
+create or replace function public.apply_payment_fees()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_product public.products;
+  v_schedule public.fee_schedules;
+  v_promo public.promo_codes;
+  v_discount integer := 0;
+  v_price integer;
+  v_fee integer := 0;
+begin
+  if new.product_id is null then
+    raise exception 'A product is required to submit a payment' using errcode = '23502';
+  end if;
+
+  select * into v_product from public.products where id = new.product_id;
+  if not found then
+    raise exception 'Product % not found', new.product_id using errcode = 'P0002';
+  end if;
+
+  if new.entitlement_id is not null and not exists (
+    select 1 from public.entitlements
+    where id = new.entitlement_id and user_id = new.user_id and product_id = new.product_id
+  ) then
+    raise exception 'Entitlement % cannot be renewed by this payment', new.entitlement_id
+      using errcode = '22023';
+  end if;
+
+  new.promo_code_id := null;
+  if nullif(trim(new.promo_code), '') is not null then
+    v_promo := public.resolve_promo_code(new.promo_code, new.product_id, new.user_id);
+    v_discount := public.promo_discount_cents(v_promo, v_product.price_cents);
+    new.promo_code := v_promo.code;
+    new.promo_code_id := v_promo.id;
+  else
+    new.promo_code := null;
+  end if;
+  v_price := v_product.price_cents - v_discount;
+
+  v_schedule := public.resolve_fee_schedule(v_product.coach_id, v_product.type);
+  if v_schedule.id is not null then
+    v_fee := least(
+      v_price,
+      greatest(v_schedule.min_fee_cents, ceil(v_price * v_schedule.fee_percent / 100)::integer)
+    );
+  end if;
+
+  new.coach_id := v_product.coach_id;
+  new.price_cents := v_product.price_cents;
+  new.discount_cents := v_discount;
+  new.currency := v_product.currency;
+  new.billing_period := v_product.billing_period;
+  new.billing_period_days := v_product.billing_period_days;
+  new.fee_schedule_id := v_schedule.id;
+  new.platform_fee_cents := v_fee;
+  new.coach_net_cents := v_price - v_fee;
+  new.amount_mismatch := new.amount_client_paid_cents <> v_price;
+
+  -- Every payment starts out pending; only the review RPCs move it on
+  new.status := 'pending';
+  new.approved_at := null;
+  new.approved_by := null;
+  new.review_reason := null;
+  new.refunded_cents := 0;
+  new.refunded_coach_cents := 0;
+  new.refunded_at := null;
+  return new;
+end;
+$$;
+
+-- Rejected payments give their redemption back; every other status keeps it
+create or replace function public.count_promo_redemptions()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.promo_code_id is not null then
+    update public.promo_codes
+    set redemption_count = (
+          select count(*) from public.payments
+          where promo_code_id = new.promo_code_id and status <> 'rejected'
+        ),
+        updated_at = now()
+    where id = new.promo_code_id;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists payments_count_promo_redemptions on public.payments;
+create trigger payments_count_promo_redemptions
+  after insert or update of status on public.payments
+  for each row execute function public.count_promo_redemptions();
@@ -0,0 +1,81 @@
+-- Exercise groups: supersets, circuits, EMOM and AMRAP blocks.
+-- Grouped exercises stay rows in workout_exercises, kept next to each other by order_index and
+-- pointing at their group. The group sets how many rounds are done, the rest between exercises
+-- inside a round and the rest after each round; EMOM adds the interval length and AMRAP a time cap.
+
+create table if not exists public.workout_exercise_groups (
+  id uuid primary key default gen_random_uuid(),
+  workout_id integer not null references public.workouts(id) on delete cascade,
+  group_type text not null check (group_type in ('superset','circuit','emom','amrap')),
+  rounds integer not null default 3 check (rounds between 1 and 50),
+  rest_between_exercises_seconds integer not null default 0 check (rest_between_exercises_seconds >= 0),
+  rest_after_round_seconds integer not null default 60 check (rest_after_round_seconds >= 0),
+  interval_seconds integer check (interval_seconds is null or interval_seconds > 0),
+  time_cap_seconds integer check (time_cap_seconds is null or time_cap_seconds > 0),
+  created_at timestamptz not null default now(),
+  check (group_type <> 'emom' or interval_seconds is not null),
+  check (group_type <> 'amrap' or time_cap_seconds is not null)
+);
+
+create index if not exists idx_workout_exercise_groups_workout
+  on public.workout_exercise_groups(workout_id);
+
+alter table public.workout_exercises add column if not exists group_id uuid
+  references public.workout_exercise_groups(id) on delete set null;
+
+create index if not exists idx_workout_exercises_group on public.workout_exercises(group_id);
+
+alter table public.workout_exercise_groups enable row level security;
+
+-- Readable wherever the workout's exercises are, including premium and purchased workouts
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public' and tablename = 'workout_exercise_groups' and policyname = 'Users can view exercise groups for accessible workouts'
+  ) then
+    create policy "Users can view exercise groups for accessible workouts" on public.workout_exercise_groups
+      for select using (
+        public.can_view_workout_exercises(workout_id)
+        or public.can_access_purchased_workout(workout_id)
+      );
+  end if;
+end$$;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public' and tablename = 'workout_exercise_groups' and policyname = 'Users can manage exercise groups for own workouts'
+  ) then
+    create policy "Users can manage exercise groups for own workouts" on public.workout_exercise_groups
+      for all using (
+        exists (select 1 from public.workouts w where w.id = workout_id and w.creator_id = auth.uid())
+      )
+      with check (
+        exists (select 1 from public.workouts w where w.id = workout_id and w.creator_id = auth.uid())
+      );
+  end if;
+end$$;
+
+-- An exercise can only join a group of its own workout
+create or replace function public.check_workout_exercise_group()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.group_id is not null and not exists (
+    select 1 from public.workout_exercise_groups g
+    where g.id = new.group_id and g.workout_id = new.workout_id
+  ) then
+    raise exception 'Exercise group % belongs to another workout', new.group_id using errcode = '23503';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists workout_exercises_check_group on public.workout_exercises;
+create trigger workout_exercises_check_group
+  before insert or update of group_id, workout_id on public.workout_exercises
+  for each row execute function public.check_workout_exercise_group();
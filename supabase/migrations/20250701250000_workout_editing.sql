@@ -0,0 +1,206 @@
+-- Editing, duplicating and deleting saved workouts.
+-- Workouts are soft-deleted: workout_sessions keep pointing at them (a hard delete would null
+-- their workout_id), and products or coaching paths that deliver them keep working. Edits go
+-- through save_workout_plan(), which updates the exercise rows in place inside one transaction,
+-- so a half-saved workout is never left behind.
+
+alter table public.workouts add column if not exists deleted_at timestamptz;
+
+create index if not exists idx_workouts_creator_active
+  on public.workouts(creator_id) where deleted_at is null;
+
+-- p_details holds the workouts columns to change. p_groups is a list of exercise groups, each
+-- with a client-side "key". p_exercises is the full ordered exercise list; entries with an "id"
+-- update that row, others are inserted, and rows missing from the list are removed.
+create or replace function public.save_workout_plan(
+  p_workout_id integer,
+  p_details jsonb,
+  p_groups jsonb,
+  p_exercises jsonb
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_group jsonb;
+  v_exercise jsonb;
+  v_group_ids jsonb := '{}'::jsonb;
+  v_group_id uuid;
+  v_kept integer[] := '{}';
+  v_id integer;
+  v_position integer := 0;
+begin
+  if not exists (
+    select 1 from public.workouts
+    where id = p_workout_id and creator_id = auth.uid() and deleted_at is null
+  ) then
+    raise exception 'Workout % not found', p_workout_id using errcode = 'P0002';
+  end if;
+  if jsonb_array_length(coalesce(p_exercises, '[]'::jsonb)) = 0 then
+    raise exception 'A workout needs at least one exercise' using errcode = '22023';
+  end if;
+
+  update public.workouts
+  set name = coalesce(nullif(trim(p_details->>'name'), ''), name),
+      description = nullif(trim(p_details->>'description'), ''),
+      estimated_duration_minutes = (p_details->>'estimated_duration_minutes')::integer,
+      difficulty_level = coalesce(p_details->>'difficulty_level', difficulty_level),
+      workout_type = coalesce(p_details->>'workout_type', workout_type),
+      is_template = coalesce((p_details->>'is_template')::boolean, is_template),
+      is_public = coalesce((p_details->>'is_public')::boolean, is_public),
+      updated_at = now()
+  where id = p_workout_id;
+
+  -- Groups are rebuilt; removing them clears group_id on their exercises until re-linked below
+  delete from public.workout_exercise_groups where workout_id = p_workout_id;
+  for v_group in select * from jsonb_array_elements(coalesce(p_groups, '[]'::jsonb)) loop
+    insert into public.workout_exercise_groups (
+      workout_id, group_type, rounds, rest_between_exercises_seconds, rest_after_round_seconds,
+      interval_seconds, time_cap_seconds
+    )
+    values (
+      p_workout_id,
+      v_group->>'group_type',
+      coalesce((v_group->>'rounds')::integer, 3),
+      coalesce((v_group->>'rest_between_exercises_seconds')::integer, 0),
+      coalesce((v_group->>'rest_after_round_seconds')::integer, 60),
+      (v_group->>'interval_seconds')::integer,
+      (v_group->>'time_cap_seconds')::integer
+    )
+    returning id into v_group_id;
+    v_group_ids := v_group_ids || jsonb_build_object(v_group->>'key', v_group_id);
+  end loop;
+
+  for v_exercise in select * from jsonb_array_elements(p_exercises) loop
+    v_group_id := (v_group_ids->>(v_exercise->>'group_key'))::uuid;
+    v_id := null;
+
+    if v_exercise->>'id' is not null then
+      update public.workout_exercises
+      set exercise_id = (v_exercise->>'exercise_id')::integer,
+          order_index = v_position,
+          target_sets = (v_exercise->>'target_sets')::integer,
+          target_reps = nullif(
+            array(select jsonb_array_elements_text(coalesce(v_exercise->'target_reps', '[]'::jsonb))::integer),
+            '{}'
+          ),
+          target_weight_kg = (v_exercise->>'target_weight_kg')::numeric,
+          target_duration_seconds = (v_exercise->>'target_duration_seconds')::integer,
+          rest_seconds = coalesce((v_exercise->>'rest_seconds')::integer, 60),
+          notes = nullif(trim(v_exercise->>'notes'), ''),
+          group_id = v_group_id
+      where id = (v_exercise->>'id')::integer and workout_id = p_workout_id
+      returning id into v_id;
+    end if;
+
+    if v_id is null then
+      insert into public.workout_exercises (
+        workout_id, exercise_id, order_index, target_sets, target_reps, target_weight_kg,
+        target_duration_seconds, rest_seconds, notes, group_id
+      )
+      values (
+        p_workout_id,
+        (v_exercise->>'exercise_id')::integer,
+        v_position,
+        (v_exercise->>'target_sets')::integer,
+        nullif(
+          array(select jsonb_array_elements_text(coalesce(v_exercise->'target_reps', '[]'::jsonb))::integer),
+          '{}'
+        ),
+        (v_exercise->>'target_weight_kg')::numeric,
+        (v_exercise->>'target_duration_seconds')::integer,
+        coalesce((v_exercise->>'rest_seconds')::integer, 60),
+        nullif(trim(v_exercise->>'notes'), ''),
+        v_group_id
+      )
+      returning id into v_id;
+    end if;
+
+    v_kept := v_kept || v_id;
+    v_position := v_position + 1;
+  end loop;
+
+  delete from public.workout_exercises where workout_id = p_workout_id and id <> all(v_kept);
+end;
+$$;
+
+-- Deep-copies a workout with its groups and exercises for p_owner. The copy is private and not
+-- locked behind any product. Callers check that p_owner may read the source.
+create or replace function public.copy_workout(p_source_id integer, p_owner uuid, p_name text)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_workout_id integer;
+  v_group public.workout_exercise_groups;
+  v_group_ids jsonb := '{}'::jsonb;
+  v_group_id uuid;
+begin
+  insert into public.workouts (
+    creator_id, name, description, estimated_duration_minutes, difficulty_level, workout_type,
+    is_template, is_public
+  )
+  select p_owner, p_name, description, estimated_duration_minutes, difficulty_level, workout_type,
+    is_template, false
+  from public.workouts
+  where id = p_source_id
+  returning id into v_workout_id;
+
+  if v_workout_id is null then
+    raise exception 'Workout % not found', p_source_id using errcode = 'P0002';
+  end if;
+
+  for v_group in select * from public.workout_exercise_groups where workout_id = p_source_id loop
+    insert into public.workout_exercise_groups (
+      workout_id, group_type, rounds, rest_between_exercises_seconds, rest_after_round_seconds,
+      interval_seconds, time_cap_seconds
+    )
+    values (
+      v_workout_id, v_group.group_type, v_group.rounds, v_group.rest_between_exercises_seconds,
+      v_group.rest_after_round_seconds, v_group.interval_seconds, v_group.time_cap_seconds
+    )
+    returning id into v_group_id;
+    v_group_ids := v_group_ids || jsonb_build_object(v_group.id::text, v_group_id);
+  end loop;
+
+  insert into public.workout_exercises (
+    workout_id, exercise_id, order_index, target_sets, target_reps, target_weight_kg,
+    target_duration_seconds, rest_seconds, notes, group_id
+  )
+  select v_workout_id, exercise_id, order_index, target_sets, target_reps, target_weight_kg,
+    target_duration_seconds, rest_seconds, notes, (v_group_ids->>group_id::text)::uuid
+  from public.workout_exercises
+  where workout_id = p_source_id;
+
+  return v_workout_id;
+end;
+$$;
+
+create or replace function public.duplicate_workout(p_workout_id integer)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_name text;
+begin
+  select name into v_name from public.workouts
+  where id = p_workout_id and creator_id = auth.uid() and deleted_at is null;
+  if not found then
+    raise exception 'Workout % not found', p_workout_id using errcode = 'P0002';
+  end if;
+
+  return public.copy_workout(p_workout_id, auth.uid(), left(v_name, 93) || ' (copy)');
+end;
+$$;
+
+revoke all on function public.save_workout_plan(integer, jsonb, jsonb, jsonb) from public, anon;
+grant execute on function public.save_workout_plan(integer, jsonb, jsonb, jsonb) to authenticated;
+revoke all on function public.copy_workout(integer, uuid, text) from public, anon, authenticated;
+revoke all on function public.duplicate_workout(integer) from public, anon;
+grant execute on function public.duplicate_workout(integer) to authenticated;
@@ -0,0 +1,89 @@
+-- Forking templates into personal workouts.
+-- A fork is a private deep copy (see copy_workout()) that remembers the template it came from.
+-- Forks are private, so their authors' RLS hides them from the template author; the template
+-- keeps a fork_count instead, bumped by fork_workout().
+-- Forks of premium templates are marked as premium copies and can never be shared again, so
+-- bought content cannot be republished for free.
+
+alter table public.workouts add column if not exists forked_from_workout_id integer
+  references public.workouts(id) on delete set null;
+alter table public.workouts add column if not exists fork_count integer not null default 0;
+alter table public.workouts add column if not exists is_premium_copy boolean not null default false;
+
+create index if not exists idx_workouts_forked_from on public.workouts(forked_from_workout_id);
+
+create or replace function public.fork_workout(p_workout_id integer)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_source public.workouts;
+  v_workout_id integer;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  select * into v_source from public.workouts
+  where id = p_workout_id and is_template = true and deleted_at is null;
+  -- Locked premium templates can only be forked once bought
+  if not found or not (
+    public.can_view_workout_exercises(p_workout_id)
+    or public.can_access_purchased_workout(p_workout_id)
+  ) then
+    raise exception 'Template % not found', p_workout_id using errcode = 'P0002';
+  end if;
+  if v_source.creator_id = auth.uid() then
+    raise exception 'Duplicate your own workouts instead of forking them' using errcode = '22023';
+  end if;
+
+  v_workout_id := public.copy_workout(p_workout_id, auth.uid(), v_source.name);
+  update public.workouts
+  set forked_from_workout_id = p_workout_id,
+    is_template = false,
+    is_premium_copy = is_premium_copy or v_source.premium_product_id is not null
+  where id = v_workout_id;
+
+  update public.workouts set fork_count = fork_count + 1 where id = p_workout_id;
+
+  return v_workout_id;
+end;
+$$;
+
+revoke all on function public.fork_workout(integer) from public, anon;
+grant execute on function public.fork_workout(integer) to authenticated;
+
+-- Only fork_workout() sets the attribution, the count and the premium mark; direct updates from
+-- clients keep them. Premium copies stay private: no public listing, no template, no product.
+create or replace function public.protect_workout_fork_fields()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if current_user in ('authenticated', 'anon') then
+    if tg_op = 'INSERT' then
+      new.fork_count := 0;
+      new.forked_from_workout_id := null;
+      new.is_premium_copy := false;
+    else
+      new.fork_count := old.fork_count;
+      new.forked_from_workout_id := old.forked_from_workout_id;
+      new.is_premium_copy := old.is_premium_copy;
+    end if;
+  end if;
+
+  if new.is_premium_copy
+    and (new.is_public or new.is_template or new.premium_product_id is not null) then
+    raise exception 'Copies of premium workouts cannot be shared' using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists workouts_protect_fork_fields on public.workouts;
+create trigger workouts_protect_fork_fields
+  before insert or update on public.workouts
+  for each row execute function public.protect_workout_fork_fields();
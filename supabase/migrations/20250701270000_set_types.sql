@@ -0,0 +1,47 @@
+-- Set types: warm-up, working, drop, failure, AMRAP and rest-pause sets.
+-- Warm-ups are still logged but no longer count toward personal records or volume (leaderboards
+-- and total_weight achievements). Drop sets are sub-sets that point at the set they continue.
+-- The functions that read set types are re-created in 20250701275000.
+
+alter table public.exercise_sets
+  add column if not exists set_type text not null default 'working'
+  check (set_type in ('warmup', 'working', 'drop', 'failure', 'amrap', 'rest_pause'));
+alter table public.exercise_sets add column if not exists parent_set_id integer
+  references public.exercise_sets(id) on delete cascade;
+
+create index if not exists idx_exercise_sets_parent on public.exercise_sets(parent_set_id);
+
+-- Planned type of each set, by position; missing entries are working sets
+alter table public.workout_exercises add column if not exists set_types text[]
+  check (set_types <@ array['warmup', 'working', 'drop', 'failure', 'amrap', 'rest_pause']);
+
+-- A drop set continues a set of the same exercise in the same session
+create or replace function public.check_exercise_set_parent()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.parent_set_id is null then
+    return new;
+  end if;
+  if new.set_type <> 'drop' then
+    raise exception 'Only drop sets can have a parent set' using errcode = '22023';
+  end if;
+  if not exists (
+    select 1 from public.exercise_sets
+    where id = new.parent_set_id
+      and session_exercise_id = new.session_exercise_id
+      and parent_set_id is null
+  ) then
+    raise exception 'Parent set % is not part of this exercise', new.parent_set_id
+      using errcode = '22023';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists exercise_sets_check_parent on public.exercise_sets;
+create trigger exercise_sets_check_parent
+  before insert or update of parent_set_id, set_type, session_exercise_id on public.exercise_sets
+  for each row execute function public.check_exercise_set_parent();
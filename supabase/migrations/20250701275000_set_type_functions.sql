@@ -0,0 +1,598 @@
+-- Functions that read set types, re-created now that 20250701270000 added the columns.
+-- Warm-ups do not count toward personal records or volume (leaderboards and total_weight
+-- achievements); counts_toward_volume() holds that rule in one place. Plans and copies carry
+-- workout_exercises.set_types, and copies of premium copies stay premium copies.
+-- The functions are otherwise unchanged from their previous definitions.
+
+-- Mirrors countsTowardVolume() in lib/setTypes.ts
+create or replace function public.counts_toward_volume(p_set_type text)
+returns boolean
+language sql
+immutable
+as $$
+  select p_set_type is distinct from 'warmup'
+$$;
+
+-- Volume leaderboards leave out warm-up sets
+create or replace function public.leaderboard_entries(
+  p_viewer uuid,
+  p_metric text,
+  p_window text,
+  p_scope text
+)
+returns table (
+  user_id uuid,
+  username text,
+  full_name text,
+  avatar_url text,
+  value numeric,
+  workouts bigint,
+  streak integer,
+  rank bigint
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with bounds as (
+    select case p_window
+      when 'weekly' then date_trunc('week', now())
+      when 'monthly' then date_trunc('month', now())
+    end as since
+  ),
+  participants as (
+    select p.id, p.username, p.full_name, p.avatar_url
+    from public.profiles p
+    where case p_scope
+      when 'friends' then
+        p.id = p_viewer
+        or exists (
+          select 1 from public.friendships f
+          where f.status = 'accepted'
+            and (
+              (f.requester_id = p_viewer and f.addressee_id = p.id)
+              or (f.addressee_id = p_viewer and f.requester_id = p.id)
+            )
+        )
+      else
+        (coalesce(p.is_public, true) or p.id = p_viewer)
+        and not exists (
+          select 1 from public.friendships f
+          where f.status = 'blocked'
+            and (
+              (f.requester_id = p_viewer and f.addressee_id = p.id)
+              or (f.addressee_id = p_viewer and f.requester_id = p.id)
+            )
+        )
+    end
+  ),
+  window_sessions as (
+    select s.id, s.user_id, s.duration_minutes
+    from public.workout_sessions s
+    cross join bounds b
+    where s.completed_at is not null
+      and (b.since is null or s.completed_at >= b.since)
+      and s.user_id in (select id from participants)
+  ),
+  session_totals as (
+    select ws.user_id, count(*) as workouts, coalesce(sum(ws.duration_minutes), 0) as minutes
+    from window_sessions ws
+    group by ws.user_id
+  ),
+  volume_totals as (
+    select ws.user_id, coalesce(sum(es.weight_kg * es.reps), 0) as volume
+    from window_sessions ws
+    join public.session_exercises se on se.session_id = ws.id
+    join public.exercise_sets es on es.session_exercise_id = se.id
+    where p_metric = 'volume'
+      and coalesce(es.completed, true)
+      and public.counts_toward_volume(es.set_type)
+    group by ws.user_id
+  ),
+  scored as (
+    select
+      pt.id as user_id,
+      pt.username,
+      pt.full_name,
+      pt.avatar_url,
+      (case p_metric
+        when 'minutes' then coalesce(st.minutes, 0)
+        when 'volume' then coalesce(vt.volume, 0)
+        -- Streaks have no window of their own: all-time ranks the best streak ever
+        when 'streak' then case
+          when p_window = 'all_time' then coalesce(wk.longest_streak, 0)
+          else coalesce(wk.current_streak, 0)
+        end
+        else coalesce(st.workouts, 0)
+      end)::numeric as value,
+      coalesce(st.workouts, 0) as workouts,
+      coalesce(wk.current_streak, 0) as streak
+    from participants pt
+    left join session_totals st on st.user_id = pt.id
+    left join volume_totals vt on vt.user_id = pt.id
+    left join public.workout_streaks wk on wk.user_id = pt.id
+  )
+  select
+    sc.user_id,
+    sc.username,
+    sc.full_name,
+    sc.avatar_url,
+    sc.value,
+    sc.workouts,
+    sc.streak,
+    rank() over (order by sc.value desc) as rank
+  from scored sc
+  where sc.value > 0;
+$$;
+
+-- total_weight leaves out warm-up sets; reps and set counts still include them
+create or replace function public.achievement_metric_value(p_user uuid, p_rule jsonb)
+returns numeric
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_type text := p_rule->>'type';
+  v_filter jsonb := coalesce(p_rule->'filter', '{}'::jsonb);
+  v_window jsonb := p_rule->'window';
+  v_since timestamptz;
+  v_exercise_filter boolean;
+  v_value numeric := 0;
+begin
+  -- Seeded rows predate filters and windows
+  case v_type
+    when 'weekly_workouts' then
+      v_type := 'workout_count';
+      v_window := coalesce(v_window, '{"days": 7}'::jsonb);
+    when 'monthly_workouts' then
+      v_type := 'workout_count';
+      v_window := coalesce(v_window, '{"days": 30}'::jsonb);
+    when 'cardio_workouts' then
+      v_type := 'workout_count';
+      v_filter := '{"workout_types": ["cardio"]}'::jsonb || v_filter;
+    when 'advanced_exercises' then
+      v_type := 'distinct_exercises';
+      v_filter := '{"difficulty_levels": ["advanced"]}'::jsonb || v_filter;
+    else
+      null;
+  end case;
+
+  v_since := public.achievement_window_start(v_window);
+  v_exercise_filter := v_filter ?| array[
+    'exercise_ids', 'exercise_names', 'muscle_groups', 'exercise_types', 'difficulty_levels'
+  ];
+
+  if v_type in ('total_weight', 'total_reps', 'total_sets', 'distinct_exercises') then
+    select
+      case v_type
+        when 'total_weight' then
+          coalesce(
+            sum(es.weight_kg * es.reps) filter (where public.counts_toward_volume(es.set_type)),
+            0
+          )
+        when 'total_reps' then coalesce(sum(es.reps), 0)
+        when 'total_sets' then count(*)
+        else count(distinct se.exercise_id)
+      end
+    into v_value
+    from public.workout_sessions s
+    left join public.workouts w on w.id = s.workout_id
+    join public.session_exercises se on se.session_id = s.id
+    join public.exercise_sets es on es.session_exercise_id = se.id
+    left join public.exercises e on e.id = se.exercise_id
+    where s.user_id = p_user
+      and s.completed_at is not null
+      and (v_since is null or s.completed_at >= v_since)
+      and public.achievement_value_matches(v_filter->'workout_types', w.workout_type)
+      and coalesce(es.completed, false)
+      and (not v_exercise_filter or public.achievement_exercise_matches(v_filter, e));
+
+    if v_type = 'total_weight' and p_rule->>'unit' = 'lb' then
+      v_value := v_value / 0.45359237;
+    end if;
+  elsif v_type in ('workout_count', 'total_minutes') then
+    select
+      case v_type
+        when 'workout_count' then count(*)
+        else coalesce(sum(s.duration_minutes), 0)
+      end
+    into v_value
+    from public.workout_sessions s
+    left join public.workouts w on w.id = s.workout_id
+    where s.user_id = p_user
+      and s.completed_at is not null
+      and (v_since is null or s.completed_at >= v_since)
+      and public.achievement_value_matches(v_filter->'workout_types', w.workout_type)
+      -- Exercise filters count sessions that included a matching completed set
+      and (
+        not v_exercise_filter
+        or exists (
+          select 1
+          from public.session_exercises se
+          join public.exercise_sets es on es.session_exercise_id = se.id
+          left join public.exercises e on e.id = se.exercise_id
+          where se.session_id = s.id
+            and coalesce(es.completed, false)
+            and public.achievement_exercise_matches(v_filter, e)
+        )
+      );
+  elsif v_type in ('streak', 'longest_streak') then
+    select
+      case v_type
+        when 'streak' then coalesce(current_streak, 0)
+        else greatest(coalesce(longest_streak, 0), coalesce(current_streak, 0))
+      end
+    into v_value
+    from public.workout_streaks
+    where user_id = p_user;
+  elsif v_type = 'personal_records' then
+    select count(*) into v_value
+    from public.personal_records pr
+    where pr.user_id = p_user
+      and (v_since is null or pr.achieved_at >= v_since)
+      and (
+        v_filter->'exercise_ids' is null
+        or pr.exercise_id in (select (jsonb_array_elements_text(v_filter->'exercise_ids'))::integer)
+      );
+  elsif v_type = 'friend_count' then
+    select count(*) into v_value
+    from public.friendships f
+    where f.status = 'accepted'
+      and (f.requester_id = p_user or f.addressee_id = p_user);
+  end if;
+
+  return coalesce(v_value, 0);
+end;
+$$;
+
+-- Warm-up sets never set a record
+create or replace function public.record_session_personal_records(p_session_id integer)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user uuid;
+  v_formula text;
+  v_candidate record;
+  v_previous numeric;
+  v_count integer := 0;
+begin
+  select s.user_id, coalesce(p.one_rep_max_formula, 'epley')
+  into v_user, v_formula
+  from public.workout_sessions s
+  left join public.profiles p on p.id = s.user_id
+  where s.id = p_session_id;
+
+  if v_user is null then
+    return 0;
+  end if;
+
+  for v_candidate in
+    with session_sets as (
+      select
+        se.exercise_id,
+        e.name as exercise_name,
+        e.exercise_type,
+        es.reps,
+        es.weight_kg,
+        es.duration_seconds,
+        es.distance_meters
+      from public.session_exercises se
+      join public.exercise_sets es on es.session_exercise_id = se.id
+      join public.exercises e on e.id = se.exercise_id
+      where se.session_id = p_session_id
+        and coalesce(es.completed, false)
+        and public.counts_toward_volume(es.set_type)
+    ),
+    strength_sets as (
+      select * from session_sets
+      where exercise_type = 'strength' and coalesce(weight_kg, 0) > 0 and coalesce(reps, 0) > 0
+    )
+    (
+      select distinct on (exercise_id)
+        exercise_id, exercise_name, 'max_weight'::text as record_type,
+        weight_kg::numeric as value, 'kg'::text as unit, reps, weight_kg
+      from strength_sets
+      order by exercise_id, weight_kg desc, reps desc
+    )
+    union all
+    (
+      -- Most reps in a set; ties go to the heavier set
+      select distinct on (exercise_id)
+        exercise_id, exercise_name, 'max_reps', reps::numeric, 'reps', reps, weight_kg
+      from session_sets
+      where exercise_type = 'strength' and coalesce(reps, 0) > 0
+      order by exercise_id, reps desc, weight_kg desc nulls last
+    )
+    union all
+    (
+      -- Estimates get unreliable past ~12 reps, so those sets are ignored
+      select distinct on (exercise_id)
+        exercise_id, exercise_name, 'estimated_1rm',
+        round(public.estimate_one_rep_max(weight_kg, reps, v_formula), 2), 'kg', reps, weight_kg
+      from strength_sets
+      where reps <= 12
+      order by exercise_id, public.estimate_one_rep_max(weight_kg, reps, v_formula) desc
+    )
+    union all
+    (
+      select
+        exercise_id, exercise_name, 'max_volume', sum(weight_kg * reps), 'kg', null::integer, null::numeric
+      from strength_sets
+      group by exercise_id, exercise_name
+    )
+    union all
+    (
+      -- Heaviest weight moved for at least N reps
+      select distinct on (ss.exercise_id, n.target)
+        ss.exercise_id, ss.exercise_name, 'rep_max_' || n.target, ss.weight_kg::numeric, 'kg',
+        ss.reps, ss.weight_kg
+      from strength_sets ss
+      cross join (values (3), (5), (10)) as n(target)
+      where ss.reps >= n.target
+      order by ss.exercise_id, n.target, ss.weight_kg desc, ss.reps desc
+    )
+    union all
+    (
+      select exercise_id, exercise_name, 'best_time', min(duration_seconds)::numeric, 'seconds',
+        null::integer, null::numeric
+      from session_sets
+      where exercise_type = 'cardio' and duration_seconds > 0
+      group by exercise_id, exercise_name
+    )
+    union all
+    (
+      select exercise_id, exercise_name, 'max_distance', max(distance_meters)::numeric, 'meters',
+        null::integer, null::numeric
+      from session_sets
+      where exercise_type = 'cardio' and distance_meters > 0
+      group by exercise_id, exercise_name
+    )
+  loop
+    v_previous := null;
+    select value into v_previous
+    from public.personal_records
+    where user_id = v_user
+      and exercise_id = v_candidate.exercise_id
+      and record_type = v_candidate.record_type
+    for update;
+
+    -- Lower is better for times, higher for everything else
+    if v_previous is not null and (
+      (v_candidate.record_type = 'best_time' and v_candidate.value >= v_previous)
+      or (v_candidate.record_type <> 'best_time' and v_candidate.value <= v_previous)
+    ) then
+      continue;
+    end if;
+
+    insert into public.personal_records (
+      user_id, exercise_id, record_type, value, unit, session_id, achieved_at, reps, weight_kg
+    )
+    values (
+      v_user, v_candidate.exercise_id, v_candidate.record_type, v_candidate.value,
+      v_candidate.unit, p_session_id, now(), v_candidate.reps, v_candidate.weight_kg
+    )
+    on conflict (user_id, exercise_id, record_type) do update
+      set value = excluded.value,
+          unit = excluded.unit,
+          session_id = excluded.session_id,
+          achieved_at = excluded.achieved_at,
+          reps = excluded.reps,
+          weight_kg = excluded.weight_kg;
+
+    insert into public.user_events (user_id, session_id, event_type, payload)
+    values (
+      v_user,
+      p_session_id,
+      'personal_record',
+      jsonb_build_object(
+        'exercise_id', v_candidate.exercise_id,
+        'exercise_name', v_candidate.exercise_name,
+        'record_type', v_candidate.record_type,
+        'value', v_candidate.value,
+        'unit', v_candidate.unit,
+        'reps', v_candidate.reps,
+        'weight_kg', v_candidate.weight_kg,
+        'previous_value', coalesce(v_previous, 0),
+        'improvement', case
+          when v_previous is null then v_candidate.value
+          when v_candidate.record_type = 'best_time' then v_previous - v_candidate.value
+          else v_candidate.value - v_previous
+        end
+      )
+    );
+
+    v_count := v_count + 1;
+  end loop;
+
+  return v_count;
+end;
+$$;
+
+-- Exercises may now carry a set_types array
+create or replace function public.save_workout_plan(
+  p_workout_id integer,
+  p_details jsonb,
+  p_groups jsonb,
+  p_exercises jsonb
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_group jsonb;
+  v_exercise jsonb;
+  v_group_ids jsonb := '{}'::jsonb;
+  v_group_id uuid;
+  v_kept integer[] := '{}';
+  v_id integer;
+  v_position integer := 0;
+begin
+  if not exists (
+    select 1 from public.workouts
+    where id = p_workout_id and creator_id = auth.uid() and deleted_at is null
+  ) then
+    raise exception 'Workout % not found', p_workout_id using errcode = 'P0002';
+  end if;
+  if jsonb_array_length(coalesce(p_exercises, '[]'::jsonb)) = 0 then
+    raise exception 'A workout needs at least one exercise' using errcode = '22023';
+  end if;
+
+  update public.workouts
+  set name = coalesce(nullif(trim(p_details->>'name'), ''), name),
+      description = nullif(trim(p_details->>'description'), ''),
+      estimated_duration_minutes = (p_details->>'estimated_duration_minutes')::integer,
+      difficulty_level = coalesce(p_details->>'difficulty_level', difficulty_level),
+      workout_type = coalesce(p_details->>'workout_type', workout_type),
+      is_template = coalesce((p_details->>'is_template')::boolean, is_template),
+      is_public = coalesce((p_details->>'is_public')::boolean, is_public),
+      updated_at = now()
+  where id = p_workout_id;
+
+  -- Groups are rebuilt; removing them clears group_id on their exercises until re-linked below
+  delete from public.workout_exercise_groups where workout_id = p_workout_id;
+  for v_group in select * from jsonb_array_elements(coalesce(p_groups, '[]'::jsonb)) loop
+    insert into public.workout_exercise_groups (
+      workout_id, group_type, rounds, rest_between_exercises_seconds, rest_after_round_seconds,
+      interval_seconds, time_cap_seconds
+    )
+    values (
+      p_workout_id,
+      v_group->>'group_type',
+      coalesce((v_group->>'rounds')::integer, 3),
+      coalesce((v_group->>'rest_between_exercises_seconds')::integer, 0),
+      coalesce((v_group->>'rest_after_round_seconds')::integer, 60),
+      (v_group->>'interval_seconds')::integer,
+      (v_group->>'time_cap_seconds')::integer
+    )
+    returning id into v_group_id;
+    v_group_ids := v_group_ids || jsonb_build_object(v_group->>'key', v_group_id);
+  end loop;
+
+  for v_exercise in select * from jsonb_array_elements(p_exercises) loop
+    v_group_id := (v_group_ids->>(v_exercise->>'group_key'))::uuid;
+    v_id := null;
+
+    if v_exercise->>'id' is not null then
+      update public.workout_exercises
+      set exercise_id = (v_exercise->>'exercise_id')::integer,
+          order_index = v_position,
+          target_sets = (v_exercise->>'target_sets')::integer,
+          target_reps = nullif(
+            array(select jsonb_array_elements_text(coalesce(v_exercise->'target_reps', '[]'::jsonb))::integer),
+            '{}'
+          ),
+          set_types = nullif(
+            array(select jsonb_array_elements_text(coalesce(v_exercise->'set_types', '[]'::jsonb))),
+            '{}'
+          ),
+          target_weight_kg = (v_exercise->>'target_weight_kg')::numeric,
+          target_duration_seconds = (v_exercise->>'target_duration_seconds')::integer,
+          rest_seconds = coalesce((v_exercise->>'rest_seconds')::integer, 60),
+          notes = nullif(trim(v_exercise->>'notes'), ''),
+          group_id = v_group_id
+      where id = (v_exercise->>'id')::integer and workout_id = p_workout_id
+      returning id into v_id;
+    end if;
+
+    if v_id is null then
+      insert into public.workout_exercises (
+        workout_id, exercise_id, order_index, target_sets, target_reps, target_weight_kg,
+        target_duration_seconds, rest_seconds, notes, group_id, set_types
+      )
+      values (
+        p_workout_id,
+        (v_exercise->>'exercise_id')::integer,
+        v_position,
+        (v_exercise->>'target_sets')::integer,
+        nullif(
+          array(select jsonb_array_elements_text(coalesce(v_exercise->'target_reps', '[]'::jsonb))::integer),
+          '{}'
+        ),
+        (v_exercise->>'target_weight_kg')::numeric,
+        (v_exercise->>'target_duration_seconds')::integer,
+        coalesce((v_exercise->>'rest_seconds')::integer, 60),
+        nullif(trim(v_exercise->>'notes'), ''),
+        v_group_id,
+        nullif(
+          array(select jsonb_array_elements_text(coalesce(v_exercise->'set_types', '[]'::jsonb))),
+          '{}'
+        )
+      )
+      returning id into v_id;
+    end if;
+
+    v_kept := v_kept || v_id;
+    v_position := v_position + 1;
+  end loop;
+
+  delete from public.workout_exercises where workout_id = p_workout_id and id <> all(v_kept);
+end;
+$$;
+
+-- Copies carry the planned set types, and copies of premium copies stay premium copies
+create or replace function public.copy_workout(p_source_id integer, p_owner uuid, p_name text)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_workout_id integer;
+  v_group public.workout_exercise_groups;
+  v_group_ids jsonb := '{}'::jsonb;
+  v_group_id uuid;
+begin
+  insert into public.workouts (
+    creator_id, name, description, estimated_duration_minutes, difficulty_level, workout_type,
+    is_template, is_public, is_premium_copy
+  )
+  select p_owner, p_name, description, estimated_duration_minutes, difficulty_level, workout_type,
+    is_template, false, is_premium_copy
+  from public.workouts
+  where id = p_source_id
+  returning id into v_workout_id;
+
+  if v_workout_id is null then
+    raise exception 'Workout % not found', p_source_id using errcode = 'P0002';
+  end if;
+
+  for v_group in select * from public.workout_exercise_groups where workout_id = p_source_id loop
+    insert into public.workout_exercise_groups (
+      workout_id, group_type, rounds, rest_between_exercises_seconds, rest_after_round_seconds,
+      interval_seconds, time_cap_seconds
+    )
+    values (
+      v_workout_id, v_group.group_type, v_group.rounds, v_group.rest_between_exercises_seconds,
+      v_group.rest_after_round_seconds, v_group.interval_seconds, v_group.time_cap_seconds
+    )
+    returning id into v_group_id;
+    v_group_ids := v_group_ids || jsonb_build_object(v_group.id::text, v_group_id);
+  end loop;
+
+  insert into public.workout_exercises (
+    workout_id, exercise_id, order_index, target_sets, target_reps, target_weight_kg,
+    target_duration_seconds, rest_seconds, notes, group_id, set_types
+  )
+  select v_workout_id, exercise_id, order_index, target_sets, target_reps, target_weight_kg,
+    target_duration_seconds, rest_seconds, notes, (v_group_ids->>group_id::text)::uuid, set_types
+  from public.workout_exercises
+  where workout_id = p_source_id;
+
+  return v_workout_id;
+end;
+$$;
+
+revoke all on function public.leaderboard_entries(uuid, text, text, text) from public, anon, authenticated;
+revoke all on function public.achievement_metric_value(uuid, jsonb) from public, anon, authenticated;
+revoke all on function public.record_session_personal_records(integer) from public, anon, authenticated;
+revoke all on function public.save_workout_plan(integer, jsonb, jsonb, jsonb) from public, anon;
+grant execute on function public.save_workout_plan(integer, jsonb, jsonb, jsonb) to authenticated;
+revoke all on function public.copy_workout(integer, uuid, text) from public, anon, authenticated;
@@ -0,0 +1,10 @@
+-- How the workout screen suggests the next load from last time (see lib/progression.ts):
+-- double progression adds weight once every set hits its reps, rpe adjusts the load from the
+-- reported RPE, and linear adds weight every session the reps were hit.
+
+alter table public.profiles
+  add column if not exists progression_rule text not null default 'double_progression'
+  check (progression_rule in ('double_progression', 'rpe', 'linear'));
+
+-- Looking up the last sessions for an exercise
+create index if not exists idx_session_exercises_exercise on public.session_exercises(exercise_id, id desc);
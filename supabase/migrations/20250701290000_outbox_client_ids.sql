@@ -0,0 +1,12 @@
+-- IDs the app generates for writes it queues while offline (see lib/workoutOutbox.ts). Replays
+-- upsert on them, so a write that reached the server before the app saw the response is not
+-- inserted a second time.
+
+alter table public.workout_sessions
+  add column if not exists client_id uuid unique;
+
+alter table public.session_exercises
+  add column if not exists client_id uuid unique;
+
+alter table public.exercise_sets
+  add column if not exists client_id uuid unique;
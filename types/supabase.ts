@@ -44,6 +44,45 @@ export type Database = {
         };
         Relationships: [];
       };
+      coach_payouts: {
+        Row: {
+          amount_cents: number;
+          batch_id: string;
+          coach_id: string;
+          created_at: string;
+          id: string;
+        };
+        Insert: {
+          amount_cents: number;
+          batch_id: string;
+          coach_id: string;
+          created_at?: string;
+          id?: string;
+        };
+        Update: {
+          amount_cents?: number;
+          batch_id?: string;
+          coach_id?: string;
+          created_at?: string;
+          id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'coach_payouts_batch_id_fkey';
+            columns: ['batch_id'];
+            isOneToOne: false;
+            referencedRelation: 'payout_batches';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'coach_payouts_coach_id_fkey';
+            columns: ['coach_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
       coaching_blocks: {
         Row: {
           created_at: string;
@@ -79,6 +118,80 @@ export type Database = {
           },
         ];
       };
+      coaching_blueprint_workouts: {
+        Row: {
+          blueprint_id: string;
+          position: number;
+          workout_id: number;
+        };
+        Insert: {
+          blueprint_id: string;
+          position?: number;
+          workout_id: number;
+        };
+        Update: {
+          blueprint_id?: string;
+          position?: number;
+          workout_id?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'coaching_blueprint_workouts_blueprint_id_fkey';
+            columns: ['blueprint_id'];
+            isOneToOne: false;
+            referencedRelation: 'coaching_blueprints';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'coaching_blueprint_workouts_workout_id_fkey';
+            columns: ['workout_id'];
+            isOneToOne: false;
+            referencedRelation: 'workouts';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      coaching_blueprints: {
+        Row: {
+          coach_id: string;
+          created_at: string;
+          goal_type: string;
+          id: string;
+          sessions_per_week: number;
+          title: string;
+          updated_at: string;
+          weeks: number;
+        };
+        Insert: {
+          coach_id: string;
+          created_at?: string;
+          goal_type: string;
+          id?: string;
+          sessions_per_week?: number;
+          title: string;
+          updated_at?: string;
+          weeks: number;
+        };
+        Update: {
+          coach_id?: string;
+          created_at?: string;
+          goal_type?: string;
+          id?: string;
+          sessions_per_week?: number;
+          title?: string;
+          updated_at?: string;
+          weeks?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'coaching_blueprints_coach_id_fkey';
+            columns: ['coach_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
       coaching_events: {
         Row: {
           created_at: string;
@@ -113,28 +226,34 @@ export type Database = {
       };
       coaching_paths: {
         Row: {
+          baseline_metrics: Json;
           created_at: string;
           current_week: number | null;
           goal_type: string;
           id: string;
+          source_product_id: string | null;
           status: string;
           user_id: string;
           weeks: number;
         };
         Insert: {
+          baseline_metrics?: Json;
           created_at?: string;
           current_week?: number | null;
           goal_type: string;
           id?: string;
+          source_product_id?: string | null;
           status?: string;
           user_id: string;
           weeks: number;
         };
         Update: {
+          baseline_metrics?: Json;
           created_at?: string;
           current_week?: number | null;
           goal_type?: string;
           id?: string;
+          source_product_id?: string | null;
           status?: string;
           user_id?: string;
           weeks?: number;
@@ -192,6 +311,7 @@ export type Database = {
       entitlements: {
         Row: {
           created_at: string;
+          expires_at: string | null;
           granted_at: string;
           id: string;
           product_id: string | null;
@@ -200,6 +320,7 @@ export type Database = {
         };
         Insert: {
           created_at?: string;
+          expires_at?: string | null;
           granted_at?: string;
           id?: string;
           product_id?: string | null;
@@ -208,6 +329,7 @@ export type Database = {
         };
         Update: {
           created_at?: string;
+          expires_at?: string | null;
           granted_at?: string;
           id?: string;
           product_id?: string | null;
@@ -240,45 +362,61 @@ export type Database = {
       };
       exercise_sets: {
         Row: {
+          client_id: string | null;
           completed: boolean | null;
           created_at: string | null;
           distance_meters: number | null;
           duration_seconds: number | null;
           id: number;
+          parent_set_id: number | null;
           reps: number | null;
           rest_seconds: number | null;
           rpe: number | null;
           session_exercise_id: number | null;
           set_number: number;
+          set_type: string;
           weight_kg: number | null;
         };
         Insert: {
+          client_id?: string | null;
           completed?: boolean | null;
           created_at?: string | null;
           distance_meters?: number | null;
           duration_seconds?: number | null;
           id?: number;
+          parent_set_id?: number | null;
           reps?: number | null;
           rest_seconds?: number | null;
           rpe?: number | null;
           session_exercise_id?: number | null;
           set_number: number;
+          set_type?: string;
           weight_kg?: number | null;
         };
         Update: {
+          client_id?: string | null;
           completed?: boolean | null;
           created_at?: string | null;
           distance_meters?: number | null;
           duration_seconds?: number | null;
           id?: number;
+          parent_set_id?: number | null;
           reps?: number | null;
           rest_seconds?: number | null;
           rpe?: number | null;
           session_exercise_id?: number | null;
           set_number?: number;
+          set_type?: string;
           weight_kg?: number | null;
         };
         Relationships: [
+          {
+            foreignKeyName: 'exercise_sets_parent_set_id_fkey';
+            columns: ['parent_set_id'];
+            isOneToOne: false;
+            referencedRelation: 'exercise_sets';
+            referencedColumns: ['id'];
+          },
           {
             foreignKeyName: 'exercise_sets_session_exercise_id_fkey';
             columns: ['session_exercise_id'];
@@ -330,6 +468,47 @@ export type Database = {
         };
         Relationships: [];
       };
+      fee_schedules: {
+        Row: {
+          coach_id: string | null;
+          created_at: string;
+          fee_percent: number;
+          id: string;
+          is_active: boolean;
+          min_fee_cents: number;
+          product_type: string | null;
+          updated_at: string;
+        };
+        Insert: {
+          coach_id?: string | null;
+          created_at?: string;
+          fee_percent: number;
+          id?: string;
+          is_active?: boolean;
+          min_fee_cents?: number;
+          product_type?: string | null;
+          updated_at?: string;
+        };
+        Update: {
+          coach_id?: string | null;
+          created_at?: string;
+          fee_percent?: number;
+          id?: string;
+          is_active?: boolean;
+          min_fee_cents?: number;
+          product_type?: string | null;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'fee_schedules_coach_id_fkey';
+            columns: ['coach_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
       friendships: {
         Row: {
           addressee_id: string | null;
@@ -372,51 +551,161 @@ export type Database = {
           },
         ];
       };
+      ledger_entries: {
+        Row: {
+          account: string;
+          amount_cents: number;
+          coach_id: string | null;
+          coach_payout_id: string | null;
+          created_at: string;
+          entry_type: string;
+          id: string;
+          payment_id: string | null;
+          settled_by_payout_id: string | null;
+          transaction_id: string;
+        };
+        Insert: {
+          account: string;
+          amount_cents: number;
+          coach_id?: string | null;
+          coach_payout_id?: string | null;
+          created_at?: string;
+          entry_type: string;
+          id?: string;
+          payment_id?: string | null;
+          settled_by_payout_id?: string | null;
+          transaction_id: string;
+        };
+        Update: {
+          account?: string;
+          amount_cents?: number;
+          coach_id?: string | null;
+          coach_payout_id?: string | null;
+          created_at?: string;
+          entry_type?: string;
+          id?: string;
+          payment_id?: string | null;
+          settled_by_payout_id?: string | null;
+          transaction_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'ledger_entries_coach_id_fkey';
+            columns: ['coach_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'ledger_entries_coach_payout_id_fkey';
+            columns: ['coach_payout_id'];
+            isOneToOne: false;
+            referencedRelation: 'coach_payouts';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'ledger_entries_payment_id_fkey';
+            columns: ['payment_id'];
+            isOneToOne: false;
+            referencedRelation: 'payments';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'ledger_entries_settled_by_payout_id_fkey';
+            columns: ['settled_by_payout_id'];
+            isOneToOne: false;
+            referencedRelation: 'coach_payouts';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
       payments: {
         Row: {
           amount_client_paid_cents: number;
+          amount_mismatch: boolean;
           approved_at: string | null;
           approved_by: string | null;
+          billing_period: string | null;
+          billing_period_days: number | null;
           coach_id: string | null;
           coach_net_cents: number;
           created_at: string;
+          currency: string | null;
+          discount_cents: number;
+          entitlement_id: string | null;
+          fee_schedule_id: string | null;
           id: string;
           notes: string | null;
           platform_fee_cents: number;
+          price_cents: number | null;
           product_id: string | null;
+          promo_code: string | null;
+          promo_code_id: string | null;
           receipt_url: string | null;
+          refunded_at: string | null;
+          refunded_cents: number;
+          refunded_coach_cents: number;
+          review_reason: string | null;
           status: string;
           updated_at: string;
           user_id: string | null;
         };
         Insert: {
           amount_client_paid_cents: number;
+          amount_mismatch?: boolean;
           approved_at?: string | null;
           approved_by?: string | null;
+          billing_period?: string | null;
+          billing_period_days?: number | null;
           coach_id?: string | null;
           coach_net_cents?: number;
           created_at?: string;
+          currency?: string | null;
+          discount_cents?: number;
+          entitlement_id?: string | null;
+          fee_schedule_id?: string | null;
           id?: string;
           notes?: string | null;
           platform_fee_cents?: number;
+          price_cents?: number | null;
           product_id?: string | null;
+          promo_code?: string | null;
+          promo_code_id?: string | null;
           receipt_url?: string | null;
+          refunded_at?: string | null;
+          refunded_cents?: number;
+          refunded_coach_cents?: number;
+          review_reason?: string | null;
           status?: string;
           updated_at?: string;
           user_id?: string | null;
         };
         Update: {
           amount_client_paid_cents?: number;
+          amount_mismatch?: boolean;
           approved_at?: string | null;
           approved_by?: string | null;
+          billing_period?: string | null;
+          billing_period_days?: number | null;
           coach_id?: string | null;
           coach_net_cents?: number;
           created_at?: string;
+          currency?: string | null;
+          discount_cents?: number;
+          entitlement_id?: string | null;
+          fee_schedule_id?: string | null;
           id?: string;
           notes?: string | null;
           platform_fee_cents?: number;
+          price_cents?: number | null;
           product_id?: string | null;
+          promo_code?: string | null;
+          promo_code_id?: string | null;
           receipt_url?: string | null;
+          refunded_at?: string | null;
+          refunded_cents?: number;
+          refunded_coach_cents?: number;
+          review_reason?: string | null;
           status?: string;
           updated_at?: string;
           user_id?: string | null;
@@ -436,6 +725,20 @@ export type Database = {
             referencedRelation: 'profiles';
             referencedColumns: ['id'];
           },
+          {
+            foreignKeyName: 'payments_entitlement_id_fkey';
+            columns: ['entitlement_id'];
+            isOneToOne: false;
+            referencedRelation: 'entitlements';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'payments_fee_schedule_id_fkey';
+            columns: ['fee_schedule_id'];
+            isOneToOne: false;
+            referencedRelation: 'fee_schedules';
+            referencedColumns: ['id'];
+          },
           {
             foreignKeyName: 'payments_product_id_fkey';
             columns: ['product_id'];
@@ -443,6 +746,13 @@ export type Database = {
             referencedRelation: 'products';
             referencedColumns: ['id'];
           },
+          {
+            foreignKeyName: 'payments_promo_code_id_fkey';
+            columns: ['promo_code_id'];
+            isOneToOne: false;
+            referencedRelation: 'promo_codes';
+            referencedColumns: ['id'];
+          },
           {
             foreignKeyName: 'payments_user_id_fkey';
             columns: ['user_id'];
@@ -452,6 +762,47 @@ export type Database = {
           },
         ];
       };
+      payout_batches: {
+        Row: {
+          created_at: string;
+          created_by: string | null;
+          id: string;
+          paid_at: string | null;
+          period_end: string;
+          period_start: string;
+          reference: string | null;
+          status: string;
+        };
+        Insert: {
+          created_at?: string;
+          created_by?: string | null;
+          id?: string;
+          paid_at?: string | null;
+          period_end: string;
+          period_start: string;
+          reference?: string | null;
+          status?: string;
+        };
+        Update: {
+          created_at?: string;
+          created_by?: string | null;
+          id?: string;
+          paid_at?: string | null;
+          period_end?: string;
+          period_start?: string;
+          reference?: string | null;
+          status?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'payout_batches_created_by_fkey';
+            columns: ['created_by'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
       personal_records: {
         Row: {
           achieved_at: string | null;
@@ -459,10 +810,12 @@ export type Database = {
           exercise_id: number | null;
           id: number;
           record_type: string;
+          reps: number | null;
           session_id: number | null;
           unit: string;
           user_id: string | null;
           value: number;
+          weight_kg: number | null;
         };
         Insert: {
           achieved_at?: string | null;
@@ -470,10 +823,12 @@ export type Database = {
           exercise_id?: number | null;
           id?: number;
           record_type: string;
+          reps?: number | null;
           session_id?: number | null;
           unit: string;
           user_id?: string | null;
           value: number;
+          weight_kg?: number | null;
         };
         Update: {
           achieved_at?: string | null;
@@ -481,10 +836,12 @@ export type Database = {
           exercise_id?: number | null;
           id?: number;
           record_type?: string;
+          reps?: number | null;
           session_id?: number | null;
           unit?: string;
           user_id?: string | null;
           value?: number;
+          weight_kg?: number | null;
         };
         Relationships: [
           {
@@ -588,8 +945,44 @@ export type Database = {
           },
         ];
       };
+      product_workouts: {
+        Row: {
+          position: number;
+          product_id: string;
+          workout_id: number;
+        };
+        Insert: {
+          position?: number;
+          product_id: string;
+          workout_id: number;
+        };
+        Update: {
+          position?: number;
+          product_id?: string;
+          workout_id?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'product_workouts_product_id_fkey';
+            columns: ['product_id'];
+            isOneToOne: false;
+            referencedRelation: 'products';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'product_workouts_workout_id_fkey';
+            columns: ['workout_id'];
+            isOneToOne: false;
+            referencedRelation: 'workouts';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
       products: {
         Row: {
+          billing_period: string;
+          billing_period_days: number | null;
+          blueprint_id: string | null;
           coach_id: string | null;
           created_at: string;
           currency: string;
@@ -603,6 +996,9 @@ export type Database = {
           updated_at: string;
         };
         Insert: {
+          billing_period?: string;
+          billing_period_days?: number | null;
+          blueprint_id?: string | null;
           coach_id?: string | null;
           created_at?: string;
           currency?: string;
@@ -616,6 +1012,9 @@ export type Database = {
           updated_at?: string;
         };
         Update: {
+          billing_period?: string;
+          billing_period_days?: number | null;
+          blueprint_id?: string | null;
           coach_id?: string | null;
           created_at?: string;
           currency?: string;
@@ -629,6 +1028,13 @@ export type Database = {
           updated_at?: string;
         };
         Relationships: [
+          {
+            foreignKeyName: 'products_blueprint_id_fkey';
+            columns: ['blueprint_id'];
+            isOneToOne: false;
+            referencedRelation: 'coaching_blueprints';
+            referencedColumns: ['id'];
+          },
           {
             foreignKeyName: 'products_coach_id_fkey';
             columns: ['coach_id'];
@@ -649,7 +1055,9 @@ export type Database = {
           height_cm: number | null;
           id: string;
           is_public: boolean | null;
+          one_rep_max_formula: string;
           preferred_units: string | null;
+          progression_rule: string;
           updated_at: string | null;
           username: string;
           weight_kg: number | null;
@@ -664,7 +1072,9 @@ export type Database = {
           height_cm?: number | null;
           id: string;
           is_public?: boolean | null;
+          one_rep_max_formula?: string;
           preferred_units?: string | null;
+          progression_rule?: string;
           updated_at?: string | null;
           username: string;
           weight_kg?: number | null;
@@ -679,15 +1089,81 @@ export type Database = {
           height_cm?: number | null;
           id?: string;
           is_public?: boolean | null;
+          one_rep_max_formula?: string;
           preferred_units?: string | null;
+          progression_rule?: string;
           updated_at?: string | null;
           username?: string;
           weight_kg?: number | null;
         };
         Relationships: [];
       };
+      promo_codes: {
+        Row: {
+          code: string;
+          coach_id: string | null;
+          created_at: string;
+          discount_type: string;
+          discount_value: number;
+          expires_at: string | null;
+          id: string;
+          is_active: boolean;
+          max_redemptions: number | null;
+          per_user_limit: number;
+          product_id: string | null;
+          redemption_count: number;
+          updated_at: string;
+        };
+        Insert: {
+          code: string;
+          coach_id?: string | null;
+          created_at?: string;
+          discount_type: string;
+          discount_value: number;
+          expires_at?: string | null;
+          id?: string;
+          is_active?: boolean;
+          max_redemptions?: number | null;
+          per_user_limit?: number;
+          product_id?: string | null;
+          redemption_count?: number;
+          updated_at?: string;
+        };
+        Update: {
+          code?: string;
+          coach_id?: string | null;
+          created_at?: string;
+          discount_type?: string;
+          discount_value?: number;
+          expires_at?: string | null;
+          id?: string;
+          is_active?: boolean;
+          max_redemptions?: number | null;
+          per_user_limit?: number;
+          product_id?: string | null;
+          redemption_count?: number;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'promo_codes_coach_id_fkey';
+            columns: ['coach_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'promo_codes_product_id_fkey';
+            columns: ['product_id'];
+            isOneToOne: false;
+            referencedRelation: 'products';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
       session_exercises: {
         Row: {
+          client_id: string | null;
           created_at: string | null;
           exercise_id: number | null;
           id: number;
@@ -696,6 +1172,7 @@ export type Database = {
           session_id: number | null;
         };
         Insert: {
+          client_id?: string | null;
           created_at?: string | null;
           exercise_id?: number | null;
           id?: number;
@@ -704,6 +1181,7 @@ export type Database = {
           session_id?: number | null;
         };
         Update: {
+          client_id?: string | null;
           created_at?: string | null;
           exercise_id?: number | null;
           id?: number;
@@ -838,14 +1316,105 @@ export type Database = {
           },
         ];
       };
+      user_events: {
+        Row: {
+          created_at: string;
+          event_type: string;
+          id: number;
+          payload: Json;
+          read_at: string | null;
+          session_id: number | null;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          event_type: string;
+          id?: number;
+          payload?: Json;
+          read_at?: string | null;
+          session_id?: number | null;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          event_type?: string;
+          id?: number;
+          payload?: Json;
+          read_at?: string | null;
+          session_id?: number | null;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'user_events_session_id_fkey';
+            columns: ['session_id'];
+            isOneToOne: false;
+            referencedRelation: 'workout_sessions';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'user_events_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      workout_exercise_groups: {
+        Row: {
+          created_at: string;
+          group_type: string;
+          id: string;
+          interval_seconds: number | null;
+          rest_after_round_seconds: number;
+          rest_between_exercises_seconds: number;
+          rounds: number;
+          time_cap_seconds: number | null;
+          workout_id: number;
+        };
+        Insert: {
+          created_at?: string;
+          group_type: string;
+          id?: string;
+          interval_seconds?: number | null;
+          rest_after_round_seconds?: number;
+          rest_between_exercises_seconds?: number;
+          rounds?: number;
+          time_cap_seconds?: number | null;
+          workout_id: number;
+        };
+        Update: {
+          created_at?: string;
+          group_type?: string;
+          id?: string;
+          interval_seconds?: number | null;
+          rest_after_round_seconds?: number;
+          rest_between_exercises_seconds?: number;
+          rounds?: number;
+          time_cap_seconds?: number | null;
+          workout_id?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'workout_exercise_groups_workout_id_fkey';
+            columns: ['workout_id'];
+            isOneToOne: false;
+            referencedRelation: 'workouts';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
       workout_exercises: {
         Row: {
           created_at: string | null;
           exercise_id: number | null;
+          group_id: string | null;
           id: number;
           notes: string | null;
           order_index: number;
           rest_seconds: number | null;
+          set_types: string[] | null;
           target_duration_seconds: number | null;
           target_reps: number[] | null;
           target_sets: number | null;
@@ -855,10 +1424,12 @@ export type Database = {
         Insert: {
           created_at?: string | null;
           exercise_id?: number | null;
+          group_id?: string | null;
           id?: number;
           notes?: string | null;
           order_index: number;
           rest_seconds?: number | null;
+          set_types?: string[] | null;
           target_duration_seconds?: number | null;
           target_reps?: number[] | null;
           target_sets?: number | null;
@@ -868,10 +1439,12 @@ export type Database = {
         Update: {
           created_at?: string | null;
           exercise_id?: number | null;
+          group_id?: string | null;
           id?: number;
           notes?: string | null;
           order_index?: number;
           rest_seconds?: number | null;
+          set_types?: string[] | null;
           target_duration_seconds?: number | null;
           target_reps?: number[] | null;
           target_sets?: number | null;
@@ -886,6 +1459,13 @@ export type Database = {
             referencedRelation: 'exercises';
             referencedColumns: ['id'];
           },
+          {
+            foreignKeyName: 'workout_exercises_group_id_fkey';
+            columns: ['group_id'];
+            isOneToOne: false;
+            referencedRelation: 'workout_exercise_groups';
+            referencedColumns: ['id'];
+          },
           {
             foreignKeyName: 'workout_exercises_workout_id_fkey';
             columns: ['workout_id'];
@@ -898,6 +1478,7 @@ export type Database = {
       workout_sessions: {
         Row: {
           calories_burned: number | null;
+          client_id: string | null;
           coaching_session_id: string | null;
           completed_at: string | null;
           created_at: string | null;
@@ -912,6 +1493,7 @@ export type Database = {
         };
         Insert: {
           calories_burned?: number | null;
+          client_id?: string | null;
           coaching_session_id?: string | null;
           completed_at?: string | null;
           created_at?: string | null;
@@ -926,6 +1508,7 @@ export type Database = {
         };
         Update: {
           calories_burned?: number | null;
+          client_id?: string | null;
           coaching_session_id?: string | null;
           completed_at?: string | null;
           created_at?: string | null;
@@ -1004,39 +1587,54 @@ export type Database = {
         Row: {
           created_at: string | null;
           creator_id: string | null;
+          deleted_at: string | null;
           description: string | null;
           difficulty_level: string | null;
           estimated_duration_minutes: number | null;
+          fork_count: number;
+          forked_from_workout_id: number | null;
           id: number;
+          is_premium_copy: boolean;
           is_public: boolean | null;
           is_template: boolean | null;
           name: string;
+          premium_product_id: string | null;
           updated_at: string | null;
           workout_type: string | null;
         };
         Insert: {
           created_at?: string | null;
           creator_id?: string | null;
+          deleted_at?: string | null;
           description?: string | null;
           difficulty_level?: string | null;
           estimated_duration_minutes?: number | null;
+          fork_count?: number;
+          forked_from_workout_id?: number | null;
           id?: number;
+          is_premium_copy?: boolean;
           is_public?: boolean | null;
           is_template?: boolean | null;
           name: string;
+          premium_product_id?: string | null;
           updated_at?: string | null;
           workout_type?: string | null;
         };
         Update: {
           created_at?: string | null;
           creator_id?: string | null;
+          deleted_at?: string | null;
           description?: string | null;
           difficulty_level?: string | null;
           estimated_duration_minutes?: number | null;
+          fork_count?: number;
+          forked_from_workout_id?: number | null;
           id?: number;
+          is_premium_copy?: boolean;
           is_public?: boolean | null;
           is_template?: boolean | null;
           name?: string;
+          premium_product_id?: string | null;
           updated_at?: string | null;
           workout_type?: string | null;
         };
@@ -1048,6 +1646,13 @@ export type Database = {
             referencedRelation: 'profiles';
             referencedColumns: ['id'];
           },
+          {
+            foreignKeyName: 'workouts_forked_from_workout_id_fkey';
+            columns: ['forked_from_workout_id'];
+            isOneToOne: false;
+            referencedRelation: 'workouts';
+            referencedColumns: ['id'];
+          },
         ];
       };
     };
@@ -1055,21 +1660,265 @@ export type Database = {
       [_ in never]: never;
     };
     Functions: {
+      approve_payment: {
+        Args: { p_payment_id: string; p_reason?: string };
+        Returns: {
+            amount_client_paid_cents: number;
+            amount_mismatch: boolean;
+            approved_at: string | null;
+            approved_by: string | null;
+            billing_period: string | null;
+            billing_period_days: number | null;
+            coach_id: string | null;
+            coach_net_cents: number;
+            created_at: string;
+            currency: string | null;
+            discount_cents: number;
+            entitlement_id: string | null;
+            fee_schedule_id: string | null;
+            id: string;
+            notes: string | null;
+            platform_fee_cents: number;
+            price_cents: number | null;
+            product_id: string | null;
+            promo_code: string | null;
+            promo_code_id: string | null;
+            receipt_url: string | null;
+            refunded_at: string | null;
+            refunded_cents: number;
+            refunded_coach_cents: number;
+            review_reason: string | null;
+            status: string;
+            updated_at: string;
+            user_id: string | null;
+        };
+      };
+      block_user: { Args: { p_user: string }; Returns: undefined };
       create_coaching_path: {
         Args: { baseline_metrics: Json; goal_type: string; weeks: number };
         Returns: string;
       };
+      create_payout_batch: {
+        Args: { p_period_end: string; p_period_start: string };
+        Returns: {
+          created_at: string;
+          created_by: string | null;
+          id: string;
+          paid_at: string | null;
+          period_end: string;
+          period_start: string;
+          reference: string | null;
+          status: string;
+        };
+      };
+      duplicate_workout: { Args: { p_workout_id: number }; Returns: number };
+      evaluate_my_achievements: {
+        Args: never;
+        Returns: {
+          category: string | null;
+          created_at: string | null;
+          criteria: Json;
+          description: string;
+          icon: string | null;
+          id: number;
+          is_active: boolean | null;
+          name: string;
+          points: number | null;
+        }[];
+      };
+      fork_workout: { Args: { p_workout_id: number }; Returns: number };
+      get_coach_balance: {
+        Args: { p_coach_id?: string };
+        Returns: { available_cents: number; paid_cents: number; pending_cents: number }[];
+      };
       get_coach_notes: {
         Args: { p_path_id: string; p_session_id: string };
         Returns: Json;
       };
+      get_leaderboard: {
+        Args: {
+          p_limit?: number;
+          p_metric?: string;
+          p_offset?: number;
+          p_scope?: string;
+          p_window?: string;
+        };
+        Returns: {
+          avatar_url: string | null;
+          full_name: string | null;
+          rank: number;
+          streak: number;
+          total_count: number;
+          user_id: string;
+          username: string;
+          value: number;
+          workouts: number;
+        }[];
+      };
+      get_leaderboard_rank: {
+        Args: { p_metric?: string; p_scope?: string; p_window?: string };
+        Returns: {
+          avatar_url: string | null;
+          full_name: string | null;
+          rank: number;
+          streak: number;
+          total_count: number;
+          user_id: string;
+          username: string;
+          value: number;
+          workouts: number;
+        }[];
+      };
+      get_workout_preview: { Args: { p_workout_id: number }; Returns: Json };
       has_entitlement: {
         Args: { p_feature_key?: string; p_product_id?: string; p_user: string };
         Returns: boolean;
       };
       is_admin: { Args: never; Returns: boolean };
+      mark_payout_batch_paid: {
+        Args: { p_batch_id: string; p_reference: string };
+        Returns: {
+          created_at: string;
+          created_by: string | null;
+          id: string;
+          paid_at: string | null;
+          period_end: string;
+          period_start: string;
+          reference: string | null;
+          status: string;
+        };
+      };
       recalculate_path: { Args: { p_path_id: string }; Returns: undefined };
+      refresh_entitlements_for_user: {
+        Args: { p_user_id: string };
+        Returns: { granted: number; revoked: number }[];
+      };
+      refund_payment: {
+        Args: { p_amount_cents?: number; p_payment_id: string; p_reason?: string };
+        Returns: {
+            amount_client_paid_cents: number;
+            amount_mismatch: boolean;
+            approved_at: string | null;
+            approved_by: string | null;
+            billing_period: string | null;
+            billing_period_days: number | null;
+            coach_id: string | null;
+            coach_net_cents: number;
+            created_at: string;
+            currency: string | null;
+            discount_cents: number;
+            entitlement_id: string | null;
+            fee_schedule_id: string | null;
+            id: string;
+            notes: string | null;
+            platform_fee_cents: number;
+            price_cents: number | null;
+            product_id: string | null;
+            promo_code: string | null;
+            promo_code_id: string | null;
+            receipt_url: string | null;
+            refunded_at: string | null;
+            refunded_cents: number;
+            refunded_coach_cents: number;
+            review_reason: string | null;
+            status: string;
+            updated_at: string;
+            user_id: string | null;
+        };
+      };
+      reject_payment: {
+        Args: { p_payment_id: string; p_reason?: string };
+        Returns: {
+            amount_client_paid_cents: number;
+            amount_mismatch: boolean;
+            approved_at: string | null;
+            approved_by: string | null;
+            billing_period: string | null;
+            billing_period_days: number | null;
+            coach_id: string | null;
+            coach_net_cents: number;
+            created_at: string;
+            currency: string | null;
+            discount_cents: number;
+            entitlement_id: string | null;
+            fee_schedule_id: string | null;
+            id: string;
+            notes: string | null;
+            platform_fee_cents: number;
+            price_cents: number | null;
+            product_id: string | null;
+            promo_code: string | null;
+            promo_code_id: string | null;
+            receipt_url: string | null;
+            refunded_at: string | null;
+            refunded_cents: number;
+            refunded_coach_cents: number;
+            review_reason: string | null;
+            status: string;
+            updated_at: string;
+            user_id: string | null;
+        };
+      };
+      revoke_payment: {
+        Args: { p_payment_id: string; p_reason?: string };
+        Returns: {
+            amount_client_paid_cents: number;
+            amount_mismatch: boolean;
+            approved_at: string | null;
+            approved_by: string | null;
+            billing_period: string | null;
+            billing_period_days: number | null;
+            coach_id: string | null;
+            coach_net_cents: number;
+            created_at: string;
+            currency: string | null;
+            discount_cents: number;
+            entitlement_id: string | null;
+            fee_schedule_id: string | null;
+            id: string;
+            notes: string | null;
+            platform_fee_cents: number;
+            price_cents: number | null;
+            product_id: string | null;
+            promo_code: string | null;
+            promo_code_id: string | null;
+            receipt_url: string | null;
+            refunded_at: string | null;
+            refunded_cents: number;
+            refunded_coach_cents: number;
+            review_reason: string | null;
+            status: string;
+            updated_at: string;
+            user_id: string | null;
+        };
+      };
+      save_workout_plan: {
+        Args: { p_details: Json; p_exercises: Json; p_groups: Json; p_workout_id: number };
+        Returns: undefined;
+      };
+      search_profiles: {
+        Args: { p_limit?: number; p_query: string };
+        Returns: {
+          avatar_url: string | null;
+          full_name: string | null;
+          id: string;
+          username: string;
+        }[];
+      };
+      send_friend_request: {
+        Args: { p_addressee: string };
+        Returns: {
+          addressee_id: string | null;
+          created_at: string | null;
+          id: number;
+          requester_id: string | null;
+          status: string | null;
+          updated_at: string | null;
+        };
+      };
+      start_coaching_path_from_product: { Args: { p_product_id: string }; Returns: string };
       update_workout_streak: { Args: { user_uuid: string }; Returns: undefined };
+      validate_promo_code: { Args: { p_code: string; p_product_id: string }; Returns: Json };
     };
     Enums: {
       [_ in never]: never;
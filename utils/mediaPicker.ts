@@ -0,0 +1,86 @@
+import { PostMediaKind } from '@/lib/supabase';
+
+export type PickedMedia = {
+  uri: string;
+  kind: PostMediaKind;
+  mimeType: string;
+  width?: number;
+  height?: number;
+  fileSize?: number | null;
+};
+
+// Longest edge for uploaded photos; feed tiles never render larger than this
+const MAX_IMAGE_DIMENSION = 1600;
+const IMAGE_QUALITY = 0.7;
+export const MAX_VIDEO_SECONDS = 60;
+export const MAX_VIDEO_BYTES = 50 * 1024 * 1024;
+
+// Resizes and re-encodes a photo as JPEG. Falls back to the original if the manipulator is missing.
+const compressImage = async (media: PickedMedia): Promise<PickedMedia> => {
+  try {
+    const manipulator = await import('expo-image-manipulator');
+    const longest = Math.max(media.width ?? 0, media.height ?? 0);
+    const actions =
+      longest > MAX_IMAGE_DIMENSION
+        ? [
+            {
+              resize:
+                (media.width ?? 0) >= (media.height ?? 0)
+                  ? { width: MAX_IMAGE_DIMENSION }
+                  : { height: MAX_IMAGE_DIMENSION },
+            },
+          ]
+        : [];
+    const result = await manipulator.manipulateAsync(media.uri, actions, {
+      compress: IMAGE_QUALITY,
+      format: manipulator.SaveFormat.JPEG,
+    });
+    return {
+      ...media,
+      uri: result.uri,
+      width: result.width,
+      height: result.height,
+      mimeType: 'image/jpeg',
+    };
+  } catch {
+    console.warn('expo-image-manipulator not available, uploading original image');
+    return media;
+  }
+};
+
+export async function pickPostMedia(limit: number): Promise<PickedMedia[]> {
+  if (limit <= 0) return [];
+
+  try {
+    // Dynamically import to avoid bundler errors when the module is unavailable
+    const picker = await import('expo-image-picker');
+    const permission = await picker.requestMediaLibraryPermissionsAsync();
+    if (!permission.granted) return [];
+
+    const result = await picker.launchImageLibraryAsync({
+      mediaTypes: ['images', 'videos'],
+      allowsMultipleSelection: true,
+      selectionLimit: limit,
+      quality: 1,
+      videoMaxDuration: MAX_VIDEO_SECONDS,
+      videoQuality: picker.UIImagePickerControllerQualityType.Medium,
+    });
+    if (result.canceled) return [];
+
+    const picked: PickedMedia[] = result.assets.slice(0, limit).map((asset) => ({
+      uri: asset.uri,
+      kind: asset.type === 'video' ? 'video' : 'image',
+      mimeType: asset.mimeType || (asset.type === 'video' ? 'video/mp4' : 'image/jpeg'),
+      width: asset.width,
+      height: asset.height,
+      fileSize: asset.fileSize ?? null,
+    }));
+
+    return Promise.all(
+      picked.map((media) => (media.kind === 'image' ? compressImage(media) : media))
+    );
+  } catch {
+    console.warn('expo-image-picker not available, returning no media');
+    return [];
+  }
+}
@@ -16,12 +16,23 @@ export const routes = {
   coachingPaths: '/(tabs)/coaching-paths',
   createCoachingPath: '/coaching/create-path',
   createWorkout: '/(tabs)/create-workout',
+  editWorkout: (workoutId: number | string) => ({
+    pathname: '/(tabs)/create-workout',
+    params: { workoutId: workoutId.toString() },
+  }),
   progress: '/(tabs)/progress',
   social: '/(tabs)/social',
+  friends: '/social/friends',
   profile: '/(tabs)/profile',
   editProfile: '/(tabs)/edit-profile',
   adminPayments: '/payments/admin',
+  adminPayouts: '/payments/payouts',
   coachPayments: '/payments/coach',
   coachProducts: '/coach/products',
+  coachPromoCodes: '/coach/promo-codes',
   marketplace: '/(tabs)/marketplace',
+  marketplaceProduct: (productId: string) => ({
+    pathname: '/(tabs)/marketplace',
+    params: { productId },
+  }),
 };